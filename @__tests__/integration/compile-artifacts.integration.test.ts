@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { POST as compileRoute } from '@/app/api/compile-pdf/route';
+import { gzipSync } from 'zlib';
+import { GET as artifactRoute } from '@/app/api/compile-pdf/artifacts/[artifactId]/route';
+import { GET as synctexRoute } from '@/app/api/compile-pdf/artifacts/[artifactId]/synctex/route';
+import { setCompileCacheBackend } from '@/app/api/compile-pdf/cache';
+import {
+  parseRangeHeader,
+  setCompileArtifactStore,
+} from '@/app/api/compile-pdf/artifact-store';
+import { MemoryCompileCache } from '@/lib/compile-cache';
+
+const files = [
+  {
+    path: 'main.tex',
+    content: '\\documentclass{article}\\begin{document}Hi\\end{document}',
+  },
+];
+
+// Bytes above 0x7f would not survive a UTF-8 round trip
+const pdf = Buffer.concat([
+  Buffer.from('%PDF-1.5\n%'),
+  Buffer.from([0xe2, 0xe3, 0xcf, 0xd3]),
+  Buffer.from('\n%%EOF\n'),
+]);
+
+function pdfResponse(): Response {
+  return new Response(new Uint8Array(pdf), {
+    status: 200,
+    headers: { 'content-type': 'application/pdf' },
+  });
+}
+
+async function compile(delivery?: string) {
+  const req = new Request('http://localhost/api/compile-pdf', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ files, projectId: 'artifact-test', delivery }),
+  });
+  const res = await compileRoute(req);
+  return { status: res.status, data: await res.json() };
+}
+
+function getArtifact(artifactId: string, headers: Record<string, string> = {}) {
+  return artifactRoute(
+    new Request(`http://localhost/api/compile-pdf/artifacts/${artifactId}`, {
+      headers,
+    }),
+    { params: Promise.resolve({ artifactId }) }
+  );
+}
+
+describe('compile artifacts', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    setCompileCacheBackend(
+      new MemoryCompileCache({ ttlMs: 60_000, maxEntries: 8, maxBytes: 1e6 })
+    );
+    setCompileArtifactStore();
+  });
+
+  it('returns an artifact URL instead of base64 when asked', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValueOnce(pdfResponse());
+
+    const { status, data } = await compile('artifact');
+    expect(status).toBe(200);
+    expect(data.pdf).toBeUndefined();
+    expect(data.artifactId).toMatch(/^[a-f0-9]{64}$/);
+    expect(data.pdfUrl).toBe(`/api/compile-pdf/artifacts/${data.artifactId}`);
+
+    // The cache holds the artifact id, so base64 callers still get the PDF
+    const cached = await compile();
+    expect(cached.data.debugInfo.cacheStatus).toBe('hit');
+    expect(Buffer.from(cached.data.pdf, 'base64')).toEqual(pdf);
+  });
+
+  it('serves the PDF with ETag and byte ranges', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValueOnce(pdfResponse());
+    const { data } = await compile('artifact');
+
+    const full = await getArtifact(data.artifactId);
+    expect(full.status).toBe(200);
+    expect(full.headers.get('content-type')).toBe('application/pdf');
+    expect(full.headers.get('accept-ranges')).toBe('bytes');
+    expect(full.headers.get('content-length')).toBe(String(pdf.length));
+    expect(Buffer.from(await full.arrayBuffer())).toEqual(pdf);
+
+    const etag = full.headers.get('etag')!;
+    expect(
+      (await getArtifact(data.artifactId, { 'If-None-Match': etag })).status
+    ).toBe(304);
+
+    const partial = await getArtifact(data.artifactId, { Range: 'bytes=0-3' });
+    expect(partial.status).toBe(206);
+    expect(partial.headers.get('content-range')).toBe(
+      `bytes 0-3/${pdf.length}`
+    );
+    expect(Buffer.from(await partial.arrayBuffer()).toString()).toBe('%PDF');
+
+    // A stale If-Range gets the whole, current PDF
+    const stale = await getArtifact(data.artifactId, {
+      Range: 'bytes=0-3',
+      'If-Range': '"other"',
+    });
+    expect(stale.status).toBe(200);
+
+    const beyond = await getArtifact(data.artifactId, {
+      Range: `bytes=${pdf.length}-`,
+    });
+    expect(beyond.status).toBe(416);
+    expect(beyond.headers.get('content-range')).toBe(`bytes */${pdf.length}`);
+
+    expect((await getArtifact('f'.repeat(64))).status).toBe(404);
+    expect((await getArtifact('../secret')).status).toBe(400);
+  });
+
+  it('compiles again when the artifact behind a cache hit was evicted', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(pdfResponse())
+      .mockResolvedValueOnce(pdfResponse());
+
+    await compile('artifact');
+    setCompileArtifactStore();
+
+    const { data } = await compile('artifact');
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(data.debugInfo.cacheStatus).toBe('miss');
+    expect((await getArtifact(data.artifactId)).status).toBe(200);
+  });
+
+  it('keeps the SyncTeX data the service sends next to the PDF', async () => {
+    const synctex = 'SyncTeX Version:1\nInput:1:/tmp/job/./main.tex\n';
+    vi.spyOn(global, 'fetch').mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          pdf: pdf.toString('base64'),
+          log: '',
+          synctex: gzipSync(synctex).toString('base64'),
+        }),
+        { status: 200, headers: { 'content-type': 'application/json' } }
+      )
+    );
+
+    const { data } = await compile('artifact');
+    expect(data.synctexUrl).toBe(`${data.pdfUrl}/synctex`);
+
+    const res = await synctexRoute(
+      new Request(`http://localhost${data.synctexUrl}`),
+      { params: Promise.resolve({ artifactId: data.artifactId }) }
+    );
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe(synctex);
+  });
+
+  it('parses single byte ranges', () => {
+    expect(parseRangeHeader('bytes=2-', 10)).toEqual({ start: 2, end: 9 });
+    expect(parseRangeHeader('bytes=-4', 10)).toEqual({ start: 6, end: 9 });
+    expect(parseRangeHeader('bytes=5-100', 10)).toEqual({ start: 5, end: 9 });
+    expect(parseRangeHeader('bytes=0-1,4-5', 10)).toBeNull();
+    expect(parseRangeHeader('bytes=7-3', 10)).toBe('unsatisfiable');
+    expect(parseRangeHeader(null, 10)).toBeNull();
+  });
+});
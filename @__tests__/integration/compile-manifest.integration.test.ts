@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { POST as compileRoute } from '@/app/api/compile-pdf/route';
+import { setCompileCacheBackend } from '@/app/api/compile-pdf/cache';
+import {
+  hashFileContent,
+  setCompileBlobStore,
+} from '@/app/api/compile-pdf/blobs';
+import { MemoryCompileCache } from '@/lib/compile-cache';
+import { buildFileManifest } from '@/lib/utils/file-manifest';
+
+const mainTex = String.raw`\documentclass{article}
+\usepackage{graphicx}
+\begin{document}
+\includegraphics{figure.png}
+\end{document}`;
+
+const figure = Buffer.from('not really a png').toString('base64');
+
+const files = [
+  { path: 'main.tex', content: mainTex },
+  { path: 'figure.png', content: figure, encoding: 'base64' },
+];
+
+function pdfResponse(): Response {
+  return new Response(Buffer.from('%PDF\n'), {
+    status: 200,
+    headers: { 'content-type': 'application/pdf' },
+  });
+}
+
+async function compile(body: Record<string, unknown>) {
+  const req = new Request('http://localhost/api/compile-pdf', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const res = await compileRoute(req);
+  return { status: res.status, data: await res.json() };
+}
+
+function forwardedBody(
+  fetchSpy: { mock: { calls: unknown[][] } },
+  call: number
+) {
+  const [, init] = fetchSpy.mock.calls[call] as [string, RequestInit];
+  return JSON.parse(String(init.body));
+}
+
+describe('incremental compile uploads', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    setCompileCacheBackend(
+      new MemoryCompileCache({ ttlMs: 60_000, maxEntries: 8, maxBytes: 1e6 })
+    );
+    setCompileBlobStore();
+  });
+
+  afterEach(() => {
+    delete process.env.COMPILE_SERVICE_INCREMENTAL;
+  });
+
+  it('hashes files the same way in the browser and on the server', async () => {
+    const manifest = await buildFileManifest(files);
+    expect(manifest?.map((entry) => entry.hash)).toEqual(
+      files.map((file) => hashFileContent(file.content))
+    );
+    expect(manifest?.[1]).toMatchObject({ encoding: 'base64' });
+  });
+
+  it('compiles from stored contents and asks only for unknown ones', async () => {
+    const manifest = await buildFileManifest(files);
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(pdfResponse())
+      .mockResolvedValueOnce(pdfResponse());
+
+    // First compile uploads everything
+    const first = await compile({ files, manifest, projectId: 'p1' });
+    expect(first.status).toBe(200);
+
+    // The next one sends only the edited file
+    const edited = `${mainTex}\n% edited`;
+    const editedManifest = await buildFileManifest([
+      { path: 'main.tex', content: edited },
+      files[1],
+    ]);
+    const second = await compile({
+      files: [{ path: 'main.tex', content: edited }],
+      manifest: editedManifest,
+      projectId: 'p1',
+    });
+    expect(second.status).toBe(200);
+    expect(forwardedBody(fetchSpy, 1).files).toEqual([
+      expect.objectContaining({ path: 'main.tex', content: edited }),
+      expect.objectContaining({ path: 'figure.png', content: figure }),
+    ]);
+
+    // Contents the server never saw are requested by hash
+    const unknown = await compile({
+      files: [],
+      manifest: [
+        { path: 'main.tex', hash: 'a'.repeat(64), size: 1 },
+        ...(editedManifest ?? []).slice(1),
+      ],
+    });
+    expect(unknown.status).toBe(409);
+    expect(unknown.data.missing).toEqual(['a'.repeat(64)]);
+  });
+
+  it('re-uploads to the compile service only what it is missing', async () => {
+    process.env.COMPILE_SERVICE_INCREMENTAL = 'true';
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(pdfResponse())
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ missing: [hashFileContent(figure)] }), {
+          status: 409,
+          headers: { 'content-type': 'application/json' },
+        })
+      )
+      .mockResolvedValueOnce(pdfResponse());
+
+    // Nothing is known to the service yet, so everything goes up
+    expect((await compile({ files, projectId: 'p2' })).status).toBe(200);
+    expect(forwardedBody(fetchSpy, 0).files).toHaveLength(2);
+    expect(forwardedBody(fetchSpy, 0).manifest).toHaveLength(2);
+
+    // After an edit only main.tex is sent; the service has since lost the
+    // figure, so it asks for it and gets just that
+    const edited = [{ path: 'main.tex', content: `${mainTex} ` }, files[1]];
+    expect((await compile({ files: edited, projectId: 'p2' })).status).toBe(
+      200
+    );
+    expect(forwardedBody(fetchSpy, 1).files).toEqual([
+      expect.objectContaining({ path: 'main.tex' }),
+    ]);
+    expect(forwardedBody(fetchSpy, 2).files).toEqual([
+      expect.objectContaining({ path: 'figure.png' }),
+    ]);
+    expect(
+      forwardedBody(fetchSpy, 2).manifest.map(
+        (entry: { path: string }) => entry.path
+      )
+    ).toEqual(['main.tex', 'figure.png']);
+  });
+});
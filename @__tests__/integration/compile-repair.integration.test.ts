@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readSSEStream } from '@/lib/utils/sse';
+import type { LineEdit } from '@/lib/lars-agent/line-edits';
+import type { CompileRepairResult } from '@/types/compilation';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => ({
+    auth: {
+      getUser: async () => ({
+        data: { user: { id: 'user_1' } },
+        error: null,
+      }),
+    },
+  }),
+}));
+
+const mainTex = [
+  '\\documentclass{article}',
+  '\\begin{document}',
+  'We measured the \\dose{} rate.',
+  '\\end{document}',
+].join('\n');
+
+const files = [{ path: 'main.tex', content: mainTex }];
+
+function errorLog(count: number): string {
+  const errors = Array.from(
+    { length: count },
+    (_, index) =>
+      `! Undefined control sequence.\nl.${3 + index} We measured the \\dose\n{} rate.\n`
+  );
+  return `This is pdfTeX\n(./main.tex\n${errors.join('\n')})\n`;
+}
+
+const pdfBase64 = Buffer.from('%PDF-1.5\n%%EOF\n').toString('base64');
+
+function agentResponse(edits: LineEdit[], text = 'Fixed it.'): Response {
+  const events: Array<[string, unknown]> = [['status', { state: 'started' }]];
+  if (edits.length > 0) events.push(['edits', edits]);
+  events.push(['done', { text }]);
+  return new Response(
+    events
+      .map(
+        ([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+      )
+      .join(''),
+    { status: 200, headers: { 'content-type': 'text/event-stream' } }
+  );
+}
+
+function compiled(): Response {
+  return new Response(JSON.stringify({ pdf: pdfBase64, log: '' }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function failed(errors: number): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'LaTeX compilation failed',
+      log: errorLog(errors),
+    }),
+    { status: 400, headers: { 'content-type': 'application/json' } }
+  );
+}
+
+const addPackage: LineEdit = {
+  editType: 'insert',
+  position: { line: 2 },
+  content: '\\newcommand{\\dose}{D}\n',
+  originalLineCount: 0,
+  explanation: 'Define \\dose',
+  filePath: 'main.tex',
+};
+
+async function repair(
+  error = { message: 'LaTeX compilation failed', log: errorLog(2) }
+) {
+  const { POST } = await import('@/app/api/lars-agent/repair/route');
+  const res = await POST(
+    new Request('http://localhost/api/lars-agent/repair', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ files, projectId: 'repair-test', error }),
+    })
+  );
+  expect(res.headers.get('content-type')).toBe('text/event-stream');
+
+  const events: Array<{ event: string; data: any }> = [];
+  await readSSEStream(res.body!, (event, data) => events.push({ event, data }));
+  return {
+    attempts: events
+      .filter((event) => event.event === 'attempt')
+      .map((event) => event.data),
+    result: events.find((event) => event.event === 'result')
+      ?.data as CompileRepairResult,
+  };
+}
+
+function requestBody(fetchSpy: { mock: { calls: unknown[][] } }, call: number) {
+  return JSON.parse(String((fetchSpy.mock.calls[call][1] as RequestInit).body));
+}
+
+describe('compile repair route', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.resetModules();
+    process.env.AGENT_SERVICE_URL = 'https://agent.test/agent';
+    process.env.COMPILE_SERVICE_URL = 'https://compile.test';
+  });
+
+  it('compiles the proposal in a sandbox and returns edits that fix the build', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(agentResponse([addPackage]))
+      .mockResolvedValueOnce(compiled());
+
+    const { attempts, result } = await repair();
+
+    expect(requestBody(fetchSpy, 0)).toMatchObject({
+      mode: 'repair',
+      currentFilePath: 'main.tex',
+      fileContent: mainTex,
+      compileError: {
+        diagnostics: [
+          expect.objectContaining({ file: 'main.tex', line: 3 }),
+          expect.objectContaining({ file: 'main.tex', line: 4 }),
+        ],
+        previousAttempts: [],
+      },
+    });
+    // The candidate is compiled, the project itself is untouched
+    expect(requestBody(fetchSpy, 1).files[0].content).toBe(
+      mainTex.replace(
+        '\\begin{document}',
+        '\\newcommand{\\dose}{D}\n\\begin{document}'
+      )
+    );
+
+    expect(attempts.map((attempt) => attempt.stage)).toEqual([
+      'proposing',
+      'compiling',
+      'done',
+    ]);
+    expect(attempts[2]).toMatchObject({ outcome: 'resolved', errors: 0 });
+    expect(result).toEqual({
+      resolved: true,
+      baselineErrors: 2,
+      errors: 0,
+      attempt: 1,
+      edits: [addPackage],
+    });
+  });
+
+  it('retries with the remaining errors and keeps the best attempt', async () => {
+    const replaceLine: LineEdit = {
+      editType: 'replace',
+      position: { line: 3 },
+      content: 'We measured the dose rate.',
+      originalLineCount: 1,
+      explanation: 'Drop the macro',
+      filePath: 'main.tex',
+    };
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(agentResponse([addPackage]))
+      .mockResolvedValueOnce(failed(3))
+      .mockResolvedValueOnce(agentResponse([replaceLine]))
+      .mockResolvedValueOnce(failed(1))
+      .mockResolvedValueOnce(agentResponse([addPackage, replaceLine]))
+      .mockResolvedValueOnce(failed(1));
+
+    const { attempts, result } = await repair();
+
+    expect(fetchSpy).toHaveBeenCalledTimes(6);
+    expect(requestBody(fetchSpy, 2).compileError.previousAttempts).toEqual([
+      {
+        attempt: 1,
+        explanations: ['Define \\dose'],
+        errors: [
+          'main.tex:3: error: Undefined control sequence.',
+          'main.tex:4: error: Undefined control sequence.',
+          'main.tex:5: error: Undefined control sequence.',
+        ],
+      },
+    ]);
+    expect(
+      attempts
+        .filter((attempt) => attempt.stage === 'done')
+        .map((attempt) => attempt.outcome)
+    ).toEqual(['worse', 'improved', 'improved']);
+    expect(result).toMatchObject({
+      resolved: false,
+      baselineErrors: 2,
+      errors: 1,
+      attempt: 2,
+      edits: [replaceLine],
+    });
+  });
+
+  it('surfaces no edits when nothing reduces the errors', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(agentResponse([addPackage]))
+      .mockResolvedValueOnce(failed(2))
+      .mockResolvedValueOnce(
+        agentResponse([], 'The image file is missing from the project.')
+      );
+
+    const { attempts, result } = await repair();
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(attempts.at(-1)).toMatchObject({
+      attempt: 2,
+      outcome: 'no_edits',
+      summary: 'The image file is missing from the project.',
+    });
+    expect(result).toEqual({
+      resolved: false,
+      baselineErrors: 2,
+      errors: 2,
+      attempt: null,
+      edits: [],
+    });
+  });
+
+  it('rejects a request without the error to repair', async () => {
+    const { POST } = await import('@/app/api/lars-agent/repair/route');
+    const res = await POST(
+      new Request('http://localhost/api/lars-agent/repair', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ files }),
+      })
+    );
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { POST as compileRoute } from '@/app/api/compile-pdf/route';
+import { parseCompileSettings } from '@/lib/utils/compile-settings';
+
+const mainTex = String.raw`\documentclass{article}
+\begin{document}
+\input{chapters/intro}
+\end{document}`;
+
+const introTex = String.raw`\section{Introduction}
+Hello.`;
+
+function mockPdfResponse(): Response {
+  return new Response(Buffer.from('%PDF\n'), {
+    status: 200,
+    headers: { 'content-type': 'application/pdf' },
+  });
+}
+
+async function compile(body: Record<string, unknown>) {
+  const fetchSpy = vi
+    .spyOn(global, 'fetch')
+    .mockResolvedValueOnce(mockPdfResponse());
+
+  const req = new Request('http://localhost/api/compile-pdf', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const res = await compileRoute(req);
+
+  expect(res.status).toBe(200);
+  const [, init] = fetchSpy.mock.calls[0];
+  return JSON.parse(String(init?.body));
+}
+
+describe('compile settings', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    process.env.COMPILE_SERVICE_URL =
+      process.env.COMPILE_SERVICE_URL || 'https://example.com';
+  });
+
+  it('compiles the root document while a chapter is being edited', async () => {
+    const forwarded = await compile({
+      files: [
+        { path: 'main.tex', content: mainTex },
+        { path: 'chapters/intro.tex', content: introTex },
+      ],
+      projectId: 'settings-root-detect',
+      lastModifiedFile: 'chapters/intro.tex',
+    });
+
+    expect(forwarded).toMatchObject({
+      rootFile: 'main.tex',
+      lastModifiedFile: 'chapters/intro.tex',
+      engine: 'pdflatex',
+      bibliographyTool: 'auto',
+      shellEscape: false,
+      draftMode: false,
+    });
+  });
+
+  it('forwards the project settings to the compile service', async () => {
+    const forwarded = await compile({
+      files: [
+        { path: 'report.tex', content: mainTex },
+        { path: 'chapters/intro.tex', content: introTex },
+      ],
+      projectId: 'settings-explicit',
+      lastModifiedFile: 'chapters/intro.tex',
+      settings: {
+        rootFile: 'report.tex',
+        engine: 'xelatex',
+        bibliographyTool: 'biber',
+        shellEscape: true,
+        draftMode: true,
+      },
+    });
+
+    expect(forwarded).toMatchObject({
+      rootFile: 'report.tex',
+      engine: 'xelatex',
+      bibliographyTool: 'biber',
+      shellEscape: true,
+      draftMode: true,
+    });
+  });
+
+  it('falls back to defaults for unknown or unsafe values', () => {
+    expect(
+      parseCompileSettings({
+        rootFile: '../secrets.tex',
+        engine: 'latex',
+        bibliographyTool: 'bibtex',
+        shellEscape: 'yes',
+      })
+    ).toEqual({
+      rootFile: null,
+      engine: 'pdflatex',
+      bibliographyTool: 'bibtex',
+      shellEscape: false,
+      draftMode: false,
+    });
+  });
+});
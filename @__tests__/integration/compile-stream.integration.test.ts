@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { POST as compileStreamRoute } from '@/app/api/compile-pdf/stream/route';
+import { setCompileCacheBackend } from '@/app/api/compile-pdf/cache';
+import { MemoryCompileCache } from '@/lib/compile-cache';
+import { applyCompileProgress } from '@/lib/utils/compilation';
+import { readSSEStream } from '@/lib/utils/sse';
+import type { CompileProgress } from '@/types/compilation';
+
+const history = vi.hoisted(() => ({
+  owner: { projectId: 'stream-test', userId: 'user-1' },
+  scheduleCompilationRecord: vi.fn(),
+}));
+
+vi.mock('@/app/api/compile-pdf/history', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  getCompilationOwner: async () => history.owner,
+  scheduleCompilationRecord: history.scheduleCompilationRecord,
+}));
+
+const files = [
+  {
+    path: 'main.tex',
+    content: '\\documentclass{article}\\begin{document}Hi\\end{document}',
+  },
+];
+
+const pdfBase64 = Buffer.from('%PDF-1.5\n').toString('base64');
+
+function serviceStream(events: Array<[string, unknown]>): Response {
+  const body = events
+    .map(
+      ([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+    )
+    .join('');
+  return new Response(body, {
+    status: 200,
+    headers: { 'content-type': 'text/event-stream' },
+  });
+}
+
+async function compileStream(signal?: AbortSignal) {
+  const req = new Request('http://localhost/api/compile-pdf/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ files, projectId: 'stream-test' }),
+    signal,
+  });
+  const res = await compileStreamRoute(req);
+  expect(res.headers.get('content-type')).toBe('text/event-stream');
+
+  const events: Array<{ event: string; data: unknown }> = [];
+  await readSSEStream(res.body!, (event, data) => events.push({ event, data }));
+  return events;
+}
+
+describe('streaming compile route', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    history.scheduleCompilationRecord.mockReset();
+    setCompileCacheBackend(
+      new MemoryCompileCache({ ttlMs: 60_000, maxEntries: 8, maxBytes: 1e6 })
+    );
+  });
+
+  it('relays queue, passes and log lines before the PDF', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValueOnce(
+      serviceStream([
+        ['queue', { position: 2 }],
+        ['pass', { pass: 1, tool: 'latex' }],
+        ['log', { line: 'This is pdfTeX\n(./main.tex' }],
+        ['pass', { pass: 2, tool: 'bibtex' }],
+        ['result', { pdf: pdfBase64 }],
+      ])
+    );
+
+    const events = await compileStream();
+
+    expect(JSON.parse(String(fetchSpy.mock.calls[0][1]?.body))).toMatchObject({
+      stream: true,
+    });
+    expect(events.map((e) => e.event)).toEqual([
+      'status',
+      'queue',
+      'pass',
+      'log',
+      'pass',
+      'result',
+    ]);
+    expect(events[3].data).toEqual({
+      lines: ['This is pdfTeX', '(./main.tex'],
+    });
+    expect(events[5].data).toMatchObject({
+      pdf: pdfBase64,
+      debugInfo: { cacheStatus: 'miss' },
+    });
+
+    // A second compile of the same sources is served from the cache
+    const cached = await compileStream();
+    expect(cached.map((e) => e.event)).toEqual(['result']);
+    expect(cached[0].data).toMatchObject({ debugInfo: { cacheStatus: 'hit' } });
+  });
+
+  it('falls back to a plain PDF response from older services', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValueOnce(
+      new Response(Buffer.from('%PDF-1.5\n'), {
+        status: 200,
+        headers: { 'content-type': 'application/pdf' },
+      })
+    );
+
+    const events = await compileStream();
+    expect(events.map((e) => e.event)).toEqual(['status', 'result']);
+  });
+
+  it('reports compile errors with the streamed log', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValueOnce(
+      serviceStream([
+        ['pass', { pass: 1, tool: 'latex' }],
+        ['log', { line: '! Undefined control sequence.\nl.3 \\foo' }],
+        ['error', { error: 'LaTeX compilation failed' }],
+      ])
+    );
+
+    const events = await compileStream();
+    const last = events[events.length - 1];
+    expect(last.event).toBe('error');
+    expect(last.data).toMatchObject({
+      error: 'LaTeX compilation failed',
+      log: '! Undefined control sequence.\nl.3 \\foo',
+    });
+    expect(history.scheduleCompilationRecord).toHaveBeenCalledWith(
+      history.owner,
+      expect.anything(),
+      expect.objectContaining({ status: 'error' })
+    );
+  });
+
+  it('does not record a compile the browser cancelled as failed', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockImplementationOnce(
+        (_url, init) =>
+          new Promise((_resolve, reject) =>
+            init?.signal?.addEventListener('abort', () =>
+              reject(
+                Object.assign(new Error('Aborted'), { name: 'AbortError' })
+              )
+            )
+          )
+      );
+    const controller = new AbortController();
+
+    const compiling = compileStream(controller.signal);
+    await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalled());
+    controller.abort();
+    const events = await compiling;
+
+    expect(events[events.length - 1].data).toMatchObject({
+      error: 'LaTeX compilation cancelled',
+    });
+    expect(history.scheduleCompilationRecord).not.toHaveBeenCalled();
+  });
+
+  it('folds stream events into the progress shown in the preview', () => {
+    let progress: CompileProgress = { stage: 'queued', logLines: [] };
+    progress = applyCompileProgress(progress, 'queue', { position: 3 });
+    expect(progress).toMatchObject({ stage: 'queued', queuePosition: 3 });
+
+    progress = applyCompileProgress(progress, 'pass', {
+      pass: 2,
+      tool: 'biber',
+    });
+    progress = applyCompileProgress(progress, 'log', { lines: ['a', 'b'] });
+    expect(progress).toMatchObject({
+      stage: 'running',
+      pass: 2,
+      tool: 'biber',
+      logLines: ['a', 'b'],
+    });
+  });
+});
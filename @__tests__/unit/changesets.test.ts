@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findRevertConflicts,
+  mergeFileChanges,
+  revertOperation,
+} from '@/lib/lars-agent/changesets';
+import type { FileChange } from '@/types/edit';
+
+const intro: FileChange = {
+  filePath: 'intro.tex',
+  before: 'Old intro.',
+  after: 'New intro.',
+};
+
+describe('mergeFileChanges', () => {
+  it('keeps the first text before and the latest text after', () => {
+    const merged = mergeFileChanges(
+      [intro],
+      [
+        { filePath: 'intro.tex', before: 'New intro.', after: 'Newer intro.' },
+        { filePath: 'main.tex', before: 'a', after: 'b' },
+      ]
+    );
+
+    expect(merged).toEqual([
+      {
+        filePath: 'intro.tex',
+        before: 'Old intro.',
+        after: 'Newer intro.',
+        editedInBetween: false,
+      },
+      { filePath: 'main.tex', before: 'a', after: 'b' },
+    ]);
+  });
+
+  it('flags a file the user edited between two accepts', () => {
+    const [merged] = mergeFileChanges(
+      [intro],
+      [{ filePath: 'intro.tex', before: 'Typed.', after: 'Accepted.' }]
+    );
+    expect(merged.editedInBetween).toBe(true);
+  });
+
+  it('drops a file that was created and deleted again', () => {
+    const created: FileChange = {
+      filePath: 'appendix.tex',
+      before: '',
+      after: 'Draft.',
+      operation: 'create',
+    };
+    expect(
+      mergeFileChanges(
+        [created],
+        [{ ...created, before: 'Draft.', after: '', operation: 'delete' }]
+      )
+    ).toEqual([]);
+  });
+
+  it('turns edits followed by a delete into a delete of the first text', () => {
+    const [merged] = mergeFileChanges(
+      [intro],
+      [
+        {
+          filePath: 'intro.tex',
+          before: 'New intro.',
+          after: '',
+          operation: 'delete',
+        },
+      ]
+    );
+    expect(merged).toMatchObject({
+      before: 'Old intro.',
+      after: '',
+      operation: 'delete',
+    });
+  });
+});
+
+describe('findRevertConflicts', () => {
+  const files: FileChange[] = [
+    intro,
+    { filePath: 'main.tex', before: 'a', after: 'b\nc' },
+    { filePath: 'gone.tex', before: 'x', after: 'y' },
+  ];
+
+  it('lists files changed since the accept', () => {
+    const current: Record<string, string> = {
+      'intro.tex': 'New intro. Typed later.',
+      'main.tex': 'b\r\nc',
+    };
+    expect(
+      findRevertConflicts(files, (filePath) => current[filePath] ?? null)
+    ).toEqual(['intro.tex']);
+  });
+
+  it('treats edits between accepts as a conflict', () => {
+    expect(
+      findRevertConflicts(
+        [{ ...intro, editedInBetween: true }],
+        () => 'New intro.'
+      )
+    ).toEqual(['intro.tex']);
+  });
+});
+
+describe('revertOperation', () => {
+  it('undoes created, renamed and deleted files', () => {
+    expect(
+      revertOperation({
+        filePath: 'a.tex',
+        before: '',
+        after: 'x',
+        operation: 'create',
+      })
+    ).toEqual({ editType: 'delete_file', filePath: 'a.tex' });
+    expect(
+      revertOperation({
+        filePath: 'a.tex',
+        before: 'x',
+        after: 'x',
+        operation: 'rename',
+        newFilePath: 'b.tex',
+      })
+    ).toEqual({
+      editType: 'rename_file',
+      filePath: 'b.tex',
+      newFilePath: 'a.tex',
+    });
+    expect(
+      revertOperation({
+        filePath: 'a.tex',
+        before: 'x',
+        after: '',
+        operation: 'delete',
+      })
+    ).toEqual({ editType: 'create_file', filePath: 'a.tex', content: 'x' });
+  });
+
+  it('cannot restore a deleted file whose text is unknown', () => {
+    expect(
+      revertOperation({
+        filePath: 'figure.png',
+        before: '',
+        after: '',
+        operation: 'delete',
+        contentUnknown: true,
+      })
+    ).toBeNull();
+  });
+
+  it('flags a deleted file whose path is taken again', () => {
+    expect(
+      findRevertConflicts(
+        [{ filePath: 'a.tex', before: 'x', after: '', operation: 'delete' }],
+        () => 'new'
+      )
+    ).toEqual(['a.tex']);
+  });
+});
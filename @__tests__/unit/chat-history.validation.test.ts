@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeTitle,
+  parseChatMessages,
+  sanitizeEdits,
+  sanitizeFileChanges,
+  sanitizeMessageContext,
+} from '@/app/api/projects/[projectId]/chat-sessions/validation';
+import { titleFromMessage } from '@/lib/requests/chat';
+
+const MESSAGE_ID = '3f2b8c1e-7a4d-4e5f-9b6a-1c2d3e4f5a6b';
+
+describe('chat history validation', () => {
+  it('keeps only well-formed edit fields', () => {
+    const edits = sanitizeEdits([
+      {
+        editType: 'replace',
+        content: '\\section{Results}',
+        position: { line: 4, column: 2 },
+        originalLineCount: 1,
+        id: 'client-only',
+        status: 'accepted',
+      },
+      { editType: 'unknown', content: 'x' },
+      null,
+    ]);
+
+    expect(edits).toEqual([
+      {
+        editType: 'replace',
+        content: '\\section{Results}',
+        position: { line: 4 },
+        originalLineCount: 1,
+      },
+    ]);
+    expect(sanitizeEdits('not an array')).toEqual([]);
+  });
+
+  it('parses messages with their proposed and accepted edits', () => {
+    const parsed = parseChatMessages({
+      messages: [
+        { id: MESSAGE_ID, role: 'user', content: 'Fix the intro' },
+        {
+          role: 'assistant',
+          content: 'Done',
+          proposedEdits: [{ editType: 'delete', position: { line: 2 } }],
+          acceptedEdits: [{ editType: 'delete', position: { line: 2 } }],
+          fileChanges: [{ filePath: 'intro.tex', before: 'a\nb', after: 'a' }],
+        },
+      ],
+    });
+
+    expect(parsed).toEqual({
+      messages: [
+        {
+          id: MESSAGE_ID,
+          role: 'user',
+          content: 'Fix the intro',
+          proposedEdits: [],
+          acceptedEdits: [],
+          fileChanges: [],
+        },
+        {
+          role: 'assistant',
+          content: 'Done',
+          proposedEdits: [{ editType: 'delete', position: { line: 2 } }],
+          acceptedEdits: [{ editType: 'delete', position: { line: 2 } }],
+          fileChanges: [{ filePath: 'intro.tex', before: 'a\nb', after: 'a' }],
+        },
+      ],
+    });
+  });
+
+  it('keeps only well-formed file changes', () => {
+    expect(
+      sanitizeFileChanges([
+        {
+          filePath: 'intro.tex',
+          before: 'Old.',
+          after: 'New.',
+          editedInBetween: true,
+          extra: 'x',
+        },
+        { filePath: 'main.tex', before: 'a' },
+        'intro.tex',
+      ])
+    ).toEqual([
+      {
+        filePath: 'intro.tex',
+        before: 'Old.',
+        after: 'New.',
+        editedInBetween: true,
+      },
+    ]);
+    expect(sanitizeFileChanges({})).toEqual([]);
+  });
+
+  it('keeps the selection and attachments sent with a message', () => {
+    expect(
+      sanitizeMessageContext({
+        attachments: '\nFile: notes.txt (text)\nContent:\nDose 2 Gy\n',
+        selection: {
+          text: 'We measured the dose.',
+          filePath: 'main.tex',
+          startLine: 4,
+          endLine: 4,
+          extra: true,
+        },
+      })
+    ).toEqual({
+      attachments: '\nFile: notes.txt (text)\nContent:\nDose 2 Gy\n',
+      selection: {
+        text: 'We measured the dose.',
+        filePath: 'main.tex',
+        startLine: 4,
+        endLine: 4,
+      },
+    });
+    expect(
+      sanitizeMessageContext({ attachments: ' ', selection: { text: 'x' } })
+    ).toBeUndefined();
+    expect(sanitizeMessageContext(null)).toBeUndefined();
+  });
+
+  it('rejects malformed message payloads', () => {
+    expect(parseChatMessages({ messages: [] })).toHaveProperty('error');
+    expect(
+      parseChatMessages({ messages: [{ role: 'system', content: 'x' }] })
+    ).toHaveProperty('error');
+    expect(
+      parseChatMessages({
+        messages: [{ id: '123-user', role: 'user', content: 'x' }],
+      })
+    ).toEqual({ error: 'Message ids must be UUIDs' });
+  });
+
+  it('normalizes titles', () => {
+    expect(normalizeTitle('  Methods   review ')).toBe('Methods review');
+    expect(normalizeTitle('   ')).toBeNull();
+    expect(normalizeTitle(42)).toBeNull();
+    expect(normalizeTitle('a'.repeat(200))).toHaveLength(120);
+  });
+
+  it('derives a session title from the first message line', () => {
+    expect(titleFromMessage('Rewrite the abstract\nmore detail')).toBe(
+      'Rewrite the abstract'
+    );
+    expect(titleFromMessage('   ')).toBe('New conversation');
+    const long = titleFromMessage('word '.repeat(40));
+    expect(long).toHaveLength(80);
+    expect(long.endsWith('…')).toBe(true);
+  });
+});
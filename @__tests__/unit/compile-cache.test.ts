@@ -0,0 +1,297 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  createCompileCacheBackend,
+  FsCompileCache,
+  MemoryCompileCache,
+  RedisCompileCache,
+} from '@/lib/compile-cache';
+import {
+  encodeCommand,
+  parseReply,
+  RespClient,
+  RespError,
+  type RespValue,
+} from '@/lib/compile-cache/resp';
+import {
+  buildCacheKey,
+  getCachedResponse,
+  getCacheStats,
+  setCompileCacheBackend,
+  storeCachedResponse,
+} from '@/app/api/compile-pdf/cache';
+
+const limits = { ttlMs: 60_000, maxEntries: 3, maxBytes: 1024 };
+const bytes = (value: string) => Buffer.from(value);
+
+// Just enough of a Redis server for the cache's commands
+function createFakeRedis() {
+  const strings = new Map<string, Buffer | number>();
+  const lru = new Map<string, number>();
+  const sizes = new Map<string, string>();
+  const commands: string[] = [];
+
+  const command = async (
+    args: Array<Buffer | string | number>
+  ): Promise<RespValue> => {
+    const [name, key, ...rest] = args.map((arg) =>
+      Buffer.isBuffer(arg) ? arg : String(arg)
+    );
+    const field = String(rest[0]);
+    commands.push(String(name));
+    switch (name) {
+      case 'GET': {
+        const value = strings.get(String(key));
+        return value === undefined ? null : Buffer.from(String(value));
+      }
+      case 'SET':
+        strings.set(String(key), rest[0] as Buffer);
+        return 'OK';
+      case 'DEL':
+        return Number(strings.delete(String(key)));
+      case 'INCRBY':
+      case 'DECRBY': {
+        const sign = name === 'INCRBY' ? 1 : -1;
+        const value = Number(strings.get(String(key)) ?? 0) + sign * +field;
+        strings.set(String(key), value);
+        return value;
+      }
+      case 'ZADD':
+        lru.set(String(rest[1]), Number(field));
+        return 1;
+      case 'ZREM':
+        return Number(lru.delete(field));
+      case 'ZCARD':
+        return lru.size;
+      case 'ZRANGE':
+        return [...lru.entries()]
+          .sort((a, b) => a[1] - b[1])
+          .slice(0, 1)
+          .map(([member]) => member);
+      case 'ZRANGEBYSCORE':
+        return [...lru.entries()]
+          .filter(([, score]) => score <= Number(rest[1]))
+          .map(([member]) => member);
+      case 'HGET':
+        return sizes.get(field) ?? null;
+      case 'HSET':
+        sizes.set(field, String(rest[1]));
+        return 1;
+      case 'HDEL':
+        return Number(sizes.delete(field));
+      default:
+        return 'OK';
+    }
+  };
+  return { client: { command } as unknown as RespClient, commands };
+}
+
+describe('compile cache backends', () => {
+  let tmpDir: string | null = null;
+
+  afterEach(async () => {
+    if (tmpDir) {
+      await rm(tmpDir, { recursive: true, force: true });
+      tmpDir = null;
+    }
+  });
+
+  it('evicts the least recently used entry from memory', async () => {
+    const cache = new MemoryCompileCache(limits);
+    await cache.set('a', bytes('A'));
+    await cache.set('b', bytes('B'));
+    await cache.set('c', bytes('C'));
+
+    // Reading "a" makes "b" the oldest
+    expect(await cache.get('a')).toEqual(bytes('A'));
+    expect(await cache.set('d', bytes('D'))).toBe(1);
+
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('a')).toEqual(bytes('A'));
+    expect(await cache.stats()).toEqual({
+      backend: 'memory',
+      size: 3,
+      bytes: 3,
+    });
+  });
+
+  it('evicts by total size', async () => {
+    const cache = new MemoryCompileCache({
+      ...limits,
+      maxEntries: 10,
+      maxBytes: 10,
+    });
+    await cache.set('a', bytes('12345'));
+    await cache.set('b', bytes('12345'));
+    expect(await cache.set('c', bytes('123'))).toBe(1);
+
+    expect(await cache.get('a')).toBeNull();
+    expect((await cache.stats()).bytes).toBe(8);
+  });
+
+  it('persists entries on disk across instances', async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), 'lars-cache-'));
+    const first = new FsCompileCache(tmpDir, limits);
+    // Raw bytes survive, including ones that are not valid UTF-8
+    const pdf = Buffer.from([0x25, 0x50, 0x44, 0x46, 0xe2, 0xe3, 0xcf, 0xd3]);
+    await first.set('abc123', pdf);
+
+    const second = new FsCompileCache(tmpDir, limits);
+    expect(await second.get('abc123')).toEqual(pdf);
+    expect(await second.get('missing')).toBeNull();
+    expect(await second.stats()).toEqual({ backend: 'fs', size: 1, bytes: 8 });
+    await expect(second.get('../escape')).rejects.toThrow(
+      'Invalid compile cache key'
+    );
+  });
+
+  it('evicts the least recently used entry on disk', async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), 'lars-cache-'));
+    const cache = new FsCompileCache(tmpDir, { ...limits, maxBytes: 6 });
+    await cache.set('a', bytes('AA'));
+    await cache.set('b', bytes('BB'));
+    await cache.set('a', bytes('AAA'));
+
+    // Rewriting "a" made it the newest, so "b" goes
+    expect(await cache.set('c', bytes('CC'))).toBe(1);
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.stats()).toEqual({ backend: 'fs', size: 2, bytes: 5 });
+  });
+
+  it('keeps a running byte total in Redis', async () => {
+    // Each command sees a later time, so the access order is unambiguous
+    let now = Date.now();
+    vi.spyOn(Date, 'now').mockImplementation(() => ++now);
+    const { client, commands } = createFakeRedis();
+    const cache = new RedisCompileCache(client, { ...limits, maxBytes: 6 });
+    await cache.set('a', bytes('AA'));
+    await cache.set('b', bytes('BB'));
+    await cache.set('a', bytes('AAA'));
+    expect(await cache.stats()).toEqual({
+      backend: 'redis',
+      size: 2,
+      bytes: 5,
+    });
+
+    expect(await cache.set('c', bytes('CC'))).toBe(1);
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.stats()).toEqual({
+      backend: 'redis',
+      size: 2,
+      bytes: 5,
+    });
+    expect(commands).not.toContain('HVALS');
+    vi.restoreAllMocks();
+  });
+
+  it('selects the backend from the environment', () => {
+    expect(createCompileCacheBackend({}).name).toBe('memory');
+    expect(
+      createCompileCacheBackend({
+        COMPILE_CACHE_BACKEND: 'fs',
+        COMPILE_CACHE_DIR: '/tmp/x',
+      }).limits.ttlMs
+    ).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(() =>
+      createCompileCacheBackend({ COMPILE_CACHE_BACKEND: 'redis' })
+    ).toThrow('COMPILE_CACHE_REDIS_URL');
+  });
+
+  it('encodes commands and parses replies in the Redis protocol', () => {
+    expect(encodeCommand(['SET', 'k', 'é']).toString()).toBe(
+      '*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$2\r\né\r\n'
+    );
+
+    const reply = Buffer.from('*3\r\n$1\r\na\r\n:2\r\n$-1\r\n+OK\r\n');
+    const first = parseReply(reply);
+    expect(first?.value).toEqual([bytes('a'), 2, null]);
+    expect(parseReply(reply, first?.offset)?.value).toBe('OK');
+
+    expect(parseReply(Buffer.from('$5\r\nab'))).toBeNull();
+    expect(parseReply(Buffer.from('-ERR nope\r\n'))?.value).toBeInstanceOf(
+      RespError
+    );
+
+    const withError = Buffer.from('*2\r\n-ERR x\r\n:1\r\n');
+    const parsed = parseReply(withError);
+    expect(parsed?.value).toBeInstanceOf(RespError);
+    expect(parsed?.offset).toBe(withError.length);
+  });
+});
+
+describe('compile cache facade', () => {
+  it('shares entries across projects and reports hit/miss metrics', async () => {
+    setCompileCacheBackend(new MemoryCompileCache(limits));
+    const files = [{ path: 'main.tex', content: '\\documentclass{article}' }];
+    const keyA = buildCacheKey({ files, projectId: 'a' });
+    const keyB = buildCacheKey({ files, projectId: 'b' });
+    expect(keyA).toBe(keyB);
+
+    expect(await getCachedResponse(keyA)).toBeNull();
+    await storeCachedResponse(keyA, {
+      artifactId: 'f'.repeat(64),
+      size: 4,
+      mimeType: 'application/pdf',
+    });
+    expect(await getCachedResponse(keyB)).toMatchObject({
+      artifactId: 'f'.repeat(64),
+    });
+
+    expect(await getCacheStats()).toMatchObject({
+      backend: 'memory',
+      size: 1,
+      hits: 1,
+      misses: 1,
+      stores: 1,
+      hitRate: 0.5,
+    });
+  });
+
+  describe('RespClient', () => {
+    const servers: net.Server[] = [];
+
+    afterEach(async () => {
+      await Promise.all(
+        servers
+          .splice(0)
+          .map((server) => new Promise((resolve) => server.close(resolve)))
+      );
+    });
+
+    // A server that answers every chunk it receives with the same reply
+    async function serve(reply: string): Promise<string> {
+      const server = net.createServer((socket) =>
+        socket.on('data', () => socket.write(reply))
+      );
+      servers.push(server);
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve)
+      );
+      const { port } = server.address() as net.AddressInfo;
+      return `127.0.0.1:${port}`;
+    }
+
+    it('rejects waiting commands on a reply it cannot parse', async () => {
+      const client = new RespClient(`redis://${await serve('?what\r\n')}`);
+
+      await expect(client.command(['PING'])).rejects.toThrow(
+        'Unexpected reply type'
+      );
+      client.close();
+    });
+
+    it('fails the connection when AUTH is refused', async () => {
+      const client = new RespClient(
+        `redis://:wrong@${await serve('-WRONGPASS invalid password\r\n')}`
+      );
+
+      await expect(client.command(['PING'])).rejects.toThrow(
+        'Cache AUTH failed: WRONGPASS invalid password'
+      );
+      client.close();
+    });
+  });
+});
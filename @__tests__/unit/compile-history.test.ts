@@ -0,0 +1,255 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  errorOutcome,
+  MAX_COMPILATIONS_PER_PROJECT,
+  recordCompilation,
+  successOutcome,
+  type CompilationOwner,
+} from '@/app/api/compile-pdf/history';
+import type { CompileRequest } from '@/app/api/compile-pdf/types';
+import { findFailureStart } from '@/lib/utils/compile-history';
+import type { CompilationRecord } from '@/types/compilation';
+
+const pdf = Buffer.from('%PDF-1.5\n%%EOF\n');
+const pdfSha256 =
+  '1c3a1d8e7a2d3e7a2ab6b8bd0d1e38ee74d0bde5df8a0ea5bbb0eb0b8c5a6f0d';
+
+const body: CompileRequest = {
+  files: [{ path: 'main.tex', content: '\\documentclass{article}' }],
+  projectId: 'project_1',
+  settings: {
+    rootFile: 'main.tex',
+    engine: 'xelatex',
+    bibliographyTool: 'auto',
+    shellEscape: false,
+    draftMode: false,
+  },
+};
+
+function fakeOwner(
+  storedPaths: string[] = [],
+  // Builds past the cap, and the PDFs the builds kept still use
+  oldRows: { id: string; pdf_path: string | null }[] = [],
+  keptPaths: string[] = []
+) {
+  const insert = vi.fn(async () => ({ error: null }));
+  const upload = vi.fn(async () => ({ data: {}, error: null }));
+  const remove = vi.fn(async () => ({ data: [], error: null }));
+  const deleteRows = vi.fn(async () => ({ error: null }));
+  const range = vi.fn(async () => ({ data: oldRows, error: null }));
+  const query = {
+    select: () => query,
+    eq: (column: string, value: string) => {
+      if (column === 'pdf_path') query.path = value;
+      return query;
+    },
+    limit: async () => ({
+      data: storedPaths.includes(query.path) ? [{ id: 'row_1' }] : [],
+      error: null,
+    }),
+    order: () => query,
+    range,
+    delete: () => ({ in: deleteRows }),
+    in: async () => ({
+      data: keptPaths.map((pdf_path) => ({ pdf_path })),
+      error: null,
+    }),
+    insert,
+    path: '',
+  };
+  const owner = {
+    userId: 'user_1',
+    projectId: 'project_1',
+    supabase: {
+      from: () => query,
+      storage: { from: () => ({ upload, remove }) },
+    },
+  } as unknown as CompilationOwner;
+  return { owner, insert, upload, remove, deleteRows, range };
+}
+
+function record(
+  id: string,
+  status: CompilationRecord['status']
+): CompilationRecord {
+  return {
+    id,
+    status,
+    engine: 'pdflatex',
+    rootFile: 'main.tex',
+    userId: 'user_1',
+    cached: false,
+    durationMs: null,
+    queueMs: null,
+    errorCount: status === 'error' ? 1 : 0,
+    warningCount: 0,
+    diagnosticsCount: 0,
+    errorMessage: null,
+    pdfSha256: null,
+    pdfSize: null,
+    pdfUrl: null,
+    createdAt: '2026-10-19T12:00:00.000Z',
+  };
+}
+
+describe('recordCompilation', () => {
+  it('stores the PDF and records settings, timings and diagnostics', async () => {
+    const { owner, insert, upload } = fakeOwner();
+
+    await recordCompilation(
+      owner,
+      body,
+      successOutcome(
+        {
+          artifactId: pdfSha256,
+          size: pdf.length,
+          mimeType: 'application/pdf',
+          diagnostics: [
+            {
+              severity: 'warning',
+              source: 'latex',
+              message: 'Reference `fig:a` undefined',
+            },
+            { severity: 'badbox', source: 'latex', message: 'Overfull \\hbox' },
+          ],
+          debugInfo: { durationMs: 1834.4, queueMs: 12, requestId: 'req_1' },
+        },
+        false,
+        pdf
+      )
+    );
+
+    expect(upload).toHaveBeenCalledWith(`project_1/${pdfSha256}.pdf`, pdf, {
+      contentType: 'application/pdf',
+      upsert: false,
+    });
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        project_id: 'project_1',
+        user_id: 'user_1',
+        status: 'success',
+        engine: 'xelatex',
+        root_file: 'main.tex',
+        cached: false,
+        duration_ms: 1834,
+        queue_ms: 12,
+        error_count: 0,
+        warning_count: 1,
+        diagnostics_count: 2,
+        request_id: 'req_1',
+        pdf_sha256: pdfSha256,
+        pdf_path: `project_1/${pdfSha256}.pdf`,
+        pdf_size: pdf.length,
+      })
+    );
+  });
+
+  it('reuses a PDF the project already stored', async () => {
+    const { owner, insert, upload } = fakeOwner([`project_1/${pdfSha256}.pdf`]);
+
+    await recordCompilation(
+      owner,
+      body,
+      successOutcome(
+        {
+          artifactId: pdfSha256,
+          size: pdf.length,
+          mimeType: 'application/pdf',
+        },
+        true
+      )
+    );
+
+    expect(upload).not.toHaveBeenCalled();
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        cached: true,
+        pdf_path: `project_1/${pdfSha256}.pdf`,
+      })
+    );
+  });
+
+  it('records a failed compile with its errors and without a PDF', async () => {
+    const { owner, insert, upload } = fakeOwner();
+
+    await recordCompilation(
+      owner,
+      body,
+      errorOutcome({
+        success: false,
+        error: {
+          error: 'LaTeX compilation failed',
+          details: 'Exit code 1',
+          log: '! Undefined control sequence.\nl.3 \\dose\n{} rate.\n',
+          durationMs: 950,
+        },
+      })
+    );
+
+    expect(upload).not.toHaveBeenCalled();
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'error',
+        error_count: 1,
+        duration_ms: 950,
+        error_message: 'LaTeX compilation failed',
+        pdf_path: null,
+      })
+    );
+  });
+
+  it('prunes builds past the cap with the PDFs only they used', async () => {
+    const { owner, remove, deleteRows, range } = fakeOwner(
+      [],
+      [
+        { id: 'old_1', pdf_path: 'project_1/a.pdf' },
+        { id: 'old_2', pdf_path: 'project_1/b.pdf' },
+        { id: 'old_3', pdf_path: null },
+      ],
+      ['project_1/b.pdf']
+    );
+
+    await recordCompilation(owner, body, errorOutcome({ success: false }));
+
+    expect(range).toHaveBeenCalledWith(
+      MAX_COMPILATIONS_PER_PROJECT,
+      expect.any(Number)
+    );
+    expect(deleteRows).toHaveBeenCalledWith('id', ['old_1', 'old_2', 'old_3']);
+    expect(remove).toHaveBeenCalledWith(['project_1/a.pdf']);
+  });
+
+  it('does not throw when the history cannot be written', async () => {
+    const { owner, insert } = fakeOwner();
+    insert.mockRejectedValueOnce(new Error('connection refused'));
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    await expect(
+      recordCompilation(owner, body, errorOutcome({ success: false }))
+    ).resolves.toBeUndefined();
+    consoleError.mockRestore();
+  });
+});
+
+describe('findFailureStart', () => {
+  it('finds the first failure after the last successful build', () => {
+    expect(
+      findFailureStart([
+        record('4', 'error'),
+        record('3', 'error'),
+        record('2', 'success'),
+        record('1', 'error'),
+      ])?.id
+    ).toBe('3');
+  });
+
+  it('is null while the latest build succeeds or nothing ever did', () => {
+    expect(
+      findFailureStart([record('2', 'success'), record('1', 'error')])
+    ).toBeNull();
+    expect(findFailureStart([record('1', 'error')])).toBeNull();
+    expect(findFailureStart([])).toBeNull();
+  });
+});
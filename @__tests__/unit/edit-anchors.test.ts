@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { lineSimilarity, locateEdit } from '@/lib/lars-agent/edit-anchors';
+import type { LineEdit } from '@/lib/lars-agent/line-edits';
+
+const lines = [
+  '\\section{Method}',
+  'We measured the dose.',
+  'Results follow.',
+  '\\section{Results}',
+  'The dose was 2 Gy.',
+];
+
+// Replaces "Results follow." at line 3, anchored like the agent server does
+const edit: LineEdit = {
+  editType: 'replace',
+  position: { line: 3 },
+  originalLineCount: 1,
+  content: 'See below.',
+  originalText: 'Results follow.',
+  contextBefore: '\\section{Method}\nWe measured the dose.',
+  contextAfter: '\\section{Results}\nThe dose was 2 Gy.',
+};
+
+describe('locateEdit', () => {
+  it('keeps the proposed line while the file is unchanged', () => {
+    expect(locateEdit(lines, edit)).toBe(3);
+  });
+
+  it('follows the text when lines were added above it', () => {
+    expect(locateEdit(['\\title{Report}', '', ...lines], edit)).toBe(5);
+  });
+
+  it('still places the edit when nearby lines were touched up', () => {
+    const edited = [...lines];
+    edited[1] = 'We measured the dose twice.';
+    edited[2] = 'Results  follow';
+    expect(locateEdit(['% draft', ...edited], edit)).toBe(4);
+  });
+
+  it('is null once the covered text was rewritten', () => {
+    const rewritten = [...lines];
+    rewritten[2] = 'The results are discussed in the next chapter.';
+    expect(locateEdit(rewritten, edit)).toBeNull();
+  });
+
+  it('picks the match nearest the proposed line', () => {
+    const insert: LineEdit = {
+      editType: 'insert',
+      position: { line: 4 },
+      content: 'x\n',
+      contextBefore: 'a',
+      contextAfter: 'b',
+    };
+    expect(locateEdit(['a', 'b', 'c', 'a', 'b'], insert)).toBe(5);
+  });
+
+  it('uses the proposed line for edits without anchors', () => {
+    expect(
+      locateEdit(['only'], { editType: 'insert', position: { line: 7 } })
+    ).toBe(7);
+  });
+});
+
+describe('lineSimilarity', () => {
+  it('ignores whitespace and scores small changes high', () => {
+    expect(lineSimilarity('  a  b', 'a b')).toBe(1);
+    expect(
+      lineSimilarity('The dose was 2 Gy.', 'The dose was 3 Gy.')
+    ).toBeGreaterThan(0.8);
+    expect(
+      lineSimilarity('The dose was 2 Gy.', '\\section{Results}')
+    ).toBeLessThan(0.3);
+  });
+});
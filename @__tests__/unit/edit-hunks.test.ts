@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildHunk,
+  diffLines,
+  selectHunkContent,
+} from '@/lib/lars-agent/edit-hunks';
+import { applyLineEdits, type LineEdit } from '@/lib/lars-agent/line-edits';
+
+const file = [
+  '\\section{Method}',
+  'We measured the dose.',
+  'Each run took an hour.',
+  'Results follow.',
+];
+
+const replace: LineEdit = {
+  editType: 'replace',
+  position: { line: 2 },
+  originalLineCount: 2,
+  content:
+    'We measured the dose twice.\nEach run took an hour.\nNo run failed.',
+  originalText: 'We measured the dose.\nEach run took an hour.',
+};
+
+describe('diffLines', () => {
+  it('keeps common lines and puts removals before additions', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'B', 'c', 'd'], 5)).toEqual([
+      { type: 'same', text: 'a', oldLine: 5 },
+      { type: 'removed', text: 'b', oldLine: 6 },
+      { type: 'added', text: 'B', oldLine: null },
+      { type: 'same', text: 'c', oldLine: 7 },
+      { type: 'added', text: 'd', oldLine: null },
+    ]);
+  });
+});
+
+describe('buildHunk', () => {
+  it('diffs the edit where its text is now', () => {
+    const hunk = buildHunk(replace, ['% moved down', ...file]);
+
+    expect(hunk?.startLine).toBe(3);
+    expect(hunk?.lines.map((line) => line.type)).toEqual([
+      'removed',
+      'added',
+      'same',
+      'added',
+    ]);
+  });
+
+  it('returns null when the edit text is gone', () => {
+    expect(
+      buildHunk(replace, [
+        '\\section{Method}',
+        'Two detectors were compared.',
+        'Results follow.',
+      ])
+    ).toBeNull();
+  });
+
+  it('shows an insert without the line break before the next line', () => {
+    const insert: LineEdit = {
+      editType: 'insert',
+      position: { line: 4 },
+      content: 'New line.\n',
+    };
+    expect(buildHunk(insert, file)?.lines).toEqual([
+      { type: 'added', text: 'New line.', oldLine: null },
+    ]);
+  });
+});
+
+describe('selectHunkContent', () => {
+  it('writes the whole edit when nothing is left out', () => {
+    const hunk = buildHunk(replace, file)!;
+    expect(selectHunkContent(replace, hunk, new Set())).toBe(replace.content);
+  });
+
+  it('keeps rejected removals and drops rejected additions', () => {
+    const hunk = buildHunk(replace, file)!;
+    // Keep the original first line, take the added last line
+    const content = selectHunkContent(replace, hunk, new Set([0, 1]));
+
+    expect(content).toBe(
+      'We measured the dose.\nEach run took an hour.\nNo run failed.'
+    );
+    expect(
+      applyLineEdits(file.join('\n'), [
+        {
+          ...replace,
+          position: { line: hunk.startLine },
+          originalLineCount: hunk.originalLineCount,
+          content: content!,
+        },
+      ])
+    ).toBe(
+      [
+        '\\section{Method}',
+        'We measured the dose.',
+        'Each run took an hour.',
+        'No run failed.',
+        'Results follow.',
+      ].join('\n')
+    );
+  });
+
+  it('returns null when every change is left out', () => {
+    const hunk = buildHunk(replace, file)!;
+    expect(selectHunkContent(replace, hunk, new Set([0, 1, 3]))).toBeNull();
+  });
+
+  it('keeps the line break of a partly accepted insert', () => {
+    const insert: LineEdit = {
+      editType: 'insert',
+      position: { line: 4 },
+      content: 'First.\nSecond.\n',
+    };
+    const hunk = buildHunk(insert, file)!;
+    expect(selectHunkContent(insert, hunk, new Set([0]))).toBe('Second.\n');
+  });
+});
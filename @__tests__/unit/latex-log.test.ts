@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countDiagnostics,
+  formatDiagnostic,
+  matchDiagnosticFile,
+  parseLatexLog,
+} from '@/lib/utils/latex-log';
+
+const PDFLATEX_LOG = `This is pdfTeX, Version 3.141592653-2.6-1.40.25 (TeX Live 2023) (preloaded format=pdflatex)
+entering extended mode
+(./main.tex
+LaTeX2e <2023-11-01>
+(/usr/share/texlive/texmf-dist/tex/latex/base/article.cls
+Document Class: article 2023/05/17 v1.4n Standard LaTeX document class
+(/usr/share/texlive/texmf-dist/tex/latex/base/size10.clo))
+(./main.aux)
+(./sections/intro.tex
+! Undefined control sequence.
+l.7 We measured the \\dose
+                         {} rate.
+The control sequence at the end of the top line
+of your error message was never \\def'ed.
+
+LaTeX Warning: Reference \`fig:setup' on page 1 undefined on input line 12.
+
+Overfull \\hbox (12.3pt too wide) in paragraph at lines 20--22
+[]\\OT1/cmr/m/n/10 A very long unbreakable word|
+
+)
+(./sections/results.tex
+
+Package natbib Warning: Citation \`smith2020' on page 2 undefined on input line 
+4.
+
+Package hyperref Warning: Token not allowed in a PDF string (Unicode):
+(hyperref)                removing \`math shift' on input line 9.
+
+) [1] [2]
+LaTeX Warning: There were undefined references.
+
+ )
+Output written on main.pdf (2 pages, 41234 bytes).
+`;
+
+describe('LaTeX log parser', () => {
+  it('attributes errors, warnings and bad boxes to the file on the stack', () => {
+    const diagnostics = parseLatexLog(PDFLATEX_LOG);
+
+    expect(diagnostics).toEqual([
+      {
+        severity: 'error',
+        source: 'latex',
+        message: 'Undefined control sequence.',
+        file: 'sections/intro.tex',
+        line: 7,
+        help: "The control sequence at the end of the top line of your error message was never \\def'ed.",
+      },
+      {
+        severity: 'warning',
+        source: 'latex',
+        message: "Reference `fig:setup' on page 1 undefined on input line 12.",
+        file: 'sections/intro.tex',
+        line: 12,
+      },
+      {
+        severity: 'badbox',
+        source: 'latex',
+        message:
+          'Overfull \\hbox (12.3pt too wide) in paragraph at lines 20--22',
+        file: 'sections/intro.tex',
+        line: 20,
+      },
+      {
+        severity: 'warning',
+        source: 'latex',
+        message:
+          "natbib: Citation `smith2020' on page 2 undefined on input line 4.",
+        file: 'sections/results.tex',
+        line: 4,
+      },
+      {
+        severity: 'warning',
+        source: 'latex',
+        message:
+          "hyperref: Token not allowed in a PDF string (Unicode): removing `math shift' on input line 9.",
+        file: 'sections/results.tex',
+        line: 9,
+      },
+      {
+        severity: 'warning',
+        source: 'latex',
+        message: 'There were undefined references.',
+        file: 'main.tex',
+        line: undefined,
+      },
+    ]);
+    expect(countDiagnostics(diagnostics)).toEqual({
+      error: 1,
+      warning: 4,
+      badbox: 1,
+    });
+  });
+
+  it('rejoins paths TeX wrapped at 79 characters', () => {
+    const path = `./chapters/${'a'.repeat(80)}.tex`;
+    const log = [
+      `(${path}`.slice(0, 79),
+      `(${path}`.slice(79),
+      '! LaTeX Error: Environment figur undefined.',
+      'l.3 \\begin{figur}',
+      '',
+    ].join('\n');
+
+    expect(parseLatexLog(log)[0]).toMatchObject({
+      file: path.slice(2),
+      line: 3,
+      message: 'LaTeX Error: Environment figur undefined.',
+    });
+  });
+
+  it('reads file:line:error style messages', () => {
+    const log = './sections/methods.tex:14: Missing $ inserted.\n';
+    expect(parseLatexLog(log)).toEqual([
+      {
+        severity: 'error',
+        source: 'latex',
+        message: 'Missing $ inserted.',
+        file: 'sections/methods.tex',
+        line: 14,
+        help: undefined,
+      },
+    ]);
+    expect(formatDiagnostic(parseLatexLog(log)[0])).toBe(
+      'sections/methods.tex:14: error: Missing $ inserted.'
+    );
+  });
+
+  it('parses BibTeX and Biber output', () => {
+    const log = [
+      'Database file #1: refs.bib',
+      "I was expecting a `,' or a `}'---line 18 of file refs.bib",
+      ' :   title = "Dosimetry',
+      "I'm skipping whatever remains of this entry",
+      'Warning--empty journal in smith2020',
+      '--line 25 of file refs.bib',
+      'Warning--I didn\'t find a database entry for "jones2021"',
+      "[1021] Biber.pm:131> WARN - Duplicate entry key 'lee2019' in file 'refs.bib', skipping ...",
+      '[1040] Utils.pm:411> ERROR - BibTeX subsystem: /tmp/biber_tmp_Xz/refs.bib_4821.utf8, line 30, syntax error: at EOF',
+    ].join('\n');
+
+    expect(parseLatexLog(log)).toEqual([
+      {
+        severity: 'error',
+        source: 'bibtex',
+        message: "I was expecting a `,' or a `}'",
+        file: 'refs.bib',
+        line: 18,
+      },
+      {
+        severity: 'warning',
+        source: 'bibtex',
+        message: 'empty journal in smith2020',
+        file: 'refs.bib',
+        line: 25,
+      },
+      {
+        severity: 'warning',
+        source: 'bibtex',
+        message: 'I didn\'t find a database entry for "jones2021"',
+        file: undefined,
+        line: undefined,
+      },
+      {
+        severity: 'warning',
+        source: 'biber',
+        message:
+          "Duplicate entry key 'lee2019' in file 'refs.bib', skipping ...",
+        file: undefined,
+        line: undefined,
+      },
+      {
+        severity: 'error',
+        source: 'biber',
+        message:
+          'BibTeX subsystem: /tmp/biber_tmp_Xz/refs.bib_4821.utf8, line 30, syntax error: at EOF',
+        file: '/tmp/biber_tmp_Xz/refs.bib',
+        line: 30,
+      },
+    ]);
+  });
+
+  it('matches log paths to project files', () => {
+    const paths = ['main.tex', 'sections/intro.tex', 'refs.bib'];
+
+    expect(matchDiagnosticFile('./sections/intro.tex', paths)).toBe(
+      'sections/intro.tex'
+    );
+    expect(matchDiagnosticFile('sections/intro', paths)).toBe(
+      'sections/intro.tex'
+    );
+    expect(matchDiagnosticFile('/tmp/biber_tmp_Xz/refs.bib', paths)).toBe(
+      'refs.bib'
+    );
+    expect(
+      matchDiagnosticFile(
+        '/usr/share/texlive/texmf-dist/tex/latex/base/article.cls',
+        paths
+      )
+    ).toBeUndefined();
+    expect(matchDiagnosticFile(undefined, paths)).toBeUndefined();
+  });
+});
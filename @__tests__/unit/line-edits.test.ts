@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { applyLineEdits } from '@/lib/lars-agent/line-edits';
+
+const text = ['one', 'two', 'three', 'four'].join('\n');
+
+describe('applyLineEdits', () => {
+  it('applies edits against the original line numbers', () => {
+    expect(
+      applyLineEdits(text, [
+        { editType: 'insert', position: { line: 2 }, content: 'new\n' },
+        {
+          editType: 'replace',
+          position: { line: 3 },
+          content: 'THREE\nAND A HALF',
+          originalLineCount: 1,
+        },
+      ])
+    ).toBe('one\nnew\ntwo\nTHREE\nAND A HALF\nfour');
+  });
+
+  it('matches what accepting the edit in the editor produces', () => {
+    // Deleting leaves the line break, like replacing the range with ''
+    expect(
+      applyLineEdits(text, [
+        { editType: 'delete', position: { line: 2 }, originalLineCount: 2 },
+      ])
+    ).toBe('one\n\nfour');
+    // An insert without a trailing newline joins the line it lands on
+    expect(
+      applyLineEdits(text, [
+        { editType: 'insert', position: { line: 4 }, content: 'x ' },
+      ])
+    ).toBe('one\ntwo\nthree\nx four');
+    // Past the end it is appended to the last line
+    expect(
+      applyLineEdits(text, [
+        { editType: 'insert', position: { line: 9 }, content: '\nfive' },
+      ])
+    ).toBe(`${text}\nfive`);
+  });
+
+  it('ignores file-level edits', () => {
+    expect(
+      applyLineEdits(text, [{ editType: 'delete_file', filePath: 'main.tex' }])
+    ).toBe(text);
+  });
+});
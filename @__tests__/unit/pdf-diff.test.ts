@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignPages,
+  diffPages,
+  pageSignature,
+  pairPagesByNumber,
+  renderDiffImage,
+  type RasterPage,
+} from '@/lib/utils/pdf-diff';
+
+type Box = [x: number, y: number, width: number, height: number];
+
+// A white page with black rectangles standing in for text
+function page(boxes: Box[], width = 100, height = 140): RasterPage {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (const [left, top, boxWidth, boxHeight] of boxes) {
+    for (let y = top; y < top + boxHeight; y++) {
+      for (let x = left; x < left + boxWidth; x++) {
+        const offset = (y * width + x) * 4;
+        data[offset] = data[offset + 1] = data[offset + 2] = 0;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+const title: Box = [10, 10, 80, 8];
+const paragraph: Box = [10, 30, 70, 40];
+const figure: Box = [20, 80, 60, 40];
+
+describe('diffPages', () => {
+  it('finds nothing on identical pages', () => {
+    const diff = diffPages(page([title, paragraph]), page([title, paragraph]));
+    expect(diff.changedRatio).toBe(0);
+    expect(diff.regions).toEqual([]);
+  });
+
+  it('reports each changed area as a region, top to bottom', () => {
+    const diff = diffPages(
+      page([title, paragraph]),
+      page([[10, 10, 60, 8], paragraph, figure])
+    );
+
+    expect(diff.changedRatio).toBeGreaterThan(0);
+    expect(diff.regions).toHaveLength(2);
+    const [shortenedTitle, addedFigure] = diff.regions;
+    expect(shortenedTitle.x).toBeGreaterThanOrEqual(0.64);
+    expect(shortenedTitle.y).toBeLessThan(0.15);
+    expect(addedFigure.y).toBeCloseTo(80 / 140, 1);
+    expect(addedFigure.height).toBeCloseTo(40 / 140, 1);
+  });
+
+  it('compares pages of different heights over the larger one', () => {
+    const diff = diffPages(
+      page([title], 100, 100),
+      page([title, [10, 110, 50, 10]], 100, 140)
+    );
+    expect(diff.regions).toHaveLength(1);
+    expect(diff.regions[0].y).toBeGreaterThan(0.7);
+  });
+});
+
+describe('renderDiffImage', () => {
+  it('colours removed ink red and added ink green', () => {
+    const image = renderDiffImage(
+      page([[0, 0, 1, 1]], 2, 1),
+      page([[1, 0, 1, 1]], 2, 1)
+    );
+    expect(Array.from(image.data.slice(0, 3))).toEqual([220, 38, 38]);
+    expect(Array.from(image.data.slice(4, 7))).toEqual([22, 163, 74]);
+  });
+});
+
+describe('alignPages', () => {
+  const pages = [
+    page([title, paragraph]),
+    page([figure]),
+    page([paragraph, [10, 90, 40, 30]]),
+  ];
+  const signatures = pages.map(pageSignature);
+
+  it('keeps later pages paired when a page is inserted', () => {
+    const inserted = pageSignature(page([[5, 5, 90, 130]]));
+    expect(
+      alignPages(signatures, [
+        signatures[0],
+        inserted,
+        signatures[1],
+        signatures[2],
+      ])
+    ).toEqual([
+      { base: 0, compare: 0 },
+      { base: null, compare: 1 },
+      { base: 1, compare: 2 },
+      { base: 2, compare: 3 },
+    ]);
+  });
+
+  it('leaves a removed page without a counterpart', () => {
+    expect(alignPages(signatures, [signatures[0], signatures[2]])).toEqual([
+      { base: 0, compare: 0 },
+      { base: 1, compare: null },
+      { base: 2, compare: 1 },
+    ]);
+  });
+
+  it('pairs by page number on request', () => {
+    expect(pairPagesByNumber(2, 3)).toEqual([
+      { base: 0, compare: 0 },
+      { base: 1, compare: 1 },
+      { base: null, compare: 2 },
+    ]);
+  });
+});
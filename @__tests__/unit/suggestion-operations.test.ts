@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import type * as Monaco from 'monaco-editor';
+import { acceptSingleEdit } from '@/hooks/use-edit-suggestions/suggestion-operations';
+import type { EditSuggestion } from '@/types/edit';
+
+function createFakeEditor(lines: string[]) {
+  const model = {
+    getLineCount: () => lines.length,
+    getLineMaxColumn: (line: number) => (lines[line - 1]?.length ?? 0) + 1,
+    getLineContent: (line: number) => lines[line - 1] ?? '',
+  } as unknown as Monaco.editor.ITextModel;
+  const executeEdits = vi.fn();
+  const editor = {
+    executeEdits,
+    getModel: () => model,
+  } as unknown as Monaco.editor.IStandaloneCodeEditor;
+  const monacoInstance = {
+    Range: class {
+      constructor(
+        public startLineNumber: number,
+        public startColumn: number,
+        public endLineNumber: number,
+        public endColumn: number
+      ) {}
+    },
+  } as unknown as typeof Monaco;
+  return { editor, monacoInstance, executeEdits };
+}
+
+const replaceLine = (
+  id: string,
+  line: number,
+  originalText: string
+): EditSuggestion => ({
+  id,
+  status: 'pending',
+  editType: 'replace',
+  position: { line },
+  originalLineCount: 1,
+  content: originalText.toUpperCase(),
+  originalText,
+});
+
+describe('acceptSingleEdit', () => {
+  it('rebases the other suggestions from where they are now', async () => {
+    const proposed = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    // Ten lines typed above the edits after they were proposed
+    const typed = Array.from({ length: 10 }, (_, i) => `typed ${i + 1}`);
+    const { editor, monacoInstance, executeEdits } = createFakeEditor([
+      ...typed,
+      ...proposed,
+    ]);
+
+    const a = replaceLine('a', 5, 'line 5');
+    const b = replaceLine('b', 15, 'line 15');
+    let suggestions = [a, b];
+    const applied = await acceptSingleEdit(
+      'a',
+      suggestions,
+      editor,
+      monacoInstance,
+      (update) => {
+        suggestions = update(suggestions);
+      }
+    );
+
+    expect(applied).toBe(true);
+    expect(executeEdits.mock.calls[0][1][0].range.startLineNumber).toBe(15);
+    // B is not where A landed, so it is kept, at its line in the file now
+    expect(suggestions).toEqual([{ ...b, position: { line: 25 } }]);
+  });
+
+  it('drops a suggestion that overlaps the relocated edit', async () => {
+    const { editor, monacoInstance } = createFakeEditor([
+      'typed',
+      'line 1',
+      'line 2',
+    ]);
+
+    const a = replaceLine('a', 1, 'line 1');
+    const overlapping = replaceLine('b', 1, 'line 1');
+    let suggestions = [a, overlapping];
+    await acceptSingleEdit(
+      'a',
+      suggestions,
+      editor,
+      monacoInstance,
+      (update) => {
+        suggestions = update(suggestions);
+      }
+    );
+
+    expect(suggestions).toEqual([]);
+  });
+});
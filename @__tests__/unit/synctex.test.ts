@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  forwardSearch,
+  inverseSearch,
+  parseSynctex,
+} from '@/lib/utils/synctex';
+import { matchDiagnosticFile } from '@/lib/utils/latex-log';
+
+// Two pages: main.tex line 5 and an \input chapter on page 1, main.tex
+// line 9 on page 2. Coordinates are in scaled points.
+const SYNCTEX = `SyncTeX Version:1
+Input:1:/tmp/job-1/./main.tex
+Input:2:/usr/share/texlive/texmf-dist/tex/latex/base/article.cls
+Output:pdf
+Magnification:1000
+Unit:1
+X Offset:0
+Y Offset:0
+Content:
+!300
+Input:3:/tmp/job-1/./chapters/intro.tex
+{1
+[1,5:4736286,50644704:30785863,45903018,0
+[1,5:4736286,9830400:30785863,5093718,0
+(1,5:4736286,9830400:30785863,655360,0
+g1,5:5000000,9830400
+x1,5:6000000,9830400
+)
+(3,2:4736286,11796480:30785863,655360,196608
+g3,2:5000000,11796480
+k3,3:20000000,11796480:100000
+)
+]
+]
+}1
+{2
+[1,9:4736286,50644704:30785863,45903018,0
+(1,9:4736286,9830400:30785863,655360,0
+g1,9:5000000,9830400
+)
+]
+}2
+Postamble:
+Count:12
+!900
+Post scriptum:`;
+
+const bp = (sp: number) => sp / 65781.76;
+
+describe('parseSynctex', () => {
+  it('reads inputs and boxes in PDF points', () => {
+    const data = parseSynctex(SYNCTEX);
+
+    expect(data.inputs.get(1)).toBe('/tmp/job-1/main.tex');
+    expect(data.inputs.get(3)).toBe('/tmp/job-1/chapters/intro.tex');
+    expect(data.records).toHaveLength(11);
+
+    const intro = data.records.find((record) => record.tag === 3)!;
+    expect(intro).toMatchObject({ kind: 'hbox', line: 2, page: 1 });
+    expect(intro.x).toBeCloseTo(72, 1);
+    expect(intro.depth).toBeCloseTo(bp(196608));
+    // Glue and kerns know the box they sit in
+    expect(data.records[intro.parent].kind).toBe('vbox');
+    expect(
+      data.records.filter(
+        (record) => record.parent === data.records.indexOf(intro)
+      )
+    ).toHaveLength(2);
+  });
+});
+
+describe('forwardSearch', () => {
+  const data = parseSynctex(SYNCTEX);
+
+  it('finds the typeset line of a source line in an included file', () => {
+    const highlight = forwardSearch(data, 'chapters/intro.tex', 2);
+    expect(highlight?.page).toBe(1);
+    expect(highlight?.boxes).toHaveLength(1);
+    expect(highlight?.boxes[0].y).toBeCloseTo(bp(11796480 - 655360));
+    expect(highlight?.boxes[0].height).toBeCloseTo(bp(655360 + 196608));
+  });
+
+  it('lands on the page a line was typeset on', () => {
+    expect(forwardSearch(data, 'main.tex', 9)?.page).toBe(2);
+    // Another main.tex in the project does not borrow its output
+    expect(
+      forwardSearch(data, 'chapters/main.tex', 9, [
+        'main.tex',
+        'chapters/main.tex',
+      ])
+    ).toBeNull();
+  });
+
+  it('falls back to the nearest line with output', () => {
+    // Line 4 produced nothing; the kern from line 3 sits in the intro box
+    expect(
+      forwardSearch(data, 'chapters/intro.tex', 4)?.boxes[0].y
+    ).toBeCloseTo(bp(11796480 - 655360));
+    expect(forwardSearch(data, 'appendix.tex', 1)).toBeNull();
+  });
+});
+
+describe('inverseSearch', () => {
+  const data = parseSynctex(SYNCTEX);
+  const introBaseline = bp(11796480);
+
+  it('resolves a point to the closest record in the line under it', () => {
+    expect(inverseSearch(data, 1, 80, introBaseline - 2)).toEqual({
+      file: '/tmp/job-1/chapters/intro.tex',
+      line: 2,
+    });
+    expect(inverseSearch(data, 1, 300, introBaseline - 2)).toEqual({
+      file: '/tmp/job-1/chapters/intro.tex',
+      line: 3,
+    });
+  });
+
+  it('uses the nearest record when no line is under the point', () => {
+    expect(inverseSearch(data, 2, 100, 700)?.line).toBe(9);
+    expect(inverseSearch(data, 3, 100, 100)).toBeNull();
+  });
+
+  it('maps recorded paths back to project files', () => {
+    const paths = ['main.tex', 'chapters/main.tex', 'chapters/intro.tex'];
+    expect(matchDiagnosticFile('/tmp/job-1/./chapters/main.tex', paths)).toBe(
+      'chapters/main.tex'
+    );
+    expect(matchDiagnosticFile('/tmp/job-1/main.tex', paths)).toBe('main.tex');
+  });
+});
@@ -4,6 +4,7 @@ import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
 import { createClient } from '@/lib/supabase/server';
 import { z } from 'zod';
+import { COMPILATIONS_BUCKET } from '@/app/api/compile-pdf/history';
 
 const DeleteProject = z.object({
   projectId: z.string().uuid('Invalid project ID'),
@@ -74,6 +75,25 @@ export async function deleteProject(projectId: string) {
       }
     }
 
+    // Compiled PDFs are kept in their own bucket, one folder per project;
+    // their rows go with the project
+    const { data: pdfFiles, error: pdfListError } = await supabase.storage
+      .from(COMPILATIONS_BUCKET)
+      .list(validatedProjectId, { limit: 1000 });
+
+    if (pdfListError) {
+      console.error('Error listing compiled PDFs:', pdfListError);
+    } else if (pdfFiles && pdfFiles.length > 0) {
+      const { error: pdfDeleteError } = await supabase.storage
+        .from(COMPILATIONS_BUCKET)
+        .remove(pdfFiles.map((file) => `${validatedProjectId}/${file.name}`));
+
+      if (pdfDeleteError) {
+        console.error('Error deleting compiled PDFs:', pdfDeleteError);
+        throw new Error('Failed to delete compiled PDFs from storage');
+      }
+    }
+
     const { error: documentsError } = await supabase
       .from('documents')
       .delete()
@@ -0,0 +1,231 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  vi,
+} from 'vitest';
+import path from 'path';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createAgentRouter } from '../../routes/agent';
+import {
+  startMockLLMServer,
+  loadTranscriptDirectory,
+  normalizeEvents,
+  type MockLLMServer,
+  type TranscriptEvent,
+} from '../../lib/mock-llm';
+
+const FIXTURES_DIR = path.join(__dirname, '../fixtures/agent-transcripts');
+
+function parseSSE(raw: string): TranscriptEvent[] {
+  const events: TranscriptEvent[] = [];
+  for (const block of raw.split('\n\n')) {
+    const em = /^event:\s*(\S+)/m.exec(block);
+    const dm = /^data:\s*([\s\S]+)$/m.exec(block);
+    if (!em || !dm) continue;
+    let data: unknown = dm[1];
+    try {
+      data = JSON.parse(dm[1]);
+    } catch {}
+    events.push({ event: em[1], data });
+  }
+  return events;
+}
+
+describe('Agent loop replay against mock LLM', () => {
+  let mock: MockLLMServer;
+  let server: Server;
+  let agentUrl: string;
+
+  beforeAll(async () => {
+    mock = await startMockLLMServer({ chunkSize: 7 });
+
+    process.env.LLM_PROVIDER = 'openai';
+    process.env.OPENAI_COMPAT_URL = mock.url;
+    process.env.OPENAI_COMPAT_API_KEY = 'mock-key';
+    process.env.OPENAI_COMPAT_MODEL = 'mock-model';
+    delete process.env.LLM_RECORD_DIR;
+
+    const app = express();
+    app.use(express.json({ limit: '50mb' }));
+    app.use('/agent', createAgentRouter());
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    agentUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/agent`;
+  });
+
+  afterAll(async () => {
+    // the disconnect test leaves a half-closed socket behind
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    mock.load([]);
+  });
+
+  async function runTranscript(request: Record<string, unknown>) {
+    const res = await fetch(agentUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    expect(res.status).toBe(200);
+    return parseSSE(await res.text());
+  }
+
+  it('replays every recorded transcript with identical SSE events', async () => {
+    const transcripts = await loadTranscriptDirectory(FIXTURES_DIR);
+    expect(transcripts.length).toBeGreaterThan(0);
+
+    for (const { file, transcript } of transcripts) {
+      mock.load(transcript.turns);
+      const events = await runTranscript(transcript.request);
+
+      expect(normalizeEvents(events), file).toEqual(
+        normalizeEvents(transcript.events)
+      );
+      expect(mock.remainingTurns(), file).toBe(0);
+    }
+  });
+
+  it('feeds get_context results back to the model as tool messages', async () => {
+    const transcripts = await loadTranscriptDirectory(FIXTURES_DIR);
+    const { transcript } = transcripts.find(
+      (t) => t.file === '01-get-context-then-edit.json'
+    )!;
+
+    mock.load(transcript.turns);
+    await runTranscript(transcript.request);
+
+    expect(mock.requests).toHaveLength(3);
+    const toolMessage = mock.requests[1].body.messages.at(-1);
+    expect(toolMessage.role).toBe('tool');
+    expect(toolMessage.tool_call_id).toBe('call_1');
+    expect(JSON.parse(toolMessage.content).numberedContent).toContain(
+      '2: This reprot describes the irradiation campaign.'
+    );
+    expect(mock.requests[0].headers.authorization).toBe('Bearer mock-key');
+  });
+
+  it('reassembles streamed tool_calls deltas into complete edits', async () => {
+    const transcripts = await loadTranscriptDirectory(FIXTURES_DIR);
+    const { transcript } = transcripts.find(
+      (t) => t.file === '01-get-context-then-edit.json'
+    )!;
+
+    mock.load(transcript.turns);
+    const events = await runTranscript(transcript.request);
+
+    const edits = events.find((e) => e.event === 'edits')?.data as Array<
+      Record<string, unknown>
+    >;
+    expect(edits).toEqual([
+      {
+        filePath: 'sections/introduction.tex',
+        editType: 'replace',
+        position: { line: 2 },
+        originalLineCount: 1,
+        content: 'This report describes the irradiation campaign.',
+        explanation: 'Fix typo: reprot -> report',
+        originalText: 'This reprot describes the irradiation campaign.',
+        contextBefore: '\\section{Introduction}',
+        contextAfter: 'All devices were tested at room temperature.',
+      },
+    ]);
+    expect(events.at(-1)?.event).toBe('done');
+  });
+
+  it('reports violations instead of edits when intent is read-only', async () => {
+    const transcripts = await loadTranscriptDirectory(FIXTURES_DIR);
+    const { transcript } = transcripts.find(
+      (t) => t.file === '03-edit-blocked-by-intent.json'
+    )!;
+
+    mock.load(transcript.turns);
+    const events = await runTranscript(transcript.request);
+
+    const toolEvent = events.find((e) => e.event === 'tool')?.data as {
+      violations: string[];
+    };
+    expect(toolEvent.violations.length).toBeGreaterThan(0);
+    expect(events.some((e) => e.event === 'edits')).toBe(false);
+
+    const rejection = mock.requests[1].body.messages.at(-1);
+    expect(rejection.role).toBe('tool');
+    expect(rejection.content).toContain('Blocked 1 edit(s)');
+  });
+
+  it('emits an error event when the mock script runs out', async () => {
+    mock.load([]);
+    const events = await runTranscript({
+      messages: [{ role: 'user', content: 'Hello' }],
+      fileContent: '',
+    });
+
+    const error = events.find((e) => e.event === 'error');
+    expect((error?.data as { message: string }).message).toContain(
+      'Mock LLM script exhausted'
+    );
+    expect(events.at(-1)?.event).toBe('done');
+  });
+
+  it('stops the agent loop when the client disconnects', async () => {
+    const slowMock = await startMockLLMServer({
+      chunkSize: 7,
+      chunkDelayMs: 20,
+    });
+    const logSpy = vi.spyOn(console, 'log');
+    process.env.OPENAI_COMPAT_URL = slowMock.url;
+
+    try {
+      const transcripts = await loadTranscriptDirectory(FIXTURES_DIR);
+      const { transcript } = transcripts.find(
+        (t) => t.file === '01-get-context-then-edit.json'
+      )!;
+      slowMock.load(transcript.turns);
+
+      const controller = new AbortController();
+      const res = await fetch(agentUrl, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(transcript.request),
+        signal: controller.signal,
+      });
+
+      // Wait for the first streamed text, then leave like the stop button does
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = '';
+      while (!received.includes('assistant_partial')) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        received += decoder.decode(value, { stream: true });
+      }
+      controller.abort();
+
+      const cancelled = () =>
+        logSpy.mock.calls.some((args) =>
+          String(args[0]).includes('Request cancelled by client')
+        );
+      for (let i = 0; i < 100 && !cancelled(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+
+      expect(cancelled()).toBe(true);
+      expect(slowMock.requests).toHaveLength(1);
+      expect(slowMock.remainingTurns()).toBe(2);
+    } finally {
+      logSpy.mockRestore();
+      process.env.OPENAI_COMPAT_URL = mock.url;
+      await slowMock.close();
+    }
+  });
+});
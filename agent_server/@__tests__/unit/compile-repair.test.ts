@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  executeToolCall,
+  getRepairToolDefinitions,
+} from '../../lib/cern-litellm';
+import type { AgentContext } from '../../lib/cern-litellm';
+import {
+  buildCompileRepairPrompt,
+  parseCompileRepairContext,
+  COMPILE_REPAIR_INTENT,
+  type LineEdit,
+} from '../../lib/lars-agent';
+
+describe('parseCompileRepairContext', () => {
+  it('keeps well-formed diagnostics and attempts', () => {
+    const context = parseCompileRepairContext({
+      message: 'LaTeX compilation failed',
+      diagnostics: [
+        {
+          severity: 'error',
+          message: 'Undefined control sequence.',
+          file: 'main.tex',
+          line: 12,
+        },
+        { severity: 'fatal', message: 'Emergency stop.', line: 'x' },
+        { message: 42 },
+      ],
+      log: '! Undefined control sequence.',
+      previousAttempts: [{ explanations: ['Add amsmath', 7], errors: [] }],
+    });
+
+    expect(context?.diagnostics).toEqual([
+      {
+        severity: 'error',
+        message: 'Undefined control sequence.',
+        file: 'main.tex',
+        line: 12,
+        help: undefined,
+      },
+      {
+        severity: 'error',
+        message: 'Emergency stop.',
+        file: undefined,
+        line: undefined,
+        help: undefined,
+      },
+    ]);
+    expect(context?.previousAttempts).toEqual([
+      { attempt: 1, explanations: ['Add amsmath'], errors: [] },
+    ]);
+  });
+
+  it('rejects a request without an error to repair', () => {
+    expect(parseCompileRepairContext(undefined)).toBeNull();
+    expect(parseCompileRepairContext({ diagnostics: [] })).toBeNull();
+  });
+});
+
+describe('buildCompileRepairPrompt', () => {
+  it('lists errors before warnings, the log tail and earlier attempts', () => {
+    const prompt = buildCompileRepairPrompt({
+      message: 'LaTeX compilation failed',
+      diagnostics: [
+        {
+          severity: 'warning',
+          message: 'Reference `fig:a` undefined',
+          file: 'main.tex',
+          line: 3,
+        },
+        {
+          severity: 'error',
+          message: 'Missing $ inserted.',
+          file: 'chapters/intro.tex',
+          line: 8,
+        },
+      ],
+      log: Array.from({ length: 60 }, (_, index) => `line ${index + 1}`).join(
+        '\n'
+      ),
+      previousAttempts: [
+        {
+          attempt: 1,
+          explanations: ['Wrap x_1 in math mode'],
+          errors: ['chapters/intro.tex:9: Missing $ inserted.'],
+        },
+      ],
+    });
+
+    expect(prompt.indexOf('Missing $ inserted.')).toBeLessThan(
+      prompt.indexOf('Reference `fig:a` undefined')
+    );
+    expect(prompt).toContain(
+      '- chapters/intro.tex:8: error: Missing $ inserted.'
+    );
+    expect(prompt).toContain('line 60');
+    expect(prompt).not.toContain('line 20\n');
+    expect(prompt).toContain('Attempt 1: Wrap x_1 in math mode');
+    expect(prompt).toContain(
+      'Errors afterwards: chapters/intro.tex:9: Missing $ inserted.'
+    );
+  });
+});
+
+describe('repair tools', () => {
+  it('offers line edits only', () => {
+    expect(
+      getRepairToolDefinitions().map((tool) => tool.function.name)
+    ).toEqual(['get_context', 'search_project', 'propose_edits']);
+  });
+
+  it('accepts edits in any project file', () => {
+    const agentContext: AgentContext = {
+      fileContent:
+        '\\documentclass{article}\n\\begin{document}\n\\input{intro}\n\\end{document}',
+      numberedContent: '',
+      projectFiles: [{ path: 'intro.tex', content: 'Text with x_1 in it' }],
+      currentFilePath: 'main.tex',
+    };
+    const collectedEdits: LineEdit[] = [];
+
+    executeToolCall(
+      'propose_edits',
+      {
+        edits: [
+          {
+            filePath: 'intro.tex',
+            editType: 'replace',
+            position: { line: 1 },
+            content: 'Text with $x_1$ in it',
+            originalLineCount: 1,
+          },
+          {
+            editType: 'insert',
+            position: { line: 2 },
+            content: '\\usepackage{amsmath}\n',
+            originalLineCount: 0,
+          },
+        ],
+      },
+      'call-1',
+      {
+        agentContext,
+        intent: COMPILE_REPAIR_INTENT,
+        collectedEdits,
+        writeEvent: () => {},
+      }
+    );
+
+    expect(collectedEdits.map((edit) => edit.filePath)).toEqual([
+      'intro.tex',
+      'main.tex',
+    ]);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateMessageTokens,
+  fitConversationToBudget,
+  getContextBudget,
+  HISTORY_SUMMARY_HEADING,
+  type ContextBudget,
+} from '../../lib/lars-agent';
+import type { CERNLiteLLMMessage } from '../../lib/cern-litellm';
+import type {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProvider,
+} from '../../lib/llm-providers';
+
+function fakeProvider(
+  respond: (request: LLMChatRequest) => Promise<LLMChatResponse>
+): LLMProvider & { requests: LLMChatRequest[] } {
+  const requests: LLMChatRequest[] = [];
+  return {
+    id: 'openai',
+    model: 'fake-model',
+    requests,
+    streamChat(request) {
+      requests.push(request);
+      return respond(request);
+    },
+  };
+}
+
+function budgetOf(inputBudget: number): ContextBudget {
+  return {
+    model: 'fake-model',
+    contextWindow: inputBudget * 2,
+    reservedOutputTokens: inputBudget,
+    inputBudget,
+  };
+}
+
+function chatHistory(turns: number): CERNLiteLLMMessage[] {
+  return Array.from({ length: turns }, (_, i) => ({
+    role: i % 2 === 0 ? ('user' as const) : ('assistant' as const),
+    content: `Turn ${i}: ${'discussing the dosimetry section '.repeat(20)}`,
+  }));
+}
+
+describe('context budget', () => {
+  it('resolves budgets from the model table and env overrides', () => {
+    expect(getContextBudget('gpt-4o-mini', 8192, {}).contextWindow).toBe(
+      128000
+    );
+    expect(getContextBudget('unknown-model', 8192, {})).toEqual({
+      model: 'unknown-model',
+      contextWindow: 32000,
+      reservedOutputTokens: 8192,
+      inputBudget: 23808,
+    });
+
+    const env = {
+      AGENT_CONTEXT_BUDGETS: 'gpt-4o=16000',
+      AGENT_CONTEXT_WINDOW: '10000',
+    };
+    expect(getContextBudget('gpt-4o', 8192, env)).toMatchObject({
+      contextWindow: 16000,
+      inputBudget: 8000,
+    });
+    // Half the window is the most reserved for output
+    expect(getContextBudget('local', 8192, env)).toMatchObject({
+      contextWindow: 10000,
+      reservedOutputTokens: 5000,
+    });
+  });
+
+  it('counts tool call arguments in the estimate', () => {
+    const plain: CERNLiteLLMMessage = { role: 'assistant', content: 'ok' };
+    const withCall: CERNLiteLLMMessage = {
+      ...plain,
+      tool_calls: [
+        {
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'get_context', arguments: '{"startLine":1}' },
+        },
+      ],
+    };
+    expect(estimateMessageTokens(withCall)).toBeGreaterThan(
+      estimateMessageTokens(plain)
+    );
+  });
+
+  it('leaves conversations that fit untouched', async () => {
+    const messages: CERNLiteLLMMessage[] = [
+      { role: 'system', content: 'You are LARS.' },
+      { role: 'user', content: 'Fix the typo' },
+    ];
+    const usage = await fitConversationToBudget(messages, budgetOf(1000));
+
+    expect(messages).toHaveLength(2);
+    expect(usage).toMatchObject({
+      compactedToolResults: 0,
+      summarizedMessages: 0,
+      overBudget: false,
+    });
+    expect(usage.usedTokens).toBeGreaterThan(0);
+  });
+
+  it('shortens tool results from earlier iterations first', async () => {
+    const messages: CERNLiteLLMMessage[] = [
+      { role: 'system', content: 'You are LARS.' },
+      { role: 'user', content: 'Fix the typos' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_context', arguments: '{}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'x'.repeat(8000) },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          {
+            id: 'call_2',
+            type: 'function',
+            function: { name: 'get_context', arguments: '{}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_2', content: 'y'.repeat(2000) },
+    ];
+
+    const usage = await fitConversationToBudget(messages, budgetOf(1000));
+
+    expect(usage.compactedToolResults).toBe(1);
+    expect(usage.overBudget).toBe(false);
+    expect(messages[3].content).toContain('Earlier get_context result');
+    expect(messages[5].content).toBe('y'.repeat(2000));
+  });
+
+  it('summarizes older turns into the system prompt', async () => {
+    const provider = fakeProvider(async () => ({
+      content: '- The user asked to tighten the dosimetry section',
+      toolCalls: [],
+      finishReason: 'stop',
+    }));
+    const history = chatHistory(10);
+    const messages: CERNLiteLLMMessage[] = [
+      { role: 'system', content: 'You are LARS.' },
+      ...history,
+      { role: 'user', content: 'Now fix the conclusion' },
+    ];
+
+    const usage = await fitConversationToBudget(messages, budgetOf(1200), {
+      provider,
+      env: {},
+    });
+
+    expect(usage.summarizedMessages).toBe(6);
+    expect(messages).toHaveLength(6);
+    expect(messages.slice(1, 5)).toEqual(history.slice(6));
+    expect(messages[0].content).toContain(HISTORY_SUMMARY_HEADING);
+    expect(messages[0].content).toContain('tighten the dosimetry section');
+    expect(provider.requests[0].messages[1].content).toContain('Turn 0');
+  });
+
+  it('falls back to an extractive summary when the model call fails', async () => {
+    const provider = fakeProvider(async () => {
+      throw new Error('CERN LiteLLM API error');
+    });
+    const messages: CERNLiteLLMMessage[] = [
+      { role: 'system', content: 'You are LARS.' },
+      ...chatHistory(10),
+      { role: 'user', content: 'Now fix the conclusion' },
+    ];
+
+    const usage = await fitConversationToBudget(messages, budgetOf(300), {
+      provider,
+      env: {},
+    });
+
+    expect(usage.summarizedMessages).toBe(10);
+    expect(messages).toHaveLength(2);
+    expect(messages[0].content).toContain('- user: Turn 0:');
+  });
+
+  it('reports conversations that cannot fit', async () => {
+    const messages: CERNLiteLLMMessage[] = [
+      { role: 'system', content: 'x'.repeat(4000) },
+      { role: 'user', content: 'Fix the typo' },
+    ];
+    const usage = await fitConversationToBudget(messages, budgetOf(100));
+
+    expect(usage.overBudget).toBe(true);
+    expect(usage.percentUsed).toBeGreaterThan(100);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  anchorEdit,
+  checkOriginalText,
+  validateLineEdits,
+  type IntentResult,
+} from '../../lib/lars-agent';
+
+const allowAll: IntentResult = {
+  allowInsert: true,
+  allowDelete: true,
+  allowReplace: true,
+  wantsGrammar: false,
+  wantsDedupe: false,
+  isReadOnly: false,
+  multiEdit: false,
+  fullRevamp: false,
+};
+
+const file = [
+  '\\section{Method}',
+  'We measured the dose.',
+  'Results follow.',
+  '\\section{Results}',
+  'The dose was 2 Gy.',
+].join('\n');
+
+describe('anchorEdit', () => {
+  it('records the covered lines and two lines on either side', () => {
+    expect(
+      anchorEdit(
+        {
+          editType: 'replace',
+          position: { line: 3 },
+          originalLineCount: 1,
+          content: 'See below.',
+        },
+        file
+      )
+    ).toMatchObject({
+      originalText: 'Results follow.',
+      contextBefore: '\\section{Method}\nWe measured the dose.',
+      contextAfter: '\\section{Results}\nThe dose was 2 Gy.',
+    });
+  });
+
+  it('anchors an insert between the lines around it', () => {
+    const anchored = anchorEdit(
+      { editType: 'insert', position: { line: 1 }, content: 'Intro.\n' },
+      file
+    );
+    expect(anchored.originalText).toBeUndefined();
+    expect(anchored.contextBefore).toBeUndefined();
+    expect(anchored.contextAfter).toBe(
+      '\\section{Method}\nWe measured the dose.'
+    );
+  });
+});
+
+describe('checkOriginalText', () => {
+  it('accepts text that differs only in whitespace', () => {
+    expect(
+      checkOriginalText(
+        {
+          editType: 'replace',
+          position: { line: 2 },
+          originalLineCount: 2,
+          originalText: '  We measured  the dose.\nResults follow.\n',
+        },
+        file
+      )
+    ).toBeNull();
+  });
+
+  it('points the model to where the expected text is', () => {
+    const violation = checkOriginalText(
+      {
+        editType: 'delete',
+        position: { line: 4 },
+        originalLineCount: 1,
+        originalText: 'The dose was 2 Gy.',
+      },
+      file
+    );
+    expect(violation).toContain('"The dose was 2 Gy." at line 4');
+    expect(violation).toContain('That text is at line 5.');
+  });
+});
+
+describe('validateLineEdits', () => {
+  it('rejects edits whose originalText does not match and anchors the rest', () => {
+    const result = validateLineEdits(
+      [
+        {
+          editType: 'replace',
+          position: { line: 2 },
+          originalLineCount: 1,
+          originalText: 'We estimated the dose.',
+          content: 'We simulated the dose.',
+        },
+        {
+          editType: 'replace',
+          position: { line: 5 },
+          originalLineCount: 1,
+          content: 'The dose was 2.1 Gy.',
+        },
+      ],
+      allowAll,
+      file
+    );
+
+    expect(result.violations).toHaveLength(1);
+    expect(result.violations[0]).toContain('not in the file');
+    expect(result.acceptedEdits).toEqual([
+      expect.objectContaining({
+        position: { line: 5 },
+        originalText: 'The dose was 2 Gy.',
+        contextBefore: 'Results follow.\n\\section{Results}',
+      }),
+    ]);
+  });
+});
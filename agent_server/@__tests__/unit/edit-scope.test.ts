@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import { executeToolCall } from '../../lib/cern-litellm';
+import type { AgentContext } from '../../lib/cern-litellm';
+import {
+  applyEditScope,
+  buildEditScope,
+  formatEditScope,
+  validateFileEdits,
+  validateLineEdits,
+  type IntentResult,
+  type LineEdit,
+} from '../../lib/lars-agent';
+
+const allowAll: IntentResult = {
+  allowInsert: true,
+  allowDelete: true,
+  allowReplace: true,
+  wantsGrammar: false,
+  wantsDedupe: false,
+  isReadOnly: false,
+  multiEdit: false,
+  fullRevamp: false,
+};
+
+// 1-3 chapter 1, 4-9 chapter 2 (sections 2.1 at 6, 2.2 at 8), 10-12 chapter 3
+const report = [
+  '\\chapter{Introduction}',
+  'Intro.',
+  '',
+  '\\chapter{Setup}',
+  'Setup.',
+  '\\section{Beam}',
+  'Beam text.',
+  '\\section{Dosimetry}',
+  'Dose text.',
+  '\\chapter{Results}',
+  'Results.',
+  'More results.',
+].join('\n');
+
+const methods = ['\\section{Methods}', 'We irradiated.', 'Then measured.'].join(
+  '\n'
+);
+
+const input = {
+  fileContent: report,
+  currentFilePath: 'main.tex',
+  projectFiles: [
+    { path: 'main.tex', content: report },
+    { path: 'sections/methods.tex', content: methods },
+  ],
+};
+
+describe('buildEditScope', () => {
+  it('scopes to the selection when the request refers to it', () => {
+    const scope = buildEditScope({
+      ...input,
+      userText: 'Tighten this paragraph',
+      selectionRange: { startLineNumber: 5, endLineNumber: 7 },
+    });
+
+    expect(scope).toEqual([
+      {
+        filePath: 'main.tex',
+        startLine: 5,
+        endLine: 7,
+        source: 'selection',
+        label: 'selection (lines 5-7)',
+      },
+    ]);
+  });
+
+  it('ignores the selection for document-wide requests', () => {
+    expect(
+      buildEditScope({
+        ...input,
+        userText: 'Fix the spelling in this document',
+        selectionRange: { startLineNumber: 5, endLineNumber: 7 },
+      })
+    ).toEqual([]);
+    expect(
+      buildEditScope({
+        ...input,
+        userText: 'Add an abstract',
+        selectionRange: { startLineNumber: 5, endLineNumber: 7 },
+      })
+    ).toEqual([]);
+  });
+
+  it('resolves numbered chapters and sections', () => {
+    const chapter = buildEditScope({
+      ...input,
+      userText: 'Fix the wording, but only in chapter 3',
+    });
+    const section = buildEditScope({
+      ...input,
+      userText: 'Only change section 2.2 please',
+    });
+
+    expect(chapter[0]).toMatchObject({ startLine: 10, endLine: 12 });
+    expect(chapter[0].label).toBe('chapter 3 "Results"');
+    expect(section[0]).toMatchObject({ startLine: 8, endLine: 9 });
+  });
+
+  it('resolves titled sections in other project files', () => {
+    const scope = buildEditScope({
+      ...input,
+      userText: 'Only fix typos in the methods section',
+    });
+
+    expect(scope).toEqual([
+      expect.objectContaining({
+        filePath: 'sections/methods.tex',
+        startLine: 1,
+        endLine: 3,
+      }),
+    ]);
+  });
+
+  it('resolves explicit line ranges and files', () => {
+    const scope = buildEditScope({
+      ...input,
+      userText: 'Just lines 2-3, and only touch sections/methods.tex',
+    });
+
+    expect(scope.map((range) => range.label)).toEqual([
+      'lines 2-3',
+      'file sections/methods.tex',
+    ]);
+  });
+
+  it('does not scope without a restriction word', () => {
+    expect(buildEditScope({ ...input, userText: 'Rewrite chapter 3' })).toEqual(
+      []
+    );
+  });
+});
+
+describe('scoped validation', () => {
+  const intent = applyEditScope(
+    allowAll,
+    buildEditScope({
+      ...input,
+      userText: 'Tighten this paragraph',
+      selectionRange: { startLineNumber: 5, endLineNumber: 7 },
+    })
+  );
+
+  it('accepts edits inside the scope, including inserts right after it', () => {
+    const result = validateLineEdits(
+      [
+        {
+          editType: 'replace',
+          position: { line: 5 },
+          originalLineCount: 3,
+          content: 'x',
+        },
+        { editType: 'insert', position: { line: 8 }, content: 'y' },
+      ],
+      intent,
+      report,
+      'main.tex'
+    );
+
+    expect(result.violations).toEqual([]);
+    expect(result.acceptedEdits).toHaveLength(2);
+  });
+
+  it('reports edits outside the scope as violations', () => {
+    const result = validateLineEdits(
+      [
+        {
+          editType: 'replace',
+          position: { line: 6 },
+          originalLineCount: 3,
+          content: 'x',
+        },
+        { editType: 'delete', position: { line: 1 }, originalLineCount: 1 },
+      ],
+      intent,
+      report,
+      'main.tex'
+    );
+    const otherFile = validateLineEdits(
+      [{ editType: 'delete', position: { line: 1 }, originalLineCount: 1 }],
+      intent,
+      methods,
+      'sections/methods.tex'
+    );
+    const fileOps = validateFileEdits(
+      [{ editType: 'delete_file', filePath: 'main.tex', explanation: 'x' }],
+      intent,
+      ['main.tex']
+    );
+
+    expect(result.acceptedEdits).toEqual([]);
+    expect(result.violations[0]).toContain('lines 6-8 of main.tex');
+    expect(result.violations[0]).toContain('main.tex lines 5-7');
+    expect(otherFile.violations).toHaveLength(1);
+    expect(fileOps.violations[0]).toContain('edits are limited to');
+  });
+
+  it('describes the scope for the system prompt', () => {
+    expect(formatEditScope(allowAll)).toBe('');
+    expect(formatEditScope(intent)).toContain(
+      '- main.tex: lines 5-7 (selection (lines 5-7))'
+    );
+  });
+
+  it('returns violations to the model through propose_edits', () => {
+    const agentContext: AgentContext = {
+      fileContent: report,
+      numberedContent: '',
+      currentFilePath: 'main.tex',
+      projectFiles: input.projectFiles,
+    };
+    const collectedEdits: LineEdit[] = [];
+
+    const result = executeToolCall(
+      'propose_edits',
+      {
+        edits: [
+          { editType: 'replace', position: { line: 11 }, content: 'x' },
+          { editType: 'replace', position: { line: 6 }, content: 'y' },
+        ],
+      },
+      'call_1',
+      { agentContext, intent, collectedEdits, writeEvent: () => {} }
+    );
+
+    expect(collectedEdits).toEqual([
+      expect.objectContaining({ position: { line: 6 }, filePath: 'main.tex' }),
+    ]);
+    expect(result.content).toContain('outside the allowed scope');
+  });
+});
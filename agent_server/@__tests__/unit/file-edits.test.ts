@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import { executeToolCall } from '../../lib/cern-litellm';
+import type { AgentContext } from '../../lib/cern-litellm';
+import {
+  normalizeProjectPath,
+  validateFileEdits,
+  validateLineEdits,
+  type IntentResult,
+  type LineEdit,
+} from '../../lib/lars-agent';
+
+const allowAll: IntentResult = {
+  allowInsert: true,
+  allowDelete: true,
+  allowReplace: true,
+  wantsGrammar: false,
+  wantsDedupe: false,
+  isReadOnly: false,
+  multiEdit: false,
+  fullRevamp: false,
+};
+
+const readOnly: IntentResult = {
+  ...allowAll,
+  allowInsert: false,
+  allowDelete: false,
+  allowReplace: false,
+  isReadOnly: true,
+};
+
+const existing = ['main.tex', 'sections/methods.tex', 'references.bib'];
+
+describe('normalizeProjectPath', () => {
+  it('accepts relative project paths', () => {
+    expect(normalizeProjectPath('./chapters/methodology.tex')).toBe(
+      'chapters/methodology.tex'
+    );
+  });
+
+  it.each(['', '/etc/passwd', '../secrets.tex', 'a//b.tex', 'dir/', 'a\\b'])(
+    'rejects %j',
+    (path) => {
+      expect(normalizeProjectPath(path)).toBeNull();
+    }
+  );
+});
+
+describe('validateFileEdits', () => {
+  it('accepts create, rename and delete with explanations', () => {
+    const result = validateFileEdits(
+      [
+        {
+          editType: 'create_file',
+          filePath: 'chapters/methodology.tex',
+          content: '\\chapter{Methodology}',
+          explanation: 'Split methodology into its own chapter',
+        },
+        {
+          editType: 'rename_file',
+          filePath: 'sections/methods.tex',
+          newFilePath: 'sections/setup.tex',
+          explanation: 'Name matches the section title',
+        },
+        {
+          editType: 'delete_file',
+          filePath: 'references.bib',
+          explanation: 'Unused bibliography',
+        },
+      ],
+      allowAll,
+      existing
+    );
+
+    expect(result.violations).toEqual([]);
+    expect(result.acceptedEdits.map((e) => e.editType)).toEqual([
+      'create_file',
+      'rename_file',
+      'delete_file',
+    ]);
+  });
+
+  it('rejects conflicts, missing files and missing explanations', () => {
+    const result = validateFileEdits(
+      [
+        { editType: 'create_file', filePath: 'main.tex', explanation: 'x' },
+        { editType: 'delete_file', filePath: 'nope.tex', explanation: 'x' },
+        {
+          editType: 'rename_file',
+          filePath: 'main.tex',
+          newFilePath: 'references.bib',
+          explanation: 'x',
+        },
+        { editType: 'create_file', filePath: 'new.tex' },
+      ],
+      allowAll,
+      existing
+    );
+
+    expect(result.acceptedEdits).toEqual([]);
+    expect(result.violations).toHaveLength(4);
+    expect(result.violations[0]).toContain('already exists');
+    expect(result.violations[1]).toContain('file not found');
+    expect(result.violations[3]).toContain('Missing explanation');
+  });
+
+  it('tracks paths across operations in the same proposal', () => {
+    const result = validateFileEdits(
+      [
+        {
+          editType: 'rename_file',
+          filePath: 'sections/methods.tex',
+          newFilePath: 'sections/setup.tex',
+          explanation: 'Rename',
+        },
+        {
+          editType: 'delete_file',
+          filePath: 'sections/methods.tex',
+          explanation: 'Already moved',
+        },
+      ],
+      allowAll,
+      existing
+    );
+
+    expect(result.acceptedEdits).toHaveLength(1);
+    expect(result.violations[0]).toContain('file not found');
+  });
+
+  it('enforces intent permissions', () => {
+    const result = validateFileEdits(
+      [{ editType: 'delete_file', filePath: 'main.tex', explanation: 'x' }],
+      readOnly,
+      existing
+    );
+
+    expect(result.violations[0]).toContain('not allowed by inferred intent');
+  });
+
+  it('is rejected by line edit validation', () => {
+    const edits: LineEdit[] = [
+      { editType: 'delete_file', filePath: 'main.tex', explanation: 'x' },
+    ];
+    const result = validateLineEdits(edits, allowAll, '');
+
+    expect(result.acceptedEdits).toEqual([]);
+    expect(result.violations[0]).toContain('propose_file_edits');
+  });
+});
+
+describe('propose_file_edits tool', () => {
+  it('emits accepted file edits through the edits event', () => {
+    const agentContext: AgentContext = {
+      fileContent: '\\input{sections/methods}',
+      numberedContent: '',
+      currentFilePath: 'main.tex',
+      projectFiles: existing.map((path) => ({ path, content: '' })),
+    };
+    const collectedEdits: LineEdit[] = [];
+    const events: Array<{ event: string; data: any }> = [];
+    const context = {
+      agentContext,
+      intent: allowAll,
+      collectedEdits,
+      writeEvent: (event: string, data: unknown) =>
+        events.push({ event, data }),
+    };
+
+    const first = executeToolCall(
+      'propose_file_edits',
+      {
+        edits: [
+          {
+            editType: 'create_file',
+            filePath: 'chapters/methodology.tex',
+            content: '\\chapter{Methodology}',
+            explanation: 'New chapter',
+          },
+        ],
+      },
+      'call_1',
+      context
+    );
+
+    expect(first.content).toContain('Accepted 1 file edit(s)');
+    expect(events.find((e) => e.event === 'edits')?.data).toEqual([
+      {
+        editType: 'create_file',
+        filePath: 'chapters/methodology.tex',
+        content: '\\chapter{Methodology}',
+        explanation: 'New chapter',
+      },
+    ]);
+
+    // a second proposal in the same turn sees the created file
+    const second = executeToolCall(
+      'propose_file_edits',
+      {
+        edits: [
+          {
+            editType: 'create_file',
+            filePath: 'chapters/methodology.tex',
+            explanation: 'Again',
+          },
+        ],
+      },
+      'call_2',
+      context
+    );
+
+    expect(second.content).toContain('already exists');
+    expect(collectedEdits).toHaveLength(1);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { executeToolCall } from '../../lib/cern-litellm';
+import type { AgentContext } from '../../lib/cern-litellm';
+import {
+  buildNumberedContent,
+  findSectionRange,
+  type IntentResult,
+} from '../../lib/lars-agent';
+
+const intent: IntentResult = {
+  allowInsert: true,
+  allowDelete: true,
+  allowReplace: true,
+  wantsGrammar: false,
+  wantsDedupe: false,
+  isReadOnly: false,
+  multiEdit: false,
+  fullRevamp: false,
+};
+
+// 2000-line chapter with a section every 400 lines
+const chapter = Array.from({ length: 2000 }, (_, index) => {
+  const line = index + 1;
+  if (line === 1) return '\\chapter{Irradiation Campaign}';
+  if (line % 400 === 0) return `\\section{Part ${line / 400}}`;
+  if (line === 1201) return '\\label{sec:part3}';
+  return `Line ${line} of the chapter.`;
+}).join('\n');
+
+function getContext(args: Record<string, unknown>) {
+  const agentContext: AgentContext = {
+    fileContent: chapter,
+    numberedContent: '',
+    currentFilePath: 'chapters/campaign.tex',
+    projectFiles: [{ path: 'chapters/campaign.tex', content: chapter }],
+  };
+  const result = executeToolCall('get_context', args, 'call_1', {
+    agentContext,
+    intent,
+    collectedEdits: [],
+    writeEvent: () => {},
+  });
+  return JSON.parse(result.content);
+}
+
+describe('buildNumberedContent', () => {
+  it('returns short files in full', async () => {
+    expect(await buildNumberedContent('a\nb')).toBe('1: a\n2: b');
+  });
+
+  it('marks omitted ranges of long files and lists the outline', async () => {
+    const numbered = await buildNumberedContent(chapter, null, {
+      startLineNumber: 1000,
+      endLineNumber: 1002,
+    });
+
+    expect(numbered).toContain('[Long file: 2000 lines.');
+    expect(numbered).toContain('150: Line 150 of the chapter.');
+    expect(numbered).toContain(
+      '[lines 151-949 not shown - call get_context with startLine: 151, endLine: 949 to read them]'
+    );
+    expect(numbered).toContain('1001: Line 1001 of the chapter.');
+    expect(numbered).toContain('[lines 1053-1950 not shown');
+    expect(numbered).toContain('2000: \\section{Part 5}');
+    expect(numbered).toContain('L1200: \\section{Part 3}');
+  });
+});
+
+describe('findSectionRange', () => {
+  it('ends a section before the next heading of the same level', () => {
+    expect(findSectionRange(chapter, 'part 2')).toMatchObject({
+      startLine: 800,
+      endLine: 1199,
+    });
+  });
+
+  it('matches sections by label', () => {
+    expect(findSectionRange(chapter, 'sec:part3')?.heading.title).toBe(
+      'Part 3'
+    );
+  });
+
+  it('returns null for unknown sections', () => {
+    expect(findSectionRange(chapter, 'Conclusions')).toBeNull();
+  });
+});
+
+describe('get_context line windows', () => {
+  it('pages long files in windows with a next start line', () => {
+    const payload = getContext({});
+
+    expect(payload.lineCount).toBe(2000);
+    expect(payload.startLine).toBe(1);
+    expect(payload.endLine).toBe(500);
+    expect(payload.nextStartLine).toBe(501);
+    expect(payload.numberedContent.split('\n')).toHaveLength(500);
+    expect(payload.outline).toContain('L400: \\section{Part 1}');
+  });
+
+  it('returns the requested line range', () => {
+    const payload = getContext({
+      filePath: 'chapters/campaign.tex',
+      startLine: 1001,
+      endLine: 1003,
+    });
+
+    expect(payload.numberedContent).toBe(
+      [
+        '1001: Line 1001 of the chapter.',
+        '1002: Line 1002 of the chapter.',
+        '1003: Line 1003 of the chapter.',
+      ].join('\n')
+    );
+    expect(payload.nextStartLine).toBe(1004);
+  });
+
+  it('returns a section by name', () => {
+    const payload = getContext({ section: 'Part 4' });
+
+    expect(payload.section).toBe('Part 4');
+    expect(payload.startLine).toBe(1600);
+    expect(payload.endLine).toBe(1999);
+  });
+
+  it('reports unknown sections with the outline', () => {
+    const payload = getContext({ section: 'Conclusions' });
+
+    expect(payload.error).toContain('Section not found');
+    expect(payload.outline).toContain('L1: \\chapter{Irradiation Campaign}');
+  });
+});
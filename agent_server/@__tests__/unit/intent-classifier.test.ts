@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  parseIntentClassification,
+  resolveIntent,
+  validateLineEdits,
+  type IntentResult,
+} from '../../lib/lars-agent';
+import type {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProvider,
+} from '../../lib/llm-providers';
+
+function fakeProvider(
+  respond: (request: LLMChatRequest) => Promise<LLMChatResponse>
+): LLMProvider & { requests: LLMChatRequest[] } {
+  const requests: LLMChatRequest[] = [];
+  return {
+    id: 'openai',
+    model: 'fake-model',
+    requests,
+    streamChat(request) {
+      requests.push(request);
+      return respond(request);
+    },
+  };
+}
+
+function toolResponse(args: Record<string, unknown>): LLMChatResponse {
+  return {
+    content: '',
+    toolCalls: [
+      {
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'report_intent', arguments: JSON.stringify(args) },
+      },
+    ],
+    finishReason: 'tool_calls',
+  };
+}
+
+const editConclusion = {
+  isReadOnly: false,
+  allowInsert: true,
+  allowDelete: true,
+  allowReplace: true,
+  allowedFiles: ['main.tex'],
+  allowedSections: ['Conclusion'],
+  reasoning: 'Only the conclusion may change',
+};
+
+const llmEnv = { INTENT_CLASSIFIER: 'llm' } as NodeJS.ProcessEnv;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseIntentClassification', () => {
+  it('parses fenced JSON content', () => {
+    const intent = parseIntentClassification(
+      '```json\n{"isReadOnly": false, "allowInsert": true, "allowDelete": false, "allowReplace": true, "allowedFiles": ["./main.tex", "../x.tex"], "allowedSections": []}\n```'
+    );
+
+    expect(intent).toMatchObject({
+      allowInsert: true,
+      allowDelete: false,
+      allowReplace: true,
+      allowedFiles: ['main.tex'],
+      source: 'llm',
+    });
+    expect(intent?.allowedSections).toBeUndefined();
+  });
+
+  it('forces allow flags off for read-only requests', () => {
+    const intent = parseIntentClassification({
+      ...editConclusion,
+      isReadOnly: true,
+    });
+
+    expect(intent).toMatchObject({
+      isReadOnly: true,
+      allowInsert: false,
+      allowDelete: false,
+      allowReplace: false,
+    });
+  });
+
+  it('rejects responses without the required flags', () => {
+    expect(parseIntentClassification({ allowInsert: true })).toBeNull();
+    expect(parseIntentClassification('not json')).toBeNull();
+  });
+});
+
+describe('resolveIntent', () => {
+  it('uses keywords unless the LLM classifier is enabled', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const provider = fakeProvider(async () => toolResponse(editConclusion));
+
+    const intent = await resolveIntent('add a paragraph', {
+      provider,
+      env: {},
+    });
+
+    expect(intent.source).toBe('keywords');
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('returns the classifier result and forces the report_intent tool', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const provider = fakeProvider(async () => toolResponse(editConclusion));
+
+    const intent = await resolveIntent(
+      'no changes to the intro but rewrite the conclusion',
+      {
+        provider,
+        env: llmEnv,
+        projectFiles: ['main.tex'],
+        fileContent: '\\section{Introduction}\n\\section{Conclusion}',
+      }
+    );
+
+    expect(intent).toMatchObject({
+      allowReplace: true,
+      allowedSections: ['Conclusion'],
+      source: 'llm',
+    });
+    expect(provider.requests[0].tool_choice).toEqual({
+      type: 'function',
+      function: { name: 'report_intent' },
+    });
+    expect(provider.requests[0].messages[0].content).toContain('- Conclusion');
+    expect(log).toHaveBeenCalledWith(
+      '[Intent]',
+      expect.stringContaining('"source":"llm"')
+    );
+  });
+
+  it('falls back to keywords on errors and timeouts', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const failing = fakeProvider(async () => {
+      throw new Error('provider down');
+    });
+    const hanging = fakeProvider(() => new Promise(() => {}));
+
+    const afterError = await resolveIntent('fix the typo', {
+      provider: failing,
+      env: llmEnv,
+    });
+    const afterTimeout = await resolveIntent('fix the typo', {
+      provider: hanging,
+      env: { ...llmEnv, INTENT_CLASSIFIER_TIMEOUT_MS: '20' },
+    });
+
+    expect(afterError.source).toBe('keywords');
+    expect(afterTimeout.source).toBe('keywords');
+    // The timed out request is cancelled, not left running
+    expect(hanging.requests[0].signal?.aborted).toBe(true);
+  });
+
+  it('cancels the classifier request with the caller', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const controller = new AbortController();
+    const provider = fakeProvider(
+      (request) =>
+        new Promise((_, reject) =>
+          request.signal?.addEventListener('abort', () =>
+            reject(new Error('aborted'))
+          )
+        )
+    );
+
+    const intent = resolveIntent('fix the typo', {
+      provider,
+      env: llmEnv,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    expect((await intent).source).toBe('keywords');
+    expect(provider.requests[0].signal?.aborted).toBe(true);
+  });
+
+  it('appends decisions to INTENT_LOG_FILE', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const logFile = join(mkdtempSync(join(tmpdir(), 'intent-')), 'log.jsonl');
+
+    await resolveIntent('only check the references', {
+      env: { ...llmEnv, INTENT_LOG_FILE: logFile },
+    });
+
+    const [entry] = readFileSync(logFile, 'utf-8').trim().split('\n');
+    expect(JSON.parse(entry)).toMatchObject({
+      source: 'keywords',
+      userText: 'only check the references',
+      fallbackReason: 'No LLM provider available',
+      intent: { isReadOnly: true },
+    });
+  });
+});
+
+describe('intent scope enforcement', () => {
+  const scoped: IntentResult = {
+    allowInsert: true,
+    allowDelete: true,
+    allowReplace: true,
+    wantsGrammar: false,
+    wantsDedupe: false,
+    isReadOnly: false,
+    multiEdit: false,
+    fullRevamp: false,
+    allowedFiles: ['main.tex'],
+    allowedSections: ['Conclusion'],
+  };
+  const content = [
+    '\\section{Introduction}',
+    'Intro text.',
+    '\\section{Conclusion}',
+    'Closing text.',
+  ].join('\n');
+
+  it('accepts edits inside the allowed section', () => {
+    const result = validateLineEdits(
+      [
+        { editType: 'replace', position: { line: 4 }, content: 'Better.' },
+        { editType: 'insert', position: { line: 5 }, content: 'More.' },
+      ],
+      scoped,
+      content,
+      'main.tex'
+    );
+
+    expect(result.violations).toEqual([]);
+    expect(result.acceptedEdits).toHaveLength(2);
+  });
+
+  it('rejects edits outside the allowed section or file', () => {
+    const outsideSection = validateLineEdits(
+      [{ editType: 'replace', position: { line: 2 }, content: 'New intro.' }],
+      scoped,
+      content,
+      'main.tex'
+    );
+    const outsideFile = validateLineEdits(
+      [{ editType: 'replace', position: { line: 4 }, content: 'x' }],
+      scoped,
+      content,
+      'appendix.tex'
+    );
+
+    expect(outsideSection.violations[0]).toContain('Conclusion: lines 3-4');
+    expect(outsideFile.violations[0]).toContain('appendix.tex');
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { executeToolCall } from '../../lib/cern-litellm';
+import type { AgentContext } from '../../lib/cern-litellm';
+import {
+  applyLineEdits,
+  checkLatexEdits,
+  type IntentResult,
+  type LineEdit,
+} from '../../lib/lars-agent';
+
+const allowAll: IntentResult = {
+  allowInsert: true,
+  allowDelete: true,
+  allowReplace: true,
+  wantsGrammar: false,
+  wantsDedupe: false,
+  isReadOnly: false,
+  multiEdit: false,
+  fullRevamp: false,
+};
+
+const main = [
+  '\\section{Method}\\label{sec:method}',
+  'We measured the dose \\cite{smith2020}.',
+  '\\begin{itemize}',
+  '  \\item First run',
+  '\\end{itemize}',
+  'See Section~\\ref{sec:results}.',
+].join('\n');
+
+const results = [
+  '\\section{Results}\\label{sec:results}',
+  'As in Section~\\ref{sec:method}, 50\\% of runs passed.',
+].join('\n');
+
+const bib = '@article{smith2020,\n  title = {Dose {M}easurements},\n}';
+
+const projectFiles = [
+  { path: 'main.tex', content: main },
+  { path: 'results.tex', content: results },
+  { path: 'refs.bib', content: bib },
+];
+
+const change = (after: string, path = 'main.tex', before = main) => ({
+  path,
+  before,
+  after,
+});
+
+describe('applyLineEdits', () => {
+  it('applies edits against the original line numbers', () => {
+    expect(
+      applyLineEdits('a\nb\nc', [
+        { editType: 'insert', position: { line: 1 }, content: 'top\n' },
+        {
+          editType: 'replace',
+          position: { line: 3 },
+          originalLineCount: 1,
+          content: 'C',
+        },
+        { editType: 'delete', position: { line: 2 }, originalLineCount: 1 },
+      ])
+    ).toBe('top\na\n\nC');
+  });
+});
+
+describe('checkLatexEdits', () => {
+  it('accepts edits that keep the file valid', () => {
+    const after = main.replace('First run', 'First run with \\{x\\} % {');
+    expect(checkLatexEdits([change(after)], projectFiles).size).toBe(0);
+  });
+
+  it('reports unbalanced braces and environments', () => {
+    const after = main
+      .replace('\\section{Method}', '\\section{Method')
+      .replace('\\end{itemize}', '\\end{enumerate}');
+    const problems = checkLatexEdits([change(after)]).get('main.tex');
+
+    expect(problems).toEqual([
+      '\\end{enumerate} at line 5 has no matching \\begin{enumerate}.',
+      '{ at line 1 is never closed.',
+      '\\begin{itemize} at line 3 is never closed with \\end{itemize}.',
+    ]);
+  });
+
+  it('ignores problems the file already had', () => {
+    const broken = `${main}\n\\begin{table}`;
+    expect(
+      checkLatexEdits([
+        change(broken.replace('First run', 'Only run'), 'main.tex', broken),
+      ]).size
+    ).toBe(0);
+  });
+
+  it('ignores braces in comments and verbatim', () => {
+    const after = `${main}\n\\verb|{|\n\\begin{verbatim}\n\\end{itemize} }\n\\end{verbatim}`;
+    expect(checkLatexEdits([change(after)]).size).toBe(0);
+  });
+
+  it('reports new references and citations that point nowhere', () => {
+    const after = main
+      .replace('\\ref{sec:results}', '\\cref{sec:results,sec:appendix}')
+      .replace('\\cite{smith2020}', '\\citep[p.~3]{smith2020,jones2019}');
+
+    expect(
+      checkLatexEdits([change(after)], projectFiles).get('main.tex')
+    ).toEqual([
+      'Unknown label "sec:appendix" at line 6; no \\label in the project defines it.',
+      'Unknown citation key "jones2019" at line 2; no bibliography entry in the project defines it.',
+    ]);
+  });
+
+  it('reports a removed label that another file still references', () => {
+    const after = main.replace('\\label{sec:method}', '');
+    expect(
+      checkLatexEdits([change(after)], projectFiles).get('main.tex')
+    ).toEqual([
+      'The edits remove the \\label for "sec:method", which is still used in results.tex.',
+    ]);
+  });
+
+  it('skips citations when the bibliography is not in the project', () => {
+    const after = main.replace('smith2020', 'jones2019');
+    expect(
+      checkLatexEdits(
+        [change(after)],
+        projectFiles.filter((file) => file.path !== 'refs.bib')
+      ).size
+    ).toBe(0);
+  });
+});
+
+describe('propose_edits LaTeX check', () => {
+  it('holds back a file whose edits leave LaTeX errors', () => {
+    const agentContext: AgentContext = {
+      fileContent: main,
+      numberedContent: '',
+      currentFilePath: 'main.tex',
+      projectFiles,
+    };
+    const collectedEdits: LineEdit[] = [];
+
+    const result = executeToolCall(
+      'propose_edits',
+      {
+        edits: [
+          { search: '\\end{itemize}', replace: '' },
+          {
+            filePath: 'results.tex',
+            search: '50\\%',
+            replace: 'half',
+          },
+        ],
+      },
+      'call_1',
+      { agentContext, intent: allowAll, collectedEdits, writeEvent: () => {} }
+    );
+
+    expect(collectedEdits).toEqual([
+      expect.objectContaining({ filePath: 'results.tex' }),
+    ]);
+    expect(result.content).toContain('Blocked 1 edit(s) in main.tex');
+    expect(result.content).toContain(
+      '\\begin{itemize} at line 3 is never closed with \\end{itemize}.'
+    );
+  });
+});
@@ -0,0 +1,363 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createAnthropicProvider,
+  createOllamaProvider,
+  resolveProvider,
+  type LLMProviderConfig,
+} from '../../lib/llm-providers';
+import type { CERNLiteLLMToolDefinition } from '../../lib/cern-litellm/types';
+
+const anthropicConfig: LLMProviderConfig = {
+  id: 'anthropic',
+  url: 'https://anthropic.test/v1/messages',
+  apiKey: 'sk-test',
+  model: 'claude-test',
+};
+
+const ollamaConfig: LLMProviderConfig = {
+  id: 'ollama',
+  url: 'http://ollama.test:11434/',
+  model: 'llama-test',
+};
+
+const searchTool: CERNLiteLLMToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'search_project',
+    description: 'Search the project',
+    parameters: { type: 'object', properties: {} },
+  },
+};
+
+function sse(events: unknown[]): string {
+  return events
+    .map((event) => `event: x\ndata: ${JSON.stringify(event)}\n\n`)
+    .join('');
+}
+
+// A streamed body delivered in the given chunks, to split lines mid-way
+function streamedResponse(chunks: string[], status = 200): Response {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    }),
+    { status }
+  );
+}
+
+function mockFetch(response: Response) {
+  return vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(response);
+}
+
+function requestBody(fetchSpy: ReturnType<typeof mockFetch>) {
+  return JSON.parse(String(fetchSpy.mock.calls[0][1]?.body));
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('Anthropic provider', () => {
+  it('hoists system messages and turns tool calls into blocks', async () => {
+    const fetchSpy = mockFetch(
+      streamedResponse([sse([{ type: 'message_stop' }])])
+    );
+
+    await createAnthropicProvider(anthropicConfig).streamChat({
+      messages: [
+        { role: 'system', content: 'You edit LaTeX.' },
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Find the label.' },
+        {
+          role: 'assistant',
+          content: 'Searching.',
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: {
+                name: 'search_project',
+                arguments: '{"query":"label"}',
+              },
+            },
+            {
+              id: 'call_2',
+              type: 'function',
+              function: { name: 'search_project', arguments: 'not json' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'main.tex:3' },
+        { role: 'tool', tool_call_id: 'call_2', content: 'none' },
+        { role: 'user', content: 'Thanks.' },
+      ],
+      tools: [searchTool],
+      tool_choice: {
+        type: 'function',
+        function: { name: 'search_project' },
+      },
+    });
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe(anthropicConfig.url);
+    expect(init?.headers).toMatchObject({ 'x-api-key': 'sk-test' });
+
+    const body = requestBody(fetchSpy);
+    expect(body.system).toBe('You edit LaTeX.\n\nBe brief.');
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'search_project' });
+    expect(body.tools[0]).toMatchObject({
+      name: 'search_project',
+      input_schema: { type: 'object' },
+    });
+    expect(body.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Find the label.' }] },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Searching.' },
+          {
+            type: 'tool_use',
+            id: 'call_1',
+            name: 'search_project',
+            input: { query: 'label' },
+          },
+          { type: 'tool_use', id: 'call_2', name: 'search_project', input: {} },
+        ],
+      },
+      // Tool results and the next user turn form one user message
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'call_1', content: 'main.tex:3' },
+          { type: 'tool_result', tool_use_id: 'call_2', content: 'none' },
+          { type: 'text', text: 'Thanks.' },
+        ],
+      },
+    ]);
+  });
+
+  it('collects streamed text, tool calls and usage', async () => {
+    const body = sse([
+      { type: 'message_start', message: { usage: { input_tokens: 12 } } },
+      {
+        type: 'content_block_start',
+        index: 0,
+        content_block: { type: 'text' },
+      },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'text_delta', text: 'Looking' },
+      },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'text_delta', text: ' now.' },
+      },
+      {
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'tool_use', id: 'tu_1', name: 'search_project' },
+      },
+      {
+        type: 'content_block_delta',
+        index: 1,
+        delta: { type: 'input_json_delta', partial_json: '{"query":' },
+      },
+      {
+        type: 'content_block_delta',
+        index: 1,
+        delta: { type: 'input_json_delta', partial_json: '"label"}' },
+      },
+      {
+        type: 'message_delta',
+        delta: { stop_reason: 'tool_use' },
+        usage: { output_tokens: 7 },
+      },
+    ]);
+    // Split inside an event, as a network read may
+    mockFetch(streamedResponse([body.slice(0, 101), body.slice(101)]));
+    const chunks: string[] = [];
+
+    const response = await createAnthropicProvider(anthropicConfig).streamChat(
+      { messages: [{ role: 'user', content: 'Find the label.' }] },
+      (chunk) => chunks.push(chunk)
+    );
+
+    expect(chunks).toEqual(['Looking', ' now.']);
+    expect(response).toEqual({
+      content: 'Looking now.',
+      toolCalls: [
+        {
+          id: 'tu_1',
+          type: 'function',
+          function: { name: 'search_project', arguments: '{"query":"label"}' },
+        },
+      ],
+      finishReason: 'tool_calls',
+      usage: { inputTokens: 12, outputTokens: 7 },
+    });
+  });
+
+  it('throws on error responses and stream errors', async () => {
+    const provider = createAnthropicProvider(anthropicConfig);
+    const request = { messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+    mockFetch(streamedResponse(['invalid x-api-key'], 401));
+    await expect(provider.streamChat(request)).rejects.toThrow(
+      'Anthropic API error (401): invalid x-api-key'
+    );
+
+    mockFetch(
+      streamedResponse([
+        sse([{ type: 'error', error: { message: 'Overloaded' } }]),
+      ])
+    );
+    await expect(provider.streamChat(request)).rejects.toThrow(
+      'Anthropic API error: Overloaded'
+    );
+  });
+});
+
+describe('Ollama provider', () => {
+  it('sends native chat messages with tool names and images', async () => {
+    const fetchSpy = mockFetch(
+      streamedResponse([JSON.stringify({ done: true }) + '\n'])
+    );
+
+    await createOllamaProvider(ollamaConfig).streamChat({
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            {
+              type: 'image_url',
+              image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' },
+            },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: {
+                name: 'search_project',
+                arguments: '{"query":"x"}',
+              },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'no matches' },
+      ],
+      tools: [searchTool],
+      temperature: 0,
+      max_tokens: 256,
+    });
+
+    expect(fetchSpy.mock.calls[0][0]).toBe('http://ollama.test:11434/api/chat');
+    const body = requestBody(fetchSpy);
+    expect(body.options).toEqual({ temperature: 0, num_predict: 256 });
+    expect(body.messages).toEqual([
+      { role: 'user', content: 'What is this?', images: ['iVBORw0KGgo='] },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          { function: { name: 'search_project', arguments: { query: 'x' } } },
+        ],
+      },
+      { role: 'tool', content: 'no matches', tool_name: 'search_project' },
+    ]);
+  });
+
+  it('parses the NDJSON stream into text, tool calls and usage', async () => {
+    const lines = [
+      { message: { content: 'Let me ' } },
+      { message: { content: 'search.' } },
+      {
+        message: {
+          content: '',
+          tool_calls: [
+            { function: { name: 'search_project', arguments: { query: 'x' } } },
+          ],
+        },
+      },
+      { done: true, prompt_eval_count: 30, eval_count: 9 },
+    ]
+      .map((line) => JSON.stringify(line))
+      .join('\n');
+    // A line split across reads, and no newline after the last one
+    mockFetch(streamedResponse([lines.slice(0, 20), lines.slice(20)]));
+    const chunks: string[] = [];
+
+    const response = await createOllamaProvider(ollamaConfig).streamChat(
+      { messages: [{ role: 'user', content: 'Find x.' }] },
+      (chunk) => chunks.push(chunk)
+    );
+
+    expect(chunks).toEqual(['Let me ', 'search.']);
+    expect(response).toEqual({
+      content: 'Let me search.',
+      toolCalls: [
+        {
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'search_project', arguments: '{"query":"x"}' },
+        },
+      ],
+      finishReason: 'tool_calls',
+      usage: { inputTokens: 30, outputTokens: 9 },
+    });
+  });
+
+  it('throws when the stream reports an error', async () => {
+    mockFetch(
+      streamedResponse([JSON.stringify({ error: 'model not found' }) + '\n'])
+    );
+
+    await expect(
+      createOllamaProvider(ollamaConfig).streamChat({
+        messages: [{ role: 'user', content: 'Hi' }],
+      })
+    ).rejects.toThrow('Ollama API error: model not found');
+  });
+});
+
+describe('resolveProvider', () => {
+  it('rejects unknown provider ids', () => {
+    const result = resolveProvider('gpt-local');
+
+    expect(result.provider).toBeUndefined();
+    expect(result.reason).toBe('unknown');
+    expect(result.error).toContain('Unknown provider "gpt-local"');
+  });
+
+  it('reports a known provider without its configuration', () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    vi.stubEnv('ANTHROPIC_MODEL', 'claude-test');
+
+    expect(resolveProvider('anthropic')).toEqual({
+      error: 'ANTHROPIC_API_KEY is not configured',
+      reason: 'unconfigured',
+    });
+  });
+
+  it('uses LLM_PROVIDER when the request names no provider', () => {
+    vi.stubEnv('LLM_PROVIDER', 'ollama');
+    vi.stubEnv('OLLAMA_MODEL', 'llama-test');
+
+    const { provider } = resolveProvider(undefined);
+
+    expect(provider?.id).toBe('ollama');
+    expect(provider?.model).toBe('llama-test');
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { executeToolCall, getToolDefinitions } from '../../lib/cern-litellm';
+import type { AgentContext } from '../../lib/cern-litellm';
+import type { IntentResult } from '../../lib/lars-agent/intent-inference';
+
+const intent: IntentResult = {
+  allowInsert: true,
+  allowDelete: true,
+  allowReplace: true,
+  wantsGrammar: false,
+  wantsDedupe: false,
+  isReadOnly: false,
+  multiEdit: false,
+  fullRevamp: false,
+};
+
+const agentContext: AgentContext = {
+  fileContent: [
+    '\\documentclass{article}',
+    '\\begin{document}',
+    '\\input{sections/introduction}',
+    'See Section~\\ref{sec:results}.',
+    '\\end{document}',
+  ].join('\n'),
+  numberedContent: '',
+  currentFilePath: 'main.tex',
+  projectFiles: [
+    { path: 'main.tex', content: 'stale snapshot' },
+    {
+      path: 'sections/introduction.tex',
+      content: [
+        '\\section{Introduction}',
+        'This report describes the campaign~\\cite{smith2020}.',
+        'Results follow.',
+      ].join('\n'),
+    },
+    {
+      path: 'sections/results.tex',
+      content: [
+        '\\section{Results}',
+        '\\label{sec:results}',
+        'No SEL was observed~\\cite{smith2020, doe2021}.',
+      ].join('\n'),
+    },
+    { path: 'references.bib', content: '@article{smith2020,\n  title={X}\n}' },
+    { path: 'figures/setup.png', content: 'iVBORw0KGgo=' },
+  ],
+};
+
+function search(args: Record<string, unknown>) {
+  const events: Array<{ event: string; data: any }> = [];
+  const result = executeToolCall('search_project', args, 'call_1', {
+    agentContext,
+    intent,
+    collectedEdits: [],
+    writeEvent: (event, data) => events.push({ event, data }),
+  });
+  return { payload: JSON.parse(result.content), events };
+}
+
+describe('search_project tool', () => {
+  it('is exposed to the model', () => {
+    const names = getToolDefinitions().map((tool) => tool.function.name);
+    expect(names).toContain('search_project');
+  });
+
+  it('finds literal matches across files with line numbers and context', () => {
+    const { payload } = search({ query: '\\cite{smith2020', contextLines: 1 });
+
+    expect(payload.totalMatches).toBe(2);
+    expect(payload.matches).toEqual([
+      {
+        filePath: 'sections/introduction.tex',
+        line: 2,
+        text: 'This report describes the campaign~\\cite{smith2020}.',
+        context: [
+          '1: \\section{Introduction}',
+          '2: This report describes the campaign~\\cite{smith2020}.',
+          '3: Results follow.',
+        ].join('\n'),
+      },
+      expect.objectContaining({ filePath: 'sections/results.tex', line: 3 }),
+    ]);
+  });
+
+  it('supports regular expressions and file patterns', () => {
+    const { payload } = search({
+      query: '^@\\w+\\{smith',
+      isRegex: true,
+      filePattern: '*.bib',
+    });
+
+    expect(payload.filesSearched).toBe(1);
+    expect(payload.matches).toHaveLength(1);
+    expect(payload.matches[0]).toMatchObject({
+      filePath: 'references.bib',
+      line: 1,
+    });
+  });
+
+  it('lets ** match no directory in file patterns', () => {
+    const files = (filePattern: string) =>
+      search({ query: 'section', filePattern }).payload.matches.map(
+        (m: { filePath: string }) => m.filePath
+      );
+
+    expect(
+      search({ query: 'document', filePattern: '**/*.tex' }).payload.matches[0]
+        .filePath
+    ).toBe('main.tex');
+    expect(files('sections/**/*.tex')).toEqual([
+      'sections/introduction.tex',
+      'sections/results.tex',
+    ]);
+  });
+
+  it('rejects regular expressions that backtrack catastrophically', () => {
+    const slow = {
+      ...agentContext,
+      fileContent: `${'a'.repeat(40)}!`,
+    };
+    for (const query of ['(a+)+$', '(a|aa)*$', '(\\w+\\s?)*$', '(a)\\1']) {
+      const started = Date.now();
+      const events: Array<{ event: string; data: any }> = [];
+      const result = executeToolCall(
+        'search_project',
+        { query, isRegex: true },
+        'call_1',
+        {
+          agentContext: slow,
+          intent,
+          collectedEdits: [],
+          writeEvent: (event, data) => events.push({ event, data }),
+        }
+      );
+
+      expect(JSON.parse(result.content).error).toContain(
+        'Regular expression not allowed'
+      );
+      expect(events[0].data.error).toBe('unsafe_regex');
+      expect(Date.now() - started).toBeLessThan(1000);
+    }
+    // Quantifiers in separate groups, lazy ones and classes are fine
+    expect(
+      search({ query: '\\\\cite\\{(\\w+)[^}]*?\\}', isRegex: true }).payload
+        .totalMatches
+    ).toBe(2);
+  });
+
+  it('searches the live editor content of the current file and skips images', () => {
+    const { payload } = search({ query: 'sec:results' });
+    const paths = payload.matches.map((m: { filePath: string }) => m.filePath);
+
+    expect(paths).toEqual(['main.tex', 'sections/results.tex']);
+    expect(payload.filesSearched).toBe(4);
+  });
+
+  it('honours case sensitivity and truncates to maxResults', () => {
+    expect(
+      search({ query: 'RESULTS', caseSensitive: true }).payload.totalMatches
+    ).toBe(0);
+
+    const { payload } = search({ query: 'results', maxResults: 2 });
+    expect(payload.matches).toHaveLength(2);
+    expect(payload.truncated).toBe(true);
+    expect(payload.totalMatches).toBeGreaterThan(2);
+  });
+
+  it('reports invalid regular expressions back to the model', () => {
+    const { payload, events } = search({ query: '(unclosed', isRegex: true });
+
+    expect(payload.error).toContain('Invalid regular expression');
+    expect(events).toEqual([
+      {
+        event: 'tool',
+        data: { name: 'search_project', error: 'invalid_regex' },
+      },
+    ]);
+  });
+
+  it('streams per-file progress through tool events', () => {
+    const { events } = search({ query: 'smith2020' });
+    const data = events.map((e) => e.data);
+
+    expect(events.every((e) => e.event === 'tool')).toBe(true);
+    expect(data[0]).toEqual({
+      name: 'search_project',
+      query: 'smith2020',
+      totalFiles: 4,
+    });
+    expect(data.slice(1, -1).map((d) => d.filesSearched)).toEqual([1, 2, 3, 4]);
+    expect(data.at(-1)).toEqual({ name: 'search_project', count: 3, files: 3 });
+  });
+});
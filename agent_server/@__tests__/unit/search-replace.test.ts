@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import { executeToolCall } from '../../lib/cern-litellm';
+import type { AgentContext } from '../../lib/cern-litellm';
+import {
+  resolveSearchReplace,
+  validateLineEdits,
+  type IntentResult,
+  type LineEdit,
+} from '../../lib/lars-agent';
+
+const allowAll: IntentResult = {
+  allowInsert: true,
+  allowDelete: true,
+  allowReplace: true,
+  wantsGrammar: false,
+  wantsDedupe: false,
+  isReadOnly: false,
+  multiEdit: false,
+  fullRevamp: false,
+};
+
+const file = [
+  '\\section{Method}',
+  'We measured the dose.',
+  '\\begin{itemize}',
+  '  \\item First run',
+  '  \\item Second run',
+  '\\end{itemize}',
+  '\\section{Results}',
+  'The dose was 2 Gy.',
+].join('\n');
+
+describe('resolveSearchReplace', () => {
+  it('turns a unique match into a replace of its lines', () => {
+    expect(
+      resolveSearchReplace(
+        {
+          search: '  \\item First run\n  \\item Second run',
+          replace: '  \\item Only run',
+          explanation: 'Merge runs',
+        },
+        file
+      )
+    ).toEqual({
+      edit: {
+        editType: 'replace',
+        position: { line: 4 },
+        originalLineCount: 2,
+        content: '  \\item Only run',
+        explanation: 'Merge runs',
+      },
+    });
+  });
+
+  it('keeps the rest of a line around a partial match', () => {
+    expect(
+      resolveSearchReplace({ search: '2 Gy', replace: '2.5 Gy' }, file).edit
+    ).toMatchObject({
+      position: { line: 8 },
+      originalLineCount: 1,
+      content: 'The dose was 2.5 Gy.',
+    });
+  });
+
+  it('deletes whole lines when the search ends with a line break', () => {
+    expect(
+      resolveSearchReplace(
+        { search: '  \\item Second run\n', replace: '' },
+        file
+      ).edit
+    ).toMatchObject({
+      editType: 'delete',
+      position: { line: 5 },
+      originalLineCount: 1,
+      content: '',
+    });
+  });
+
+  it('rejects text that appears more than once, with where it is', () => {
+    const result = resolveSearchReplace(
+      { search: '\\section', replace: '\\subsection' },
+      file
+    );
+    expect(result.edit).toBeUndefined();
+    expect(result.error).toContain('appears 2 times (lines 1, 7)');
+  });
+
+  it('matches whole lines that only differ in spacing', () => {
+    expect(
+      resolveSearchReplace(
+        { search: '\\item   Second run', replace: '  \\item Last run' },
+        file
+      ).edit
+    ).toMatchObject({
+      position: { line: 5 },
+      originalLineCount: 1,
+      content: '  \\item Last run',
+    });
+  });
+
+  it('points to the closest line when the text is not in the file', () => {
+    const result = resolveSearchReplace(
+      { search: 'The dose was 3 Gy in total.', replace: 'x' },
+      file
+    );
+    expect(result.error).toContain('was not found');
+    expect(result.error).toContain('The closest line is 8');
+  });
+});
+
+describe('validateLineEdits line range', () => {
+  it('rejects edits outside the file', () => {
+    const result = validateLineEdits(
+      [
+        { editType: 'replace', position: { line: 12 }, content: 'x' },
+        {
+          editType: 'delete',
+          position: { line: 7 },
+          originalLineCount: 3,
+        },
+        { editType: 'insert', position: { line: 9 }, content: 'Appendix.' },
+      ],
+      allowAll,
+      file,
+      'main.tex'
+    );
+
+    expect(result.acceptedEdits).toHaveLength(1);
+    expect(result.acceptedEdits[0].editType).toBe('insert');
+    expect(result.violations[0]).toContain(
+      'Edit at line 12 is outside main.tex, which has 8 lines'
+    );
+    expect(result.violations[1]).toContain('Edit at line 7-9 is outside');
+  });
+
+  it('counts the lines a replace covers the way the editor applies it', () => {
+    // Without originalLineCount the editor replaces as many lines as it adds
+    const result = validateLineEdits(
+      [{ editType: 'replace', position: { line: 7 }, content: 'a\nb\nc' }],
+      allowAll,
+      file,
+      'main.tex'
+    );
+
+    expect(result.acceptedEdits).toHaveLength(0);
+    expect(result.violations[0]).toContain('Edit at line 7-9 is outside');
+  });
+});
+
+describe('propose_edits with search/replace', () => {
+  it('emits line edits and reports unresolved searches to the model', () => {
+    const agentContext: AgentContext = {
+      fileContent: file,
+      numberedContent: '',
+      currentFilePath: 'main.tex',
+    };
+    const collectedEdits: LineEdit[] = [];
+
+    const result = executeToolCall(
+      'propose_edits',
+      {
+        edits: [
+          { search: 'We measured the dose.', replace: 'We measured it.' },
+          { search: 'We estimated the dose.', replace: 'x' },
+        ],
+      },
+      'call_1',
+      { agentContext, intent: allowAll, collectedEdits, writeEvent: () => {} }
+    );
+
+    expect(collectedEdits).toEqual([
+      expect.objectContaining({
+        editType: 'replace',
+        position: { line: 2 },
+        originalLineCount: 1,
+        content: 'We measured it.',
+        originalText: 'We measured the dose.',
+        filePath: 'main.tex',
+      }),
+    ]);
+    expect(result.content).toContain('Blocked 1 edit(s) in main.tex');
+    expect(result.content).toContain('The closest line is 2');
+  });
+
+  it('blocks searches that resolve to overlapping lines', () => {
+    const agentContext: AgentContext = {
+      fileContent: file,
+      numberedContent: '',
+      currentFilePath: 'main.tex',
+    };
+    const collectedEdits: LineEdit[] = [];
+
+    const result = executeToolCall(
+      'propose_edits',
+      {
+        edits: [
+          { search: '\\item First run', replace: '\\item Run one' },
+          {
+            search: '\\begin{itemize}\n  \\item First',
+            replace: '\\begin{enumerate}\n  \\item First',
+          },
+          { search: 'The dose was 2 Gy.', replace: 'The dose was 3 Gy.' },
+        ],
+      },
+      'call_1',
+      { agentContext, intent: allowAll, collectedEdits, writeEvent: () => {} }
+    );
+
+    expect(collectedEdits.map((edit) => edit.position?.line)).toEqual([4, 8]);
+    expect(result.content).toContain(
+      'Edit at line 3 overlaps the edit at lines 4-4'
+    );
+  });
+});
@@ -1,6 +1,7 @@
 /**
  * OpenAI-format tool definitions for CERN LiteLLM agent
- * Tools for LaTeX document editing (get_context, propose_edits)
+ * Tools for LaTeX document editing (get_context, search_project, propose_edits,
+ * propose_file_edits)
  */
 
 import type {
@@ -9,8 +10,30 @@ import type {
   ToolResult,
   ProjectFileContext,
 } from './types';
-import { LineEdit, validateLineEdits } from '../lars-agent/line-edits';
+import {
+  LineEdit,
+  ValidationResult,
+  applyLineEdits,
+  isFileEdit,
+  validateLineEdits,
+} from '../lars-agent/line-edits';
+import { checkLatexEdits } from '../lars-agent/latex-check';
+import {
+  applyFileEditsToPaths,
+  validateFileEdits,
+} from '../lars-agent/file-edits';
+import {
+  isSearchReplaceEdit,
+  resolveSearchReplace,
+} from '../lars-agent/search-replace';
 import { IntentResult } from '../lars-agent/intent-inference';
+import {
+  MAX_LINES_FULL_CONTEXT,
+  numberLines,
+  extractSectionOutline,
+  findSectionRange,
+  formatSectionOutline,
+} from '../lars-agent/content-processing';
 
 // ============================================================================
 // Tool Definitions
@@ -21,7 +44,7 @@ export const GET_CONTEXT_TOOL: CERNLiteLLMToolDefinition = {
   function: {
     name: 'get_context',
     description:
-      'Retrieve LaTeX file context with numbered lines. By default returns the current file. Use filePath parameter to retrieve content from other project files.',
+      'Retrieve LaTeX file context with numbered lines. By default returns the current file. Use filePath parameter to retrieve content from other project files. Long files are returned in windows of at most 500 lines: use startLine/endLine or section to read a specific part and follow nextStartLine to keep paging.',
     parameters: {
       type: 'object',
       properties: {
@@ -30,6 +53,23 @@ export const GET_CONTEXT_TOOL: CERNLiteLLMToolDefinition = {
           description:
             'Optional: Path of the file to retrieve. If not provided, returns the current file. Use paths from the project structure (e.g., "references.bib", "sections/introduction.tex").',
         },
+        startLine: {
+          type: 'integer',
+          minimum: 1,
+          description:
+            'Optional: First line to return (1-indexed). Defaults to 1.',
+        },
+        endLine: {
+          type: 'integer',
+          minimum: 1,
+          description:
+            'Optional: Last line to return (inclusive). Defaults to startLine + 499 or the end of the file.',
+        },
+        section: {
+          type: 'string',
+          description:
+            'Optional: Return only this section, matched by heading title (e.g., "Results") or \\label key (e.g., "sec:results"). Ignored when startLine is given.',
+        },
         includeNumbered: {
           type: 'boolean',
           description:
@@ -46,12 +86,59 @@ export const GET_CONTEXT_TOOL: CERNLiteLLMToolDefinition = {
   },
 };
 
+export const SEARCH_PROJECT_TOOL: CERNLiteLLMToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'search_project',
+    description:
+      'Search all project files for a literal string or regular expression (e.g. a \\label, \\cite key or phrase). Returns matching file paths, line numbers and surrounding context lines. Prefer this over reading whole files with get_context when looking for something specific.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description:
+            'Text to search for. Treated literally unless isRegex is true.',
+        },
+        isRegex: {
+          type: 'boolean',
+          description:
+            'Interpret query as a JavaScript regular expression. Defaults to false. Nested quantifiers, repeated alternations and backreferences are rejected, and only the first 1000 characters of each line are searched.',
+        },
+        caseSensitive: {
+          type: 'boolean',
+          description: 'Match case exactly. Defaults to false.',
+        },
+        filePattern: {
+          type: 'string',
+          description:
+            'Optional: Glob restricting which files are searched (e.g., "*.bib", "sections/*.tex").',
+        },
+        contextLines: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 10,
+          description:
+            'Number of lines to include before and after each match. Defaults to 2.',
+        },
+        maxResults: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 200,
+          description: 'Maximum number of matches to return. Defaults to 50.',
+        },
+      },
+      required: ['query'],
+    },
+  },
+};
+
 export const PROPOSE_EDITS_TOOL: CERNLiteLLMToolDefinition = {
   type: 'function',
   function: {
     name: 'propose_edits',
     description:
-      'Propose JSON-structured line-based edits to LaTeX files. Each edit can specify a file path (optional, defaults to current file), line number, and operation (insert, delete, or replace). The user will review and accept/reject these edits.',
+      'Propose JSON-structured edits to LaTeX files. Each edit can specify a file path (optional, defaults to current file) and either a search/replace pair (the exact current text and its replacement) or a line number and operation (insert, delete, or replace). Prefer search/replace for changing existing text. Edits that would leave unbalanced braces or environments, or \\ref/\\cite keys the project does not define, are returned with the errors instead of being proposed. The user will review and accept/reject these edits.',
     parameters: {
       type: 'object',
       properties: {
@@ -66,10 +153,20 @@ export const PROPOSE_EDITS_TOOL: CERNLiteLLMToolDefinition = {
                 description:
                   'Optional: Path of the file to edit for this specific edit. Overrides the top-level filePath. Use paths from the project structure (e.g., "references.bib", "sections/introduction.tex").',
               },
+              search: {
+                type: 'string',
+                description:
+                  'Search/replace form: the exact current text to change, copied without line numbers. Must occur once in the file; include surrounding lines if it does not. Use instead of editType and position.',
+              },
+              replace: {
+                type: 'string',
+                description:
+                  'Search/replace form: the text that replaces search. Empty to delete it.',
+              },
               editType: {
                 type: 'string',
                 enum: ['insert', 'delete', 'replace'],
-                description: 'The type of edit operation',
+                description: 'Line form: the type of edit operation',
               },
               content: {
                 type: 'string',
@@ -93,13 +190,66 @@ export const PROPOSE_EDITS_TOOL: CERNLiteLLMToolDefinition = {
                 description:
                   'How many lines to affect (for delete/replace). Defaults to 1.',
               },
+              originalText: {
+                type: 'string',
+                description:
+                  'The current text of the lines being deleted or replaced, copied without line numbers. Checked against the file; the edit is rejected if it does not match.',
+              },
               explanation: {
                 type: 'string',
                 description:
                   'Human-readable explanation of why this edit is being made',
               },
             },
-            required: ['editType', 'position'],
+          },
+          minItems: 1,
+        },
+      },
+      required: ['edits'],
+    },
+  },
+};
+
+export const PROPOSE_FILE_EDITS_TOOL: CERNLiteLLMToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'propose_file_edits',
+    description:
+      'Propose file-level changes: create a new file with content, rename/move a file, or delete a file. Use this e.g. to split a chapter into its own file (create_file here, then propose_edits to remove the moved lines and add \\input{...}). The user will review and accept/reject each operation.',
+    parameters: {
+      type: 'object',
+      properties: {
+        edits: {
+          type: 'array',
+          description: 'Array of file operations to propose',
+          items: {
+            type: 'object',
+            properties: {
+              editType: {
+                type: 'string',
+                enum: ['create_file', 'rename_file', 'delete_file'],
+                description: 'The type of file operation',
+              },
+              filePath: {
+                type: 'string',
+                description:
+                  'Project-relative path of the file to create, rename or delete (e.g., "chapters/methodology.tex").',
+              },
+              newFilePath: {
+                type: 'string',
+                description: 'New project-relative path (required for rename_file)',
+              },
+              content: {
+                type: 'string',
+                description: 'Full content of the new file (for create_file)',
+              },
+              explanation: {
+                type: 'string',
+                description:
+                  'Human-readable explanation of why this operation is being made',
+              },
+            },
+            required: ['editType', 'filePath', 'explanation'],
           },
           minItems: 1,
         },
@@ -113,7 +263,20 @@ export const PROPOSE_EDITS_TOOL: CERNLiteLLMToolDefinition = {
  * Get all available tools as an array
  */
 export function getToolDefinitions(): CERNLiteLLMToolDefinition[] {
-  return [GET_CONTEXT_TOOL, PROPOSE_EDITS_TOOL];
+  return [
+    GET_CONTEXT_TOOL,
+    SEARCH_PROJECT_TOOL,
+    PROPOSE_EDITS_TOOL,
+    PROPOSE_FILE_EDITS_TOOL,
+  ];
+}
+
+/**
+ * Tools for compile repair: line edits only, since the caller recompiles
+ * the proposal against the project as it is
+ */
+export function getRepairToolDefinitions(): CERNLiteLLMToolDefinition[] {
+  return [GET_CONTEXT_TOOL, SEARCH_PROJECT_TOOL, PROPOSE_EDITS_TOOL];
 }
 
 // ============================================================================
@@ -125,6 +288,20 @@ interface ToolExecutionContext {
   intent: IntentResult;
   collectedEdits: LineEdit[];
   writeEvent: (event: string, data: unknown) => void;
+  signal?: AbortSignal; // Set when the client disconnects
+}
+
+/**
+ * Clamp a numeric tool argument, falling back when it is missing or invalid
+ */
+function clampInteger(
+  value: unknown,
+  fallback: number,
+  min: number,
+  max: number
+): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.floor(value)));
 }
 
 /**
@@ -136,11 +313,23 @@ export function executeToolCall(
   toolCallId: string,
   context: ToolExecutionContext
 ): ToolResult {
+  // Nothing is emitted for a request nobody is listening to anymore
+  if (context.signal?.aborted) {
+    return {
+      tool_call_id: toolCallId,
+      content: JSON.stringify({ error: 'Request cancelled by the client' }),
+    };
+  }
+
   switch (toolName) {
     case 'get_context':
       return executeGetContext(toolArgs, toolCallId, context);
+    case 'search_project':
+      return executeSearchProject(toolArgs, toolCallId, context);
     case 'propose_edits':
       return executeProposeEdits(toolArgs, toolCallId, context);
+    case 'propose_file_edits':
+      return executeProposeFileEdits(toolArgs, toolCallId, context);
     default:
       return {
         tool_call_id: toolCallId,
@@ -188,17 +377,74 @@ function executeGetContext(
     };
   }
 
+  const lines = targetFile.content.split('\n');
   const payload: Record<string, unknown> = {
     filePath: targetFile.path,
-    lineCount: targetFile.content.split('\n').length,
+    lineCount: lines.length,
   };
 
+  // resolve the requested line window
+  const requestedSection =
+    typeof args.section === 'string' && args.section.trim()
+      ? args.section.trim()
+      : undefined;
+  let startLine = 1;
+  let endLine: number | undefined;
+
+  if (typeof args.startLine === 'number' || typeof args.endLine === 'number') {
+    startLine = clampInteger(args.startLine, 1, 1, lines.length);
+    endLine = clampInteger(
+      args.endLine,
+      startLine + MAX_LINES_FULL_CONTEXT - 1,
+      startLine,
+      lines.length
+    );
+  } else if (requestedSection) {
+    const range = findSectionRange(targetFile.content, requestedSection);
+
+    if (!range) {
+      writeEvent('tool', { name: 'get_context', error: 'section_not_found' });
+      return {
+        tool_call_id: toolCallId,
+        content: JSON.stringify({
+          error: `Section not found in ${targetFile.path}: ${requestedSection}`,
+          outline: formatSectionOutline(
+            extractSectionOutline(targetFile.content)
+          ),
+        }),
+      };
+    }
+
+    startLine = range.startLine;
+    endLine = range.endLine;
+    payload.section = range.heading.title;
+  }
+
+  // never return more than one window per call
+  endLine = Math.min(
+    endLine ?? lines.length,
+    startLine + MAX_LINES_FULL_CONTEXT - 1
+  );
+  const isPartial = startLine > 1 || endLine < lines.length;
+
   if (includeNumbered) {
-    // number the lines of the target file
-    const lines = targetFile.content.split('\n');
-    payload.numberedContent = lines
-      .map((line, index) => `${index + 1}: ${line}`)
-      .join('\n');
+    payload.numberedContent = numberLines(
+      lines.slice(startLine - 1, endLine),
+      startLine
+    );
+  }
+
+  if (isPartial) {
+    payload.startLine = startLine;
+    payload.endLine = endLine;
+    if (endLine < lines.length) {
+      payload.nextStartLine = endLine + 1;
+    }
+    if (lines.length > MAX_LINES_FULL_CONTEXT) {
+      payload.outline = formatSectionOutline(
+        extractSectionOutline(targetFile.content)
+      );
+    }
   }
 
   // selection only applies to current file
@@ -228,7 +474,299 @@ function executeGetContext(
     payload.currentFilePath = agentContext.currentFilePath;
   }
 
-  writeEvent('tool', { name: 'get_context', filePath: targetFile.path });
+  writeEvent('tool', {
+    name: 'get_context',
+    filePath: targetFile.path,
+    ...(isPartial ? { startLine, endLine } : {}),
+  });
+
+  return {
+    tool_call_id: toolCallId,
+    content: JSON.stringify(payload),
+  };
+}
+
+const SEARCH_DEFAULT_CONTEXT_LINES = 2;
+const SEARCH_MAX_CONTEXT_LINES = 10;
+const SEARCH_DEFAULT_MAX_RESULTS = 50;
+const SEARCH_MAX_RESULTS = 200;
+const SEARCH_MAX_QUERY_LENGTH = 500;
+// Regexes only see this much of a line, which bounds their backtracking
+const SEARCH_MAX_REGEX_LINE_LENGTH = 1000;
+const BINARY_FILE_PATTERN = /\.(png|jpg|jpeg|gif|bmp|svg|ico|webp|eps|ps|ai|pdf)$/i;
+
+interface SearchMatch {
+  filePath: string;
+  line: number;
+  text: string;
+  context: string;
+}
+
+/**
+ * Convert a simple glob (*, **, ?) into a RegExp over project paths
+ * Patterns without a slash match against the file name only. A `**`
+ * directory also matches no directory at all, so a `**` then `*.tex`
+ * pattern includes `main.tex`.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\*\*\/?)/)
+    .map((part) => {
+      if (part === '**/') return '(?:.*/)?';
+      if (part === '**') return '.*';
+      return part
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]');
+    })
+    .join('');
+  return pattern.includes('/')
+    ? new RegExp(`^${source}$`)
+    : new RegExp(`(^|/)${source}$`);
+}
+
+interface RegexGroup {
+  repeats: boolean; // Holds a quantifier that can match more than once
+  alternates: boolean;
+}
+
+// Upper bound of a quantifier at the start of `rest`, or 0 for none
+function quantifierMax(rest: string): number {
+  if (rest[0] === '*' || rest[0] === '+') return Infinity;
+  if (rest[0] === '?') return 1;
+  const braces = /^\{(\d+)(,(\d*))?\}/.exec(rest);
+  if (!braces) return 0;
+  if (!braces[2]) return Number(braces[1]);
+  return braces[3] ? Number(braces[3]) : Infinity;
+}
+
+/**
+ * Why a model-supplied regex could backtrack catastrophically, or null
+ * The match runs on the server's only thread, so repeated groups that
+ * themselves repeat or alternate ((a+)+, (a|aa)*) and backreferences are
+ * refused up front.
+ */
+function findUnsafeRegex(source: string): string | null {
+  const groups: RegexGroup[] = [];
+  let closedGroup: RegexGroup | null = null;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    const previousGroup = closedGroup;
+    closedGroup = null;
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(source[i + 1] ?? '')) {
+        return 'backreferences are not supported';
+      }
+      i++;
+    } else if (char === '[') {
+      // Character class: nothing in it is a group or quantifier
+      i += source[i + 1] === ']' ? 2 : 1;
+      while (i < source.length && source[i] !== ']') {
+        if (source[i] === '\\') i++;
+        i++;
+      }
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false });
+      // Skip (?:, (?=, (?<name> and the like
+      const prefix = /^\(\?(?:[:=!]|<[=!]|<[^>]*>)/.exec(source.slice(i));
+      if (prefix) i += prefix[0].length - 1;
+    } else if (char === ')') {
+      closedGroup = groups.pop() ?? null;
+      const parent = groups[groups.length - 1];
+      if (parent && closedGroup) {
+        parent.repeats ||= closedGroup.repeats;
+        parent.alternates ||= closedGroup.alternates;
+      }
+    } else if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1].alternates = true;
+    } else if (quantifierMax(source.slice(i)) > 1) {
+      if (previousGroup?.repeats) return 'nested quantifiers like (a+)+';
+      if (previousGroup?.alternates) {
+        return 'repeated alternations like (a|aa)*';
+      }
+      if (groups.length > 0) groups[groups.length - 1].repeats = true;
+    }
+  }
+  return null;
+}
+
+/**
+ * Collect searchable text files, preferring the live editor content for the
+ * current file over the (possibly stale) project snapshot
+ */
+function getSearchableFiles(agentContext: AgentContext): ProjectFileContext[] {
+  const files: ProjectFileContext[] = [];
+  let hasCurrent = false;
+
+  for (const file of agentContext.projectFiles ?? []) {
+    if (!file || typeof file.content !== 'string') continue;
+    if (BINARY_FILE_PATTERN.test(file.path)) continue;
+
+    if (
+      agentContext.currentFilePath &&
+      file.path === agentContext.currentFilePath
+    ) {
+      hasCurrent = true;
+      files.push({ path: file.path, content: agentContext.fileContent });
+    } else {
+      files.push(file);
+    }
+  }
+
+  if (!hasCurrent) {
+    files.unshift({
+      path: agentContext.currentFilePath || 'current',
+      content: agentContext.fileContent,
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Execute search_project tool
+ */
+function executeSearchProject(
+  args: Record<string, unknown>,
+  toolCallId: string,
+  context: ToolExecutionContext
+): ToolResult {
+  const { agentContext, writeEvent } = context;
+  const query = typeof args.query === 'string' ? args.query : '';
+  const isRegex = args.isRegex === true;
+  const caseSensitive = args.caseSensitive === true;
+  const filePattern =
+    typeof args.filePattern === 'string' && args.filePattern.trim()
+      ? args.filePattern.trim()
+      : undefined;
+  const contextLines = clampInteger(
+    args.contextLines,
+    SEARCH_DEFAULT_CONTEXT_LINES,
+    0,
+    SEARCH_MAX_CONTEXT_LINES
+  );
+  const maxResults = clampInteger(
+    args.maxResults,
+    SEARCH_DEFAULT_MAX_RESULTS,
+    1,
+    SEARCH_MAX_RESULTS
+  );
+
+  if (!query || query.length > SEARCH_MAX_QUERY_LENGTH) {
+    writeEvent('tool', { name: 'search_project', error: 'invalid_query' });
+    return {
+      tool_call_id: toolCallId,
+      content: JSON.stringify({
+        error: query
+          ? `Query too long (max ${SEARCH_MAX_QUERY_LENGTH} characters)`
+          : 'No query provided',
+      }),
+    };
+  }
+
+  let matcher: RegExp;
+  try {
+    matcher = new RegExp(
+      isRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+      caseSensitive ? '' : 'i'
+    );
+  } catch (error) {
+    writeEvent('tool', { name: 'search_project', error: 'invalid_regex' });
+    return {
+      tool_call_id: toolCallId,
+      content: JSON.stringify({
+        error: `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+      }),
+    };
+  }
+
+  const unsafe = isRegex ? findUnsafeRegex(query) : null;
+  if (unsafe) {
+    writeEvent('tool', { name: 'search_project', error: 'unsafe_regex' });
+    return {
+      tool_call_id: toolCallId,
+      content: JSON.stringify({
+        error: `Regular expression not allowed: ${unsafe} can take too long to match. Use a simpler pattern or a literal search.`,
+      }),
+    };
+  }
+
+  const pathMatcher = filePattern ? globToRegExp(filePattern) : null;
+  const files = getSearchableFiles(agentContext).filter(
+    (file) => !pathMatcher || pathMatcher.test(file.path)
+  );
+
+  writeEvent('tool', {
+    name: 'search_project',
+    query,
+    totalFiles: files.length,
+  });
+
+  const matches: SearchMatch[] = [];
+  let totalMatches = 0;
+
+  files.forEach((file, fileIndex) => {
+    const lines = file.content.split('\n');
+    let fileMatches = 0;
+
+    lines.forEach((line, index) => {
+      const tested = isRegex
+        ? line.slice(0, SEARCH_MAX_REGEX_LINE_LENGTH)
+        : line;
+      if (!matcher.test(tested)) return;
+      fileMatches++;
+      totalMatches++;
+      if (matches.length >= maxResults) return;
+
+      const start = Math.max(0, index - contextLines);
+      const end = Math.min(lines.length, index + contextLines + 1);
+      matches.push({
+        filePath: file.path,
+        line: index + 1,
+        text: line,
+        context: lines
+          .slice(start, end)
+          .map((contextLine, offset) => `${start + offset + 1}: ${contextLine}`)
+          .join('\n'),
+      });
+    });
+
+    writeEvent('tool', {
+      name: 'search_project',
+      filePath: file.path,
+      count: fileMatches,
+      filesSearched: fileIndex + 1,
+      totalFiles: files.length,
+    });
+  });
+
+  const filesWithMatches = new Set(matches.map((match) => match.filePath));
+  const payload: Record<string, unknown> = {
+    query,
+    isRegex,
+    filesSearched: files.length,
+    totalMatches,
+    matches,
+  };
+
+  if (totalMatches > matches.length) {
+    payload.truncated = true;
+    payload.note = `Showing first ${matches.length} of ${totalMatches} matches. Narrow the query or use filePattern.`;
+  }
+
+  if (files.length === 0) {
+    payload.availableFiles = getSearchableFiles(agentContext).map(
+      (file) => file.path
+    );
+  }
+
+  writeEvent('tool', {
+    name: 'search_project',
+    count: totalMatches,
+    files: filesWithMatches.size,
+  });
 
   return {
     tool_call_id: toolCallId,
@@ -260,7 +798,10 @@ function executeProposeEdits(
     editType: 'insert' | 'delete' | 'replace';
     content?: string;
     position: { line: number };
+    search?: string; // search/replace form, resolved to lines below
+    replace?: string;
     originalLineCount?: number;
+    originalText?: string; // checked against the file when given
     explanation?: string;
     filePath?: string; // target file path (defaults to current file if not specified)
   }>;
@@ -287,8 +828,13 @@ function executeProposeEdits(
   let totalViolations = 0;
   const fileResults: string[] = [];
   const allEditsWithFilePath: LineEdit[] = [];
+  const validatedFiles: Array<{
+    targetFilePath: string;
+    targetFileContent: string;
+    validation: ValidationResult;
+  }> = [];
 
-  // process edits for each file
+  // validate edits for each file
   for (const [targetFilePath, fileEdits] of editsByFile.entries()) {
     // get target file content for validation
     let targetFileContent: string;
@@ -316,8 +862,62 @@ function executeProposeEdits(
       targetFileContent = targetFile.content;
     }
 
+    // resolve search/replace edits to the lines they change
+    const resolveErrors: string[] = [];
+    const lineEdits: LineEdit[] = [];
+    for (const edit of fileEdits) {
+      if (isSearchReplaceEdit(edit)) {
+        const resolved = resolveSearchReplace(edit, targetFileContent);
+        if (resolved.edit) lineEdits.push(resolved.edit);
+        else resolveErrors.push(resolved.error);
+      } else if (edit.editType && edit.position) {
+        lineEdits.push(edit);
+      } else {
+        resolveErrors.push(
+          'Edit has neither search/replace nor editType and position.'
+        );
+      }
+    }
+
     // validate edits for this file
-    const validation = validateLineEdits(fileEdits, intent, targetFileContent);
+    const validation = validateLineEdits(
+      lineEdits,
+      intent,
+      targetFileContent,
+      targetFilePath === 'current' ? null : targetFilePath
+    );
+    validation.violations.unshift(...resolveErrors);
+    validatedFiles.push({ targetFilePath, targetFileContent, validation });
+  }
+
+  // check the LaTeX the accepted edits would leave behind; a file's edits
+  // go through together or not at all, since they may only balance jointly
+  const latexProblems = checkLatexEdits(
+    validatedFiles
+      .filter(({ validation }) => validation.acceptedEdits.length > 0)
+      .map(({ targetFilePath, targetFileContent, validation }) => ({
+        path: targetFilePath,
+        before: targetFileContent,
+        after: applyLineEdits(targetFileContent, validation.acceptedEdits),
+      })),
+    agentContext.projectFiles?.map((file) =>
+      file.path === agentContext.currentFilePath
+        ? { ...file, content: agentContext.fileContent }
+        : file
+    )
+  );
+
+  for (const { targetFilePath, validation } of validatedFiles) {
+    const problems = latexProblems.get(targetFilePath);
+    if (problems) {
+      validation.violations.push(
+        ...validation.acceptedEdits.map(
+          (edit) =>
+            `Edit at line ${edit.position?.line} would leave LaTeX errors.`
+        )
+      );
+      validation.acceptedEdits = [];
+    }
 
     // tag edits with file path and add to collection
     const editsWithFilePath = validation.acceptedEdits.map((edit) => ({
@@ -354,8 +954,15 @@ function executeProposeEdits(
     }
 
     if (violationCount > 0) {
+      // include the reasons so the model can correct its proposal
       fileResults.push(
-        `Blocked ${violationCount} edit(s) in ${targetFilePath}`
+        `Blocked ${violationCount} edit(s) in ${targetFilePath}: ${validation.violations.join(' ')}`
+      );
+    }
+
+    if (problems) {
+      fileResults.push(
+        `LaTeX errors in ${targetFilePath} with its edits applied (line numbers after the edits): ${problems.join(' ')} Fix the content and propose the edits for this file again.`
       );
     }
   }
@@ -375,3 +982,72 @@ function executeProposeEdits(
     content: resultMessage,
   };
 }
+
+/**
+ * Execute propose_file_edits tool
+ */
+function executeProposeFileEdits(
+  args: Record<string, unknown>,
+  toolCallId: string,
+  context: ToolExecutionContext
+): ToolResult {
+  const { agentContext, intent, collectedEdits, writeEvent } = context;
+  const edits = args.edits as LineEdit[];
+
+  if (!Array.isArray(edits) || edits.length === 0) {
+    return {
+      tool_call_id: toolCallId,
+      content: JSON.stringify({ error: 'No file edits provided' }),
+    };
+  }
+
+  // project files as they will look after earlier proposals in this turn
+  const existingPaths = new Set(
+    (agentContext.projectFiles ?? []).map((file) => file.path)
+  );
+  if (agentContext.currentFilePath) {
+    existingPaths.add(agentContext.currentFilePath);
+  }
+  applyFileEditsToPaths(existingPaths, collectedEdits.filter(isFileEdit));
+
+  const validation = validateFileEdits(edits, intent, existingPaths);
+  const acceptedCount = validation.acceptedEdits.length;
+
+  collectedEdits.push(...validation.acceptedEdits);
+
+  writeEvent('tool', {
+    name: 'propose_file_edits',
+    count: acceptedCount,
+    violations: validation.violations,
+  });
+
+  if (acceptedCount > 0) {
+    validation.acceptedEdits.forEach(() => {
+      writeEvent('tool', {
+        name: 'propose_file_edits',
+        progress: 1,
+      });
+    });
+    writeEvent('edits', validation.acceptedEdits);
+  }
+
+  const summary = validation.acceptedEdits.map((edit) =>
+    edit.editType === 'rename_file'
+      ? `rename ${edit.filePath} -> ${edit.newFilePath}`
+      : `${edit.editType === 'create_file' ? 'create' : 'delete'} ${edit.filePath}`
+  );
+
+  const parts = [
+    acceptedCount > 0
+      ? `Accepted ${acceptedCount} file edit(s): ${summary.join('; ')}`
+      : 'No file edits accepted',
+  ];
+  if (validation.violations.length > 0) {
+    parts.push(`Violations: ${validation.violations.join(' ')}`);
+  }
+
+  return {
+    tool_call_id: toolCallId,
+    content: parts.join('. '),
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Compile repair mode
+ * The agent gets a failed compile (structured diagnostics and the end of the
+ * log) instead of a chat message and answers with propose_edits. The caller
+ * recompiles each proposal and sends the errors that remain back with the
+ * next attempt, so earlier attempts are listed in the prompt.
+ */
+
+import type { IntentResult } from './intent-inference';
+
+// Log lines passed to the model; the end of the log holds the errors
+const MAX_LOG_LINES = 40;
+const MAX_DIAGNOSTICS = 20;
+const MAX_PREVIOUS_ATTEMPTS = 5;
+
+export interface CompileRepairDiagnostic {
+  severity: 'error' | 'warning' | 'badbox';
+  message: string;
+  file?: string;
+  line?: number;
+  help?: string;
+}
+
+export interface CompileRepairAttempt {
+  attempt: number;
+  explanations: string[]; // What the edits of that attempt were meant to do
+  errors: string[]; // Errors left after compiling it, "file:line: message"
+}
+
+export interface CompileRepairContext {
+  message: string; // Headline of the failed compile
+  diagnostics: CompileRepairDiagnostic[];
+  log?: string;
+  previousAttempts: CompileRepairAttempt[];
+}
+
+// Any line edit may fix a compile error; file-level operations are not
+// offered in this mode
+export const COMPILE_REPAIR_INTENT: IntentResult = {
+  allowInsert: true,
+  allowDelete: true,
+  allowReplace: true,
+  wantsGrammar: false,
+  wantsDedupe: false,
+  isReadOnly: false,
+  multiEdit: true,
+  fullRevamp: false,
+  reasoning: 'Compile repair',
+};
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+/**
+ * Read the compileError of a repair request
+ * @returns Repair context, or null when no error message or diagnostic was sent
+ */
+export function parseCompileRepairContext(
+  raw: unknown
+): CompileRepairContext | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const input = raw as Record<string, unknown>;
+
+  const diagnostics = (
+    Array.isArray(input.diagnostics) ? input.diagnostics : []
+  )
+    .filter(
+      (item): item is Record<string, unknown> =>
+        !!item &&
+        typeof item === 'object' &&
+        typeof (item as { message?: unknown }).message === 'string'
+    )
+    .map(
+      (item): CompileRepairDiagnostic => ({
+        severity:
+          item.severity === 'warning' || item.severity === 'badbox'
+            ? item.severity
+            : 'error',
+        message: item.message as string,
+        file: typeof item.file === 'string' ? item.file : undefined,
+        line:
+          typeof item.line === 'number' && Number.isInteger(item.line)
+            ? item.line
+            : undefined,
+        help: typeof item.help === 'string' ? item.help : undefined,
+      })
+    );
+
+  const message = typeof input.message === 'string' ? input.message : '';
+  if (!message && diagnostics.length === 0) return null;
+
+  const previousAttempts = (
+    Array.isArray(input.previousAttempts) ? input.previousAttempts : []
+  )
+    .filter(
+      (item): item is Record<string, unknown> =>
+        !!item && typeof item === 'object'
+    )
+    .map((item, index) => ({
+      attempt: typeof item.attempt === 'number' ? item.attempt : index + 1,
+      explanations: toStringList(item.explanations),
+      errors: toStringList(item.errors),
+    }))
+    .slice(-MAX_PREVIOUS_ATTEMPTS);
+
+  return {
+    message: message || 'LaTeX compilation failed',
+    diagnostics,
+    log: typeof input.log === 'string' ? input.log : undefined,
+    previousAttempts,
+  };
+}
+
+function formatRepairDiagnostic(diagnostic: CompileRepairDiagnostic): string {
+  const location = [diagnostic.file, diagnostic.line]
+    .filter((part) => part !== undefined)
+    .join(':');
+  const text = `${diagnostic.severity}: ${diagnostic.message}`;
+  const help = diagnostic.help ? ` (${diagnostic.help.trim()})` : '';
+  return `- ${location ? `${location}: ` : ''}${text}${help}`;
+}
+
+/**
+ * Build the user message of a repair turn
+ */
+export function buildCompileRepairPrompt(
+  context: CompileRepairContext
+): string {
+  // Errors first; warnings only help when they explain an error
+  const diagnostics = [...context.diagnostics]
+    .sort(
+      (a, b) => Number(b.severity === 'error') - Number(a.severity === 'error')
+    )
+    .slice(0, MAX_DIAGNOSTICS);
+
+  const sections = [`The project failed to compile: ${context.message}`];
+
+  if (diagnostics.length > 0) {
+    sections.push(
+      `Diagnostics from the log:\n${diagnostics.map(formatRepairDiagnostic).join('\n')}`
+    );
+  }
+
+  if (context.log) {
+    const tail = context.log.split('\n').slice(-MAX_LOG_LINES).join('\n');
+    sections.push(`End of the LaTeX log:\n---\n${tail}\n---`);
+  }
+
+  if (context.previousAttempts.length > 0) {
+    sections.push(
+      `Earlier attempts did not fix the build. Do not repeat them:\n${context.previousAttempts
+        .map(
+          (attempt) =>
+            `Attempt ${attempt.attempt}: ${attempt.explanations.join('; ') || 'no explanation'}\n  Errors afterwards: ${attempt.errors.join('; ') || 'compile failed without a parsable error'}`
+        )
+        .join('\n')}`
+    );
+  }
+
+  sections.push(`COMPILE REPAIR RULES:
+- Fix the cause of the errors with the smallest possible propose_edits call; the edits are compiled before the user sees them
+- Read the lines around each error with get_context before editing; the reported line is where TeX noticed the problem, the cause may be earlier (missing braces, unclosed environments)
+- An "Undefined control sequence" usually needs a \\usepackage in the preamble of the root file or a typo fixed
+- Do not rewrite or reformat content that is unrelated to the errors
+- If an error cannot be fixed from the sources (missing image, missing class file), do not propose edits and say why`);
+
+  return sections.join('\n\n');
+}
@@ -8,42 +8,198 @@ export interface ProjectFileContext {
   content: string;
 }
 
+/** Files up to this many lines are sent to the model in full */
+export const MAX_LINES_FULL_CONTEXT = 500;
+
+const HEAD_LINES = 150;
+const TAIL_LINES = 50;
+const SELECTION_PADDING_LINES = 50;
+
+export interface SectionHeading {
+  command: string; // e.g. 'section', 'subsection'
+  title: string;
+  line: number; // 1-indexed line of the heading command
+  depth: number; // 0 = part, 1 = chapter, 2 = section, ...
+  label?: string;
+}
+
+export interface SectionRange {
+  heading: SectionHeading;
+  startLine: number;
+  endLine: number;
+}
+
+const SECTION_DEPTHS: Record<string, number> = {
+  part: 0,
+  chapter: 1,
+  section: 2,
+  subsection: 3,
+  subsubsection: 4,
+  paragraph: 5,
+};
+
+const HEADING_PATTERN =
+  /^\s*\\(part|chapter|section|subsection|subsubsection|paragraph)\*?\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/;
+const LABEL_PATTERN = /\\label\{([^}]+)\}/;
+
+/**
+ * Prefix lines with their 1-indexed line numbers
+ * @param lines - Lines to number
+ * @param firstLineNumber - Line number of the first entry
+ * @returns Numbered lines joined with newlines
+ */
+export function numberLines(lines: string[], firstLineNumber = 1): string {
+  return lines
+    .map((line, index) => `${firstLineNumber + index}: ${line}`)
+    .join('\n');
+}
+
+/**
+ * Extract sectioning commands (\chapter, \section, ...) with their line numbers
+ * @param fileContent - The raw file content
+ * @returns Headings in document order
+ */
+export function extractSectionOutline(fileContent: string): SectionHeading[] {
+  const lines = fileContent.split('\n');
+  const headings: SectionHeading[] = [];
+
+  lines.forEach((line, index) => {
+    const match = HEADING_PATTERN.exec(line);
+    if (!match) return;
+
+    // labels usually sit on the heading line or the one right after it
+    const labelMatch =
+      LABEL_PATTERN.exec(line) || LABEL_PATTERN.exec(lines[index + 1] ?? '');
+
+    headings.push({
+      command: match[1],
+      title: match[2].trim(),
+      line: index + 1,
+      depth: SECTION_DEPTHS[match[1]],
+      ...(labelMatch ? { label: labelMatch[1] } : {}),
+    });
+  });
+
+  return headings;
+}
+
+/**
+ * Find the line range covered by a section
+ * Matches the heading title (exact, then partial, case-insensitive) or its
+ * \label. The range ends before the next heading of the same or higher level.
+ * @param fileContent - The raw file content
+ * @param name - Section title or label
+ * @returns Section range or null if no heading matches
+ */
+export function findSectionRange(
+  fileContent: string,
+  name: string
+): SectionRange | null {
+  const headings = extractSectionOutline(fileContent);
+  const needle = name.trim().toLowerCase();
+  if (!needle) return null;
+
+  const heading =
+    headings.find((h) => h.title.toLowerCase() === needle) ||
+    headings.find((h) => h.label?.toLowerCase() === needle) ||
+    headings.find((h) => h.title.toLowerCase().includes(needle));
+  if (!heading) return null;
+
+  const next = headings.find(
+    (h) => h.line > heading.line && h.depth <= heading.depth
+  );
+
+  return {
+    heading,
+    startLine: heading.line,
+    endLine: next ? next.line - 1 : fileContent.split('\n').length,
+  };
+}
+
+/**
+ * Format a section outline as one heading per line
+ */
+export function formatSectionOutline(headings: SectionHeading[]): string {
+  return headings
+    .map(
+      (h) =>
+        `${'  '.repeat(Math.max(0, h.depth - 1))}L${h.line}: \\${h.command}{${h.title}}`
+    )
+    .join('\n');
+}
+
 /**
  * Build numbered content with line numbers for better editing precision
+ * Files over MAX_LINES_FULL_CONTEXT lines are reduced to the head, the tail and
+ * the selected region. Omitted ranges are marked explicitly together with a
+ * section outline, so the model can fetch them with get_context.
  * Non-blocking version using setImmediate for large documents
  * @param fileContent - The raw file content
  * @param textFromEditor - Optional selected text from editor
+ * @param selectionRange - Optional selection range to keep visible
  * @returns Promise resolving to numbered content string
  */
 export async function buildNumberedContent(
   fileContent: string,
-  textFromEditor?: string | null
+  textFromEditor?: string | null,
+  selectionRange?: { startLineNumber: number; endLineNumber: number } | null
 ): Promise<string> {
   return new Promise((resolve) => {
     // Use setImmediate to avoid blocking the event loop
     setImmediate(() => {
       const lines = fileContent.split('\n');
-      const MAX_LINES_FULL_CONTEXT = 500;
 
       if (lines.length <= MAX_LINES_FULL_CONTEXT) {
-        const numbered = lines
-          .map((line, index) => `${index + 1}: ${line}`)
-          .join('\n');
-        resolve(numbered);
+        resolve(numberLines(lines));
         return;
       }
 
-      const startLines = lines
-        .slice(0, 100)
-        .map((line, index) => `${index + 1}: ${line}`)
-        .join('\n');
-      const endLines = lines
-        .slice(-100)
-        .map((line, index) => `${lines.length - 100 + index + 1}: ${line}`)
-        .join('\n');
-
-      let numbered = `${startLines}\n\n... [${lines.length - 200} lines omitted] ...\n\n${endLines}`;
-      if (textFromEditor && textFromEditor.length > 0) {
+      // collect visible windows (1-indexed, inclusive)
+      const windows: Array<[number, number]> = [
+        [1, HEAD_LINES],
+        [lines.length - TAIL_LINES + 1, lines.length],
+      ];
+      if (selectionRange) {
+        windows.push([
+          Math.max(1, selectionRange.startLineNumber - SELECTION_PADDING_LINES),
+          Math.min(
+            lines.length,
+            selectionRange.endLineNumber + SELECTION_PADDING_LINES
+          ),
+        ]);
+      }
+
+      windows.sort((a, b) => a[0] - b[0]);
+      const merged: Array<[number, number]> = [];
+      for (const [start, end] of windows) {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1] + 1) {
+          last[1] = Math.max(last[1], end);
+        } else {
+          merged.push([start, end]);
+        }
+      }
+
+      const parts: string[] = [];
+      let nextLine = 1;
+      for (const [start, end] of merged) {
+        if (start > nextLine) {
+          parts.push(
+            `... [lines ${nextLine}-${start - 1} not shown - call get_context with startLine: ${nextLine}, endLine: ${start - 1} to read them] ...`
+          );
+        }
+        parts.push(numberLines(lines.slice(start - 1, end), start));
+        nextLine = end + 1;
+      }
+
+      let numbered = `[Long file: ${lines.length} lines. Only the lines below are shown.]\n\n${parts.join('\n\n')}`;
+
+      const outline = extractSectionOutline(fileContent);
+      if (outline.length > 0) {
+        numbered += `\n\nSection outline (use get_context with section or startLine/endLine):\n${formatSectionOutline(outline)}`;
+      }
+
+      if (textFromEditor && textFromEditor.length > 0 && !selectionRange) {
         numbered += `\n\n[Selected region context will be provided separately]`;
       }
       resolve(numbered);
@@ -60,21 +216,6 @@ export function normalizeLineEndings(text: string): string {
   return text.split('\r\n').join('\n').split('\r').join('\n');
 }
 
-/**
- * Validate API keys for required services
- * @returns Validation result with error message if invalid
- */
-export function validateApiKeys(): { isValid: boolean; error?: string } {
-  const hasAnthropic = !!process.env.ANTHROPIC_API_KEY;
-  if (!hasAnthropic) {
-    return {
-      isValid: false,
-      error: 'No Anthropic API key configured. Please set ANTHROPIC_API_KEY.',
-    };
-  }
-  return { isValid: true };
-}
-
 /**
  * Build system prompt for the AI agent
  * @param numberedContent - Numbered file content
@@ -87,7 +228,8 @@ export function buildSystemPrompt(
   textFromEditor?: string | null,
   selectionRange?: { startLineNumber: number; endLineNumber: number } | null,
   projectFiles?: ProjectFileContext[] | null,
-  currentFilePath?: string | null
+  currentFilePath?: string | null,
+  editScope?: string
 ): string {
   const validProjectFiles =
     projectFiles?.filter(
@@ -139,13 +281,26 @@ ABSOLUTE RULE: For ANY editing request, you MUST:
 
 MULTI-FILE SUPPORT:
 - Use get_context(filePath: "path/to/file") to read any project file
+- Use search_project(query: "...") to find labels, citations or text across all files instead of reading every file
 - Use propose_edits(filePath: "path/to/file", edits: [...]) to edit any project file
 - If no filePath specified, operations apply to the current file
+- Use propose_file_edits to create, rename/move or delete whole files (each with an explanation)
+
+LONG FILES:
+- Files over ${MAX_LINES_FULL_CONTEXT} lines are shown partially. Omitted ranges are marked "[lines A-B not shown ...]" and a section outline is listed
+- Use get_context(startLine: A, endLine: B) to page through a file (at most ${MAX_LINES_FULL_CONTEXT} lines per call; follow nextStartLine)
+- Use get_context(section: "Results") to read one section by title or \\label
+- Always read the lines you are about to edit first - never guess line numbers for content you have not seen
+
+To change existing text, prefer SEARCH/REPLACE: { search: '...', replace: '...' }
+- search is the exact current text, copied without line numbers; it must occur once in the file, so include a neighbouring line if it is common
+- replace is the new text; use '' to delete it
 
-You have THREE edit types:
+For inserts, or when line numbers are easier, you have THREE line edit types:
 - INSERT: { editType: 'insert', position: { line: N }, content: '...', originalLineCount: 0 }
-- DELETE: { editType: 'delete', position: { line: N }, originalLineCount: M }
-- REPLACE: { editType: 'replace', position: { line: N }, content: '...', originalLineCount: M }
+- DELETE: { editType: 'delete', position: { line: N }, originalLineCount: M, originalText: '...' }
+- REPLACE: { editType: 'replace', position: { line: N }, content: '...', originalLineCount: M, originalText: '...' }
+- originalText is the current text of the M lines being deleted or replaced, without line numbers. An edit whose originalText does not match the file is rejected with the line where that text actually is
 
 EXAMPLES:
 
@@ -156,7 +311,7 @@ User: "remove the introduction"
 You: [Call propose_edits with delete]
 
 User: "fix the equation"
-You: [Call propose_edits with replace]
+You: [Call propose_edits with search/replace]
 
 WORKFLOW:
 1. User asks for edit → You call propose_edits immediately
@@ -182,7 +337,13 @@ ${textFromEditor}
 
 Selection: lines ${selectionRange.startLineNumber}-${selectionRange.endLineNumber}`
       : ''
-  }${projectSection}`;
+  }${projectSection}${
+    editScope
+      ? `
+
+${editScope}`
+      : ''
+  }`;
 }
 
 /**
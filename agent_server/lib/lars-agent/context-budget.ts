@@ -0,0 +1,384 @@
+/**
+ * Context-window budgeting for the agentic loop
+ * Estimates the token size of the conversation, resolves a budget for the
+ * active model, and keeps the request inside it by compacting earlier tool
+ * results and summarizing older chat turns into the system prompt.
+ */
+
+import type { CERNLiteLLMMessage } from '../cern-litellm/types';
+import type { LLMProvider } from '../llm-providers/types';
+import { withRequestTimeout } from '../llm-providers/request-timeout';
+
+export type HistorySummarizerMode = 'llm' | 'extractive';
+
+const CHARS_PER_TOKEN = 4; // Rough average for English prose and LaTeX
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role and separators per message
+const DEFAULT_CONTEXT_WINDOW = 32000;
+const DEFAULT_SUMMARY_TIMEOUT_MS = 15000;
+const KEEP_RECENT_HISTORY_MESSAGES = 4;
+const COMPACT_TOOL_RESULT_PREVIEW_CHARS = 400;
+const EXTRACTIVE_SUMMARY_CHARS_PER_MESSAGE = 300;
+
+// Substring of the model name -> context window in tokens (first match wins)
+const MODEL_CONTEXT_WINDOWS: Array<[string, number]> = [
+  ['claude', 200000],
+  ['gpt-4.1', 1000000],
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-5', 400000],
+  ['o3', 200000],
+  ['o4-mini', 200000],
+  ['gemini', 1000000],
+  ['llama3.1', 128000],
+  ['llama3', 8192],
+  ['mistral', 32000],
+  ['qwen', 32000],
+];
+
+export const HISTORY_SUMMARY_HEADING = 'EARLIER CONVERSATION (summarized):';
+
+export interface ContextBudget {
+  model: string;
+  contextWindow: number;
+  reservedOutputTokens: number;
+  inputBudget: number; // Tokens available for messages and tool definitions
+}
+
+export interface ContextBudgetUsage {
+  model: string;
+  contextWindow: number;
+  budgetTokens: number;
+  usedTokens: number;
+  percentUsed: number;
+  compactedToolResults: number;
+  summarizedMessages: number;
+  overBudget: boolean;
+}
+
+export interface FitToBudgetOptions {
+  fixedTokens?: number; // Tokens sent outside messages (tool definitions)
+  provider?: LLMProvider; // Used for LLM summaries of older turns
+  env?: NodeJS.ProcessEnv;
+  signal?: AbortSignal; // Cancels an in-flight summary request
+}
+
+// ============================================================================
+// Token Estimation
+// ============================================================================
+
+/**
+ * Estimate the token count of a string (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+function messageText(message: CERNLiteLLMMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map((part) => part.text ?? part.image_url?.url ?? '')
+    .join('\n');
+}
+
+/**
+ * Estimate the tokens a message adds to a request, including tool calls
+ */
+export function estimateMessageTokens(message: CERNLiteLLMMessage): number {
+  const toolCallTokens = (message.tool_calls ?? []).reduce(
+    (sum, call) =>
+      sum +
+      estimateTokens(call.function.name) +
+      estimateTokens(call.function.arguments),
+    0
+  );
+  return (
+    MESSAGE_OVERHEAD_TOKENS +
+    estimateTokens(messageText(message)) +
+    toolCallTokens
+  );
+}
+
+export function estimateConversationTokens(
+  messages: CERNLiteLLMMessage[]
+): number {
+  return messages.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Parse AGENT_CONTEXT_BUDGETS ("gpt-4o=128000,llama3=8192")
+ */
+function parseBudgetOverrides(
+  value: string | undefined
+): Array<[string, number]> {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((entry) => entry.split('='))
+    .filter((parts) => parts.length === 2)
+    .map(([model, tokens]) => [
+      model.trim().toLowerCase(),
+      parseInt(tokens, 10),
+    ])
+    .filter(
+      (entry): entry is [string, number] =>
+        !!entry[0] && Number.isFinite(entry[1]) && (entry[1] as number) > 0
+    );
+}
+
+/**
+ * Resolve the context budget for a model
+ * AGENT_CONTEXT_BUDGETS overrides the built-in table per model, and
+ * AGENT_CONTEXT_WINDOW sets the window for models that match neither.
+ */
+export function getContextBudget(
+  model: string,
+  maxOutputTokens: number,
+  env: NodeJS.ProcessEnv = process.env
+): ContextBudget {
+  const name = model.toLowerCase();
+  const fallback = parseInt(env.AGENT_CONTEXT_WINDOW || '', 10);
+  const match = [
+    ...parseBudgetOverrides(env.AGENT_CONTEXT_BUDGETS),
+    ...MODEL_CONTEXT_WINDOWS,
+  ].find(([pattern]) => name.includes(pattern));
+
+  const contextWindow =
+    match?.[1] ??
+    (Number.isFinite(fallback) && fallback > 0
+      ? fallback
+      : DEFAULT_CONTEXT_WINDOW);
+
+  // Never reserve more than half the window for the answer
+  const reservedOutputTokens = Math.min(
+    maxOutputTokens,
+    Math.floor(contextWindow / 2)
+  );
+
+  return {
+    model,
+    contextWindow,
+    reservedOutputTokens,
+    inputBudget: contextWindow - reservedOutputTokens,
+  };
+}
+
+/**
+ * Get the configured summarizer for older turns (AGENT_HISTORY_SUMMARIZER,
+ * default llm)
+ */
+export function getHistorySummarizerMode(
+  env: NodeJS.ProcessEnv = process.env
+): HistorySummarizerMode {
+  return env.AGENT_HISTORY_SUMMARIZER?.trim().toLowerCase() === 'extractive'
+    ? 'extractive'
+    : 'llm';
+}
+
+function getSummaryTimeout(env: NodeJS.ProcessEnv): number {
+  const timeout = parseInt(env.AGENT_SUMMARY_TIMEOUT_MS || '', 10);
+  return Number.isFinite(timeout) && timeout > 0
+    ? timeout
+    : DEFAULT_SUMMARY_TIMEOUT_MS;
+}
+
+// ============================================================================
+// Compaction & Summarization
+// ============================================================================
+
+/**
+ * Replace large tool results before `endIndex` with a short preview
+ * @returns Number of tool results that were compacted
+ */
+export function compactToolResults(
+  messages: CERNLiteLLMMessage[],
+  endIndex: number = messages.length
+): number {
+  const toolNames = new Map<string, string>();
+  let compacted = 0;
+
+  for (let i = 0; i < Math.min(endIndex, messages.length); i++) {
+    const message = messages[i];
+    for (const call of message.tool_calls ?? []) {
+      toolNames.set(call.id, call.function.name);
+    }
+
+    if (message.role !== 'tool' || typeof message.content !== 'string') {
+      continue;
+    }
+    if (message.content.length <= COMPACT_TOOL_RESULT_PREVIEW_CHARS * 2) {
+      continue;
+    }
+
+    const toolName =
+      (message.tool_call_id && toolNames.get(message.tool_call_id)) || 'tool';
+    const omitted = message.content.length - COMPACT_TOOL_RESULT_PREVIEW_CHARS;
+    messages[i] = {
+      ...message,
+      content:
+        `${message.content.slice(0, COMPACT_TOOL_RESULT_PREVIEW_CHARS)}\n` +
+        `[Earlier ${toolName} result shortened: ${omitted} characters omitted to save context. Call ${toolName} again if you need the full output.]`,
+    };
+    compacted++;
+  }
+
+  return compacted;
+}
+
+/**
+ * Summarize messages without a model call: the start of each message, in order
+ */
+export function buildExtractiveSummary(messages: CERNLiteLLMMessage[]): string {
+  return messages
+    .map((message) => {
+      const text = messageText(message).replace(/\s+/g, ' ').trim();
+      const clipped =
+        text.length > EXTRACTIVE_SUMMARY_CHARS_PER_MESSAGE
+          ? `${text.slice(0, EXTRACTIVE_SUMMARY_CHARS_PER_MESSAGE)}…`
+          : text;
+      return `- ${message.role}: ${clipped}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Summarize older chat turns
+ * Uses the provider when AGENT_HISTORY_SUMMARIZER is llm (default); falls back
+ * to an extractive summary when disabled, without a provider, or on failure.
+ */
+export async function summarizeHistory(
+  messages: CERNLiteLLMMessage[],
+  provider?: LLMProvider,
+  env: NodeJS.ProcessEnv = process.env,
+  signal?: AbortSignal
+): Promise<string> {
+  if (provider && getHistorySummarizerMode(env) === 'llm') {
+    try {
+      const transcript = messages
+        .map(
+          (message) => `${message.role.toUpperCase()}: ${messageText(message)}`
+        )
+        .join('\n\n');
+      const response = await withRequestTimeout(
+        (requestSignal) =>
+          provider.streamChat({
+            messages: [
+              {
+                role: 'system',
+                content:
+                  'Summarize this conversation between a user and a LaTeX editing assistant in at most 10 bullet points. Keep the user requests, decisions, file and section names, and which edits were proposed. Reply with the bullet points only.',
+              },
+              { role: 'user', content: transcript },
+            ],
+            max_tokens: 1024,
+            temperature: 0,
+            signal: requestSignal,
+          }),
+        getSummaryTimeout(env),
+        'History summary',
+        signal
+      );
+      if (response.content.trim()) return response.content.trim();
+    } catch (error) {
+      console.warn(
+        '[Context] LLM summary failed, using extractive summary:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  return buildExtractiveSummary(messages);
+}
+
+function buildUsage(
+  budget: ContextBudget,
+  usedTokens: number,
+  compactedToolResults: number,
+  summarizedMessages: number
+): ContextBudgetUsage {
+  return {
+    model: budget.model,
+    contextWindow: budget.contextWindow,
+    budgetTokens: budget.inputBudget,
+    usedTokens,
+    percentUsed: Math.round((usedTokens / budget.inputBudget) * 100),
+    compactedToolResults,
+    summarizedMessages,
+    overBudget: usedTokens > budget.inputBudget,
+  };
+}
+
+/**
+ * Keep a conversation inside the context budget (mutates `messages`)
+ * Expects messages[0] to be the system prompt. In order, until it fits:
+ * 1. shorten tool results from earlier loop iterations,
+ * 2. summarize older chat turns into the system prompt, keeping the most
+ *    recent ones verbatim, then all of them,
+ * 3. shorten the latest tool results as well.
+ */
+export async function fitConversationToBudget(
+  messages: CERNLiteLLMMessage[],
+  budget: ContextBudget,
+  options: FitToBudgetOptions = {}
+): Promise<ContextBudgetUsage> {
+  const { fixedTokens = 0, provider, env = process.env, signal } = options;
+  const used = () => fixedTokens + estimateConversationTokens(messages);
+  const fits = () => used() <= budget.inputBudget;
+
+  let compactedToolResults = 0;
+  let summarizedMessages = 0;
+
+  if (fits()) return buildUsage(budget, used(), 0, 0);
+
+  // 1. Tool results before the latest assistant tool call
+  let lastToolCallIndex = -1;
+  messages.forEach((message, index) => {
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      lastToolCallIndex = index;
+    }
+  });
+  if (lastToolCallIndex > 0) {
+    compactedToolResults += compactToolResults(messages, lastToolCallIndex);
+  }
+
+  // 2. Chat history: everything between the system prompt and the first
+  //    message of the current turn (the last user message)
+  let currentTurnIndex = messages.length;
+  for (let i = messages.length - 1; i > 0; i--) {
+    if (messages[i].role === 'user') {
+      currentTurnIndex = i;
+      break;
+    }
+  }
+
+  for (const keepRecent of [KEEP_RECENT_HISTORY_MESSAGES, 0]) {
+    if (fits()) break;
+    const historyCount = currentTurnIndex - 1 - keepRecent;
+    if (historyCount <= 0) continue;
+
+    const older = messages.splice(1, historyCount);
+    currentTurnIndex -= historyCount;
+    summarizedMessages += older.length;
+
+    const summary = await summarizeHistory(older, provider, env, signal);
+    const system = messages[0];
+    const systemText = messageText(system);
+    // Fold into an existing summary from an earlier pass
+    messages[0] = {
+      ...system,
+      content: systemText.includes(HISTORY_SUMMARY_HEADING)
+        ? `${systemText}\n${summary}`
+        : `${systemText}\n\n${HISTORY_SUMMARY_HEADING}\n${summary}`,
+    };
+  }
+
+  // 3. Latest tool results too
+  if (!fits()) {
+    compactedToolResults += compactToolResults(messages);
+  }
+
+  return buildUsage(budget, used(), compactedToolResults, summarizedMessages);
+}
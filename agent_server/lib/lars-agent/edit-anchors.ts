@@ -0,0 +1,113 @@
+/**
+ * Content anchors for line edits
+ * Edits carry the text they change and the lines around it, so the editor
+ * can find them again after the user typed above them, and the text the
+ * model expects is checked against the file.
+ */
+
+import type { LineEdit } from './line-edits';
+
+// Lines kept above and below an edit
+export const EDIT_CONTEXT_LINES = 2;
+
+function splitLines(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * How many lines an edit covers, counted the way the editor applies it
+ */
+export function coveredLineCount(edit: LineEdit): number {
+  if (edit.originalLineCount !== undefined) return edit.originalLineCount;
+  if (edit.editType === 'insert') return 0;
+  return (edit.content || '').split('\n').length || 1;
+}
+
+/**
+ * Record the lines an edit covers and the lines around it
+ */
+export function anchorEdit(edit: LineEdit, fileContent: string): LineEdit {
+  const lines = splitLines(fileContent);
+  const count = coveredLineCount(edit);
+  const start = Math.min(
+    Math.max(edit.position?.line || 1, 1),
+    lines.length + 1
+  );
+  const end = Math.min(start + count - 1, lines.length);
+  // An insert goes in front of its line, so that line comes after it
+  const followingLine = count > 0 ? end : start - 1;
+
+  const before = lines.slice(
+    Math.max(0, start - 1 - EDIT_CONTEXT_LINES),
+    start - 1
+  );
+  const after = lines.slice(followingLine, followingLine + EDIT_CONTEXT_LINES);
+
+  return {
+    ...edit,
+    ...(count > 0 && { originalText: lines.slice(start - 1, end).join('\n') }),
+    ...(before.length > 0 && { contextBefore: before.join('\n') }),
+    ...(after.length > 0 && { contextAfter: after.join('\n') }),
+  };
+}
+
+/**
+ * Lines (1-indexed) where the given text starts, ignoring indentation and
+ * runs of whitespace
+ */
+export function findTextLines(fileContent: string, text: string): number[] {
+  const lines = splitLines(fileContent).map(normalizeLine);
+  const wanted = splitLines(text).map(normalizeLine);
+  const matches: number[] = [];
+
+  for (let start = 0; start + wanted.length <= lines.length; start++) {
+    if (wanted.every((line, offset) => lines[start + offset] === line)) {
+      matches.push(start + 1);
+    }
+  }
+  return matches;
+}
+
+function quote(line: string | undefined): string {
+  const text = (line ?? '').trim();
+  return JSON.stringify(text.length > 80 ? `${text.slice(0, 77)}...` : text);
+}
+
+/**
+ * Check the originalText a model sent against the lines its edit covers
+ * @returns A violation message, or null when the text matches or was not sent
+ */
+export function checkOriginalText(
+  edit: LineEdit,
+  fileContent: string
+): string | null {
+  const count = coveredLineCount(edit);
+  if (edit.originalText === undefined || count === 0) return null;
+
+  const line = Math.max(edit.position?.line || 1, 1);
+  // A trailing line break does not start another line
+  const expected = splitLines(edit.originalText.replace(/\r?\n$/, ''));
+  if (expected.length !== count) {
+    return `Edit at line ${line} covers ${count} line(s) but its originalText has ${expected.length}. Send the exact lines being changed.`;
+  }
+
+  const actual = splitLines(fileContent).slice(line - 1, line - 1 + count);
+  const differing = expected.findIndex(
+    (text, index) => normalizeLine(text) !== normalizeLine(actual[index] ?? '')
+  );
+  if (differing === -1) return null;
+
+  const found = findTextLines(fileContent, edit.originalText);
+  const hint =
+    found.length === 1
+      ? `That text is at line ${found[0]}.`
+      : found.length > 1
+        ? `That text appears at lines ${found.join(', ')}.`
+        : 'That text is not in the file; call get_context for the current lines.';
+
+  return `Edit at line ${line} expects ${quote(expected[differing])} at line ${line + differing}, but the file has ${quote(actual[differing])} there. ${hint}`;
+}
@@ -0,0 +1,298 @@
+/**
+ * Edit scope resolution
+ * Narrows where the agent may edit, based on the editor selection and on
+ * scope phrases in the user's request ("only in chapter 3", "just lines
+ * 10-20", "only in methods.tex"). The resulting line ranges are attached to
+ * the IntentResult and enforced when edits are validated.
+ */
+
+import type { IntentResult } from './intent-inference';
+import {
+  ProjectFileContext,
+  SectionHeading,
+  extractSectionOutline,
+  findSectionRange,
+} from './content-processing';
+import { normalizeProjectPath } from './file-edits';
+
+export interface EditScopeRange {
+  filePath: string | null; // null = current (unsaved) file
+  startLine: number;
+  endLine: number;
+  source: 'selection' | 'text';
+  label: string; // Human-readable description, e.g. 'chapter 3 "Results"'
+}
+
+export interface EditScopeInput {
+  userText: string;
+  fileContent: string;
+  selectionRange?: { startLineNumber: number; endLineNumber: number } | null;
+  currentFilePath?: string | null;
+  projectFiles?: ProjectFileContext[];
+}
+
+// ============================================================================
+// Patterns
+// ============================================================================
+
+// "this paragraph", "the selected lines", "here" refer to the selection
+const SELECTION_REFERENCE =
+  /\b(this|these|selected|selection|highlighted|here)\b/;
+
+// requests that clearly reach beyond the selection
+const BROAD_REFERENCE =
+  /\b(whole|entire|everywhere|throughout|all (?:files|chapters|sections)|every (?:file|chapter|section)|this (?:document|file|report|paper|project))\b/;
+
+// scope phrases only count when the user restricts ("only", "just", ...)
+const RESTRICTION = String.raw`\b(?:only|just|limit(?:ed)?(?: it)? to|restrict(?:ed)?(?: it)? to|stay(?:ing)? (?:in|within))\s+(?:(?:edit|change|modify|touch|work on|in|within|inside|on|to)\s+)?(?:the\s+)?`;
+
+const LINE_SCOPE = new RegExp(
+  `${RESTRICTION}lines?\\s+(\\d+)(?:\\s*(?:-|–|to|through)\\s*(\\d+))?`,
+  'g'
+);
+const NUMBERED_SECTION_SCOPE = new RegExp(
+  `${RESTRICTION}(chapter|section|subsection)\\s+(\\d+(?:\\.\\d+)*)\\b`,
+  'g'
+);
+const TITLED_SECTION_SCOPE = new RegExp(
+  `${RESTRICTION}(?:"([^"]+)"|([a-z][\\w -]{1,40}?))\\s+(chapter|section|subsection)\\b`,
+  'g'
+);
+const FILE_SCOPE = new RegExp(
+  `${RESTRICTION}([\\w./-]+\\.(?:tex|bib|sty|cls))\\b`,
+  'g'
+);
+
+// ============================================================================
+// Section Numbering
+// ============================================================================
+
+/**
+ * Number headings the way LaTeX would (ignoring starred variants)
+ * Numbering starts at the highest level present below \part.
+ */
+function numberHeadings(
+  headings: SectionHeading[]
+): Array<SectionHeading & { number: string }> {
+  const numbered = headings.filter((h) => h.depth > 0);
+  if (numbered.length === 0) return [];
+
+  const topDepth = Math.min(...numbered.map((h) => h.depth));
+  const counters: number[] = [];
+
+  return numbered.map((heading) => {
+    const level = heading.depth - topDepth;
+    counters[level] = (counters[level] ?? 0) + 1;
+    counters.length = level + 1;
+    return {
+      ...heading,
+      number: Array.from(counters, (count) => count ?? 0).join('.'),
+    };
+  });
+}
+
+function sectionEndLine(
+  headings: SectionHeading[],
+  heading: SectionHeading,
+  lineCount: number
+): number {
+  const next = headings.find(
+    (h) => h.line > heading.line && h.depth <= heading.depth
+  );
+  return next ? next.line - 1 : lineCount;
+}
+
+/**
+ * Resolve "chapter 3" / "section 2.1" to a line range in a file
+ */
+function findNumberedSection(
+  fileContent: string,
+  kind: string,
+  number: string
+): { heading: SectionHeading; startLine: number; endLine: number } | null {
+  const headings = extractSectionOutline(fileContent);
+  const numbered = numberHeadings(headings);
+  const heading =
+    numbered.find((h) => h.command === kind && h.number === number) ||
+    numbered.find((h) => h.number === number);
+  if (!heading) return null;
+
+  return {
+    heading,
+    startLine: heading.line,
+    endLine: sectionEndLine(headings, heading, fileContent.split('\n').length),
+  };
+}
+
+// ============================================================================
+// Scope Resolution
+// ============================================================================
+
+function clampRange(
+  start: number,
+  end: number,
+  lineCount: number
+): [number, number] | null {
+  const startLine = Math.max(1, Math.min(start, end));
+  const endLine = Math.min(lineCount, Math.max(start, end));
+  return startLine <= endLine ? [startLine, endLine] : null;
+}
+
+/**
+ * Build the allowed edit ranges for a request
+ * @returns Allowed ranges, or an empty array when edits are not scoped
+ */
+export function buildEditScope(input: EditScopeInput): EditScopeRange[] {
+  const text = (input.userText || '').toLowerCase();
+  const currentFilePath = input.currentFilePath ?? null;
+  const lineCount = input.fileContent.split('\n').length;
+  const ranges: EditScopeRange[] = [];
+
+  const otherFiles = (input.projectFiles ?? []).filter(
+    (file) => file.path !== currentFilePath
+  );
+
+  // explicit line ranges in the current file
+  for (const match of text.matchAll(LINE_SCOPE)) {
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    const clamped = clampRange(start, end, lineCount);
+    if (!clamped) continue;
+    ranges.push({
+      filePath: currentFilePath,
+      startLine: clamped[0],
+      endLine: clamped[1],
+      source: 'text',
+      label: `lines ${clamped[0]}-${clamped[1]}`,
+    });
+  }
+
+  // numbered sections in the current file ("only in chapter 3")
+  for (const match of text.matchAll(NUMBERED_SECTION_SCOPE)) {
+    const [, kind, number] = match;
+    const range = findNumberedSection(input.fileContent, kind, number);
+    if (!range) continue;
+    ranges.push({
+      filePath: currentFilePath,
+      startLine: range.startLine,
+      endLine: range.endLine,
+      source: 'text',
+      label: `${kind} ${number} "${range.heading.title}"`,
+    });
+  }
+
+  // titled sections, in the current file first, then in other project files
+  for (const match of text.matchAll(TITLED_SECTION_SCOPE)) {
+    // "only fix typos in the results section" -> "results"
+    const title = (match[1] ?? match[2])
+      .split(/\b(?:in|of|to|on) (?:the )?/)
+      .pop()!
+      .trim();
+    const kind = match[3];
+    if (!title) continue;
+
+    const candidates: Array<{ filePath: string | null; content: string }> = [
+      { filePath: currentFilePath, content: input.fileContent },
+      ...otherFiles.map((file) => ({
+        filePath: file.path,
+        content: file.content,
+      })),
+    ];
+    for (const candidate of candidates) {
+      const range = findSectionRange(candidate.content, title);
+      if (!range) continue;
+      ranges.push({
+        filePath: candidate.filePath,
+        startLine: range.startLine,
+        endLine: range.endLine,
+        source: 'text',
+        label: `${kind} "${range.heading.title}"`,
+      });
+      break;
+    }
+  }
+
+  // whole files ("only in sections/methods.tex")
+  for (const match of text.matchAll(FILE_SCOPE)) {
+    const filePath = normalizeProjectPath(match[1]);
+    if (!filePath) continue;
+    const file =
+      currentFilePath && filePath === currentFilePath.toLowerCase()
+        ? { path: currentFilePath, content: input.fileContent }
+        : otherFiles.find((f) => f.path.toLowerCase() === filePath);
+    if (!file) continue;
+    ranges.push({
+      filePath: file.path,
+      startLine: 1,
+      endLine: file.content.split('\n').length,
+      source: 'text',
+      label: `file ${file.path}`,
+    });
+  }
+
+  // the editor selection, when the request refers to it
+  const selection = input.selectionRange;
+  if (
+    ranges.length === 0 &&
+    selection &&
+    SELECTION_REFERENCE.test(text) &&
+    !BROAD_REFERENCE.test(text)
+  ) {
+    const clamped = clampRange(
+      selection.startLineNumber,
+      selection.endLineNumber,
+      lineCount
+    );
+    if (clamped) {
+      ranges.push({
+        filePath: currentFilePath,
+        startLine: clamped[0],
+        endLine: clamped[1],
+        source: 'selection',
+        label: `selection (lines ${clamped[0]}-${clamped[1]})`,
+      });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Attach allowed ranges to an intent
+ */
+export function applyEditScope(
+  intent: IntentResult,
+  ranges: EditScopeRange[]
+): IntentResult {
+  return ranges.length > 0 ? { ...intent, allowedRanges: ranges } : intent;
+}
+
+/**
+ * Describe the intent's edit scope for the system prompt
+ * @returns Prompt block, or an empty string when edits are not scoped
+ */
+export function formatEditScope(intent: IntentResult): string {
+  const lines: string[] = [];
+
+  if (intent.allowedRanges?.length) {
+    lines.push(
+      ...intent.allowedRanges.map(
+        (range) =>
+          `- ${range.filePath ?? 'current file'}: lines ${range.startLine}-${range.endLine} (${range.label})`
+      )
+    );
+  }
+  if (intent.allowedFiles?.length) {
+    lines.push(`- Files: ${intent.allowedFiles.join(', ')}`);
+  }
+  if (intent.allowedSections?.length) {
+    lines.push(`- Sections: ${intent.allowedSections.join(', ')}`);
+  }
+
+  if (lines.length === 0) return '';
+
+  return `EDIT SCOPE:
+The user limited this request to:
+${lines.join('\n')}
+Edits outside this scope are rejected. Inserts may go right after the last allowed line.`;
+}
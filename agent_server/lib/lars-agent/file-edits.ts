@@ -0,0 +1,200 @@
+/**
+ * File-level edit validation
+ * Validates create/rename/delete proposals against user intent and the
+ * project's file list before they are sent to the client for review
+ */
+
+import { IntentResult, isFileInIntentScope } from './intent-inference';
+import {
+  LineEdit,
+  ValidationResult,
+  formatScopeRanges,
+  isFileEdit,
+} from './line-edits';
+
+const MAX_PATH_LENGTH = 255;
+
+/**
+ * Normalize a project-relative file path
+ * @param filePath - Path proposed by the model
+ * @returns Normalized path, or null if the path is unsafe or malformed
+ */
+export function normalizeProjectPath(filePath: unknown): string | null {
+  if (typeof filePath !== 'string') return null;
+
+  const normalized = filePath.trim().replace(/^(\.\/)+/, '');
+  if (
+    !normalized ||
+    normalized.length > MAX_PATH_LENGTH ||
+    normalized.startsWith('/') ||
+    normalized.endsWith('/') ||
+    normalized.includes('\\') ||
+    normalized.includes('//')
+  ) {
+    return null;
+  }
+
+  const segments = normalized.split('/');
+  if (segments.some((segment) => segment === '.' || segment === '..')) {
+    return null;
+  }
+
+  return normalized;
+}
+
+/**
+ * Apply accepted file edits to a set of known paths
+ * Used to keep the virtual file list in sync across tool calls of one turn.
+ */
+export function applyFileEditsToPaths(
+  paths: Set<string>,
+  edits: LineEdit[]
+): Set<string> {
+  for (const edit of edits) {
+    if (!edit.filePath) continue;
+    if (edit.editType === 'create_file') {
+      paths.add(edit.filePath);
+    } else if (edit.editType === 'delete_file') {
+      paths.delete(edit.filePath);
+    } else if (edit.editType === 'rename_file' && edit.newFilePath) {
+      paths.delete(edit.filePath);
+      paths.add(edit.newFilePath);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Validate file-level edits against user intent and existing files
+ * @param edits - Proposed create_file/rename_file/delete_file edits
+ * @param intent - User intent permissions
+ * @param existingPaths - Paths of files that currently exist in the project
+ * @returns Validation result with accepted edits (paths normalized) and violations
+ */
+export function validateFileEdits(
+  edits: LineEdit[],
+  intent: IntentResult,
+  existingPaths: Iterable<string>
+): ValidationResult {
+  const violations: string[] = [];
+  const acceptedEdits: LineEdit[] = [];
+  const paths = new Set(existingPaths);
+
+  for (const edit of edits) {
+    if (!isFileEdit(edit)) {
+      violations.push(
+        `${String(edit.editType)} is a line edit; use propose_edits instead.`
+      );
+      continue;
+    }
+
+    const filePath = normalizeProjectPath(edit.filePath);
+    if (!filePath) {
+      violations.push(
+        `Invalid file path for ${edit.editType}: ${String(edit.filePath)}. Use a relative project path like "sections/methods.tex".`
+      );
+      continue;
+    }
+
+    if (!edit.explanation?.trim()) {
+      violations.push(`Missing explanation for ${edit.editType} ${filePath}.`);
+      continue;
+    }
+
+    if (intent.allowedRanges?.length) {
+      violations.push(
+        `${edit.editType} ${filePath} not allowed: edits are limited to ${formatScopeRanges(intent)}.`
+      );
+      continue;
+    }
+
+    if (!isFileInIntentScope(intent, filePath)) {
+      violations.push(
+        `${edit.editType} ${filePath} not allowed by inferred intent (allowed files: ${intent.allowedFiles?.join(', ')}).`
+      );
+      continue;
+    }
+
+    if (edit.editType === 'create_file') {
+      if (!intent.allowInsert) {
+        violations.push(
+          `File creation not allowed by inferred intent: ${filePath}.`
+        );
+        continue;
+      }
+      if (paths.has(filePath)) {
+        violations.push(
+          `Cannot create ${filePath}: file already exists. Use propose_edits to change it.`
+        );
+        continue;
+      }
+
+      paths.add(filePath);
+      acceptedEdits.push({
+        editType: 'create_file',
+        filePath,
+        content: edit.content ?? '',
+        explanation: edit.explanation,
+      });
+      continue;
+    }
+
+    if (!paths.has(filePath)) {
+      violations.push(`Cannot ${edit.editType} ${filePath}: file not found.`);
+      continue;
+    }
+
+    if (edit.editType === 'delete_file') {
+      if (!intent.allowDelete) {
+        violations.push(
+          `File deletion not allowed by inferred intent: ${filePath}.`
+        );
+        continue;
+      }
+
+      paths.delete(filePath);
+      acceptedEdits.push({
+        editType: 'delete_file',
+        filePath,
+        explanation: edit.explanation,
+      });
+      continue;
+    }
+
+    // rename_file
+    const newFilePath = normalizeProjectPath(edit.newFilePath);
+    if (!newFilePath) {
+      violations.push(
+        `Invalid newFilePath for rename_file ${filePath}: ${String(edit.newFilePath)}.`
+      );
+      continue;
+    }
+    if (!intent.allowReplace) {
+      violations.push(
+        `File rename not allowed by inferred intent: ${filePath} -> ${newFilePath}.`
+      );
+      continue;
+    }
+    if (newFilePath === filePath || paths.has(newFilePath)) {
+      violations.push(
+        `Cannot rename ${filePath} to ${newFilePath}: target already exists.`
+      );
+      continue;
+    }
+
+    paths.delete(filePath);
+    paths.add(newFilePath);
+    acceptedEdits.push({
+      editType: 'rename_file',
+      filePath,
+      newFilePath,
+      explanation: edit.explanation,
+    });
+  }
+
+  return {
+    isValid: violations.length === 0,
+    violations,
+    acceptedEdits,
+  };
+}
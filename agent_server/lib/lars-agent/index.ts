@@ -7,15 +7,25 @@
 
 // Core functionality exports
 export * from './intent-inference';
+export * from './intent-classifier';
+export * from './edit-scope';
+export * from './context-budget';
 export * from './line-edits';
+export * from './edit-anchors';
+export * from './search-replace';
+export * from './latex-check';
+export * from './file-edits';
 export * from './content-processing';
-export * from './tools';
 export * from './stream-handling';
-export * from './config';
 export * from './report-initialization';
+export * from './compile-repair';
 
 // Re-export commonly used types
 export type { IntentResult } from './intent-inference';
-export type { LineEdit, LineEditType, ValidationResult } from './line-edits';
-export type { ToolContext } from './tools';
+export type {
+  LineEdit,
+  LineEditType,
+  FileEditType,
+  ValidationResult,
+} from './line-edits';
 export type { StreamController, StreamMessage } from './stream-handling';
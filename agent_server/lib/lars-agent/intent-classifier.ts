@@ -0,0 +1,386 @@
+/**
+ * LLM intent classification
+ * Optional step that asks the configured provider to classify the user's
+ * request into a structured IntentResult, including which files and sections
+ * may be edited. Falls back to keyword inference when disabled or when the
+ * classifier fails, and logs every decision for tuning.
+ */
+
+import { appendFile } from 'fs/promises';
+import type { CERNLiteLLMToolDefinition } from '../cern-litellm/types';
+import type { LLMProvider } from '../llm-providers/types';
+import { withRequestTimeout } from '../llm-providers/request-timeout';
+import { IntentResult, inferIntent } from './intent-inference';
+import { extractSectionOutline } from './content-processing';
+import { normalizeProjectPath } from './file-edits';
+
+export type IntentClassifierMode = 'llm' | 'keywords';
+
+const DEFAULT_CLASSIFIER_TIMEOUT_MS = 8000;
+const MAX_OUTLINE_HEADINGS = 50;
+
+export interface IntentClassifierContext {
+  projectFiles?: string[]; // Project-relative paths
+  currentFilePath?: string | null;
+  fileContent?: string; // Current file, used for the section outline
+}
+
+export interface ResolveIntentOptions extends IntentClassifierContext {
+  provider?: LLMProvider;
+  env?: NodeJS.ProcessEnv;
+  signal?: AbortSignal; // Cancels an in-flight classifier request
+}
+
+export interface IntentDecisionLog {
+  timestamp: string;
+  source: IntentClassifierMode;
+  userText: string;
+  intent: IntentResult;
+  durationMs: number;
+  model?: string;
+  fallbackReason?: string;
+}
+
+// ============================================================================
+// Classifier Tool
+// ============================================================================
+
+export const REPORT_INTENT_TOOL: CERNLiteLLMToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'report_intent',
+    description:
+      'Report what the user allows the editing agent to do for this request.',
+    parameters: {
+      type: 'object',
+      properties: {
+        isReadOnly: {
+          type: 'boolean',
+          description:
+            'True only if the user wants no edits at all (questions, explanations, reviews without changes).',
+        },
+        allowInsert: {
+          type: 'boolean',
+          description: 'Adding new content or files is allowed.',
+        },
+        allowDelete: {
+          type: 'boolean',
+          description: 'Removing content or files is allowed.',
+        },
+        allowReplace: {
+          type: 'boolean',
+          description: 'Rewriting or renaming existing content is allowed.',
+        },
+        wantsGrammar: {
+          type: 'boolean',
+          description: 'The request is about grammar, spelling or typos.',
+        },
+        wantsDedupe: {
+          type: 'boolean',
+          description: 'The request is about removing duplicated content.',
+        },
+        multiEdit: {
+          type: 'boolean',
+          description: 'More than one edit is likely needed.',
+        },
+        fullRevamp: {
+          type: 'boolean',
+          description: 'The user asks to rewrite or restructure everything.',
+        },
+        allowedFiles: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Project paths the user restricts edits to. Empty when edits are not restricted to specific files.',
+        },
+        allowedSections: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Section titles the user restricts edits to (e.g. "Conclusion"). Empty when not restricted to sections.',
+        },
+        reasoning: {
+          type: 'string',
+          description: 'One short sentence explaining the decision.',
+        },
+      },
+      required: [
+        'isReadOnly',
+        'allowInsert',
+        'allowDelete',
+        'allowReplace',
+        'allowedFiles',
+        'allowedSections',
+      ],
+    },
+  },
+};
+
+const BOOLEAN_FIELDS = [
+  'allowInsert',
+  'allowDelete',
+  'allowReplace',
+  'wantsGrammar',
+  'wantsDedupe',
+  'isReadOnly',
+  'multiEdit',
+  'fullRevamp',
+] as const;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Get the configured intent classifier (INTENT_CLASSIFIER, default keywords)
+ */
+export function getIntentClassifierMode(
+  env: NodeJS.ProcessEnv = process.env
+): IntentClassifierMode {
+  return env.INTENT_CLASSIFIER?.trim().toLowerCase() === 'llm'
+    ? 'llm'
+    : 'keywords';
+}
+
+function getClassifierTimeout(env: NodeJS.ProcessEnv): number {
+  const timeout = parseInt(env.INTENT_CLASSIFIER_TIMEOUT_MS || '', 10);
+  return Number.isFinite(timeout) && timeout > 0
+    ? timeout
+    : DEFAULT_CLASSIFIER_TIMEOUT_MS;
+}
+
+// ============================================================================
+// Prompt & Parsing
+// ============================================================================
+
+/**
+ * Build the classifier prompt with the project's files and sections
+ */
+export function buildIntentClassifierPrompt(
+  context: IntentClassifierContext
+): string {
+  const files = context.projectFiles?.length
+    ? context.projectFiles.map((path) => `- ${path}`).join('\n')
+    : '(none)';
+  const sections = context.fileContent
+    ? extractSectionOutline(context.fileContent)
+        .slice(0, MAX_OUTLINE_HEADINGS)
+        .map((heading) => `- ${heading.title}`)
+        .join('\n')
+    : '';
+
+  return `You classify requests sent to a LaTeX editing assistant. Decide which kinds of edits the user allows and call report_intent.
+
+Rules:
+- Judge the whole request, not single words: "see if the intro reads well and fix it" allows edits, "can you add an address" is about adding content.
+- isReadOnly is true only when the user wants no changes at all. Then all allow* flags are false.
+- When the user excludes part of the document ("no changes to the introduction, but rewrite the conclusion"), edits are still allowed: list the sections that may change in allowedSections.
+- Use allowedFiles / allowedSections only when the user limits the scope. Otherwise leave them empty.
+- allowedFiles must use paths from the project file list.
+
+Current file: ${context.currentFilePath || '(unsaved)'}
+
+Project files:
+${files}
+
+Sections in the current file:
+${sections || '(none)'}`;
+}
+
+function extractJsonObject(text: string): string | null {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  return start >= 0 && end > start ? unfenced.slice(start, end + 1) : null;
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value
+        .filter((item): item is string => typeof item === 'string')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : [];
+}
+
+/**
+ * Parse and validate a classifier response into an IntentResult
+ * @param raw - Tool call arguments (object or JSON string)
+ * @returns IntentResult with source 'llm', or null if the response is malformed
+ */
+export function parseIntentClassification(raw: unknown): IntentResult | null {
+  let data: unknown = raw;
+  if (typeof raw === 'string') {
+    const json = extractJsonObject(raw);
+    if (!json) return null;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      return null;
+    }
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+
+  const fields = data as Record<string, unknown>;
+  if (
+    typeof fields.isReadOnly !== 'boolean' ||
+    typeof fields.allowInsert !== 'boolean' ||
+    typeof fields.allowDelete !== 'boolean' ||
+    typeof fields.allowReplace !== 'boolean'
+  ) {
+    return null;
+  }
+
+  const flags = Object.fromEntries(
+    BOOLEAN_FIELDS.map((field) => [field, fields[field] === true])
+  ) as Pick<IntentResult, (typeof BOOLEAN_FIELDS)[number]>;
+
+  // read-only wins over any allow* flag the model also set
+  if (flags.isReadOnly) {
+    flags.allowInsert = false;
+    flags.allowDelete = false;
+    flags.allowReplace = false;
+  }
+
+  const allowedFiles = toStringList(fields.allowedFiles)
+    .map((path) => normalizeProjectPath(path))
+    .filter((path): path is string => path !== null);
+  const allowedSections = toStringList(fields.allowedSections);
+
+  return {
+    ...flags,
+    ...(allowedFiles.length > 0 && { allowedFiles }),
+    ...(allowedSections.length > 0 && { allowedSections }),
+    source: 'llm',
+    ...(typeof fields.reasoning === 'string' &&
+      fields.reasoning.trim() && { reasoning: fields.reasoning.trim() }),
+  };
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Classify the user's request with the LLM provider
+ * @throws Error if the provider fails or returns an unusable classification
+ */
+export async function classifyIntent(
+  provider: LLMProvider,
+  userText: string,
+  context: IntentClassifierContext = {},
+  model?: string,
+  signal?: AbortSignal
+): Promise<IntentResult> {
+  const response = await provider.streamChat({
+    messages: [
+      { role: 'system', content: buildIntentClassifierPrompt(context) },
+      { role: 'user', content: userText },
+    ],
+    ...(model && { model }),
+    max_tokens: 512,
+    temperature: 0,
+    tools: [REPORT_INTENT_TOOL],
+    tool_choice: {
+      type: 'function',
+      function: { name: REPORT_INTENT_TOOL.function.name },
+    },
+    signal,
+  });
+
+  // providers that ignore forced tool choice may answer with plain JSON
+  const toolCall = response.toolCalls.find(
+    (call) => call.function.name === REPORT_INTENT_TOOL.function.name
+  );
+  const intent = parseIntentClassification(
+    toolCall ? toolCall.function.arguments : response.content
+  );
+  if (!intent) {
+    throw new Error('Intent classifier returned an invalid classification');
+  }
+
+  return intent;
+}
+
+/**
+ * Log an intent decision to the console and, if INTENT_LOG_FILE is set,
+ * append it as a JSON line for offline tuning
+ */
+export async function logIntentDecision(
+  decision: IntentDecisionLog,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<void> {
+  console.log('[Intent]', JSON.stringify(decision));
+
+  const logFile = env.INTENT_LOG_FILE?.trim();
+  if (!logFile) return;
+
+  try {
+    await appendFile(logFile, `${JSON.stringify(decision)}\n`, 'utf-8');
+  } catch (error) {
+    console.warn(
+      '[Intent] Failed to write decision log:',
+      error instanceof Error ? error.message : error
+    );
+  }
+}
+
+/**
+ * Resolve the intent for a request
+ * Uses the LLM classifier when INTENT_CLASSIFIER=llm and a provider is given,
+ * otherwise (or on any classifier failure) the keyword patterns.
+ */
+export async function resolveIntent(
+  userText: string,
+  options: ResolveIntentOptions = {}
+): Promise<IntentResult> {
+  const { provider, env = process.env, signal, ...context } = options;
+  const startedAt = Date.now();
+  let fallbackReason: string | undefined;
+
+  if (getIntentClassifierMode(env) === 'llm') {
+    if (provider) {
+      const model = env.INTENT_CLASSIFIER_MODEL?.trim() || undefined;
+      try {
+        const intent = await withRequestTimeout(
+          (requestSignal) =>
+            classifyIntent(provider, userText, context, model, requestSignal),
+          getClassifierTimeout(env),
+          'Intent classifier',
+          signal
+        );
+        await logIntentDecision(
+          {
+            timestamp: new Date().toISOString(),
+            source: 'llm',
+            userText,
+            intent,
+            durationMs: Date.now() - startedAt,
+            model: model || provider.model,
+          },
+          env
+        );
+        return intent;
+      } catch (error) {
+        fallbackReason =
+          error instanceof Error ? error.message : 'Unknown classifier error';
+      }
+    } else {
+      fallbackReason = 'No LLM provider available';
+    }
+  }
+
+  const intent = await inferIntent(userText);
+  await logIntentDecision(
+    {
+      timestamp: new Date().toISOString(),
+      source: 'keywords',
+      userText,
+      intent,
+      durationMs: Date.now() - startedAt,
+      ...(fallbackReason && { fallbackReason }),
+    },
+    env
+  );
+  return intent;
+}
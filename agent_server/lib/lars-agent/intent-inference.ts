@@ -3,6 +3,8 @@
  * Determines what edit operations the user wants to perform
  */
 
+import type { EditScopeRange } from './edit-scope';
+
 export interface IntentResult {
   // Basic edit operations
   allowInsert: boolean;
@@ -15,6 +17,17 @@ export interface IntentResult {
   isReadOnly: boolean;
   multiEdit: boolean;
   fullRevamp: boolean;
+
+  // Scope reported by the LLM classifier (undefined = no restriction)
+  allowedFiles?: string[];
+  allowedSections?: string[];
+
+  // Line ranges from the selection or scope phrases (see edit-scope.ts)
+  allowedRanges?: EditScopeRange[];
+
+  // Decision metadata
+  source?: 'llm' | 'keywords';
+  reasoning?: string;
 }
 
 /**
@@ -136,7 +149,22 @@ export async function inferIntent(userText: string): Promise<IntentResult> {
         isReadOnly: hasReadOnlyIntent || hasExplicitRestriction || hasNegativeRestriction,
         multiEdit: wantsMulti || wantsFull || wantsInsert || wantsReplace,
         fullRevamp: wantsFull,
+        source: 'keywords',
       });
     });
   });
 }
+
+/**
+ * Check whether a file may be edited under the intent's file scope
+ * @param intent - Inferred intent
+ * @param filePath - Project-relative path of the edited file
+ * @returns true when no file scope is set or the file is listed
+ */
+export function isFileInIntentScope(
+  intent: IntentResult,
+  filePath?: string | null
+): boolean {
+  if (!intent.allowedFiles?.length || !filePath) return true;
+  return intent.allowedFiles.includes(filePath);
+}
@@ -0,0 +1,376 @@
+/**
+ * LaTeX checks for proposed edits
+ * Edits are applied to a copy of the files they touch, and the result is
+ * checked for unbalanced braces and environments and for references and
+ * citations that point nowhere. Only problems the edits introduce count;
+ * whatever was already wrong with the file is left alone.
+ */
+
+export interface LatexFileChange {
+  path: string;
+  before: string;
+  after: string; // The file with the edits applied
+}
+
+export interface LatexProjectFile {
+  path: string;
+  content: string;
+}
+
+interface LatexProblem {
+  key: string; // Same problem in the file before and after the edits
+  message: string;
+}
+
+interface KeyUse {
+  key: string;
+  line: number;
+}
+
+// Environments whose body is not LaTeX
+const VERBATIM_ENVIRONMENTS = new Set([
+  'verbatim',
+  'verbatim*',
+  'Verbatim',
+  'lstlisting',
+  'minted',
+  'comment',
+]);
+
+// Problems listed per file, so the tool result stays readable
+const MAX_PROBLEMS_PER_FILE = 5;
+
+const REF_PATTERN =
+  /\\(?:ref|eqref|pageref|autoref|nameref|vref|vpageref|cref|Cref|cpageref|Cpageref|labelcref)\*?\s*\{([^}]*)\}/g;
+const LABEL_PATTERN = /\\label\s*\{([^}]+)\}/g;
+// \cite, \citep, \parencite, \textcite, \nocite, ... with optional notes
+const CITE_PATTERN =
+  /\\[a-zA-Z]*cite[a-zA-Z]*\*?\s*(?:\[[^\]]*\]\s*){0,2}\{([^}]*)\}/g;
+const BIBITEM_PATTERN = /\\bibitem\s*(?:\[[^\]]*\])?\s*\{([^}]+)\}/g;
+const BIB_ENTRY_PATTERN = /@(\w+)\s*[{(]\s*([^,\s]+)\s*,/g;
+
+function isBibFile(path: string): boolean {
+  return /\.bib$/i.test(path);
+}
+
+// The current file may not have a path; it is LaTeX
+function isLatexFile(path: string): boolean {
+  return path === 'current' || /\.(tex|ltx|sty|cls)$/i.test(path);
+}
+
+/**
+ * Blank out comments, \verb arguments and verbatim bodies, keeping the
+ * lines in place so line numbers still match the file
+ */
+function stripLatexComments(content: string): string[] {
+  let verbatim: string | null = null;
+
+  return content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => {
+      let result = '';
+      let index = 0;
+
+      while (index < line.length) {
+        if (verbatim) {
+          const end = line.indexOf(`\\end{${verbatim}}`, index);
+          if (end === -1) break;
+          index = end;
+          verbatim = null;
+          continue;
+        }
+
+        const char = line[index];
+        if (char === '%') break;
+        if (char !== '\\') {
+          result += char;
+          index++;
+          continue;
+        }
+
+        // \verb|...| and \verb*|...|
+        const verb = /^\\verb\*?([^a-zA-Z\s*])/.exec(line.slice(index));
+        if (verb) {
+          const close = line.indexOf(verb[1], index + verb[0].length);
+          index = close === -1 ? line.length : close + 1;
+          continue;
+        }
+
+        const begin = /^\\begin\s*\{([^}]*)\}/.exec(line.slice(index));
+        if (begin && VERBATIM_ENVIRONMENTS.has(begin[1])) {
+          result += begin[0];
+          index += begin[0].length;
+          verbatim = begin[1];
+          continue;
+        }
+
+        // A backslash escapes the character after it, % and braces included
+        result += line.slice(index, index + 2);
+        index += 2;
+      }
+      return result;
+    });
+}
+
+/**
+ * Unbalanced braces, and \begin/\end pairs that do not match up
+ */
+function findBalanceProblems(content: string, path: string): LatexProblem[] {
+  const bib = isBibFile(path);
+  const lines = bib
+    ? content.replace(/\r\n?/g, '\n').split('\n')
+    : stripLatexComments(content);
+  const problems: LatexProblem[] = [];
+  const braces: number[] = [];
+  const environments: { name: string; line: number }[] = [];
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const tokens = bib ? /\\.|[{}]/g : /\\(begin|end)\s*\{([^}]*)\}|\\.|[{}]/g;
+
+    for (const token of text.matchAll(tokens)) {
+      if (token[0] === '{') {
+        braces.push(line);
+      } else if (token[0] === '}') {
+        if (braces.pop() === undefined) {
+          problems.push({
+            key: 'brace-close',
+            message: `Unmatched } at line ${line}.`,
+          });
+        }
+      } else if (token[1] === 'begin') {
+        environments.push({ name: token[2], line });
+      } else if (token[1] === 'end') {
+        const name = token[2];
+        const open = environments.map((env) => env.name).lastIndexOf(name);
+        if (open === -1) {
+          problems.push({
+            key: `environment-end:${name}`,
+            message: `\\end{${name}} at line ${line} has no matching \\begin{${name}}.`,
+          });
+          continue;
+        }
+        // Whatever was opened inside it is closed with it
+        for (const inner of environments.splice(open + 1)) {
+          problems.push({
+            key: `environment-begin:${inner.name}`,
+            message: `\\begin{${inner.name}} at line ${inner.line} is closed by \\end{${name}} at line ${line} instead of \\end{${inner.name}}.`,
+          });
+        }
+        environments.pop();
+      }
+    }
+  });
+
+  for (const open of braces) {
+    problems.push({
+      key: 'brace-open',
+      message: `{ at line ${open} is never closed.`,
+    });
+  }
+  for (const env of environments) {
+    problems.push({
+      key: `environment-begin:${env.name}`,
+      message: `\\begin{${env.name}} at line ${env.line} is never closed with \\end{${env.name}}.`,
+    });
+  }
+  return problems;
+}
+
+function keyUses(lines: string[], pattern: RegExp): KeyUse[] {
+  const uses: KeyUse[] = [];
+  lines.forEach((text, index) => {
+    for (const match of text.matchAll(pattern)) {
+      for (const key of match[1].split(',')) {
+        const trimmed = key.trim();
+        if (trimmed && trimmed !== '*') {
+          uses.push({ key: trimmed, line: index + 1 });
+        }
+      }
+    }
+  });
+  return uses;
+}
+
+function labelsIn(file: LatexProjectFile): string[] {
+  if (!isLatexFile(file.path)) return [];
+  return keyUses(stripLatexComments(file.content), LABEL_PATTERN).map(
+    (use) => use.key
+  );
+}
+
+function citeKeysIn(file: LatexProjectFile): string[] {
+  if (isBibFile(file.path)) {
+    return Array.from(file.content.matchAll(BIB_ENTRY_PATTERN))
+      .filter(
+        (match) =>
+          !['string', 'preamble', 'comment'].includes(match[1].toLowerCase())
+      )
+      .map((match) => match[2]);
+  }
+  if (!isLatexFile(file.path)) return [];
+  return keyUses(stripLatexComments(file.content), BIBITEM_PATTERN).map(
+    (use) => use.key
+  );
+}
+
+interface KeyCheck {
+  noun: string; // What a key names, for the messages
+  command: string; // The command that defines a key
+  definitions: (file: LatexProjectFile) => string[];
+  uses: RegExp;
+  // Only checked when the project defines some keys; a bibliography can
+  // live outside the project
+  needsDefinitions: boolean;
+}
+
+const REFERENCES: KeyCheck = {
+  noun: 'label',
+  command: '\\label',
+  definitions: labelsIn,
+  uses: REF_PATTERN,
+  needsDefinitions: false,
+};
+
+const CITATIONS: KeyCheck = {
+  noun: 'citation key',
+  command: 'bibliography entry',
+  definitions: citeKeysIn,
+  uses: CITE_PATTERN,
+  needsDefinitions: true,
+};
+
+function usesIn(file: LatexProjectFile, check: KeyCheck): KeyUse[] {
+  return isLatexFile(file.path)
+    ? keyUses(stripLatexComments(file.content), check.uses)
+    : [];
+}
+
+/**
+ * Keys the edits leave undefined: new uses of unknown keys in the edited
+ * files, and definitions the edits remove while the project still uses them
+ */
+function findBrokenKeys(
+  changes: LatexFileChange[],
+  before: LatexProjectFile[],
+  after: LatexProjectFile[],
+  check: KeyCheck,
+  report: (path: string, message: string) => void
+): void {
+  const definedBefore = new Set(before.flatMap(check.definitions));
+  const definedAfter = new Set(after.flatMap(check.definitions));
+  if (check.needsDefinitions && definedAfter.size === 0) return;
+  const changed = new Set(changes.map((change) => change.path));
+
+  for (const change of changes) {
+    const unknownBefore = new Set(
+      usesIn({ path: change.path, content: change.before }, check)
+        .map((use) => use.key)
+        .filter((key) => !definedBefore.has(key))
+    );
+    const reported = new Set<string>();
+    for (const use of usesIn(
+      { path: change.path, content: change.after },
+      check
+    )) {
+      if (
+        definedAfter.has(use.key) ||
+        unknownBefore.has(use.key) ||
+        reported.has(use.key)
+      ) {
+        continue;
+      }
+      reported.add(use.key);
+      report(
+        change.path,
+        `Unknown ${check.noun} "${use.key}" at line ${use.line}; no ${check.command} in the project defines it.`
+      );
+    }
+  }
+
+  // Definitions removed by the edits that other files still use; uses in
+  // the edited files were reported above
+  for (const change of changes) {
+    const removed = check
+      .definitions({ path: change.path, content: change.before })
+      .filter((key) => !definedAfter.has(key));
+    for (const key of new Set(removed)) {
+      const users = after.filter(
+        (file) =>
+          !changed.has(file.path) &&
+          usesIn(file, check).some((use) => use.key === key)
+      );
+      if (users.length === 0) continue;
+      report(
+        change.path,
+        `The edits remove the ${check.command} for "${key}", which is still used in ${users
+          .map((file) => file.path)
+          .join(', ')}.`
+      );
+    }
+  }
+}
+
+/**
+ * Check what proposed edits do to the LaTeX of the files they change
+ * @param changes - Each edited file before and after its edits
+ * @param projectFiles - All project files as they are now, to resolve
+ * labels and citation keys. Without them only balance is checked.
+ * @returns Problems per edited file path; files without problems are absent
+ */
+export function checkLatexEdits(
+  changes: LatexFileChange[],
+  projectFiles?: LatexProjectFile[]
+): Map<string, string[]> {
+  const problems = new Map<string, string[]>();
+  const report = (path: string, message: string) => {
+    const list = problems.get(path) ?? [];
+    if (list.length < MAX_PROBLEMS_PER_FILE) list.push(message);
+    problems.set(path, list);
+  };
+
+  for (const change of changes) {
+    if (!isLatexFile(change.path) && !isBibFile(change.path)) continue;
+
+    // Count each kind of problem before, so only new ones are reported
+    const existing = new Map<string, number>();
+    for (const problem of findBalanceProblems(change.before, change.path)) {
+      existing.set(problem.key, (existing.get(problem.key) ?? 0) + 1);
+    }
+    const introduced = new Map<string, LatexProblem[]>();
+    for (const problem of findBalanceProblems(change.after, change.path)) {
+      introduced.set(problem.key, [
+        ...(introduced.get(problem.key) ?? []),
+        problem,
+      ]);
+    }
+    for (const [key, found] of introduced) {
+      if (found.length > (existing.get(key) ?? 0)) {
+        found.forEach((problem) => report(change.path, problem.message));
+      }
+    }
+  }
+
+  if (projectFiles) {
+    const changed = new Map(changes.map((change) => [change.path, change]));
+    const before = [
+      ...projectFiles.filter((file) => !changed.has(file.path)),
+      ...changes.map((change) => ({
+        path: change.path,
+        content: change.before,
+      })),
+    ];
+    const after = [
+      ...projectFiles.filter((file) => !changed.has(file.path)),
+      ...changes.map((change) => ({
+        path: change.path,
+        content: change.after,
+      })),
+    ];
+    findBrokenKeys(changes, before, after, REFERENCES, report);
+    findBrokenKeys(changes, before, after, CITATIONS, report);
+  }
+
+  return problems;
+}
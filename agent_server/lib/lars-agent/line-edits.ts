@@ -3,12 +3,21 @@
  * Provides structured edit type classification and validation logic
  */
 
-import { IntentResult } from './intent-inference';
+import { IntentResult, isFileInIntentScope } from './intent-inference';
+import { findSectionRange, SectionRange } from './content-processing';
+import {
+  anchorEdit,
+  checkOriginalText,
+  coveredLineCount,
+} from './edit-anchors';
 
 export type LineEditType = 'insert' | 'delete' | 'replace';
 
+// File-level operations, proposed and reviewed like line edits
+export type FileEditType = 'create_file' | 'rename_file' | 'delete_file';
+
 export interface LineEdit {
-  editType: LineEditType;
+  editType: LineEditType | FileEditType;
   content?: string;
   position?: {
     line?: number;
@@ -16,6 +25,22 @@ export interface LineEdit {
   originalLineCount?: number; // How many lines to affect (for delete/replace)
   explanation?: string;
   filePath?: string; // Optional: which file this edit applies to
+  newFilePath?: string; // Target path for rename_file
+  // Anchors for finding the edit again after the file changed
+  originalText?: string; // The lines the edit covers
+  contextBefore?: string; // Lines just above the edit
+  contextAfter?: string; // Lines just below the edit
+}
+
+/**
+ * Check whether an edit operates on a whole file rather than on lines
+ */
+export function isFileEdit(edit: Pick<LineEdit, 'editType'>): boolean {
+  return (
+    edit.editType === 'create_file' ||
+    edit.editType === 'rename_file' ||
+    edit.editType === 'delete_file'
+  );
 }
 
 export interface ValidationResult {
@@ -24,23 +49,129 @@ export interface ValidationResult {
   acceptedEdits: LineEdit[];
 }
 
+/**
+ * Resolve the intent's allowed sections to line ranges in a file
+ * Sections that are not found in this file are ignored, so a file without
+ * any of the allowed headings is not restricted by section.
+ */
+function resolveAllowedSections(
+  intent: IntentResult,
+  fileContent: string
+): SectionRange[] {
+  if (!intent.allowedSections?.length) return [];
+
+  return intent.allowedSections
+    .map((section) => findSectionRange(fileContent, section))
+    .filter((range): range is SectionRange => range !== null);
+}
+
+/**
+ * Describe the intent's allowed line ranges for violation messages
+ */
+export function formatScopeRanges(intent: IntentResult): string {
+  return (intent.allowedRanges ?? [])
+    .map(
+      (range) =>
+        `${range.filePath ?? 'current file'} lines ${range.startLine}-${range.endLine}`
+    )
+    .join('; ');
+}
+
 /**
  * Validate line edits against user intent and constraints
  * @param edits - Array of proposed edits
  * @param intent - User intent permissions
- * @returns Validation result with accepted edits and violations
+ * @param fileContent - Content of the file the edits apply to
+ * @param filePath - Path of that file, checked against the intent's file scope
+ * @returns Validation result with accepted edits, anchored to the file's
+ * text, and violations
  */
 export function validateLineEdits(
   edits: LineEdit[],
   intent: IntentResult,
-  fileContent: string
+  fileContent: string,
+  filePath?: string | null
 ): ValidationResult {
   const violations: string[] = [];
   const acceptedEdits: LineEdit[] = [];
+  const fileInScope = isFileInIntentScope(intent, filePath);
+  const sectionRanges = resolveAllowedSections(intent, fileContent);
+  const scopeRanges = intent.allowedRanges
+    ? intent.allowedRanges.filter(
+        (range) => (range.filePath ?? null) === (filePath ?? null)
+      )
+    : null;
 
   for (const edit of edits) {
     const lineNumber = edit.position?.line || 0;
 
+    if (isFileEdit(edit)) {
+      violations.push(
+        `${edit.editType} is a file-level operation; use propose_file_edits instead.`
+      );
+      continue;
+    }
+
+    if (!fileInScope) {
+      violations.push(
+        `Editing ${filePath} not allowed by inferred intent (allowed files: ${intent.allowedFiles?.join(', ')}).`
+      );
+      continue;
+    }
+
+    // Line numbers must point into the file; an insert may append
+    const fileLineCount = fileContent.split('\n').length;
+    const coveredLines = coveredLineCount(edit);
+    if (
+      lineNumber < 1 ||
+      lineNumber > fileLineCount + (coveredLines === 0 ? 1 : 0) ||
+      lineNumber + coveredLines - 1 > fileLineCount
+    ) {
+      violations.push(
+        `Edit at line ${lineNumber}${coveredLines > 1 ? `-${lineNumber + coveredLines - 1}` : ''} is outside ${filePath ?? 'the current file'}, which has ${fileLineCount} lines. Call get_context for the current line numbers, or use search/replace.`
+      );
+      continue;
+    }
+
+    // The text the model expects must be what the file has there
+    const mismatch = checkOriginalText(edit, fileContent);
+    if (mismatch) {
+      violations.push(mismatch);
+      continue;
+    }
+
+    // inserts may also land just after a range's last line
+    const lastLine = lineNumber + coveredLines - 1;
+
+    if (scopeRanges) {
+      const inScope = scopeRanges.some(
+        (range) => lineNumber >= range.startLine && lastLine <= range.endLine
+      );
+      if (!inScope) {
+        violations.push(
+          `Edit at lines ${lineNumber}-${Math.max(lineNumber, lastLine)} of ${filePath ?? 'the current file'} is outside the allowed scope (${formatScopeRanges(intent)}). Only propose edits inside that scope.`
+        );
+        continue;
+      }
+    }
+
+    if (sectionRanges.length > 0) {
+      const inSection = sectionRanges.some(
+        (range) => lineNumber >= range.startLine && lastLine <= range.endLine
+      );
+      if (!inSection) {
+        violations.push(
+          `Edit at line ${lineNumber} is outside the sections allowed by inferred intent (${sectionRanges
+            .map(
+              (range) =>
+                `${range.heading.title}: lines ${range.startLine}-${range.endLine}`
+            )
+            .join('; ')}).`
+        );
+        continue;
+      }
+    }
+
     // Enforce intent-based permissions
     if (edit.editType === 'insert') {
       if (!intent.allowInsert) {
@@ -69,7 +200,19 @@ export function validateLineEdits(
       }
     }
 
-    acceptedEdits.push(edit);
+    // Edits address the original lines, so two may not change the same one
+    const overlapping = acceptedEdits.find((accepted) =>
+      editsOverlap(accepted, edit)
+    );
+    if (overlapping) {
+      const [start, end] = editLineRange(overlapping);
+      violations.push(
+        `Edit at line ${lineNumber} overlaps the edit at lines ${start}-${end}. Combine them into one edit, or make the search texts cover separate lines.`
+      );
+      continue;
+    }
+
+    acceptedEdits.push(anchorEdit(edit, fileContent));
   }
 
   return {
@@ -78,3 +221,57 @@ export function validateLineEdits(
     acceptedEdits,
   };
 }
+
+// First and last line an edit changes; an insert touches the line it goes
+// in front of
+function editLineRange(edit: LineEdit): [number, number] {
+  const line = edit.position?.line || 1;
+  return [line, line + Math.max(coveredLineCount(edit), 1) - 1];
+}
+
+function editsOverlap(a: LineEdit, b: LineEdit): boolean {
+  // Inserts in front of the same line both go in, in order
+  if (coveredLineCount(a) === 0 && coveredLineCount(b) === 0) return false;
+  const [aStart, aEnd] = editLineRange(a);
+  const [bStart, bEnd] = editLineRange(b);
+  return aStart <= bEnd && bStart <= aEnd;
+}
+
+/**
+ * Apply line edits to a file's text the way accepting them in the editor
+ * does: every edit addresses the original line numbers, so they are
+ * applied from the bottom up. File-level edits are ignored.
+ */
+export function applyLineEdits(content: string, edits: LineEdit[]): string {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const lineEdits = edits
+    .filter((edit) => !isFileEdit(edit))
+    .sort((a, b) => (b.position?.line || 1) - (a.position?.line || 1));
+
+  for (const edit of lineEdits) {
+    const line = Math.max(edit.position?.line || 1, 1);
+    const count = coveredLineCount(edit);
+
+    // Past the end, an insert is appended to the last line
+    if (count === 0 && line > lines.length) {
+      const last = lines.pop() ?? '';
+      lines.push(...(last + (edit.content || '')).split('\n'));
+      continue;
+    }
+
+    const start = Math.min(line, lines.length);
+    const end = Math.min(start + Math.max(count, 1) - 1, lines.length);
+
+    // The text replaces the covered lines' characters, not their line
+    // breaks; an insert goes in front of the line
+    const following = count > 0 ? '' : lines[start - 1];
+    const replaced = (edit.content || '') + following;
+    lines.splice(
+      start - 1,
+      count > 0 ? end - start + 1 : 1,
+      ...replaced.split('\n')
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,188 @@
+/**
+ * Search/replace edits
+ * The model can name the text to change instead of its line numbers. The
+ * text is looked up in the file and the edit turned into a line edit, so the
+ * rest of the pipeline and the frontend only ever see line edits.
+ */
+
+import type { LineEdit } from './line-edits';
+
+export interface SearchReplaceEdit {
+  search: string; // Exact text to change, unique in the file
+  replace: string; // Text that takes its place
+  explanation?: string;
+  filePath?: string;
+}
+
+export type SearchReplaceResult =
+  | { edit: LineEdit; error?: undefined }
+  | { edit?: undefined; error: string };
+
+/**
+ * Check whether a proposed edit uses the search/replace form
+ */
+export function isSearchReplaceEdit(edit: unknown): edit is SearchReplaceEdit {
+  return (
+    !!edit &&
+    typeof edit === 'object' &&
+    typeof (edit as SearchReplaceEdit).search === 'string'
+  );
+}
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+function quote(text: string): string {
+  const line = text.trim();
+  return JSON.stringify(line.length > 80 ? `${line.slice(0, 77)}...` : line);
+}
+
+// 1-indexed line of a character offset
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (content[i] === '\n') line++;
+  }
+  return line;
+}
+
+function findAll(content: string, text: string): number[] {
+  const offsets: number[] = [];
+  for (
+    let offset = content.indexOf(text);
+    offset !== -1;
+    offset = content.indexOf(text, offset + 1)
+  ) {
+    offsets.push(offset);
+  }
+  return offsets;
+}
+
+// Whole-line matches that differ only in indentation or spacing, as
+// [startLine, endLine] pairs
+function findLooseMatches(lines: string[], search: string): [number, number][] {
+  const wanted = search.split('\n').map(normalizeLine);
+  while (wanted.length > 1 && wanted[wanted.length - 1] === '') wanted.pop();
+
+  const matches: [number, number][] = [];
+  for (let start = 0; start + wanted.length <= lines.length; start++) {
+    if (wanted.every((line, i) => normalizeLine(lines[start + i]) === line)) {
+      matches.push([start + 1, start + wanted.length]);
+    }
+  }
+  return matches;
+}
+
+// The line most like the first line of the search text, for the error
+function closestLine(lines: string[], search: string): number | null {
+  const words = new Set(
+    normalizeLine(search.split('\n').find((line) => line.trim()) ?? '')
+      .toLowerCase()
+      .split(/\W+/)
+      .filter((word) => word.length > 2)
+  );
+  if (words.size === 0) return null;
+
+  let best = 0;
+  let bestShared = 0;
+  for (let index = 0; index < lines.length; index++) {
+    const shared = lines[index]
+      .toLowerCase()
+      .split(/\W+/)
+      .filter((word) => words.has(word)).length;
+    if (shared > bestShared) {
+      bestShared = shared;
+      best = index + 1;
+    }
+  }
+  return bestShared >= Math.min(2, words.size) ? best : null;
+}
+
+/**
+ * Turn a search/replace edit into a replace of the lines the search text
+ * spans. The text must occur exactly once; when it does not, the error
+ * says why and where to look, for the model to correct the edit.
+ */
+export function resolveSearchReplace(
+  edit: SearchReplaceEdit,
+  fileContent: string
+): SearchReplaceResult {
+  const content = fileContent.replace(/\r\n?/g, '\n');
+  const search = edit.search.replace(/\r\n?/g, '\n');
+  const replace = (edit.replace ?? '').replace(/\r\n?/g, '\n');
+  const lines = content.split('\n');
+
+  if (!search.trim()) {
+    return {
+      error:
+        'search is empty. Quote the exact text to change, or use the line form (editType and position) to insert.',
+    };
+  }
+
+  const offsets = findAll(content, search);
+  let startLine: number;
+  let endLine: number;
+  let newContent: string;
+
+  if (offsets.length === 1) {
+    const [offset] = offsets;
+    startLine = lineAt(content, offset);
+    endLine = startLine + search.split('\n').length - 1;
+    // Keep what shares the first and last line with the search text
+    const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+    const lineEnd = content.indexOf('\n', offset + search.length - 1);
+    newContent =
+      content.slice(lineStart, offset) +
+      replace +
+      content.slice(
+        offset + search.length,
+        lineEnd === -1 ? content.length : lineEnd
+      );
+    // A search that ends with a line break covers the whole last line
+    if (search.endsWith('\n')) {
+      endLine--;
+      newContent = newContent.replace(/\n$/, '');
+    }
+  } else if (offsets.length > 1) {
+    const at = offsets.map((offset) => lineAt(content, offset));
+    return {
+      error: `search text ${quote(search)} appears ${offsets.length} times (lines ${at.join(', ')}). Include more surrounding text so it matches once.`,
+    };
+  } else {
+    // The model often gets the indentation wrong; accept whole lines that
+    // only differ in spacing
+    const loose = findLooseMatches(lines, search);
+    if (loose.length !== 1) {
+      const closest = closestLine(lines, search);
+      return {
+        error:
+          loose.length > 1
+            ? `search text ${quote(search)} matches lines ${loose
+                .map(([start]) => start)
+                .join(
+                  ', '
+                )} when ignoring whitespace. Include more surrounding text so it matches once.`
+            : `search text ${quote(search)} was not found in the file.${
+                closest
+                  ? ` The closest line is ${closest}: ${quote(lines[closest - 1])}.`
+                  : ''
+              } Copy the text exactly as get_context shows it, without line numbers.`,
+      };
+    }
+    [[startLine, endLine]] = loose;
+    newContent = replace.replace(/\n$/, '');
+  }
+
+  return {
+    edit: {
+      // Removing whole lines is a deletion, for the intent check
+      editType: !replace && !newContent ? 'delete' : 'replace',
+      position: { line: startLine },
+      originalLineCount: endLine - startLine + 1,
+      content: newContent,
+      ...(edit.explanation !== undefined && { explanation: edit.explanation }),
+      ...(edit.filePath !== undefined && { filePath: edit.filePath }),
+    },
+  };
+}
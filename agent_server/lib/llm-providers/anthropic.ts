@@ -0,0 +1,298 @@
+/**
+ * Anthropic Messages API adapter
+ * Translates OpenAI-format messages and tools to the Messages API and maps
+ * the streamed content blocks back to text and tool calls.
+ */
+
+import type {
+  CERNLiteLLMContentPart,
+  CERNLiteLLMMessage,
+  CERNLiteLLMToolCall,
+} from '../cern-litellm/types';
+import type {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMFinishReason,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMUsage,
+} from './types';
+import { parseSSEDataLine, readStreamLines } from './stream-reader';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | {
+      type: 'image';
+      source:
+        | { type: 'base64'; media_type: string; data: string }
+        | { type: 'url'; url: string };
+    }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+const STOP_REASON_MAP: Record<string, LLMFinishReason> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  tool_use: 'tool_calls',
+  max_tokens: 'length',
+  refusal: 'content_filter',
+};
+
+/**
+ * Create an adapter for the Anthropic Messages API
+ * @param config - Provider configuration (url is the messages endpoint)
+ * @returns Provider instance
+ */
+export function createAnthropicProvider(
+  config: LLMProviderConfig
+): LLMProvider {
+  return {
+    id: config.id,
+    model: config.model,
+    visionModel: config.visionModel,
+
+    async streamChat(
+      request: LLMChatRequest,
+      onChunk?: (content: string) => void
+    ): Promise<LLMChatResponse> {
+      const { system, messages } = toAnthropicMessages(request.messages);
+
+      const body: Record<string, unknown> = {
+        model: request.model || config.model,
+        max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+        messages,
+        stream: true,
+      };
+      if (system) body.system = system;
+      if (request.temperature !== undefined) {
+        body.temperature = request.temperature;
+      }
+      if (request.tools?.length && request.tool_choice !== 'none') {
+        body.tools = request.tools.map((t) => ({
+          name: t.function.name,
+          description: t.function.description,
+          input_schema: t.function.parameters,
+        }));
+        if (request.tool_choice && typeof request.tool_choice === 'object') {
+          body.tool_choice = {
+            type: 'tool',
+            name: request.tool_choice.function.name,
+          };
+        } else {
+          body.tool_choice = { type: 'auto' };
+        }
+      }
+
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': config.apiKey || '',
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(body),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Anthropic API error (${response.status}): ${errorText}`
+        );
+      }
+
+      if (!response.body) {
+        throw new Error('No response body from Anthropic');
+      }
+
+      let content = '';
+      // Tool calls keyed by content block index
+      const toolBlocks = new Map<number, CERNLiteLLMToolCall>();
+      let finishReason: LLMFinishReason = null;
+      const usage: LLMUsage = { inputTokens: 0, outputTokens: 0 };
+      let streamError: string | null = null;
+
+      await readStreamLines(response.body, (line) => {
+        const data = parseSSEDataLine(line);
+        if (!data) return;
+
+        try {
+          const event = JSON.parse(data) as any;
+
+          switch (event.type) {
+            case 'message_start':
+              usage.inputTokens = event.message?.usage?.input_tokens ?? 0;
+              usage.outputTokens = event.message?.usage?.output_tokens ?? 0;
+              break;
+            case 'content_block_start':
+              if (event.content_block?.type === 'tool_use') {
+                toolBlocks.set(event.index, {
+                  id: event.content_block.id,
+                  type: 'function',
+                  function: { name: event.content_block.name, arguments: '' },
+                });
+              } else if (event.content_block?.text) {
+                content += event.content_block.text;
+                onChunk?.(event.content_block.text);
+              }
+              break;
+            case 'content_block_delta':
+              if (event.delta?.type === 'text_delta' && event.delta.text) {
+                content += event.delta.text;
+                onChunk?.(event.delta.text);
+              } else if (event.delta?.type === 'input_json_delta') {
+                const toolCall = toolBlocks.get(event.index);
+                if (toolCall) {
+                  toolCall.function.arguments += event.delta.partial_json || '';
+                }
+              }
+              break;
+            case 'message_delta':
+              if (event.delta?.stop_reason) {
+                finishReason =
+                  STOP_REASON_MAP[event.delta.stop_reason] ?? 'stop';
+              }
+              if (event.usage?.output_tokens !== undefined) {
+                usage.outputTokens = event.usage.output_tokens;
+              }
+              break;
+            case 'error':
+              streamError =
+                event.error?.message || 'Unknown Anthropic stream error';
+              break;
+          }
+        } catch (e) {
+          console.warn('[Anthropic] Failed to parse streaming chunk:', e);
+        }
+      });
+
+      if (streamError) {
+        throw new Error(`Anthropic API error: ${streamError}`);
+      }
+
+      const toolCalls = [...toolBlocks.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, toolCall]) => ({
+          ...toolCall,
+          function: {
+            ...toolCall.function,
+            arguments: toolCall.function.arguments || '{}',
+          },
+        }));
+
+      return { content, toolCalls, finishReason, usage };
+    },
+  };
+}
+
+/**
+ * Convert OpenAI-format messages to Anthropic format
+ * System messages are hoisted, tool results become user tool_result blocks,
+ * and consecutive messages with the same role are merged.
+ */
+function toAnthropicMessages(messages: CERNLiteLLMMessage[]): {
+  system: string;
+  messages: AnthropicMessage[];
+} {
+  const systemParts: string[] = [];
+  const result: AnthropicMessage[] = [];
+
+  const push = (
+    role: AnthropicMessage['role'],
+    blocks: AnthropicContentBlock[]
+  ) => {
+    if (blocks.length === 0) return;
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      systemParts.push(contentToText(msg.content));
+      continue;
+    }
+
+    if (msg.role === 'tool') {
+      push('user', [
+        {
+          type: 'tool_result',
+          tool_use_id: msg.tool_call_id || '',
+          content: contentToText(msg.content),
+        },
+      ]);
+      continue;
+    }
+
+    const blocks = contentToBlocks(msg.content);
+
+    if (msg.role === 'assistant' && msg.tool_calls?.length) {
+      for (const toolCall of msg.tool_calls) {
+        let input: unknown = {};
+        try {
+          input = JSON.parse(toolCall.function.arguments || '{}');
+        } catch {
+          // keep empty input for malformed arguments
+        }
+        blocks.push({
+          type: 'tool_use',
+          id: toolCall.id,
+          name: toolCall.function.name,
+          input,
+        });
+      }
+    }
+
+    push(msg.role, blocks);
+  }
+
+  return { system: systemParts.join('\n\n'), messages: result };
+}
+
+function contentToText(content: CERNLiteLLMMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text || '')
+    .join('');
+}
+
+function contentToBlocks(
+  content: CERNLiteLLMMessage['content']
+): AnthropicContentBlock[] {
+  if (typeof content === 'string') {
+    return content ? [{ type: 'text', text: content }] : [];
+  }
+
+  return content
+    .map((part: CERNLiteLLMContentPart): AnthropicContentBlock | null => {
+      if (part.type === 'text') {
+        return part.text ? { type: 'text', text: part.text } : null;
+      }
+      const url = part.image_url?.url;
+      if (!url) return null;
+      const dataUrl = /^data:([^;]+);base64,(.*)$/s.exec(url);
+      return dataUrl
+        ? {
+            type: 'image',
+            source: {
+              type: 'base64',
+              media_type: dataUrl[1],
+              data: dataUrl[2],
+            },
+          }
+        : { type: 'image', source: { type: 'url', url } };
+    })
+    .filter((block): block is AnthropicContentBlock => block !== null);
+}
@@ -0,0 +1,9 @@
+/**
+ * LLM provider module exports
+ */
+
+export * from './types';
+export * from './registry';
+export { createOpenAICompatibleProvider } from './openai-compatible';
+export { createAnthropicProvider } from './anthropic';
+export { createOllamaProvider } from './ollama';
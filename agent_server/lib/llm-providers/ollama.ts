@@ -0,0 +1,177 @@
+/**
+ * Ollama-style local server adapter
+ * Speaks the native `/api/chat` endpoint, which streams newline-delimited JSON
+ * and returns tool call arguments as objects rather than JSON strings.
+ */
+
+import type {
+  CERNLiteLLMMessage,
+  CERNLiteLLMToolCall,
+} from '../cern-litellm/types';
+import type {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMFinishReason,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMUsage,
+} from './types';
+import { readStreamLines } from './stream-reader';
+
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  images?: string[];
+  tool_calls?: Array<{ function: { name: string; arguments: unknown } }>;
+  tool_name?: string;
+}
+
+/**
+ * Create an adapter for an Ollama-compatible local model server
+ * @param config - Provider configuration (url is the server base URL)
+ * @returns Provider instance
+ */
+export function createOllamaProvider(config: LLMProviderConfig): LLMProvider {
+  const chatUrl = `${config.url.replace(/\/+$/, '')}/api/chat`;
+
+  return {
+    id: config.id,
+    model: config.model,
+    visionModel: config.visionModel,
+
+    async streamChat(
+      request: LLMChatRequest,
+      onChunk?: (content: string) => void
+    ): Promise<LLMChatResponse> {
+      const options: Record<string, number> = {};
+      if (request.temperature !== undefined) {
+        options.temperature = request.temperature;
+      }
+      if (request.max_tokens !== undefined) {
+        options.num_predict = request.max_tokens;
+      }
+
+      const response = await fetch(chatUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: request.signal,
+        body: JSON.stringify({
+          model: request.model || config.model,
+          messages: toOllamaMessages(request.messages),
+          tools: request.tool_choice === 'none' ? undefined : request.tools,
+          options,
+          stream: true,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Ollama API error (${response.status}): ${errorText}`);
+      }
+
+      if (!response.body) {
+        throw new Error('No response body from Ollama');
+      }
+
+      let content = '';
+      const toolCalls: CERNLiteLLMToolCall[] = [];
+      let finishReason: LLMFinishReason = null;
+      let usage: LLMUsage | undefined;
+      let streamError: string | null = null;
+
+      await readStreamLines(response.body, (line) => {
+        try {
+          const chunk = JSON.parse(line) as any;
+
+          if (chunk.error) {
+            streamError = String(chunk.error);
+            return;
+          }
+
+          const text = chunk.message?.content;
+          if (text) {
+            content += text;
+            onChunk?.(text);
+          }
+
+          for (const toolCall of chunk.message?.tool_calls || []) {
+            const args = toolCall.function?.arguments;
+            toolCalls.push({
+              id: `call_${toolCalls.length + 1}`,
+              type: 'function',
+              function: {
+                name: toolCall.function?.name || '',
+                arguments:
+                  typeof args === 'string' ? args : JSON.stringify(args ?? {}),
+              },
+            });
+          }
+
+          if (chunk.done) {
+            finishReason = toolCalls.length
+              ? 'tool_calls'
+              : chunk.done_reason === 'length'
+                ? 'length'
+                : 'stop';
+            usage = {
+              inputTokens: chunk.prompt_eval_count ?? 0,
+              outputTokens: chunk.eval_count ?? 0,
+            };
+          }
+        } catch (e) {
+          console.warn('[Ollama] Failed to parse streaming chunk:', e);
+        }
+      });
+
+      if (streamError) {
+        throw new Error(`Ollama API error: ${streamError}`);
+      }
+
+      return { content, toolCalls, finishReason, usage };
+    },
+  };
+}
+
+/**
+ * Convert OpenAI-format messages to Ollama chat messages
+ */
+function toOllamaMessages(messages: CERNLiteLLMMessage[]): OllamaMessage[] {
+  // Ollama identifies tool results by name rather than call id
+  const toolNamesById = new Map<string, string>();
+
+  return messages.map((msg) => {
+    const result: OllamaMessage = { role: msg.role, content: '' };
+
+    if (typeof msg.content === 'string') {
+      result.content = msg.content;
+    } else {
+      result.content = msg.content
+        .filter((part) => part.type === 'text')
+        .map((part) => part.text || '')
+        .join('');
+      const images = msg.content
+        .filter((part) => part.type === 'image_url' && part.image_url?.url)
+        .map((part) => part.image_url!.url.replace(/^data:[^;]+;base64,/, ''));
+      if (images.length) result.images = images;
+    }
+
+    if (msg.tool_calls?.length) {
+      result.tool_calls = msg.tool_calls.map((toolCall) => {
+        toolNamesById.set(toolCall.id, toolCall.function.name);
+        let args: unknown = {};
+        try {
+          args = JSON.parse(toolCall.function.arguments || '{}');
+        } catch {
+          // keep empty arguments for malformed JSON
+        }
+        return { function: { name: toolCall.function.name, arguments: args } };
+      });
+    }
+
+    if (msg.role === 'tool' && msg.tool_call_id) {
+      result.tool_name = toolNamesById.get(msg.tool_call_id);
+    }
+
+    return result;
+  });
+}
@@ -0,0 +1,209 @@
+/**
+ * OpenAI-compatible chat-completions adapter
+ * Used for CERN LiteLLM (X-API-Key auth) and any generic OpenAI-style API
+ * (Bearer auth), e.g. OpenAI, vLLM, LM Studio or a self-hosted LiteLLM proxy.
+ */
+
+import type {
+  CERNLiteLLMResponse,
+  CERNLiteLLMToolCall,
+} from '../cern-litellm/types';
+import type {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMFinishReason,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMUsage,
+} from './types';
+import { parseSSEDataLine, readStreamLines } from './stream-reader';
+
+const PROVIDER_LABELS: Record<string, string> = {
+  'cern-litellm': 'CERN LiteLLM',
+  openai: 'OpenAI-compatible',
+};
+
+/**
+ * Create an adapter for an OpenAI-compatible chat-completions endpoint
+ * @param config - Provider configuration (url is the full completions URL)
+ * @returns Provider instance
+ */
+export function createOpenAICompatibleProvider(
+  config: LLMProviderConfig
+): LLMProvider {
+  const label = PROVIDER_LABELS[config.id] || config.id;
+
+  const buildHeaders = (): Record<string, string> => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (config.apiKey) {
+      // CERN LiteLLM expects its own header instead of a bearer token
+      if (config.id === 'cern-litellm') {
+        headers['X-API-Key'] = config.apiKey;
+      } else {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+      }
+    }
+    return headers;
+  };
+
+  return {
+    id: config.id,
+    model: config.model,
+    visionModel: config.visionModel,
+
+    async streamChat(
+      request: LLMChatRequest,
+      onChunk?: (content: string) => void
+    ): Promise<LLMChatResponse> {
+      const { model, signal, ...rest } = request;
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: buildHeaders(),
+        signal,
+        body: JSON.stringify({
+          ...rest,
+          model: model || config.model,
+          stream: true,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `${label} API error (${response.status}): ${errorText}`
+        );
+      }
+
+      if (!response.body) {
+        throw new Error(`No response body from ${label}`);
+      }
+
+      let content = '';
+      const toolCalls: CERNLiteLLMToolCall[] = [];
+      let finishReason: LLMFinishReason = null;
+      let usage: LLMUsage | undefined;
+      let wrapped: LLMChatResponse | null = null;
+      let receivedAny = false;
+
+      await readStreamLines(response.body, (line) => {
+        const data = parseSSEDataLine(line);
+        if (!data) return;
+
+        try {
+          const chunk = JSON.parse(data) as any;
+
+          if (chunk.usage?.prompt_tokens !== undefined) {
+            usage = {
+              inputTokens: chunk.usage.prompt_tokens,
+              outputTokens: chunk.usage.completion_tokens ?? 0,
+            };
+          }
+
+          // Direct OpenAI streaming format
+          if (chunk.choices?.[0]?.delta) {
+            receivedAny = true;
+            const delta = chunk.choices[0].delta;
+
+            if (delta.content) {
+              content += delta.content;
+              if (onChunk) {
+                onChunk(delta.content);
+              }
+            }
+
+            if (delta.tool_calls) {
+              for (const toolCallDelta of delta.tool_calls) {
+                const index = toolCallDelta.index ?? toolCalls.length;
+                if (!toolCalls[index]) {
+                  toolCalls[index] = {
+                    id: toolCallDelta.id || '',
+                    type: 'function',
+                    function: {
+                      name: toolCallDelta.function?.name || '',
+                      arguments: toolCallDelta.function?.arguments || '',
+                    },
+                  };
+                } else {
+                  if (toolCallDelta.id && !toolCalls[index].id) {
+                    toolCalls[index].id = toolCallDelta.id;
+                  }
+                  if (toolCallDelta.function?.name) {
+                    toolCalls[index].function.name +=
+                      toolCallDelta.function.name;
+                  }
+                  if (toolCallDelta.function?.arguments) {
+                    toolCalls[index].function.arguments +=
+                      toolCallDelta.function.arguments;
+                  }
+                }
+              }
+            }
+
+            if (chunk.choices[0].finish_reason) {
+              finishReason = chunk.choices[0].finish_reason;
+            }
+          }
+          // Wrapped LiteLLM format (steps)
+          else if (chunk.steps) {
+            receivedAny = true;
+            wrapped = normalizeWrappedResponse(chunk as CERNLiteLLMResponse);
+          }
+        } catch (e) {
+          console.warn(`[${label}] Failed to parse streaming chunk:`, e);
+        }
+      });
+
+      if (wrapped) {
+        return wrapped;
+      }
+
+      if (!receivedAny) {
+        throw new Error(`No valid response received from ${label} stream`);
+      }
+
+      return {
+        content,
+        toolCalls: toolCalls.filter(Boolean),
+        finishReason,
+        usage,
+      };
+    },
+  };
+}
+
+/**
+ * Normalize the wrapped (steps) response format returned by some LiteLLM
+ * deployments into the provider-neutral response shape
+ */
+function normalizeWrappedResponse(
+  response: CERNLiteLLMResponse
+): LLMChatResponse {
+  const step = response.steps?.[0];
+  if (!step) {
+    return { content: '', toolCalls: [], finishReason: 'stop' };
+  }
+
+  const choice = step.response?.body?.choices?.[0];
+
+  // Prefer the content array, fall back to response.body.choices
+  const content = step.content?.length
+    ? step.content
+        .filter((c) => c.type === 'text')
+        .map((c) => c.text)
+        .join('')
+    : choice?.message?.content || '';
+
+  return {
+    content,
+    toolCalls: choice?.message?.tool_calls || [],
+    finishReason: step.finishReason || choice?.finish_reason || null,
+    usage: step.usage
+      ? {
+          inputTokens: step.usage.inputTokens,
+          outputTokens: step.usage.outputTokens,
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Provider registry
+ * Builds provider configurations from environment variables and resolves the
+ * provider for a deployment (LLM_PROVIDER) or an individual request.
+ */
+
+import type { LLMProvider, LLMProviderConfig, LLMProviderId } from './types';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { createAnthropicProvider } from './anthropic';
+import { createOllamaProvider } from './ollama';
+
+export const LLM_PROVIDER_IDS: readonly LLMProviderId[] = [
+  'cern-litellm',
+  'openai',
+  'anthropic',
+  'ollama',
+];
+
+const DEFAULT_PROVIDER_ID: LLMProviderId = 'cern-litellm';
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return (
+    typeof value === 'string' &&
+    (LLM_PROVIDER_IDS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Read the configuration for a provider from the environment
+ * @param id - Provider identifier
+ * @param env - Environment variables (defaults to process.env)
+ * @returns Provider configuration (may be incomplete, see getProviderConfigError)
+ */
+export function getProviderConfig(
+  id: LLMProviderId,
+  env: NodeJS.ProcessEnv = process.env
+): LLMProviderConfig {
+  switch (id) {
+    case 'cern-litellm':
+      return {
+        id,
+        url: env.CERN_LITELLM_URL || '',
+        apiKey: env.CERN_LITELLM_API_KEY,
+        model: env.CERN_LITELLM_MODEL || '',
+        visionModel: env.CERN_LITELLM_VISION_MODEL,
+      };
+    case 'openai':
+      return {
+        id,
+        url:
+          env.OPENAI_COMPAT_URL || 'https://api.openai.com/v1/chat/completions',
+        apiKey: env.OPENAI_COMPAT_API_KEY,
+        model: env.OPENAI_COMPAT_MODEL || '',
+        visionModel: env.OPENAI_COMPAT_VISION_MODEL,
+      };
+    case 'anthropic':
+      return {
+        id,
+        url: env.ANTHROPIC_URL || 'https://api.anthropic.com/v1/messages',
+        apiKey: env.ANTHROPIC_API_KEY,
+        model: env.ANTHROPIC_MODEL || '',
+        visionModel: env.ANTHROPIC_VISION_MODEL || env.ANTHROPIC_MODEL,
+      };
+    case 'ollama':
+      return {
+        id,
+        url: env.OLLAMA_URL || 'http://localhost:11434',
+        model: env.OLLAMA_MODEL || '',
+        visionModel: env.OLLAMA_VISION_MODEL,
+      };
+  }
+}
+
+/**
+ * Check that a provider configuration has everything it needs
+ * @returns Error message, or null if the configuration is usable
+ */
+export function getProviderConfigError(
+  config: LLMProviderConfig
+): string | null {
+  const prefix = {
+    'cern-litellm': 'CERN_LITELLM',
+    openai: 'OPENAI_COMPAT',
+    anthropic: 'ANTHROPIC',
+    ollama: 'OLLAMA',
+  }[config.id];
+
+  if (!config.url) {
+    return `${prefix}_URL is not configured`;
+  }
+  // Local servers usually run without authentication
+  if (config.id !== 'ollama' && !config.apiKey) {
+    return `${prefix}_API_KEY is not configured`;
+  }
+  if (!config.model) {
+    return `${prefix}_MODEL is not configured`;
+  }
+  return null;
+}
+
+/**
+ * Get the deployment-wide default provider id (LLM_PROVIDER)
+ */
+export function getDefaultProviderId(
+  env: NodeJS.ProcessEnv = process.env
+): LLMProviderId {
+  const configured = env.LLM_PROVIDER?.trim().toLowerCase();
+  if (!configured) return DEFAULT_PROVIDER_ID;
+
+  if (!isLLMProviderId(configured)) {
+    console.warn(
+      `[LLM Providers] Unknown LLM_PROVIDER "${configured}", falling back to ${DEFAULT_PROVIDER_ID}`
+    );
+    return DEFAULT_PROVIDER_ID;
+  }
+  return configured;
+}
+
+/**
+ * Instantiate the adapter for a provider configuration
+ */
+export function createProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.id) {
+    case 'cern-litellm':
+    case 'openai':
+      return createOpenAICompatibleProvider(config);
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    case 'ollama':
+      return createOllamaProvider(config);
+  }
+}
+
+// An unknown id is the client's mistake, a missing configuration the
+// deployment's
+export type ProviderResolution =
+  | { provider: LLMProvider; error?: undefined; reason?: undefined }
+  | {
+      provider?: undefined;
+      error: string;
+      reason: 'unknown' | 'unconfigured';
+    };
+
+/**
+ * Resolve the provider for a request
+ * @param requested - Optional provider id sent by the client
+ * @returns Provider instance, or an error if it is unknown or not configured
+ */
+export function resolveProvider(requested?: unknown): ProviderResolution {
+  if (
+    requested !== undefined &&
+    requested !== null &&
+    !isLLMProviderId(requested)
+  ) {
+    return {
+      error: `Unknown provider "${String(requested)}". Expected one of: ${LLM_PROVIDER_IDS.join(', ')}`,
+      reason: 'unknown',
+    };
+  }
+
+  const id = requested ?? getDefaultProviderId();
+  const config = getProviderConfig(id);
+  const configError = getProviderConfigError(config);
+  if (configError) {
+    return { error: configError, reason: 'unconfigured' };
+  }
+
+  return { provider: createProvider(config) };
+}
@@ -0,0 +1,43 @@
+/**
+ * Time limit for auxiliary provider requests (intent classification,
+ * history summaries) that cancels the request instead of leaving it running
+ */
+
+/**
+ * Run a request with a time limit
+ * @param request - Starts the request; must pass the signal to the provider
+ * @param ms - Time limit in milliseconds
+ * @param label - Names the request in the timeout error
+ * @param signal - Caller's signal; aborting it also aborts the request
+ * @throws Error when the time limit is reached, after aborting the request
+ */
+export async function withRequestTimeout<T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  label: string,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    forwardAbort();
+  } else {
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`${label} timed out after ${ms}ms`);
+      controller.abort(error);
+      reject(error);
+    }, ms);
+  });
+
+  try {
+    return await Promise.race([request(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Line reader shared by the provider adapters
+ * Handles both SSE (`data: ...`) and newline-delimited JSON streams
+ */
+
+/**
+ * Read a streaming response body line by line
+ * @param body - Response body stream
+ * @param onLine - Called for every complete, non-empty line
+ */
+export async function readStreamLines(
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.replace(/\r$/, '');
+      if (trimmed.trim()) onLine(trimmed);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer.replace(/\r$/, ''));
+}
+
+/**
+ * Extract the payload of an SSE `data:` line
+ * @param line - Raw line from the stream
+ * @returns Payload string, or null for comments, event names and `[DONE]`
+ */
+export function parseSSEDataLine(line: string): string | null {
+  if (line.startsWith(':')) return null;
+  if (!line.startsWith('data:')) return null;
+
+  const data = line.slice(5).trimStart();
+  if (data === '[DONE]') return null;
+  return data;
+}
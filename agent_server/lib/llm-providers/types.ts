@@ -0,0 +1,81 @@
+/**
+ * Type definitions for the pluggable LLM provider layer
+ * Messages and tools use the OpenAI chat-completions shape; each adapter
+ * translates to and from its own wire format.
+ */
+
+import type {
+  CERNLiteLLMMessage,
+  CERNLiteLLMToolCall,
+  CERNLiteLLMToolDefinition,
+} from '../cern-litellm/types';
+
+// ============================================================================
+// Provider Identity & Configuration
+// ============================================================================
+
+export type LLMProviderId = 'cern-litellm' | 'openai' | 'anthropic' | 'ollama';
+
+export interface LLMProviderConfig {
+  id: LLMProviderId;
+  url: string;
+  apiKey?: string;
+  model: string;
+  visionModel?: string;
+}
+
+// ============================================================================
+// Request & Response Types
+// ============================================================================
+
+export interface LLMChatRequest {
+  messages: CERNLiteLLMMessage[];
+  model?: string; // Overrides the provider's default model
+  max_tokens?: number;
+  temperature?: number;
+  tools?: CERNLiteLLMToolDefinition[];
+  tool_choice?:
+    | 'auto'
+    | 'none'
+    | { type: 'function'; function: { name: string } };
+  signal?: AbortSignal; // Aborts the HTTP request and its response stream
+}
+
+export type LLMFinishReason =
+  | 'stop'
+  | 'tool_calls'
+  | 'length'
+  | 'content_filter'
+  | null;
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMChatResponse {
+  content: string;
+  toolCalls: CERNLiteLLMToolCall[];
+  finishReason: LLMFinishReason;
+  usage?: LLMUsage;
+}
+
+// ============================================================================
+// Provider Interface
+// ============================================================================
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  model: string;
+  visionModel?: string;
+  /**
+   * Send a chat request with streaming enabled
+   * @param request - Chat request in OpenAI message format
+   * @param onChunk - Called with each text delta as it arrives
+   * @returns Normalized response once the stream completes
+   */
+  streamChat(
+    request: LLMChatRequest,
+    onChunk?: (content: string) => void
+  ): Promise<LLMChatResponse>;
+}
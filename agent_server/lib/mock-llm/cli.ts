@@ -0,0 +1,55 @@
+/**
+ * Mock LLM CLI
+ * Serves a recorded transcript (or a plain JSON array of turns) for offline
+ * development. Point the agent at it with:
+ *
+ *   LLM_PROVIDER=openai
+ *   OPENAI_COMPAT_URL=http://127.0.0.1:<port>/v1/chat/completions
+ *   OPENAI_COMPAT_API_KEY=mock OPENAI_COMPAT_MODEL=mock
+ *
+ * Usage: tsx lib/mock-llm/cli.ts <transcript.json> [--port 8788] [--delay 20]
+ */
+
+import fs from 'fs/promises';
+import { startMockLLMServer } from './mock-llm-server';
+import type { TranscriptTurn } from './transcript';
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find((arg) => !arg.startsWith('--'));
+  if (!file) {
+    console.error(
+      'Usage: tsx lib/mock-llm/cli.ts <transcript.json> [--port 8788] [--delay 20]'
+    );
+    process.exit(1);
+  }
+
+  const parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+  const turns: TranscriptTurn[] = Array.isArray(parsed) ? parsed : parsed.turns;
+
+  const server = await startMockLLMServer({
+    turns,
+    port: Number(readFlag(args, '--port') ?? 8788),
+    chunkDelayMs: Number(readFlag(args, '--delay') ?? 0),
+  });
+
+  console.log(`[Mock LLM] Serving ${turns.length} turn(s) from ${file}`);
+  console.log(`[Mock LLM] Endpoint: ${server.url}`);
+
+  const shutdown = async () => {
+    await server.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('[Mock LLM] Failed to start:', error);
+  process.exit(1);
+});
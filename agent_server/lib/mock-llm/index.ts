@@ -0,0 +1,7 @@
+/**
+ * Mock LLM module exports
+ */
+
+export * from './transcript';
+export * from './mock-llm-server';
+export * from './recorder';
@@ -0,0 +1,195 @@
+/**
+ * Deterministic mock LLM server
+ * Serves `POST .../chat/completions` in the OpenAI streaming SSE format and
+ * answers each request with the next scripted turn. Text is split into fixed
+ * size chunks and tool calls are streamed as incremental `tool_calls` deltas
+ * (id and name first, then the arguments in pieces), like a real model.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { TranscriptTurn } from './transcript';
+
+export interface MockLLMServerOptions {
+  turns?: TranscriptTurn[];
+  port?: number;
+  chunkSize?: number; // Characters per streamed content/argument chunk
+  chunkDelayMs?: number; // Delay between chunks (simulates a slow model)
+}
+
+export interface MockLLMRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, any>;
+}
+
+export interface MockLLMServer {
+  url: string; // Full chat-completions URL
+  port: number;
+  requests: MockLLMRequest[];
+  load: (turns: TranscriptTurn[]) => void;
+  remainingTurns: () => number;
+  close: () => Promise<void>;
+}
+
+const DEFAULT_CHUNK_SIZE = 16;
+
+function splitIntoChunks(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Build the ordered list of SSE chunk payloads for a scripted turn
+ */
+export function buildTurnChunks(
+  turn: TranscriptTurn,
+  chunkSize: number = DEFAULT_CHUNK_SIZE
+): Record<string, unknown>[] {
+  const base = {
+    id: 'chatcmpl-mock',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'mock-llm',
+  };
+  const chunks: Record<string, unknown>[] = [];
+  const toolCalls = turn.toolCalls ?? [];
+
+  const delta = (
+    value: Record<string, unknown>,
+    finishReason: string | null = null
+  ) => ({
+    ...base,
+    choices: [{ index: 0, delta: value, finish_reason: finishReason }],
+  });
+
+  chunks.push(delta({ role: 'assistant', content: '' }));
+
+  for (const piece of splitIntoChunks(turn.content ?? '', chunkSize)) {
+    chunks.push(delta({ content: piece }));
+  }
+
+  toolCalls.forEach((toolCall, index) => {
+    const args =
+      typeof toolCall.arguments === 'string'
+        ? toolCall.arguments
+        : JSON.stringify(toolCall.arguments);
+
+    chunks.push(
+      delta({
+        tool_calls: [
+          {
+            index,
+            id: toolCall.id,
+            type: 'function',
+            function: { name: toolCall.name, arguments: '' },
+          },
+        ],
+      })
+    );
+
+    for (const piece of splitIntoChunks(args, chunkSize)) {
+      chunks.push(
+        delta({ tool_calls: [{ index, function: { arguments: piece } }] })
+      );
+    }
+  });
+
+  const finishReason =
+    turn.finishReason ?? (toolCalls.length > 0 ? 'tool_calls' : 'stop');
+  chunks.push(delta({}, finishReason));
+
+  return chunks;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Start a mock LLM server on localhost
+ * @param options - Script and streaming options
+ * @returns Handle with the endpoint URL, received requests and controls
+ */
+export async function startMockLLMServer(
+  options: MockLLMServerOptions = {}
+): Promise<MockLLMServer> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const chunkDelayMs = options.chunkDelayMs ?? 0;
+  let script: TranscriptTurn[] = [...(options.turns ?? [])];
+  const requests: MockLLMRequest[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `Not found: ${req.method} ${req.url}` }));
+      return;
+    }
+
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+
+    let body: Record<string, any> = {};
+    try {
+      body = JSON.parse(raw || '{}');
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid JSON body' }));
+      return;
+    }
+    requests.push({ path: req.url, headers: req.headers, body });
+
+    const turn = script.shift();
+    if (!turn) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          error: `Mock LLM script exhausted after ${requests.length - 1} turn(s)`,
+        })
+      );
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    let aborted = false;
+    res.on('close', () => {
+      if (!res.writableFinished) aborted = true;
+    });
+
+    for (const chunk of buildTurnChunks(turn, chunkSize)) {
+      if (aborted) return;
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      if (chunkDelayMs > 0) await sleep(chunkDelayMs);
+    }
+    res.end('data: [DONE]\n\n');
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, '127.0.0.1', resolve)
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1/chat/completions`,
+    port,
+    requests,
+    load: (turns) => {
+      script = [...turns];
+      requests.length = 0;
+    },
+    remainingTurns: () => script.length,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Transcript recorder
+ * Captures a live agent session (request, LLM turns and SSE events) so it can
+ * be committed as a fixture and replayed offline by the mock LLM server.
+ * Enabled by setting LLM_RECORD_DIR on the agent server.
+ */
+
+import type { LLMProvider } from '../llm-providers/types';
+import {
+  saveTranscript,
+  type AgentTranscript,
+  type TranscriptEvent,
+  type TranscriptTurn,
+} from './transcript';
+
+export interface TranscriptRecorder {
+  wrapProvider: (provider: LLMProvider) => LLMProvider;
+  wrapWriteEvent: (
+    writeEvent: (event: string, data: unknown) => void
+  ) => (event: string, data: unknown) => void;
+  save: () => Promise<string | null>;
+}
+
+/**
+ * Get the recording directory if record mode is enabled
+ */
+export function getRecordDirectory(
+  env: NodeJS.ProcessEnv = process.env
+): string | null {
+  return env.LLM_RECORD_DIR?.trim() || null;
+}
+
+/**
+ * Create a recorder for a single /agent request
+ * @param dir - Directory the transcript is written to
+ * @param request - The /agent request body
+ */
+export function createTranscriptRecorder(
+  dir: string,
+  request: Record<string, unknown>
+): TranscriptRecorder {
+  const turns: TranscriptTurn[] = [];
+  const events: TranscriptEvent[] = [];
+  let providerInfo: { id: string; model: string } | null = null;
+
+  return {
+    wrapProvider(provider) {
+      providerInfo = { id: provider.id, model: provider.model };
+      return {
+        ...provider,
+        async streamChat(chatRequest, onChunk) {
+          const response = await provider.streamChat(chatRequest, onChunk);
+          turns.push({
+            content: response.content || undefined,
+            toolCalls: response.toolCalls.length
+              ? response.toolCalls.map((toolCall) => {
+                  let args: Record<string, unknown> | string =
+                    toolCall.function.arguments;
+                  try {
+                    args = JSON.parse(toolCall.function.arguments || '{}');
+                  } catch {
+                    // keep malformed arguments verbatim so replay reproduces them
+                  }
+                  return {
+                    id: toolCall.id,
+                    name: toolCall.function.name,
+                    arguments: args,
+                  };
+                })
+              : undefined,
+            finishReason: response.finishReason,
+          });
+          return response;
+        },
+      };
+    },
+
+    wrapWriteEvent(writeEvent) {
+      return (event, data) => {
+        events.push({
+          event,
+          data: JSON.parse(JSON.stringify(data ?? null)),
+        });
+        writeEvent(event, data);
+      };
+    },
+
+    async save() {
+      if (turns.length === 0) return null;
+
+      const messages = Array.isArray(request.messages) ? request.messages : [];
+      const lastMessage = messages[messages.length - 1] as
+        | { content?: unknown }
+        | undefined;
+      const transcript: AgentTranscript = {
+        name:
+          typeof lastMessage?.content === 'string'
+            ? lastMessage.content
+            : 'session',
+        recordedAt: new Date().toISOString(),
+        provider: providerInfo?.id,
+        model: providerInfo?.model,
+        request,
+        turns,
+        events,
+      };
+
+      try {
+        const filePath = await saveTranscript(dir, transcript);
+        console.log(`[Transcript Recorder] Saved session to ${filePath}`);
+        return filePath;
+      } catch (error) {
+        console.error('[Transcript Recorder] Failed to save session:', error);
+        return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Agent transcript format
+ * A transcript captures one /agent request, the scripted LLM turns that answer
+ * it, and the SSE events the agent emitted. Recorded sessions and hand-written
+ * test fixtures share this format so either can be replayed by the mock server.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { LLMFinishReason } from '../llm-providers/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TranscriptToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown> | string;
+}
+
+export interface TranscriptTurn {
+  content?: string;
+  toolCalls?: TranscriptToolCall[];
+  finishReason?: LLMFinishReason;
+}
+
+export interface TranscriptEvent {
+  event: string;
+  data: unknown;
+}
+
+export interface AgentTranscript {
+  name: string;
+  description?: string;
+  recordedAt?: string;
+  provider?: string;
+  model?: string;
+  request: Record<string, unknown>;
+  turns: TranscriptTurn[];
+  events: TranscriptEvent[];
+}
+
+// ============================================================================
+// File I/O
+// ============================================================================
+
+/**
+ * Load a transcript from a JSON file
+ */
+export async function loadTranscript(
+  filePath: string
+): Promise<AgentTranscript> {
+  const raw = await fs.readFile(filePath, 'utf8');
+  const transcript = JSON.parse(raw) as AgentTranscript;
+
+  if (!transcript.request || !Array.isArray(transcript.turns)) {
+    throw new Error(`Invalid transcript file: ${filePath}`);
+  }
+
+  return { ...transcript, events: transcript.events ?? [] };
+}
+
+/**
+ * Load every transcript in a directory (sorted by file name)
+ */
+export async function loadTranscriptDirectory(
+  dir: string
+): Promise<Array<{ file: string; transcript: AgentTranscript }>> {
+  const files = (await fs.readdir(dir))
+    .filter((file) => file.endsWith('.json'))
+    .sort();
+
+  return Promise.all(
+    files.map(async (file) => ({
+      file,
+      transcript: await loadTranscript(path.join(dir, file)),
+    }))
+  );
+}
+
+/**
+ * Write a transcript to a directory
+ * @returns Path of the written file
+ */
+export async function saveTranscript(
+  dir: string,
+  transcript: AgentTranscript
+): Promise<string> {
+  await fs.mkdir(dir, { recursive: true });
+  const slug =
+    transcript.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 48) || 'session';
+  const stamp = (transcript.recordedAt || new Date().toISOString()).replace(
+    /[:.]/g,
+    '-'
+  );
+  const filePath = path.join(dir, `${stamp}-${slug}.json`);
+  await fs.writeFile(filePath, JSON.stringify(transcript, null, 2) + '\n');
+  return filePath;
+}
+
+// ============================================================================
+// Event Normalization
+// ============================================================================
+
+/**
+ * Normalize SSE events for comparison
+ * Streaming chunk boundaries differ between a live model and the mock server,
+ * so consecutive `assistant_partial` events are merged into one. Context
+ * budget usage is reduced to its state, since token estimates change with
+ * every prompt edit.
+ */
+export function normalizeEvents(events: TranscriptEvent[]): TranscriptEvent[] {
+  const normalized: TranscriptEvent[] = [];
+
+  for (const event of events) {
+    if (event.event === 'ping') continue;
+
+    if (
+      event.event === 'status' &&
+      (event.data as { state?: string })?.state === 'context'
+    ) {
+      normalized.push({ event: 'status', data: { state: 'context' } });
+      continue;
+    }
+
+    const last = normalized[normalized.length - 1];
+    if (
+      event.event === 'assistant_partial' &&
+      last?.event === 'assistant_partial'
+    ) {
+      const previous = (last.data as { text?: string })?.text ?? '';
+      const next = (event.data as { text?: string })?.text ?? '';
+      last.data = { text: previous + next };
+      continue;
+    }
+
+    normalized.push({
+      event: event.event,
+      data: JSON.parse(JSON.stringify(event.data ?? null)),
+    });
+  }
+
+  return normalized;
+}
@@ -0,0 +1,476 @@
+/**
+ * Agent Route
+ * Runs the agentic loop (get_context / propose_edits) against the configured
+ * LLM provider and streams progress to the client over SSE
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  buildNumberedContent,
+  buildSystemPrompt,
+  resolveIntent,
+  buildEditScope,
+  applyEditScope,
+  formatEditScope,
+  getContextBudget,
+  estimateTokens,
+  fitConversationToBudget,
+  parseCompileRepairContext,
+  buildCompileRepairPrompt,
+  COMPILE_REPAIR_INTENT,
+} from '../lib/lars-agent';
+import { loadInitState } from '../lib/init-state-store';
+import {
+  getToolDefinitions,
+  getRepairToolDefinitions,
+  executeToolCall,
+  CERNLiteLLMMessage,
+  AgentContext,
+  ProjectFileContext,
+} from '../lib/cern-litellm';
+import { resolveProvider, LLMChatResponse } from '../lib/llm-providers';
+import {
+  createTranscriptRecorder,
+  getRecordDirectory,
+  type TranscriptRecorder,
+} from '../lib/mock-llm/recorder';
+import type { LineEdit } from '../lib/lars-agent/line-edits';
+import type { IntentResult } from '../lib/lars-agent/intent-inference';
+
+const MAX_AGENT_ITERATIONS = 10; // Safety limit for agentic loop
+const MAX_OUTPUT_TOKENS = 8192;
+const TOOL_CALL_DELAY_MS = parseInt(process.env.TOOL_CALL_DELAY_MS || '0', 10);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Check if the response indicates completion (no more tool calls needed)
+ */
+function isComplete(response: LLMChatResponse): boolean {
+  return response.finishReason === 'stop' || response.finishReason === 'length';
+}
+
+export function createAgentRouter(): Router {
+  const router = Router();
+
+  router.post('/', async (req: Request, res: Response) => {
+    // Saved however the run ends, so cancelled and failed runs are recorded too
+    let recorder: TranscriptRecorder | null = null;
+    try {
+      // Parse request body
+      const {
+        messages,
+        fileContent,
+        textFromEditor,
+        selectionRange,
+        projectFiles: projectFilesPayload,
+        currentFilePath,
+        projectId,
+        userId,
+        provider: requestedProvider,
+        mode,
+        compileError,
+      } = req.body || {};
+
+      // Repair mode: the compile error is the request, no chat messages
+      const repairContext =
+        mode === 'repair' ? parseCompileRepairContext(compileError) : null;
+      if (mode === 'repair' && !repairContext) {
+        return res.status(400).json({
+          error: 'Invalid request: compileError required in repair mode',
+        });
+      }
+
+      // Resolve and validate the LLM provider
+      const {
+        provider: resolvedProvider,
+        error: providerError,
+        reason,
+      } = resolveProvider(requestedProvider);
+      if (!resolvedProvider) {
+        return res
+          .status(reason === 'unknown' ? 400 : 503)
+          .json({ error: providerError });
+      }
+
+      // Record mode: capture the session as a replayable transcript
+      const recordDir = getRecordDirectory();
+      recorder = recordDir
+        ? createTranscriptRecorder(recordDir, req.body)
+        : null;
+      const provider = recorder
+        ? recorder.wrapProvider(resolvedProvider)
+        : resolvedProvider;
+
+      console.log(
+        '[DEBUG] Full request body keys:',
+        Object.keys(req.body || {})
+      );
+      console.log('[DEBUG] projectId:', projectId);
+      console.log('[DEBUG] userId:', userId);
+
+      // Load initialization state if projectId or userId provided
+      const stateKey = projectId || userId;
+      let reportInitState = null;
+      if (stateKey) {
+        reportInitState = await loadInitState(stateKey);
+        if (reportInitState) {
+          console.log('[Agent] Loaded initialization state for:', stateKey);
+        }
+      }
+
+      // filter out file with .cls
+      const filteredProjectFilesPayload = Array.isArray(projectFilesPayload)
+        ? projectFilesPayload.filter(
+            (file: { path?: unknown }) =>
+              typeof file.path === 'string' && !file.path.endsWith('cls')
+          )
+        : [];
+
+      if (
+        (!repairContext && !messages?.length) ||
+        typeof fileContent !== 'string'
+      ) {
+        return res
+          .status(400)
+          .json({
+            error: 'Invalid request: messages and fileContent required',
+          });
+      }
+
+      // Set up SSE response first
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+
+      // Cancel the loop when the client disconnects (stop button, closed tab).
+      // req 'close' already fires once express.json() has read the body, so
+      // the response is what tells us the connection went away.
+      const abortController = new AbortController();
+      const { signal } = abortController;
+      res.on('close', () => {
+        if (!res.writableEnded) abortController.abort();
+      });
+
+      const sendEvent = (event: string, data: unknown) => {
+        if (res.writableEnded || res.destroyed) return;
+        res.write(`event: ${event}\n`);
+        res.write(`data: ${JSON.stringify(data)}\n\n`);
+      };
+      const writeEvent = recorder
+        ? recorder.wrapWriteEvent(sendEvent)
+        : sendEvent;
+
+      // Build context (non-blocking)
+      const numberedContent = await buildNumberedContent(
+        fileContent,
+        textFromEditor,
+        selectionRange
+      );
+
+      // Build the user message: the last chat message, or the compile error
+      const userText = repairContext
+        ? buildCompileRepairPrompt(repairContext)
+        : typeof messages[messages.length - 1]?.content === 'string'
+          ? messages[messages.length - 1].content
+          : '';
+
+      const collectedEdits: LineEdit[] = [];
+
+      // Prepare previous messages (excluding system messages); older turns are
+      // summarized by the context budget when they no longer fit
+      const previousMessages = (repairContext ? [] : messages.slice(0, -1))
+        .filter((msg: { role: string }) => msg.role !== 'system')
+        .map((msg: { role: string; content: string }) => ({
+          role: msg.role,
+          content: msg.content,
+        }));
+
+      // Process project files
+      const projectFiles: ProjectFileContext[] = Array.isArray(
+        filteredProjectFilesPayload
+      )
+        ? filteredProjectFilesPayload
+            .filter(
+              (file: unknown): file is { path: string; content: string } =>
+                !!file &&
+                typeof (file as { path?: unknown }).path === 'string' &&
+                typeof (file as { content?: unknown }).content === 'string'
+            )
+            .map((file) => ({ path: file.path, content: file.content }))
+        : [];
+
+      const normalizedCurrentFilePath =
+        typeof currentFilePath === 'string' ? currentFilePath : null;
+
+      // Classify intent (LLM classifier if enabled, keyword patterns otherwise);
+      // uses the unwrapped provider so recorded transcripts only hold agent turns.
+      // A repair may touch any file, so it skips classification and scoping.
+      const classifiedIntent = repairContext
+        ? COMPILE_REPAIR_INTENT
+        : await resolveIntent(userText, {
+            provider: resolvedProvider,
+            projectFiles: projectFiles.map((file) => file.path),
+            currentFilePath: normalizedCurrentFilePath,
+            fileContent,
+            signal,
+          });
+
+      // Narrow edits to the selection or to scope phrases ("only in chapter 3")
+      const editScope = repairContext
+        ? []
+        : buildEditScope({
+            userText,
+            fileContent,
+            selectionRange,
+            currentFilePath: normalizedCurrentFilePath,
+            projectFiles,
+          });
+      const intent: IntentResult = applyEditScope(classifiedIntent, editScope);
+      if (editScope.length > 0) {
+        console.log(
+          '[Intent] Edit scope:',
+          editScope.map((range) => range.label).join('; ')
+        );
+      }
+
+      // Build agent context
+      const agentContext: AgentContext = {
+        fileContent,
+        numberedContent,
+        textFromEditor,
+        selectionRange,
+        projectFiles,
+        currentFilePath: normalizedCurrentFilePath,
+      };
+
+      // Tool execution context
+      const toolContext = {
+        agentContext,
+        intent,
+        collectedEdits,
+        writeEvent,
+        signal,
+      };
+
+      // Build system prompt
+      const systemPrompt = buildSystemPrompt(
+        numberedContent,
+        textFromEditor,
+        selectionRange,
+        projectFiles,
+        normalizedCurrentFilePath,
+        formatEditScope(intent)
+      );
+
+      // Initialize conversation with system prompt, previous messages, and current user message
+      const conversationMessages: CERNLiteLLMMessage[] = [
+        { role: 'system', content: systemPrompt },
+        ...previousMessages,
+        { role: 'user', content: userText },
+      ];
+
+      writeEvent('status', { state: 'started' });
+
+      const tools = repairContext
+        ? getRepairToolDefinitions()
+        : getToolDefinitions();
+      const contextBudget = getContextBudget(provider.model, MAX_OUTPUT_TOKENS);
+      const toolDefinitionTokens = estimateTokens(JSON.stringify(tools));
+
+      let finalText = '';
+      let iteration = 0;
+
+      // ========================================================================
+      // Agentic Loop
+      // ========================================================================
+      while (iteration < MAX_AGENT_ITERATIONS) {
+        if (signal.aborted) break;
+        iteration++;
+        console.log(
+          `[CERN LiteLLM Agent] Iteration ${iteration} (provider: ${provider.id})`
+        );
+
+        // Keep the request inside the model's context window; summaries use
+        // the unwrapped provider so recorded transcripts only hold agent turns
+        const contextUsage = await fitConversationToBudget(
+          conversationMessages,
+          contextBudget,
+          {
+            fixedTokens: toolDefinitionTokens,
+            provider: resolvedProvider,
+            signal,
+          }
+        );
+        if (signal.aborted) break;
+        writeEvent('status', { state: 'context', usage: contextUsage });
+        if (
+          contextUsage.compactedToolResults > 0 ||
+          contextUsage.summarizedMessages > 0
+        ) {
+          console.log(
+            `[Context] Compacted ${contextUsage.compactedToolResults} tool result(s), summarized ${contextUsage.summarizedMessages} message(s); ${contextUsage.usedTokens}/${contextUsage.budgetTokens} tokens`
+          );
+        }
+        if (contextUsage.overBudget) {
+          const message = `The conversation no longer fits the context window of ${contextBudget.model} (about ${contextUsage.usedTokens} of ${contextUsage.budgetTokens} tokens). Start a new conversation or work on a smaller file.`;
+          console.warn('[Context]', message);
+          writeEvent('error', { message });
+          break;
+        }
+
+        // Call the LLM provider with streaming
+        let response: LLMChatResponse;
+        try {
+          response = await provider.streamChat(
+            {
+              messages: conversationMessages,
+              max_tokens: MAX_OUTPUT_TOKENS,
+              temperature: 0.1,
+              tools,
+              tool_choice: 'auto',
+              signal,
+            },
+            (chunk) => {
+              // Stream text chunks to client immediately
+              finalText += chunk;
+              writeEvent('assistant_partial', { text: chunk });
+            }
+          );
+        } catch (error) {
+          if (signal.aborted) break;
+          const errMsg =
+            error instanceof Error
+              ? error.message
+              : 'Unknown LLM provider error';
+          console.error('[CERN LiteLLM Agent] API error:', errMsg);
+          writeEvent('error', { message: errMsg });
+          break;
+        }
+
+        console.log(
+          '[CERN LiteLLM Agent] Received response:',
+          JSON.stringify(response, null, 2)
+        );
+
+        // Extract content and tool calls
+        const textContent = response.content;
+        console.log(
+          '[CERN LiteLLM Agent] Extracted text content:',
+          textContent
+        );
+        const toolCalls = response.toolCalls;
+        console.log('[CERN LiteLLM Agent] Extracted tool calls:', toolCalls);
+        console.log('[CERN LiteLLM Agent] isComplete:', isComplete(response));
+
+        // Update finalText if there's new content
+        if (textContent && textContent !== finalText) {
+          finalText = textContent;
+        }
+
+        // Check if we're done (no tool calls, stop reason)
+        if (isComplete(response) && toolCalls.length === 0) {
+          console.log('[CERN LiteLLM Agent] Complete - no more tool calls');
+          break;
+        }
+
+        // Process tool calls
+        if (toolCalls.length > 0) {
+          console.log(
+            `[CERN LiteLLM Agent] Processing ${toolCalls.length} tool call(s)`
+          );
+
+          // Add assistant message with tool calls to conversation
+          conversationMessages.push({
+            role: 'assistant',
+            content: textContent || '',
+            tool_calls: toolCalls,
+          });
+
+          // Execute each tool call and collect results
+          for (const toolCall of toolCalls) {
+            if (signal.aborted) break;
+            const toolName = toolCall.function.name;
+            let toolArgs: Record<string, unknown> = {};
+
+            try {
+              toolArgs = JSON.parse(toolCall.function.arguments || '{}');
+            } catch (parseError) {
+              console.warn(
+                `[CERN LiteLLM Agent] Failed to parse tool arguments for ${toolName}`
+              );
+            }
+
+            console.log(`[CERN LiteLLM Agent] Executing tool: ${toolName}`);
+
+            const result = executeToolCall(
+              toolName,
+              toolArgs,
+              toolCall.id,
+              toolContext
+            );
+
+            // Add tool result to conversation
+            conversationMessages.push({
+              role: 'tool',
+              tool_call_id: toolCall.id,
+              content: result.content,
+            });
+          }
+
+          // optional delay between tool calls to avoid rate limits
+          if (TOOL_CALL_DELAY_MS > 0) {
+            await sleep(TOOL_CALL_DELAY_MS);
+          }
+        } else if (!isComplete(response)) {
+          // No tool calls but not complete - unusual, break to avoid infinite loop
+          console.warn(
+            '[CERN LiteLLM Agent] No tool calls but not complete, breaking loop'
+          );
+          break;
+        }
+      }
+
+      if (signal.aborted) {
+        console.log(
+          `[CERN LiteLLM Agent] Request cancelled by client after ${iteration} iteration(s), ${collectedEdits.length} edit(s) proposed`
+        );
+        writeEvent('cancelled', { iteration });
+        res.end();
+        return;
+      }
+
+      if (iteration >= MAX_AGENT_ITERATIONS) {
+        console.warn('[CERN LiteLLM Agent] Reached max iterations');
+        writeEvent('error', {
+          message: 'Agent reached maximum iteration limit',
+        });
+      }
+
+      // Send final response (text only, edits already sent individually)
+      writeEvent('done', { text: finalText });
+      res.end();
+    } catch (error) {
+      console.error('[CERN LiteLLM Agent] Error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // Try to send error event if headers not sent
+      if (!res.headersSent) {
+        res
+          .status(500)
+          .json({ error: 'Failed to process agent request', details: message });
+      } else {
+        res.write(`event: error\n`);
+        res.write(`data: ${JSON.stringify({ message })}\n\n`);
+        res.end();
+      }
+    } finally {
+      await recorder?.save();
+    }
+  });
+
+  return router;
+}
@@ -1,6 +1,6 @@
 /**
  * Image-to-LaTeX Route
- * Handles image description requests using CERN LiteLLM API
+ * Handles image description requests using the configured LLM provider
  */
 
 import { Router, Request, Response } from 'express';
@@ -8,19 +8,14 @@ import {
   buildImageDescriptionPrompt,
   buildImageDescriptionUserPrompt,
 } from '../lib/lars-agent/content-processing';
+import { resolveProvider } from '../lib/llm-providers';
 
-interface ImageToLatexConfig {
-  cernLiteLLMUrl: string;
-  cernLiteLLMApiKey: string;
-  cernLiteLLMVisionModel: string;
-}
-
-export function createImageToLatexRouter(config: ImageToLatexConfig): Router {
+export function createImageToLatexRouter(): Router {
   const router = Router();
 
   router.post('/image-to-latex', async (req: Request, res: Response) => {
     try {
-      const { image, fileName } = req.body;
+      const { image, fileName, provider: requestedProvider } = req.body;
 
       if (!image) {
         return res.status(400).send('Image is required');
@@ -32,20 +27,23 @@ export function createImageToLatexRouter(config: ImageToLatexConfig): Router {
         : `data:image/jpeg;base64,${image}`;
 
       // Validate config
-      if (
-        !config.cernLiteLLMUrl ||
-        !config.cernLiteLLMApiKey ||
-        !config.cernLiteLLMVisionModel
-      ) {
-        console.error('[Image-to-LaTeX] Missing required configuration:', {
-          hasApiUrl: !!config.cernLiteLLMUrl,
-          hasApiKey: !!config.cernLiteLLMApiKey,
-          hasVisionModel: !!config.cernLiteLLMVisionModel,
-        });
+      const {
+        provider,
+        error: providerError,
+        reason,
+      } = resolveProvider(requestedProvider);
+      if (reason === 'unknown') {
+        return res.status(400).send(providerError);
+      }
+      if (!provider || !provider.visionModel) {
+        const error =
+          providerError ||
+          `No vision model configured for provider ${provider?.id}`;
+        console.error('[Image-to-LaTeX] Missing required configuration:', error);
         return res
           .status(503)
           .send(
-            'CERN LiteLLM configuration missing. Please check CERN_LITELLM_URL, CERN_LITELLM_API_KEY and CERN_LITELLM_VISION_MODEL environment variables.'
+            `LLM provider configuration missing: ${error}. Please check the provider and vision model environment variables.`
           );
       }
 
@@ -53,15 +51,11 @@ export function createImageToLatexRouter(config: ImageToLatexConfig): Router {
       const systemPrompt = buildImageDescriptionPrompt();
       const userPromptText = buildImageDescriptionUserPrompt(fileName);
 
-      // Call CERN LiteLLM Vision API
-      const response = await fetch(config.cernLiteLLMUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-Key': config.cernLiteLLMApiKey,
-        },
-        body: JSON.stringify({
-          model: config.cernLiteLLMVisionModel,
+      // Call the vision model
+      let content = '';
+      try {
+        const response = await provider.streamChat({
+          model: provider.visionModel,
           messages: [
             {
               role: 'system',
@@ -85,43 +79,17 @@ export function createImageToLatexRouter(config: ImageToLatexConfig): Router {
           ],
           max_tokens: 512,
           temperature: 0.1,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[Image-to-LaTeX] CERN LiteLLM API error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorText,
         });
-
-        return res
-          .status(500)
-          .send(`Failed to process image: ${response.status} ${errorText}`);
-      }
-
-      // Parse response
-      const data = (await response.json()) as any;
-      let content = '';
-
-      if (data.choices?.[0]?.message?.content) {
-        content = data.choices[0].message.content;
-      }
-      // Check for wrapped format
-      else if (data.steps?.[0]?.content) {
-        const step = data.steps[0];
-        const textContent = step.content.find((c: any) => c.type === 'text');
-        content = textContent?.text || '';
-      } else if (
-        data.steps?.[0]?.response?.body?.choices?.[0]?.message?.content
-      ) {
-        content = data.steps[0].response.body.choices[0].message.content;
+        content = response.content;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        console.error('[Image-to-LaTeX] LLM provider error:', errorMessage);
+        return res.status(500).send(`Failed to process image: ${errorMessage}`);
       }
 
       if (!content) {
-        console.error('[Image-to-LaTeX] No content in response:', data);
+        console.error('[Image-to-LaTeX] No content in response');
         return res.status(500).send('No content extracted from image');
       }
 
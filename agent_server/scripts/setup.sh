@@ -102,7 +102,6 @@ ssh $SERVER_HOST "
   sudo cat > /tmp/override.conf << 'EOF'
 [Service]
 Environment=\"ANTHROPIC_API_KEY=$ANTHROPIC_API_KEY\"
-Environment=\"CLAUDE_CODE_PATH=$SERVER_PATH/node_modules/@anthropic-ai/claude-agent-sdk/cli.js\"
 EOF
   sudo mv /tmp/override.conf /etc/systemd/system/claude-server.service.d/override.conf
   sudo chmod 600 /etc/systemd/system/claude-server.service.d/override.conf
@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import {
+  createCompileArtifactStore,
+  MemoryCompileCache,
+  type CompileCacheBackend,
+} from '@/lib/compile-cache';
+
+export const ARTIFACT_ID = /^[a-f0-9]{64}$/;
+
+const globalForCompileArtifacts = globalThis as unknown as {
+  __larsCompileArtifacts__?: CompileCacheBackend;
+};
+
+function getArtifactStore(): CompileCacheBackend {
+  if (!globalForCompileArtifacts.__larsCompileArtifacts__) {
+    try {
+      globalForCompileArtifacts.__larsCompileArtifacts__ =
+        createCompileArtifactStore();
+    } catch (error) {
+      console.error(
+        '❌ [COMPILE ARTIFACTS] Invalid cache configuration, using in-memory store',
+        error
+      );
+      globalForCompileArtifacts.__larsCompileArtifacts__ =
+        createCompileArtifactStore({
+          ...process.env,
+          COMPILE_CACHE_BACKEND: 'memory',
+        });
+    }
+  }
+  return globalForCompileArtifacts.__larsCompileArtifacts__;
+}
+
+/**
+ * Swaps the artifact store (used by tests)
+ */
+export function setCompileArtifactStore(
+  store: CompileCacheBackend = new MemoryCompileCache({
+    ttlMs: 60 * 60_000,
+    maxEntries: 200,
+    maxBytes: 512 * 1024 * 1024,
+  })
+) {
+  globalForCompileArtifacts.__larsCompileArtifacts__ = store;
+}
+
+export function artifactUrl(artifactId: string): string {
+  return `/api/compile-pdf/artifacts/${artifactId}`;
+}
+
+export function synctexUrl(artifactId: string): string {
+  return `${artifactUrl(artifactId)}/synctex`;
+}
+
+// SyncTeX data belongs to exactly one PDF, so it is keyed by the PDF's id
+function synctexKey(artifactId: string): string {
+  return `${artifactId}-synctex`;
+}
+
+/**
+ * Stores a PDF under the sha256 of its bytes, so recompiling to the same
+ * output reuses the artifact and its URL stays cacheable forever. A failed
+ * write is only logged; readers then find no artifact.
+ */
+export async function storeArtifact(pdf: Buffer): Promise<string> {
+  const artifactId = createHash('sha256').update(pdf).digest('hex');
+  try {
+    await getArtifactStore().set(artifactId, pdf);
+  } catch (error) {
+    console.error('❌ [COMPILE ARTIFACTS] Failed to store PDF', {
+      artifactId: artifactId.substring(0, 16) + '...',
+      error: String(error),
+    });
+  }
+  return artifactId;
+}
+
+export async function getArtifact(artifactId: string): Promise<Buffer | null> {
+  if (!ARTIFACT_ID.test(artifactId)) {
+    return null;
+  }
+  try {
+    return await getArtifactStore().get(artifactId);
+  } catch (error) {
+    console.error('❌ [COMPILE ARTIFACTS] Failed to read PDF', {
+      artifactId: artifactId.substring(0, 16) + '...',
+      error: String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Stores the gzipped SyncTeX file for a PDF. Like the PDF itself, a failed
+ * write is only logged.
+ */
+export async function storeSynctex(
+  artifactId: string,
+  synctex: Buffer
+): Promise<boolean> {
+  try {
+    await getArtifactStore().set(synctexKey(artifactId), synctex);
+    return true;
+  } catch (error) {
+    console.error('❌ [COMPILE ARTIFACTS] Failed to store SyncTeX', {
+      artifactId: artifactId.substring(0, 16) + '...',
+      error: String(error),
+    });
+    return false;
+  }
+}
+
+export async function getSynctex(artifactId: string): Promise<Buffer | null> {
+  if (!ARTIFACT_ID.test(artifactId)) {
+    return null;
+  }
+  try {
+    return await getArtifactStore().get(synctexKey(artifactId));
+  } catch (error) {
+    console.error('❌ [COMPILE ARTIFACTS] Failed to read SyncTeX', {
+      artifactId: artifactId.substring(0, 16) + '...',
+      error: String(error),
+    });
+    return null;
+  }
+}
+
+export type ByteRange = { start: number; end: number }; // end is inclusive
+
+/**
+ * Parses a Range header against a body of the given size. Returns null to
+ * serve the whole body (no header, another unit or several ranges) and
+ * 'unsatisfiable' when no requested byte exists.
+ */
+export function parseRangeHeader(
+  header: string | null,
+  size: number
+): ByteRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  if (!match[1]) {
+    // Suffix range: the last n bytes
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start >= size || end < start) {
+    return 'unsatisfiable';
+  }
+  return { start, end };
+}
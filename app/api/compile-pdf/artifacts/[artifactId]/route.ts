@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import {
+  ARTIFACT_ID,
+  getArtifact,
+  parseRangeHeader,
+} from '../../artifact-store';
+
+export const runtime = 'nodejs';
+
+type ArtifactParams = { params: Promise<{ artifactId: string }> };
+
+// Artifacts are addressed by the sha256 of their bytes, so the id doubles
+// as a strong ETag and responses never go stale.
+async function serveArtifact(
+  request: Request,
+  { params }: ArtifactParams,
+  includeBody: boolean
+) {
+  try {
+    const { artifactId } = await params;
+    if (!ARTIFACT_ID.test(artifactId)) {
+      return NextResponse.json(
+        { error: 'Invalid artifact id' },
+        { status: 400 }
+      );
+    }
+
+    const pdf = await getArtifact(artifactId);
+    if (!pdf) {
+      return NextResponse.json(
+        {
+          error: 'Artifact not found',
+          suggestion: 'Compile the document again',
+        },
+        { status: 404 }
+      );
+    }
+
+    const etag = `"${artifactId}"`;
+    const headers = new Headers({
+      'Content-Type': 'application/pdf',
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, max-age=31536000, immutable',
+      ETag: etag,
+    });
+
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch && matchesEtag(ifNoneMatch, etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    // A stale If-Range means the client's partial copy is another PDF
+    const ifRange = request.headers.get('if-range');
+    const range =
+      ifRange && ifRange !== etag
+        ? null
+        : parseRangeHeader(request.headers.get('range'), pdf.length);
+
+    if (range === 'unsatisfiable') {
+      headers.set('Content-Range', `bytes */${pdf.length}`);
+      return new Response(null, { status: 416, headers });
+    }
+
+    const body = range ? pdf.subarray(range.start, range.end + 1) : pdf;
+    headers.set('Content-Length', String(body.length));
+    if (range) {
+      headers.set(
+        'Content-Range',
+        `bytes ${range.start}-${range.end}/${pdf.length}`
+      );
+    }
+
+    return new Response(includeBody ? new Uint8Array(body) : null, {
+      status: range ? 206 : 200,
+      headers,
+    });
+  } catch (error) {
+    console.error('Error serving compile artifact:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+function matchesEtag(header: string, etag: string): boolean {
+  return header
+    .split(',')
+    .some((value) => ['*', etag, `W/${etag}`].includes(value.trim()));
+}
+
+export async function GET(request: Request, context: ArtifactParams) {
+  return serveArtifact(request, context, true);
+}
+
+export async function HEAD(request: Request, context: ArtifactParams) {
+  return serveArtifact(request, context, false);
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { gunzipSync } from 'zlib';
+import { ARTIFACT_ID, getSynctex } from '../../../artifact-store';
+
+export const runtime = 'nodejs';
+
+// SyncTeX data of a compiled PDF as plain text, parsed in the browser.
+// It never changes for a given PDF, so it is cached like the PDF itself.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ artifactId: string }> }
+) {
+  try {
+    const { artifactId } = await params;
+    if (!ARTIFACT_ID.test(artifactId)) {
+      return NextResponse.json(
+        { error: 'Invalid artifact id' },
+        { status: 400 }
+      );
+    }
+
+    const synctex = await getSynctex(artifactId);
+    if (!synctex) {
+      return NextResponse.json(
+        {
+          error: 'SyncTeX data not found',
+          suggestion: 'Compile the document again',
+        },
+        { status: 404 }
+      );
+    }
+
+    const etag = `"${artifactId}-synctex"`;
+    const headers = new Headers({
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'private, max-age=31536000, immutable',
+      ETag: etag,
+    });
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(new Uint8Array(gunzipSync(synctex)), { headers });
+  } catch (error) {
+    console.error('Error serving SyncTeX data:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
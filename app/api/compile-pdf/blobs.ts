@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import type { FileEntry } from './types';
+import type { ManifestEntry } from '@/lib/utils/file-manifest';
+import {
+  createCompileBlobStore,
+  MemoryCompileCache,
+  type CompileCacheBackend,
+} from '@/lib/compile-cache';
+
+// Hashes the compile service has confirmed it holds; bounded so a
+// long-running process does not grow without limit
+const MAX_SERVICE_BLOBS = 10_000;
+
+const globalForCompileBlobs = globalThis as unknown as {
+  __larsCompileBlobs__?: CompileCacheBackend;
+  __larsServiceBlobs__?: Set<string>;
+};
+
+function getBlobStore(): CompileCacheBackend {
+  if (!globalForCompileBlobs.__larsCompileBlobs__) {
+    try {
+      globalForCompileBlobs.__larsCompileBlobs__ = createCompileBlobStore();
+    } catch (error) {
+      console.error(
+        '❌ [COMPILE BLOBS] Invalid cache configuration, using in-memory store',
+        error
+      );
+      globalForCompileBlobs.__larsCompileBlobs__ = createCompileBlobStore({
+        ...process.env,
+        COMPILE_CACHE_BACKEND: 'memory',
+      });
+    }
+  }
+  return globalForCompileBlobs.__larsCompileBlobs__;
+}
+
+function getServiceBlobs(): Set<string> {
+  return (globalForCompileBlobs.__larsServiceBlobs__ ??= new Set<string>());
+}
+
+/**
+ * Swaps the blob store and forgets what the compile service holds
+ * (used by tests)
+ */
+export function setCompileBlobStore(
+  store: CompileCacheBackend = new MemoryCompileCache({
+    ttlMs: 60 * 60_000,
+    maxEntries: 10_000,
+    maxBytes: 512 * 1024 * 1024,
+  })
+) {
+  globalForCompileBlobs.__larsCompileBlobs__ = store;
+  globalForCompileBlobs.__larsServiceBlobs__ = new Set<string>();
+}
+
+export function hashFileContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Rebuilds the project files from a manifest. Uploaded contents are
+ * stored for later compiles; everything else comes from the blob store.
+ * Hashes found in neither are reported as missing.
+ */
+export async function resolveManifest(
+  manifest: ManifestEntry[],
+  uploads: FileEntry[] = []
+): Promise<{ files: FileEntry[]; missing: string[] }> {
+  const store = getBlobStore();
+  const uploaded = new Map<string, string>();
+
+  for (const upload of uploads) {
+    // Trust the content, not the client's claim about its hash
+    const hash = hashFileContent(upload.content);
+    uploaded.set(hash, upload.content);
+    try {
+      await store.set(hash, Buffer.from(upload.content, 'utf8'));
+    } catch (error) {
+      console.error('❌ [COMPILE BLOBS] Failed to store upload', {
+        path: upload.path,
+        error: String(error),
+      });
+    }
+  }
+
+  const files: FileEntry[] = [];
+  const missing = new Set<string>();
+
+  for (const entry of manifest) {
+    let content = uploaded.get(entry.hash);
+    if (content === undefined) {
+      try {
+        const stored = await store.get(entry.hash);
+        if (stored) {
+          content = stored.toString('utf8');
+        }
+      } catch (error) {
+        console.error('❌ [COMPILE BLOBS] Failed to read blob', {
+          path: entry.path,
+          error: String(error),
+        });
+      }
+    }
+
+    if (content === undefined) {
+      missing.add(entry.hash);
+      continue;
+    }
+
+    const file: FileEntry = { path: entry.path, content, hash: entry.hash };
+    if (entry.encoding) file.encoding = entry.encoding;
+    files.push(file);
+  }
+
+  return { files, missing: [...missing] };
+}
+
+/**
+ * Splits the files for an incremental upload to the compile service:
+ * the manifest lists all of them, only unknown contents are sent
+ */
+export function planServiceUpload(files: FileEntry[]) {
+  const known = getServiceBlobs();
+  const manifest: ManifestEntry[] = files.map((file) => {
+    const entry: ManifestEntry = {
+      path: file.path,
+      hash: file.hash ?? hashFileContent(file.content),
+      size: file.content.length,
+    };
+    if (file.encoding) entry.encoding = file.encoding;
+    return entry;
+  });
+  const uploads = files.filter((_, index) => !known.has(manifest[index].hash));
+
+  return { manifest, uploads };
+}
+
+export function rememberServiceBlobs(hashes: string[]) {
+  const known = getServiceBlobs();
+  if (known.size + hashes.length > MAX_SERVICE_BLOBS) {
+    known.clear();
+  }
+  for (const hash of hashes) known.add(hash);
+}
+
+export function forgetServiceBlobs(hashes: string[]) {
+  const known = getServiceBlobs();
+  for (const hash of hashes) known.delete(hash);
+}
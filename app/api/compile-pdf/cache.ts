@@ -1,37 +1,76 @@
 import { createHash } from 'crypto';
-import type { CompileRequest, CompileCachePayload, CompileCacheEntry } from './types';
+import type { CompileRequest, CompileCachePayload } from './types';
+import { hashFileContent } from './blobs';
+import { createCompileCacheBackend, type CompileCacheBackend } from '@/lib/compile-cache';
 
-const CACHE_TTL_MS = Number(process.env.COMPILE_CACHE_TTL_MS ?? 60_000);
-const MAX_CACHE_ENTRIES = Number(process.env.COMPILE_CACHE_MAX_ENTRIES ?? 32);
+interface CompileCacheMetrics {
+  hits: number;
+  misses: number;
+  stores: number;
+  evictions: number;
+  skipped: number; // Payloads larger than the whole cache
+  errors: number;
+}
 
-// Global cache instance
+// Global backend and metrics, shared across hot reloads
 const globalForCompileCache = globalThis as unknown as {
-  __larsCompileCache__?: Map<string, CompileCacheEntry>;
+  __larsCompileCache__?: {
+    backend: CompileCacheBackend;
+    metrics: CompileCacheMetrics;
+  };
 };
 
-const compileCache =
-  globalForCompileCache.__larsCompileCache__ ??
-  (globalForCompileCache.__larsCompileCache__ = new Map<string, CompileCacheEntry>());
+const emptyMetrics = (): CompileCacheMetrics => ({
+  hits: 0,
+  misses: 0,
+  stores: 0,
+  evictions: 0,
+  skipped: 0,
+  errors: 0,
+});
+
+function getCache() {
+  if (!globalForCompileCache.__larsCompileCache__) {
+    let backend: CompileCacheBackend;
+    try {
+      backend = createCompileCacheBackend();
+    } catch (error) {
+      console.error('❌ [COMPILE CACHE] Invalid cache configuration, using in-memory cache', error);
+      backend = createCompileCacheBackend({ ...process.env, COMPILE_CACHE_BACKEND: 'memory' });
+    }
+    globalForCompileCache.__larsCompileCache__ = { backend, metrics: emptyMetrics() };
+  }
+  return globalForCompileCache.__larsCompileCache__;
+}
 
 /**
- * Builds a cache key from the compile request
+ * Swaps the cache backend, resetting the metrics (used by tests)
+ */
+export function setCompileCacheBackend(backend: CompileCacheBackend) {
+  globalForCompileCache.__larsCompileCache__ = { backend, metrics: emptyMetrics() };
+}
+
+/**
+ * Builds a content-addressed cache key from the compile request. The
+ * project is left out so identical sources share one entry.
  */
 export function buildCacheKey(body: CompileRequest): string | null {
   if (body.files && body.files.length > 0) {
     const hash = createHash('sha256');
     const sortedFiles = [...body.files].sort((a, b) => a.path.localeCompare(b.path));
     for (const file of sortedFiles) {
+      // Per-file hashes from the manifest spare rehashing large binaries
       hash.update(file.path);
       hash.update('\0');
-      hash.update(file.content);
+      hash.update(file.hash ?? hashFileContent(file.content));
       if (file.encoding) {
         hash.update('\0');
         hash.update(file.encoding);
       }
     }
-    if (body.projectId) {
+    if (body.settings) {
       hash.update('\0');
-      hash.update(`project:${body.projectId}`);
+      hash.update(`settings:${JSON.stringify(body.settings)}`);
     }
     return hash.digest('hex');
   }
@@ -39,10 +78,6 @@ export function buildCacheKey(body: CompileRequest): string | null {
   if (body.content) {
     const hash = createHash('sha256');
     hash.update(body.content);
-    if (body.projectId) {
-      hash.update('\0');
-      hash.update(`project:${body.projectId}`);
-    }
     return hash.digest('hex');
   }
 
@@ -50,64 +85,99 @@ export function buildCacheKey(body: CompileRequest): string | null {
 }
 
 /**
- * Retrieves a cached response if available and not expired
+ * Retrieves a cached response if available and not expired. Backend
+ * failures are logged and treated as a miss.
  */
-export function getCachedResponse(cacheKey: string | null): CompileCachePayload | null {
+export async function getCachedResponse(cacheKey: string | null): Promise<CompileCachePayload | null> {
   if (!cacheKey) {
     return null;
   }
 
-  const entry = compileCache.get(cacheKey);
-  if (!entry) {
-    return null;
-  }
-
-  const age = Date.now() - entry.timestamp;
-  if (age > CACHE_TTL_MS) {
-    console.log('⏰ [COMPILE CACHE] Cache entry expired', {
+  const { backend, metrics } = getCache();
+  try {
+    const value = await backend.get(cacheKey);
+    if (!value) {
+      metrics.misses++;
+      return null;
+    }
+    metrics.hits++;
+    return JSON.parse(value.toString('utf8')) as CompileCachePayload;
+  } catch (error) {
+    metrics.errors++;
+    metrics.misses++;
+    console.error('❌ [COMPILE CACHE] Failed to read from cache', {
+      backend: backend.name,
       cacheKey: cacheKey.substring(0, 16) + '...',
-      ageMs: age,
-      ttlMs: CACHE_TTL_MS,
+      error: String(error),
     });
-    compileCache.delete(cacheKey);
     return null;
   }
-
-  return entry.payload;
 }
 
 /**
- * Stores a response in the cache
+ * Stores a response in the cache, evicting least recently used entries
  */
-export function storeCachedResponse(cacheKey: string | null, payload: CompileCachePayload): void {
+export async function storeCachedResponse(cacheKey: string | null, payload: CompileCachePayload): Promise<void> {
   if (!cacheKey) {
     return;
   }
 
-  // Evict oldest entry if cache is full
-  if (compileCache.size >= MAX_CACHE_ENTRIES) {
-    const oldestKey = compileCache.keys().next().value as string | undefined;
-    if (oldestKey) {
-      console.log('🗑️ [COMPILE CACHE] Evicting oldest entry (cache full)', {
-        evictedKey: oldestKey.substring(0, 16) + '...',
-        cacheSize: compileCache.size,
-        maxSize: MAX_CACHE_ENTRIES,
+  const { backend, metrics } = getCache();
+  const value = Buffer.from(JSON.stringify(payload), 'utf8');
+
+  if (value.length > backend.limits.maxBytes) {
+    metrics.skipped++;
+    console.log('⚠️ [COMPILE CACHE] Skipping entry larger than the cache', {
+      cacheKey: cacheKey.substring(0, 16) + '...',
+      bytes: value.length,
+      maxBytes: backend.limits.maxBytes,
+    });
+    return;
+  }
+
+  try {
+    const evicted = await backend.set(cacheKey, value);
+    metrics.stores++;
+    metrics.evictions += evicted;
+    if (evicted > 0) {
+      console.log('🗑️ [COMPILE CACHE] Evicted least recently used entries', {
+        backend: backend.name,
+        evicted,
       });
-      compileCache.delete(oldestKey);
     }
+  } catch (error) {
+    metrics.errors++;
+    console.error('❌ [COMPILE CACHE] Failed to write to cache', {
+      backend: backend.name,
+      cacheKey: cacheKey.substring(0, 16) + '...',
+      error: String(error),
+    });
   }
-
-  compileCache.set(cacheKey, { payload: { ...payload }, timestamp: Date.now() });
 }
 
 /**
- * Gets cache statistics
+ * Gets cache statistics, including hit/miss counts for this process
  */
-export function getCacheStats() {
+export async function getCacheStats() {
+  const { backend, metrics } = getCache();
+  const lookups = metrics.hits + metrics.misses;
+
+  let usage: { size: number | null; bytes: number | null } = { size: null, bytes: null };
+  try {
+    const stats = await backend.stats();
+    usage = { size: stats.size, bytes: stats.bytes };
+  } catch (error) {
+    metrics.errors++;
+    console.error('❌ [COMPILE CACHE] Failed to read cache stats', String(error));
+  }
+
   return {
-    size: compileCache.size,
-    maxSize: MAX_CACHE_ENTRIES,
-    ttlMs: CACHE_TTL_MS,
+    backend: backend.name,
+    ...usage,
+    maxSize: backend.limits.maxEntries,
+    maxBytes: backend.limits.maxBytes,
+    ttlMs: backend.limits.ttlMs,
+    ...metrics,
+    hitRate: lookups > 0 ? metrics.hits / lookups : 0,
   };
 }
-
@@ -1,81 +1,290 @@
-import type { CompileRequest, CompilerResponse } from './types';
+import type {
+  CompileProgressEvent,
+  CompileRequest,
+  CompilerResponse,
+  FileEntry,
+} from './types';
+import {
+  forgetServiceBlobs,
+  planServiceUpload,
+  rememberServiceBlobs,
+} from './blobs';
+import { gzipSync } from 'zlib';
+import type { CompilePassTool } from '@/types/compilation';
+import { readSSEStream } from '@/lib/utils/sse';
 
 const COMPILE_TIMEOUT_MS = 180_000;
 
+const PASS_TOOLS: CompilePassTool[] = ['latex', 'bibtex', 'biber', 'makeindex'];
+
+export interface CompileLatexOptions {
+  // Ask the service to stream queue position, passes and log lines
+  onProgress?: (event: CompileProgressEvent) => void;
+  // Aborts the compile, e.g. when the browser disconnects
+  signal?: AbortSignal;
+}
+
+interface CompileMetadata {
+  requestId: string | null;
+  durationMs: number | null;
+  queueMs: number | null;
+  sha256: string | null;
+}
+
 export async function compileLatex(
   body: CompileRequest,
-  compileServiceUrl: string
+  compileServiceUrl: string,
+  options: CompileLatexOptions = {}
 ): Promise<CompilerResponse> {
-  const { files, projectId, lastModifiedFile } = body;
+  const { files, projectId, lastModifiedFile, settings } = body;
+  const { onProgress, signal } = options;
 
-  const requestBody = JSON.stringify({
-    files,
-    projectId,
-    lastModifiedFile,
-  });
+  // An incremental service gets every file by hash and only the
+  // contents it has not confirmed holding yet
+  const incremental = process.env.COMPILE_SERVICE_INCREMENTAL === 'true';
+  const plan = incremental ? planServiceUpload(files) : null;
+
+  const buildRequestBody = (uploads: FileEntry[]) =>
+    JSON.stringify({
+      files: uploads,
+      manifest: plan?.manifest,
+      projectId,
+      lastModifiedFile,
+      rootFile: settings?.rootFile ?? lastModifiedFile,
+      engine: settings?.engine,
+      bibliographyTool: settings?.bibliographyTool,
+      shellEscape: settings?.shellEscape,
+      draftMode: settings?.draftMode,
+      // Ask for the log on success too so warnings can be shown
+      includeLog: true,
+      // And the SyncTeX data that links the PDF back to the sources
+      includeSynctex: true,
+      stream: Boolean(onProgress),
+    });
   const requestHeaders: Record<string, string> = {
     'Content-Type': 'application/json',
   };
+  if (onProgress) {
+    requestHeaders.Accept = 'text/event-stream, application/json';
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), COMPILE_TIMEOUT_MS);
+  const abortFromCaller = () => controller.abort();
+  signal?.addEventListener('abort', abortFromCaller);
 
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), COMPILE_TIMEOUT_MS);
-
-    const response = await fetch(`${compileServiceUrl}/compile`, {
-      method: 'POST',
-      headers: requestHeaders,
-      body: requestBody,
-      signal: controller.signal,
-    });
+    const send = (uploads: FileEntry[]) =>
+      fetch(`${compileServiceUrl}/compile`, {
+        method: 'POST',
+        headers: requestHeaders,
+        body: buildRequestBody(uploads),
+        signal: controller.signal,
+      });
 
-    clearTimeout(timeoutId);
+    let response = await send(plan ? plan.uploads : files);
+
+    // The service dropped some contents (restart, eviction); send just those
+    if (plan && response.status === 409) {
+      const missing = await readMissingHashes(response);
+      forgetServiceBlobs([...missing]);
+      response = await send(
+        files.filter((_, index) => missing.has(plan.manifest[index].hash))
+      );
+    }
+
+    if (plan && response.ok) {
+      rememberServiceBlobs(plan.manifest.map((entry) => entry.hash));
+    }
 
     if (!response.ok) {
       return await handleCompileError(response);
     }
 
+    const contentType =
+      response.headers.get('content-type')?.toLowerCase() || '';
+    if (onProgress && contentType.includes('text/event-stream')) {
+      return await handleCompileStream(response, onProgress);
+    }
+
     return await handleCompileSuccess(response);
   } catch (error) {
-    return handleCompileException(error);
+    return handleCompileException(error, signal?.aborted);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abortFromCaller);
   }
 }
 
+async function readMissingHashes(response: Response): Promise<Set<string>> {
+  const data = await response.json().catch(() => null);
+  const missing: unknown[] = Array.isArray(data?.missing) ? data.missing : [];
+  return new Set(
+    missing.filter((hash): hash is string => typeof hash === 'string')
+  );
+}
+
+function readMetadata(response: Response): CompileMetadata {
+  const durationMs = response.headers.get('x-compile-duration-ms');
+  const queueMs = response.headers.get('x-compile-queue-ms');
+  return {
+    requestId: response.headers.get('x-compile-request-id') || null,
+    durationMs: durationMs ? Number(durationMs) : null,
+    queueMs: queueMs ? Number(queueMs) : null,
+    sha256: response.headers.get('x-compile-sha256'),
+  };
+}
+
 /**
  * Handles successful compilation response
  */
 async function handleCompileSuccess(
   response: Response
 ): Promise<CompilerResponse> {
-  const requestId = response.headers.get('x-compile-request-id') || null;
-  const durationMs = response.headers.get('x-compile-duration-ms');
-  const queueMs = response.headers.get('x-compile-queue-ms');
-  const sha256 = response.headers.get('x-compile-sha256');
+  const contentType = response.headers.get('content-type')?.toLowerCase() || '';
+
+  // Services that honour includeLog reply with JSON { pdf, log, synctex };
+  // older ones send the raw PDF and no log
+  let pdfBuffer: Buffer;
+  let log: string | undefined;
+  let synctex: Buffer | undefined;
+  if (contentType.includes('application/json')) {
+    const data = await response.json();
+    pdfBuffer = Buffer.from(data.pdf ?? '', 'base64');
+    log = typeof data.log === 'string' ? data.log : undefined;
+    synctex = readSynctex(data.synctex);
+  } else {
+    pdfBuffer = Buffer.from(await response.arrayBuffer());
+  }
 
-  const pdfArrayBuffer = await response.arrayBuffer();
+  return buildCompileSuccess(pdfBuffer, log, readMetadata(response), synctex);
+}
+
+/**
+ * Handles a streamed compilation: forwards progress events as they
+ * arrive and resolves with the final result or error event
+ */
+async function handleCompileStream(
+  response: Response,
+  onProgress: (event: CompileProgressEvent) => void
+): Promise<CompilerResponse> {
+  const metadata = readMetadata(response);
+  const logLines: string[] = [];
+  let result: Record<string, unknown> | null = null;
+  let failure: Record<string, unknown> | null = null;
 
+  if (!response.body) {
+    throw new Error('lars-compile returned an empty stream');
+  }
+
+  await readSSEStream(response.body, (event, data) => {
+    const payload = (data ?? {}) as Record<string, unknown>;
+
+    switch (event) {
+      case 'queue':
+        onProgress({
+          type: 'queue',
+          position:
+            typeof payload.position === 'number' ? payload.position : null,
+        });
+        break;
+      case 'pass': {
+        const tool = PASS_TOOLS.find((name) => name === payload.tool);
+        onProgress({
+          type: 'pass',
+          pass: Number(payload.pass) || 1,
+          tool: tool ?? 'latex',
+        });
+        break;
+      }
+      case 'log': {
+        const raw =
+          typeof data === 'string' ? data : (payload.line ?? payload.lines);
+        const lines = (
+          Array.isArray(raw) ? raw.map(String) : [String(raw ?? '')]
+        )
+          .join('\n')
+          .split('\n');
+        logLines.push(...lines);
+        onProgress({ type: 'log', lines });
+        break;
+      }
+      case 'result':
+        result = payload;
+        break;
+      case 'error':
+        failure = payload;
+        break;
+    }
+  });
+
+  // Fall back to the streamed lines when the final event carries no log
+  const streamedLog = logLines.length > 0 ? logLines.join('\n') : undefined;
+
+  if (failure) {
+    return buildCompileError(
+      { log: streamedLog, ...(failure as Record<string, unknown>) },
+      'Compile stream reported an error',
+      metadata
+    );
+  }
+
+  if (!result) {
+    throw new Error('lars-compile stream ended without a result');
+  }
+
+  const final = result as Record<string, unknown>;
+  return buildCompileSuccess(
+    Buffer.from(typeof final.pdf === 'string' ? final.pdf : '', 'base64'),
+    typeof final.log === 'string' ? final.log : streamedLog,
+    {
+      requestId: (final.requestId as string) ?? metadata.requestId,
+      durationMs: (final.durationMs as number) ?? metadata.durationMs,
+      queueMs: (final.queueMs as number) ?? metadata.queueMs,
+      sha256: (final.sha256 as string) ?? metadata.sha256,
+    },
+    readSynctex(final.synctex)
+  );
+}
+
+/**
+ * Decodes the base64 SyncTeX file a service sends along with the PDF.
+ * Services may send the .synctex.gz as written by TeX or the plain text;
+ * either way it is kept gzipped.
+ */
+function readSynctex(value: unknown): Buffer | undefined {
+  if (typeof value !== 'string' || value.length === 0) {
+    return undefined;
+  }
+
+  const data = Buffer.from(value, 'base64');
+  const gzipped = data[0] === 0x1f && data[1] === 0x8b;
+  return gzipped ? data : gzipSync(data);
+}
+
+function buildCompileSuccess(
+  pdfBuffer: Buffer,
+  log: string | undefined,
+  metadata: CompileMetadata,
+  synctex?: Buffer
+): CompilerResponse {
   // Check if we got a valid PDF
-  if (pdfArrayBuffer.byteLength === 0) {
+  if (pdfBuffer.byteLength === 0) {
     throw new Error('lars-compile returned empty response');
   }
 
   // Verify PDF magic number (%PDF)
-  const pdfBuffer = Buffer.from(pdfArrayBuffer);
   const firstBytes = pdfBuffer.toString('utf8', 0, 4);
   if (firstBytes !== '%PDF') {
     throw new Error(`Invalid PDF format. Expected %PDF, got: ${firstBytes}`);
   }
 
-  // Convert to Base64
-  const base64PDF = pdfBuffer.toString('base64');
-
   return {
     success: true,
     pdfBuffer,
-    base64PDF,
-    requestId,
-    durationMs: durationMs ? Number(durationMs) : null,
-    queueMs: queueMs ? Number(queueMs) : null,
-    sha256,
+    synctex,
+    ...metadata,
+    log,
   };
 }
 
@@ -95,25 +304,29 @@ async function handleCompileError(
     errorData = { error: errorText };
   }
 
-  const requestId =
-    response.headers.get('x-compile-request-id') || errorData.requestId || null;
-  const durationMs = response.headers.get('x-compile-duration-ms');
-  const queueMs = response.headers.get('x-compile-queue-ms');
+  return buildCompileError(
+    errorData,
+    `Server returned status ${response.status}`,
+    readMetadata(response)
+  );
+}
 
+function buildCompileError(
+  errorData: any,
+  fallbackDetails: string,
+  metadata: CompileMetadata
+): CompilerResponse {
   return {
     success: false,
     error: {
       error: errorData.error || 'LaTeX compilation failed',
-      details:
-        errorData.message ||
-        errorData.details ||
-        `Server returned status ${response.status}`,
+      details: errorData.message || errorData.details || fallbackDetails,
       log: errorData.log,
       stdout: errorData.stdout,
       stderr: errorData.stderr,
-      requestId,
-      queueMs: queueMs ? Number(queueMs) : errorData.queueMs,
-      durationMs: durationMs ? Number(durationMs) : errorData.durationMs,
+      requestId: metadata.requestId || errorData.requestId || null,
+      queueMs: metadata.queueMs ?? errorData.queueMs,
+      durationMs: metadata.durationMs ?? errorData.durationMs,
       pdfBuffer: errorData.pdfBuffer, // Base64-encoded partial PDF if available
     },
   };
@@ -122,8 +335,21 @@ async function handleCompileError(
 /**
  * Handles compilation exceptions
  */
-function handleCompileException(error: unknown): CompilerResponse {
+function handleCompileException(
+  error: unknown,
+  cancelled = false
+): CompilerResponse {
   if (error instanceof Error && error.name === 'AbortError') {
+    if (cancelled) {
+      return {
+        success: false,
+        error: {
+          error: 'LaTeX compilation cancelled',
+          details: 'The client disconnected before the compile finished',
+        },
+      };
+    }
+
     return {
       success: false,
       error: {
@@ -0,0 +1,191 @@
+import type {
+  CompileCachePayload,
+  CompileDelivery,
+  CompileRequest,
+  CompileResultPayload,
+  CompilerResponse,
+} from './types';
+import { resolveManifest } from './blobs';
+import {
+  artifactUrl,
+  getArtifact,
+  storeArtifact,
+  storeSynctex,
+  synctexUrl,
+} from './artifact-store';
+import { parseLatexLog } from '@/lib/utils/latex-log';
+import {
+  parseCompileSettings,
+  resolveRootFile,
+} from '@/lib/utils/compile-settings';
+
+export const COMPILE_SERVICE_URL =
+  process.env.NODE_ENV === 'development'
+    ? process.env.COMPILE_SERVICE_URL_STAGING
+    : process.env.COMPILE_SERVICE_URL;
+
+/**
+ * Replaces a manifest with the files it lists. Returns the hashes the
+ * client still has to upload if any content is unknown.
+ */
+export async function resolveRequestFiles(
+  body: Partial<CompileRequest>
+): Promise<{ body: Partial<CompileRequest>; missing: string[] }> {
+  if (!body.manifest || body.manifest.length === 0) {
+    return { body, missing: [] };
+  }
+
+  const { manifest, ...rest } = body;
+  const { files, missing } = await resolveManifest(manifest, body.files);
+  return { body: { ...rest, files }, missing };
+}
+
+export function missingFilesPayload(missing: string[]) {
+  return {
+    error: 'Missing file contents',
+    details: `${missing.length} file(s) must be uploaded before compiling`,
+    suggestion: 'Send the contents for the listed hashes and try again',
+    missing,
+  };
+}
+
+export function normalizeRequest(
+  body: Partial<CompileRequest>
+): CompileRequest {
+  const settings = parseCompileSettings(body.settings);
+
+  if (body.files && body.files.length > 0) {
+    // Compile the root document, not whichever file is being edited
+    const rootFile =
+      resolveRootFile(body.files, settings.rootFile) ?? body.lastModifiedFile;
+    return {
+      files: body.files,
+      projectId: body.projectId,
+      lastModifiedFile: body.lastModifiedFile,
+      settings: { ...settings, rootFile: rootFile ?? null },
+      delivery: body.delivery,
+    };
+  }
+
+  if (typeof body.content === 'string') {
+    const path = body.lastModifiedFile || 'main.tex';
+    return {
+      files: [
+        {
+          path,
+          content: body.content,
+        },
+      ],
+      projectId: body.projectId,
+      lastModifiedFile: path,
+      settings: { ...settings, rootFile: path },
+      delivery: body.delivery,
+    };
+  }
+
+  throw new Error('Invalid compile request');
+}
+
+/**
+ * Stores the PDF of a successful compile as an artifact and builds the
+ * cacheable response that points at it
+ */
+export async function buildSuccessPayload(
+  compileResult: CompilerResponse
+): Promise<CompileCachePayload | null> {
+  if (!compileResult.success || !compileResult.pdfBuffer) {
+    return null;
+  }
+
+  const artifactId = await storeArtifact(compileResult.pdfBuffer);
+  const synctex = compileResult.synctex
+    ? await storeSynctex(artifactId, compileResult.synctex)
+    : false;
+
+  return {
+    artifactId,
+    synctex,
+    size: compileResult.pdfBuffer.length,
+    mimeType: 'application/pdf',
+    diagnostics: parseLatexLog(compileResult.log),
+    debugInfo: {
+      contentLength: compileResult.pdfBuffer.byteLength,
+      requestId: compileResult.requestId,
+      durationMs: compileResult.durationMs,
+      queueMs: compileResult.queueMs,
+      sha256: compileResult.sha256,
+    },
+  };
+}
+
+/**
+ * Shapes a compile result for the requested delivery. The PDF is read
+ * back from the artifact store; if it is gone, the one passed in is sent
+ * as base64 instead, and without either null means a cache hit has to
+ * compile again.
+ */
+export async function buildResultPayload(
+  payload: CompileCachePayload,
+  delivery: CompileDelivery = 'base64',
+  cacheStatus: 'hit' | 'miss',
+  cacheKey: string | null,
+  pdf?: Buffer
+): Promise<CompileResultPayload | null> {
+  const stored = await getArtifact(payload.artifactId);
+  const result: CompileResultPayload = withCacheStatus(
+    payload,
+    cacheStatus,
+    cacheKey
+  );
+  if (payload.synctex) {
+    result.synctexUrl = synctexUrl(payload.artifactId);
+  }
+  if (stored && delivery === 'artifact') {
+    return { ...result, pdfUrl: artifactUrl(payload.artifactId) };
+  }
+
+  const pdfBuffer = stored ?? pdf;
+  return pdfBuffer ? { ...result, pdf: pdfBuffer.toString('base64') } : null;
+}
+
+/**
+ * Builds the error response for a failed compile
+ */
+export async function buildErrorPayload(
+  compileResult: CompilerResponse,
+  delivery: CompileDelivery = 'base64'
+): Promise<Record<string, unknown>> {
+  const { pdfBuffer, ...error } = compileResult.error ?? {};
+  const errorResponse: Record<string, unknown> = {
+    ...error,
+    suggestion:
+      compileResult.error?.suggestion ||
+      'Check your LaTeX syntax and try again',
+  };
+
+  // If a partial PDF was generated despite the error, include it
+  if (pdfBuffer && delivery === 'artifact') {
+    const artifactId = await storeArtifact(Buffer.from(pdfBuffer, 'base64'));
+    errorResponse.artifactId = artifactId;
+    errorResponse.pdfUrl = artifactUrl(artifactId);
+  } else if (pdfBuffer) {
+    errorResponse.pdf = pdfBuffer;
+  }
+
+  return errorResponse;
+}
+
+function withCacheStatus(
+  payload: CompileCachePayload,
+  cacheStatus: 'hit' | 'miss',
+  cacheKey: string | null
+): CompileCachePayload {
+  return {
+    ...payload,
+    debugInfo: {
+      ...(payload.debugInfo ?? {}),
+      cacheStatus,
+      cacheKey,
+    },
+  };
+}
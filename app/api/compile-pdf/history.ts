@@ -0,0 +1,301 @@
+import { createHash } from 'crypto';
+import { after } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import type { Tables } from '@/database.types';
+import type {
+  CompilationRecord,
+  CompilationStatus,
+  LatexDiagnostic,
+  LatexEngine,
+} from '@/types/compilation';
+import type {
+  CompileCachePayload,
+  CompileRequest,
+  CompilerResponse,
+} from './types';
+import { getArtifact } from './artifact-store';
+import { parseLatexLog } from '@/lib/utils/latex-log';
+import { DEFAULT_COMPILE_SETTINGS } from '@/lib/utils/compile-settings';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// Private bucket; objects are `{projectId}/{pdf sha256}.pdf`
+export const COMPILATIONS_BUCKET = 'compilations';
+
+// Builds kept per project; older ones and the PDFs only they used are pruned
+export const MAX_COMPILATIONS_PER_PROJECT = 50;
+const PRUNE_BATCH = 200;
+
+export interface CompilationOwner {
+  supabase: ServerClient;
+  userId: string;
+  projectId: string;
+}
+
+// What a compile produced, as recorded in the history
+export interface CompilationOutcome {
+  status: CompilationStatus;
+  cached: boolean;
+  diagnostics: LatexDiagnostic[];
+  durationMs?: number | null;
+  queueMs?: number | null;
+  requestId?: string | null;
+  errorMessage?: string | null;
+  pdf?: Buffer | null;
+  pdfSha256?: string | null; // Lets a cache hit reuse the stored PDF
+  pdfSize?: number | null;
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.round(value)
+    : null;
+}
+
+/**
+ * Who a compile is recorded for. Has to be called while the request is
+ * in scope; compiles outside a project or without a session give null
+ * and are not recorded.
+ */
+export async function getCompilationOwner(
+  projectId?: string
+): Promise<CompilationOwner | null> {
+  if (!projectId) return null;
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    return user ? { supabase, userId: user.id, projectId } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function successOutcome(
+  payload: CompileCachePayload,
+  cached: boolean,
+  pdf?: Buffer
+): CompilationOutcome {
+  const debugInfo = payload.debugInfo ?? {};
+  return {
+    status: 'success',
+    cached,
+    diagnostics: payload.diagnostics ?? [],
+    durationMs: numberOrNull(debugInfo.durationMs),
+    queueMs: numberOrNull(debugInfo.queueMs),
+    requestId:
+      typeof debugInfo.requestId === 'string' ? debugInfo.requestId : null,
+    pdf,
+    pdfSha256: payload.artifactId,
+    pdfSize: payload.size,
+  };
+}
+
+export function errorOutcome(
+  compileResult: CompilerResponse
+): CompilationOutcome {
+  const error = compileResult.error;
+  const pdf = error?.pdfBuffer ? Buffer.from(error.pdfBuffer, 'base64') : null;
+  return {
+    status: 'error',
+    cached: false,
+    diagnostics: parseLatexLog(error?.log ?? compileResult.log),
+    durationMs: numberOrNull(error?.durationMs ?? compileResult.durationMs),
+    queueMs: numberOrNull(error?.queueMs ?? compileResult.queueMs),
+    requestId: error?.requestId ?? compileResult.requestId ?? null,
+    errorMessage: error?.error ?? 'LaTeX compilation failed',
+    pdf,
+    pdfSize: pdf?.length ?? null,
+  };
+}
+
+/**
+ * Stores the PDF once per project and returns its storage path. A PDF
+ * already recorded for the project is not uploaded again.
+ */
+async function storePdf(
+  owner: CompilationOwner,
+  sha256: string,
+  pdf?: Buffer | null
+): Promise<string | null> {
+  const path = `${owner.projectId}/${sha256}.pdf`;
+
+  const { data: existing } = await owner.supabase
+    .from('compilations')
+    .select('id')
+    .eq('project_id', owner.projectId)
+    .eq('pdf_path', path)
+    .limit(1);
+  if (existing && existing.length > 0) return path;
+
+  const bytes = pdf ?? (await getArtifact(sha256));
+  if (!bytes) return null;
+
+  const { error } = await owner.supabase.storage
+    .from(COMPILATIONS_BUCKET)
+    .upload(path, bytes, { contentType: 'application/pdf', upsert: false });
+  if (error && !/exists/i.test(error.message)) {
+    console.error('[Compile History] Failed to store PDF:', error);
+    return null;
+  }
+  return path;
+}
+
+/**
+ * Deletes the project's builds beyond MAX_COMPILATIONS_PER_PROJECT, oldest
+ * first, with the stored PDFs no remaining build refers to
+ */
+async function pruneCompilations(owner: CompilationOwner): Promise<void> {
+  const { data, error } = await owner.supabase
+    .from('compilations')
+    .select('id, pdf_path')
+    .eq('project_id', owner.projectId)
+    .order('created_at', { ascending: false })
+    .range(
+      MAX_COMPILATIONS_PER_PROJECT,
+      MAX_COMPILATIONS_PER_PROJECT + PRUNE_BATCH - 1
+    );
+  const old = data as Pick<Tables<'compilations'>, 'id' | 'pdf_path'>[] | null;
+  if (error) {
+    console.error('[Compile History] Failed to list old builds:', error);
+    return;
+  }
+  if (!old || old.length === 0) return;
+
+  const { error: deleteError } = await owner.supabase
+    .from('compilations')
+    .delete()
+    .in(
+      'id',
+      old.map((row) => row.id)
+    );
+  if (deleteError) {
+    console.error('[Compile History] Failed to prune builds:', deleteError);
+    return;
+  }
+
+  // A PDF is shared by every build that produced it
+  const paths = [
+    ...new Set(
+      old.map((row) => row.pdf_path).filter((path): path is string => !!path)
+    ),
+  ];
+  if (paths.length === 0) return;
+  const { data: keptData, error: keptError } = await owner.supabase
+    .from('compilations')
+    .select('pdf_path')
+    .eq('project_id', owner.projectId)
+    .in('pdf_path', paths);
+  if (keptError) {
+    console.error('[Compile History] Failed to check stored PDFs:', keptError);
+    return;
+  }
+  const kept = keptData as Pick<Tables<'compilations'>, 'pdf_path'>[] | null;
+  const stillUsed = new Set((kept ?? []).map((row) => row.pdf_path));
+  const unused = paths.filter((path) => !stillUsed.has(path));
+  if (unused.length === 0) return;
+
+  const { error: removeError } = await owner.supabase.storage
+    .from(COMPILATIONS_BUCKET)
+    .remove(unused);
+  if (removeError) {
+    console.error('[Compile History] Failed to remove old PDFs:', removeError);
+  }
+}
+
+/**
+ * Records a compile in the project's history and prunes the oldest builds
+ * beyond the per-project cap. Never throws; a compile
+ * must not fail because its history could not be written.
+ */
+export async function recordCompilation(
+  owner: CompilationOwner,
+  body: CompileRequest,
+  outcome: CompilationOutcome
+): Promise<void> {
+  try {
+    const pdfSha256 =
+      outcome.pdfSha256 ??
+      (outcome.pdf
+        ? createHash('sha256').update(outcome.pdf).digest('hex')
+        : null);
+    const pdfPath = pdfSha256
+      ? await storePdf(owner, pdfSha256, outcome.pdf)
+      : null;
+    const countOf = (severity: LatexDiagnostic['severity']) =>
+      outcome.diagnostics.filter(
+        (diagnostic) => diagnostic.severity === severity
+      ).length;
+
+    const { error } = await (owner.supabase.from('compilations') as any).insert(
+      {
+        project_id: owner.projectId,
+        user_id: owner.userId,
+        status: outcome.status,
+        engine: body.settings?.engine ?? DEFAULT_COMPILE_SETTINGS.engine,
+        root_file: body.settings?.rootFile ?? body.lastModifiedFile ?? null,
+        cached: outcome.cached,
+        duration_ms: outcome.durationMs ?? null,
+        queue_ms: outcome.queueMs ?? null,
+        error_count: countOf('error'),
+        warning_count: countOf('warning'),
+        diagnostics_count: outcome.diagnostics.length,
+        error_message: outcome.errorMessage ?? null,
+        request_id: outcome.requestId ?? null,
+        pdf_sha256: pdfPath ? pdfSha256 : null,
+        pdf_path: pdfPath,
+        pdf_size: pdfPath ? (outcome.pdfSize ?? null) : null,
+      }
+    );
+    if (error) {
+      console.error('[Compile History] Failed to record compilation:', error);
+      return;
+    }
+    await pruneCompilations(owner);
+  } catch (error) {
+    console.error('[Compile History] Failed to record compilation:', error);
+  }
+}
+
+/**
+ * Records the compile once the response has been sent
+ */
+export function scheduleCompilationRecord(
+  owner: CompilationOwner | null,
+  body: CompileRequest,
+  outcome: CompilationOutcome
+): void {
+  if (!owner) return;
+  after(() => recordCompilation(owner, body, outcome));
+}
+
+export function compilationPdfUrl(projectId: string, compilationId: string) {
+  return `/api/projects/${projectId}/compilations/${compilationId}/pdf`;
+}
+
+/**
+ * Map a compilations row to the typed client shape
+ */
+export function toCompilationRecord(
+  row: Tables<'compilations'>
+): CompilationRecord {
+  return {
+    id: row.id,
+    status: row.status === 'success' ? 'success' : 'error',
+    engine: row.engine as LatexEngine,
+    rootFile: row.root_file,
+    userId: row.user_id,
+    cached: row.cached,
+    durationMs: row.duration_ms,
+    queueMs: row.queue_ms,
+    errorCount: row.error_count,
+    warningCount: row.warning_count,
+    diagnosticsCount: row.diagnostics_count,
+    errorMessage: row.error_message,
+    pdfSha256: row.pdf_sha256,
+    pdfSize: row.pdf_size,
+    pdfUrl: row.pdf_path ? compilationPdfUrl(row.project_id, row.id) : null,
+    createdAt: row.created_at ?? new Date(0).toISOString(),
+  };
+}
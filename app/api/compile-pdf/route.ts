@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import type { CompileRequest, CompileCachePayload } from './types';
+import type { CompileRequest } from './types';
 import {
   buildCacheKey,
   getCachedResponse,
@@ -8,41 +8,25 @@ import {
 } from './cache';
 import { validateCompileRequest } from './validation';
 import { compileLatex } from './compiler';
+import {
+  COMPILE_SERVICE_URL,
+  buildErrorPayload,
+  buildResultPayload,
+  buildSuccessPayload,
+  missingFilesPayload,
+  normalizeRequest,
+  resolveRequestFiles,
+} from './handler';
+import {
+  errorOutcome,
+  getCompilationOwner,
+  scheduleCompilationRecord,
+  successOutcome,
+} from './history';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
-const COMPILE_SERVICE_URL =
-  process.env.NODE_ENV === 'development'
-    ? process.env.COMPILE_SERVICE_URL_STAGING
-    : process.env.COMPILE_SERVICE_URL;
-
-function normalizeRequest(body: Partial<CompileRequest>): CompileRequest {
-  if (body.files && body.files.length > 0) {
-    return {
-      files: body.files,
-      projectId: body.projectId,
-      lastModifiedFile: body.lastModifiedFile,
-    };
-  }
-
-  if (typeof body.content === 'string') {
-    const path = body.lastModifiedFile || 'main.tex';
-    return {
-      files: [
-        {
-          path,
-          content: body.content,
-        },
-      ],
-      projectId: body.projectId,
-      lastModifiedFile: path,
-    };
-  }
-
-  throw new Error('Invalid compile request');
-}
-
 export async function POST(request: Request) {
   try {
     const rawBody: Partial<CompileRequest> = await request.json();
@@ -52,7 +36,15 @@ export async function POST(request: Request) {
       return NextResponse.json(requestValidationError, { status: 400 });
     }
 
-    const body = normalizeRequest(rawBody);
+    const resolved = await resolveRequestFiles(rawBody);
+    if (resolved.missing.length > 0) {
+      return NextResponse.json(missingFilesPayload(resolved.missing), {
+        status: 409,
+      });
+    }
+
+    const body = normalizeRequest(resolved.body);
+    const owner = await getCompilationOwner(body.projectId);
 
     const cacheKey = buildCacheKey(body);
     console.log(
@@ -60,24 +52,25 @@ export async function POST(request: Request) {
       cacheKey?.substring(0, 16) + '...'
     );
 
-    const cachedPayload = getCachedResponse(cacheKey);
-    if (cachedPayload) {
+    const cachedPayload = await getCachedResponse(cacheKey);
+    const cachedResult =
+      cachedPayload &&
+      (await buildResultPayload(cachedPayload, body.delivery, 'hit', cacheKey));
+    if (cachedResult) {
       console.log(
         '🎯 [COMPILE CACHE] ⚡ CACHE HIT - Serving from cache instantly!',
         {
           cacheKey: cacheKey?.substring(0, 16) + '...',
-          pdfSize: cachedPayload.size,
+          pdfSize: cachedResult.size,
           projectId: body.projectId,
         }
       );
-      return NextResponse.json({
-        ...cachedPayload,
-        debugInfo: {
-          ...(cachedPayload.debugInfo ?? {}),
-          cacheStatus: 'hit',
-          cacheKey,
-        },
-      });
+      scheduleCompilationRecord(
+        owner,
+        body,
+        successOutcome(cachedPayload, true)
+      );
+      return NextResponse.json(cachedResult);
     }
 
     console.log('[COMPILE CACHE] CACHE MISS - Compiling with lars-compile', {
@@ -91,59 +84,40 @@ export async function POST(request: Request) {
       COMPILE_SERVICE_URL as string
     );
 
-    if (
-      !compileResult.success ||
-      !compileResult.base64PDF ||
-      !compileResult.pdfBuffer
-    ) {
-      // Include partial PDF in error response if available from lars-compile
-      const errorResponse: Record<string, unknown> = {
-        ...compileResult.error,
-        suggestion:
-          compileResult.error?.suggestion ||
-          'Check your LaTeX syntax and try again',
-      };
-
-      // If a partial PDF was generated despite the error, include it
-      if (compileResult.error?.pdfBuffer) {
-        errorResponse.pdf = compileResult.error.pdfBuffer;
-      }
-
-      return NextResponse.json(errorResponse, { status: 500 });
+    const responsePayload = await buildSuccessPayload(compileResult);
+    if (!responsePayload) {
+      scheduleCompilationRecord(owner, body, errorOutcome(compileResult));
+      return NextResponse.json(
+        await buildErrorPayload(compileResult, body.delivery),
+        { status: 500 }
+      );
     }
 
-    const responsePayload: CompileCachePayload = {
-      pdf: compileResult.base64PDF,
-      size: compileResult.pdfBuffer.length,
-      mimeType: 'application/pdf',
-      debugInfo: {
-        contentLength: compileResult.pdfBuffer.byteLength,
-        base64Length: compileResult.base64PDF.length,
-        requestId: compileResult.requestId,
-        durationMs: compileResult.durationMs,
-        queueMs: compileResult.queueMs,
-        sha256: compileResult.sha256,
-      },
-    };
-
-    storeCachedResponse(cacheKey, responsePayload);
-    const stats = getCacheStats();
+    await storeCachedResponse(cacheKey, responsePayload);
+    scheduleCompilationRecord(
+      owner,
+      body,
+      successOutcome(responsePayload, false, compileResult.pdfBuffer)
+    );
+    const stats = await getCacheStats();
     console.log('💾 [COMPILE CACHE] Stored in cache', {
       cacheKey: cacheKey?.substring(0, 16) + '...',
-      pdfSize: compileResult.pdfBuffer.length,
-      ttlMs: stats.ttlMs,
+      pdfSize: responsePayload.size,
+      backend: stats.backend,
       cacheSize: stats.size,
-      maxSize: stats.maxSize,
+      cacheBytes: stats.bytes,
+      hitRate: stats.hitRate,
     });
 
-    return NextResponse.json({
-      ...responsePayload,
-      debugInfo: {
-        ...(responsePayload.debugInfo ?? {}),
-        cacheStatus: 'miss',
+    return NextResponse.json(
+      await buildResultPayload(
+        responsePayload,
+        body.delivery,
+        'miss',
         cacheKey,
-      },
-    });
+        compileResult.pdfBuffer
+      )
+    );
   } catch (error) {
     console.error('LaTeX compilation error:', error);
     return NextResponse.json(
@@ -0,0 +1,149 @@
+import { NextResponse } from 'next/server';
+import type { CompileRequest } from '../types';
+import {
+  buildCacheKey,
+  getCachedResponse,
+  storeCachedResponse,
+} from '../cache';
+import { validateCompileRequest } from '../validation';
+import { compileLatex } from '../compiler';
+import {
+  COMPILE_SERVICE_URL,
+  buildErrorPayload,
+  buildResultPayload,
+  buildSuccessPayload,
+  missingFilesPayload,
+  normalizeRequest,
+  resolveRequestFiles,
+} from '../handler';
+import {
+  errorOutcome,
+  getCompilationOwner,
+  scheduleCompilationRecord,
+  successOutcome,
+  type CompilationOwner,
+} from '../history';
+import {
+  createSSEHeaders,
+  createSSEStream,
+} from '@/lib/lars-agent/stream-handling';
+
+export const runtime = 'nodejs';
+export const maxDuration = 180;
+
+// Streaming variant of /api/compile-pdf. Emits `status`, `queue`, `pass`
+// and `log` events while the compile runs, then one `result` (same body
+// as the JSON route) or `error` event.
+export async function POST(request: Request) {
+  let body: CompileRequest;
+  let owner: CompilationOwner | null;
+  try {
+    const rawBody: Partial<CompileRequest> = await request.json();
+
+    const requestValidationError = validateCompileRequest(rawBody);
+    if (requestValidationError) {
+      return NextResponse.json(requestValidationError, { status: 400 });
+    }
+
+    const resolved = await resolveRequestFiles(rawBody);
+    if (resolved.missing.length > 0) {
+      return NextResponse.json(missingFilesPayload(resolved.missing), {
+        status: 409,
+      });
+    }
+
+    body = normalizeRequest(resolved.body);
+    owner = await getCompilationOwner(body.projectId);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: 'Invalid request',
+        details: String(error),
+        suggestion: 'Please provide your LaTeX project files',
+      },
+      { status: 400 }
+    );
+  }
+
+  const { stream, writeEvent, cleanup } = createSSEStream();
+
+  (async () => {
+    try {
+      const cacheKey = buildCacheKey(body);
+      const cachedPayload = await getCachedResponse(cacheKey);
+      const cachedResult =
+        cachedPayload &&
+        (await buildResultPayload(
+          cachedPayload,
+          body.delivery,
+          'hit',
+          cacheKey
+        ));
+      if (cachedResult) {
+        console.log('🎯 [COMPILE STREAM] Serving from cache', {
+          cacheKey: cacheKey?.substring(0, 16) + '...',
+          projectId: body.projectId,
+        });
+        writeEvent('result', cachedResult);
+        scheduleCompilationRecord(
+          owner,
+          body,
+          successOutcome(cachedPayload, true)
+        );
+        return;
+      }
+
+      writeEvent('status', { stage: 'queued' });
+
+      const compileResult = await compileLatex(
+        body,
+        COMPILE_SERVICE_URL as string,
+        {
+          signal: request.signal,
+          onProgress: ({ type, ...data }) => writeEvent(type, data),
+        }
+      );
+
+      const responsePayload = await buildSuccessPayload(compileResult);
+      if (!responsePayload) {
+        // A compile the browser cancelled says nothing about the document
+        if (!request.signal.aborted) {
+          scheduleCompilationRecord(owner, body, errorOutcome(compileResult));
+        }
+        writeEvent(
+          'error',
+          await buildErrorPayload(compileResult, body.delivery)
+        );
+        return;
+      }
+
+      await storeCachedResponse(cacheKey, responsePayload);
+      scheduleCompilationRecord(
+        owner,
+        body,
+        successOutcome(responsePayload, false, compileResult.pdfBuffer)
+      );
+      writeEvent(
+        'result',
+        await buildResultPayload(
+          responsePayload,
+          body.delivery,
+          'miss',
+          cacheKey,
+          compileResult.pdfBuffer
+        )
+      );
+    } catch (error) {
+      console.error('LaTeX compilation stream error:', error);
+      writeEvent('error', {
+        error: 'LaTeX compilation failed',
+        details: String(error),
+        suggestion: 'Check your LaTeX syntax and try again',
+      });
+    } finally {
+      cleanup();
+    }
+  })();
+
+  return new Response(stream, { headers: createSSEHeaders() });
+}
@@ -1,37 +1,57 @@
+import type {
+  CompilePassTool,
+  CompileSettings,
+  LatexDiagnostic,
+} from '@/types/compilation';
+import type { ManifestEntry } from '@/lib/utils/file-manifest';
+
 export interface FileEntry {
   path: string;
   content: string;
   encoding?: string; // "base64" for binary files
+  hash?: string; // sha256 of content, when resolved from a manifest
 }
 
 export interface CompileRequest {
-  files: FileEntry[];
+  files: FileEntry[]; // With a manifest, only the contents the server lacks
+  manifest?: ManifestEntry[]; // Every project file by content hash
   projectId?: string; // Project identifier for caching
   lastModifiedFile?: string; // Hint for which file changed
+  settings?: CompileSettings; // Per-project root document and compiler options
+  delivery?: CompileDelivery; // How the PDF is returned, 'base64' by default
   // Legacy single-file support
   content?: string;
 }
 
+// 'base64' embeds the PDF in the JSON response, 'artifact' returns a URL
+// that serves the stored bytes
+export type CompileDelivery = 'base64' | 'artifact';
+
+// What the compile cache stores; the PDF itself lives in the artifact store
 export type CompileCachePayload = {
-  pdf: string;
+  artifactId: string; // sha256 of the PDF
+  synctex?: boolean; // SyncTeX data is stored next to the PDF
   size: number;
   mimeType: string;
+  diagnostics?: LatexDiagnostic[]; // Warnings from a successful compile
   debugInfo?: Record<string, unknown>;
 };
 
-export interface CompileCacheEntry {
-  payload: CompileCachePayload;
-  timestamp: number;
-}
+export type CompileResultPayload = CompileCachePayload & {
+  pdf?: string; // Base64 PDF, 'base64' delivery only
+  pdfUrl?: string; // 'artifact' delivery only
+  synctexUrl?: string; // SyncTeX file for source <-> PDF navigation
+};
 
 export interface CompilerResponse {
   success: boolean;
   pdfBuffer?: Buffer;
-  base64PDF?: string;
+  synctex?: Buffer; // Gzipped SyncTeX file, if the service sent one
   requestId?: string | null;
   durationMs?: number | null;
   queueMs?: number | null;
   sha256?: string | null;
+  log?: string;
   error?: {
     error: string;
     details: string;
@@ -46,3 +66,9 @@ export interface CompilerResponse {
   };
 }
 
+// Progress reported by a compile service that streams its output
+export type CompileProgressEvent =
+  | { type: 'queue'; position: number | null }
+  | { type: 'pass'; pass: number; tool: CompilePassTool }
+  | { type: 'log'; lines: string[] };
+
@@ -6,23 +6,48 @@ export interface ValidationError {
   suggestion: string;
 }
 
+const SHA256_HEX = /^[a-f0-9]{64}$/;
+
 /**
  * Validates the compile request
  */
 export function validateCompileRequest(body: Partial<CompileRequest>): ValidationError | null {
-  const { files, content } = body;
+  const { files, content, manifest, delivery } = body;
+
+  if (delivery !== undefined && delivery !== 'base64' && delivery !== 'artifact') {
+    return {
+      error: 'Invalid request',
+      details: `Unknown delivery mode: ${String(delivery)}`,
+      suggestion: "Use 'base64' or 'artifact'",
+    };
+  }
 
   if (files && Array.isArray(files) && files.length > 0) {
     return null;
   }
 
+  // Files listed by hash; their contents may already be on the server
+  if (manifest && Array.isArray(manifest) && manifest.length > 0) {
+    const invalid = manifest.find(
+      (entry) => typeof entry?.path !== 'string' || !SHA256_HEX.test(String(entry?.hash))
+    );
+    if (invalid) {
+      return {
+        error: 'Invalid request',
+        details: 'Every manifest entry needs a path and a sha256 hash',
+        suggestion: 'Reload the editor and compile again',
+      };
+    }
+    return null;
+  }
+
   if (typeof content === 'string' && content.trim().length > 0) {
     return null;
   }
 
   return {
     error: 'Invalid request',
-    details: 'Must provide a files array with at least one entry or legacy content string',
+    details: 'Must provide a files array or manifest with at least one entry, or legacy content string',
     suggestion: 'Please provide your LaTeX project files',
   };
 }
@@ -0,0 +1,294 @@
+import type { CompileRequest, FileEntry } from '@/app/api/compile-pdf/types';
+import { compileLatex } from '@/app/api/compile-pdf/compiler';
+import {
+  applyLineEdits,
+  isFileEdit,
+  type LineEdit,
+} from '@/lib/lars-agent/line-edits';
+import {
+  formatDiagnostic,
+  matchDiagnosticFile,
+  parseLatexLog,
+} from '@/lib/utils/latex-log';
+import { readSSEStream } from '@/lib/utils/sse';
+import type {
+  CompileRepairAttempt,
+  CompileRepairOutcome,
+  CompileRepairResult,
+  LatexDiagnostic,
+} from '@/types/compilation';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_ATTEMPTS_LIMIT = 5;
+
+// Remaining errors shown per attempt and passed back to the agent
+const MAX_REPORTED_ERRORS = 10;
+
+export const MAX_REPAIR_ATTEMPTS = Math.min(
+  Math.max(
+    Number.parseInt(process.env.COMPILE_REPAIR_MAX_ATTEMPTS ?? '', 10) ||
+      DEFAULT_MAX_ATTEMPTS,
+    1
+  ),
+  MAX_ATTEMPTS_LIMIT
+);
+
+export interface CompileRepairError {
+  message: string;
+  log?: string;
+  diagnostics?: LatexDiagnostic[];
+}
+
+export interface CompileRepairOptions {
+  agentServiceUrl: string;
+  compileServiceUrl: string;
+  currentFilePath?: string | null;
+  provider?: string;
+  maxAttempts?: number;
+  writeEvent: (event: string, data: unknown) => void;
+  signal?: AbortSignal;
+}
+
+interface PreviousAttempt {
+  attempt: number;
+  explanations: string[];
+  errors: string[];
+}
+
+interface AgentProposal {
+  edits: LineEdit[];
+  text: string;
+}
+
+function errorsOf(diagnostics: LatexDiagnostic[]): LatexDiagnostic[] {
+  return diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+}
+
+function isTextFile(file: FileEntry): boolean {
+  return file.encoding !== 'base64';
+}
+
+/**
+ * Asks the agent service, in repair mode, for edits that fix the error.
+ * Edits refer to the files as they are, never to an earlier attempt.
+ */
+async function requestRepairEdits(
+  body: CompileRequest,
+  error: CompileRepairError,
+  diagnostics: LatexDiagnostic[],
+  focusPath: string,
+  previousAttempts: PreviousAttempt[],
+  options: CompileRepairOptions
+): Promise<AgentProposal> {
+  const textFiles = body.files.filter(isTextFile);
+  const focusFile = textFiles.find((file) => file.path === focusPath);
+
+  const response = await fetch(options.agentServiceUrl, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      accept: 'text/event-stream',
+    },
+    body: JSON.stringify({
+      mode: 'repair',
+      fileContent: focusFile?.content ?? '',
+      currentFilePath: focusPath,
+      projectFiles: textFiles.map(({ path, content }) => ({ path, content })),
+      projectId: body.projectId,
+      provider: options.provider,
+      compileError: {
+        message: error.message,
+        diagnostics,
+        log: error.log,
+        previousAttempts,
+      },
+    }),
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Agent service failed with status ${response.status}`);
+  }
+
+  const edits: LineEdit[] = [];
+  let text = '';
+  let failure: string | null = null;
+
+  await readSSEStream(response.body, (event, data) => {
+    const payload = (data ?? {}) as Record<string, unknown>;
+    if (event === 'edits' && Array.isArray(data)) {
+      edits.push(...(data as LineEdit[]));
+    } else if (
+      event === 'assistant_partial' &&
+      typeof payload.text === 'string'
+    ) {
+      text += payload.text;
+    } else if (event === 'done' && typeof payload.text === 'string') {
+      text = payload.text;
+    } else if (event === 'error') {
+      failure =
+        typeof payload.message === 'string' ? payload.message : 'Agent error';
+    }
+  });
+
+  // An error after edits were proposed still leaves a usable proposal
+  const agentError = failure as string | null;
+  if (agentError && edits.length === 0) {
+    throw new Error(agentError);
+  }
+
+  return {
+    edits: edits.filter((edit) => !isFileEdit(edit)),
+    text: text.trim(),
+  };
+}
+
+/**
+ * The project with a proposal applied; edits for files that do not exist
+ * are dropped
+ */
+function applyProposal(files: FileEntry[], edits: LineEdit[]): FileEntry[] {
+  return files.map((file) => {
+    const fileEdits = edits.filter((edit) => edit.filePath === file.path);
+    if (fileEdits.length === 0 || !isTextFile(file)) return file;
+    // A hash from a manifest no longer matches the edited content
+    return {
+      ...file,
+      content: applyLineEdits(file.content, fileEdits),
+      hash: undefined,
+    };
+  });
+}
+
+function classify(
+  errors: number,
+  baselineErrors: number
+): CompileRepairOutcome {
+  if (errors === 0) return 'resolved';
+  if (errors < baselineErrors) return 'improved';
+  return errors === baselineErrors ? 'unchanged' : 'worse';
+}
+
+/**
+ * Compile repair loop: the agent proposes edits for a failed compile, each
+ * proposal is compiled in isolation, and the errors that remain are fed
+ * into the next attempt. Only the attempt with the fewest errors is
+ * returned, and only if it has fewer than the original compile. Progress
+ * is reported as `attempt` events.
+ */
+export async function runCompileRepair(
+  body: CompileRequest,
+  error: CompileRepairError,
+  options: CompileRepairOptions
+): Promise<CompileRepairResult> {
+  const { writeEvent, signal } = options;
+  const maxAttempts = options.maxAttempts ?? MAX_REPAIR_ATTEMPTS;
+
+  const diagnostics = error.diagnostics?.length
+    ? error.diagnostics
+    : parseLatexLog(error.log);
+  // A compile that failed without a parsable error still counts as one
+  const baselineErrors = Math.max(errorsOf(diagnostics).length, 1);
+
+  // Show the agent the file of the first error, or the root document
+  const paths = body.files.filter(isTextFile).map((file) => file.path);
+  const firstError = errorsOf(diagnostics).find(
+    (diagnostic) => diagnostic.file
+  );
+  const focusPath =
+    (firstError?.file && matchDiagnosticFile(firstError.file, paths)) ||
+    options.currentFilePath ||
+    body.settings?.rootFile ||
+    paths[0];
+
+  const previousAttempts: PreviousAttempt[] = [];
+  let best: { attempt: number; edits: LineEdit[]; errors: number } | null =
+    null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (signal?.aborted) break;
+
+    const report = (update: Omit<CompileRepairAttempt, 'attempt'>) =>
+      writeEvent('attempt', { attempt, ...update });
+
+    report({ stage: 'proposing' });
+    const proposal = await requestRepairEdits(
+      body,
+      error,
+      diagnostics,
+      focusPath,
+      previousAttempts,
+      options
+    );
+
+    if (proposal.edits.length === 0) {
+      // The agent found nothing to change; asking again will not help
+      report({
+        stage: 'done',
+        editCount: 0,
+        outcome: 'no_edits',
+        summary: proposal.text,
+      });
+      break;
+    }
+
+    report({ stage: 'compiling', editCount: proposal.edits.length });
+    const compileResult = await compileLatex(
+      { ...body, files: applyProposal(body.files, proposal.edits) },
+      options.compileServiceUrl,
+      { signal }
+    );
+    if (signal?.aborted) break;
+
+    const log = compileResult.success
+      ? compileResult.log
+      : compileResult.error?.log;
+    const remaining = errorsOf(parseLatexLog(log));
+    const explanations = proposal.edits
+      .map((edit) => edit.explanation)
+      .filter((explanation): explanation is string => !!explanation);
+
+    // Without a log the service failed, not the candidate
+    if (!compileResult.success && !log) {
+      report({
+        stage: 'done',
+        editCount: proposal.edits.length,
+        outcome: 'failed',
+        summary: compileResult.error?.error,
+      });
+      continue;
+    }
+
+    const errors = compileResult.success
+      ? remaining.length
+      : Math.max(remaining.length, 1);
+    const outcome = classify(errors, baselineErrors);
+    report({
+      stage: 'done',
+      editCount: proposal.edits.length,
+      errors,
+      outcome,
+      diagnostics: remaining.slice(0, MAX_REPORTED_ERRORS),
+      summary: proposal.text,
+    });
+
+    if (errors < (best?.errors ?? baselineErrors)) {
+      best = { attempt, edits: proposal.edits, errors };
+    }
+    if (errors === 0) break;
+
+    previousAttempts.push({
+      attempt,
+      explanations,
+      errors: remaining.slice(0, MAX_REPORTED_ERRORS).map(formatDiagnostic),
+    });
+  }
+
+  return {
+    resolved: best?.errors === 0,
+    baselineErrors,
+    errors: best?.errors ?? baselineErrors,
+    attempt: best?.attempt ?? null,
+    edits: best?.edits ?? [],
+  };
+}
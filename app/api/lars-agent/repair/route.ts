@@ -0,0 +1,149 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import type { CompileRequest } from '@/app/api/compile-pdf/types';
+import { validateCompileRequest } from '@/app/api/compile-pdf/validation';
+import {
+  COMPILE_SERVICE_URL,
+  missingFilesPayload,
+  normalizeRequest,
+  resolveRequestFiles,
+} from '@/app/api/compile-pdf/handler';
+import {
+  createSSEHeaders,
+  createSSEStream,
+} from '@/lib/lars-agent/stream-handling';
+import {
+  MAX_REPAIR_ATTEMPTS,
+  runCompileRepair,
+  type CompileRepairError,
+} from './repair-loop';
+
+export const runtime = 'nodejs';
+export const maxDuration = 600;
+
+interface RepairRequest extends Partial<CompileRequest> {
+  error?: Partial<CompileRepairError>;
+  currentFilePath?: string | null;
+  provider?: string;
+}
+
+// Repairs a failed compile. Emits `status`, then `attempt` events as the
+// agent proposes edits and each proposal is compiled, then one `result`
+// with the edits that reduced the errors (empty if none did) or `error`.
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json(
+      { error: 'Unauthorized. Please log in to use AI features.' },
+      { status: 401 }
+    );
+  }
+
+  const agentServiceUrl = process.env.AGENT_SERVICE_URL;
+  if (!agentServiceUrl || !COMPILE_SERVICE_URL) {
+    console.error(
+      '[Compile Repair] AGENT_SERVICE_URL or the compile service URL is not configured'
+    );
+    return NextResponse.json(
+      {
+        error: 'Compile repair unavailable',
+        details: 'The agent or compile service is not configured',
+      },
+      { status: 503 }
+    );
+  }
+
+  let body: CompileRequest;
+  let repairError: CompileRepairError;
+  let rawBody: RepairRequest;
+  try {
+    rawBody = await request.json();
+
+    if (typeof rawBody.error?.message !== 'string') {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: 'The compile error to repair is missing',
+          suggestion: 'Compile the project and try again',
+        },
+        { status: 400 }
+      );
+    }
+    repairError = {
+      message: rawBody.error.message,
+      log:
+        typeof rawBody.error.log === 'string' ? rawBody.error.log : undefined,
+      diagnostics: Array.isArray(rawBody.error.diagnostics)
+        ? rawBody.error.diagnostics
+        : undefined,
+    };
+
+    const requestValidationError = validateCompileRequest(rawBody);
+    if (requestValidationError) {
+      return NextResponse.json(requestValidationError, { status: 400 });
+    }
+
+    const resolved = await resolveRequestFiles(rawBody);
+    if (resolved.missing.length > 0) {
+      return NextResponse.json(missingFilesPayload(resolved.missing), {
+        status: 409,
+      });
+    }
+
+    body = normalizeRequest(resolved.body);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: 'Invalid request',
+        details: String(error),
+        suggestion: 'Please provide your LaTeX project files',
+      },
+      { status: 400 }
+    );
+  }
+
+  const { stream, writeEvent, cleanup } = createSSEStream();
+
+  (async () => {
+    try {
+      writeEvent('status', {
+        state: 'started',
+        maxAttempts: MAX_REPAIR_ATTEMPTS,
+      });
+
+      const result = await runCompileRepair(body, repairError, {
+        agentServiceUrl,
+        compileServiceUrl: COMPILE_SERVICE_URL as string,
+        currentFilePath:
+          typeof rawBody.currentFilePath === 'string'
+            ? rawBody.currentFilePath
+            : null,
+        provider:
+          typeof rawBody.provider === 'string' ? rawBody.provider : undefined,
+        writeEvent,
+        signal: request.signal,
+      });
+
+      if (request.signal.aborted) {
+        writeEvent('cancelled', {});
+        return;
+      }
+      writeEvent('result', result);
+    } catch (error) {
+      if (request.signal.aborted) return;
+      console.error('[Compile Repair] Error:', error);
+      writeEvent('error', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      cleanup();
+    }
+  })();
+
+  return new Response(stream, { headers: createSSEHeaders() });
+}
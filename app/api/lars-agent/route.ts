@@ -45,6 +45,9 @@ export async function POST(request: Request) {
         accept: 'text/event-stream',
       },
       body: JSON.stringify(body),
+      // Closes the agent connection when the browser aborts, which cancels
+      // the agent loop on the server
+      signal: request.signal,
     });
 
     if (!res.ok || !res.body) {
@@ -0,0 +1,91 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { findChatSession } from '../../../sessions';
+import { sanitizeEdits, sanitizeFileChanges } from '../../../validation';
+
+// Record which of a message's proposed edits the user accepted, and the file
+// changes reverting them restores
+export async function PATCH(
+  request: NextRequest,
+  {
+    params,
+  }: {
+    params: Promise<{
+      projectId: string;
+      sessionId: string;
+      messageId: string;
+    }>;
+  }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId, sessionId, messageId } = await params;
+    const body = await request.json().catch(() => null);
+    const hasAcceptedEdits = Array.isArray(body?.acceptedEdits);
+    const hasFileChanges = Array.isArray(body?.fileChanges);
+    if (!hasAcceptedEdits && !hasFileChanges) {
+      return NextResponse.json(
+        { error: 'acceptedEdits or fileChanges must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const session = await findChatSession(
+      supabase,
+      projectId,
+      sessionId,
+      user.id
+    );
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Chat session not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: updated, error } =
+      await // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (supabase.from('chat_messages') as any)
+        .update({
+          ...(hasAcceptedEdits && {
+            accepted_edits: sanitizeEdits(body.acceptedEdits),
+          }),
+          ...(hasFileChanges && {
+            file_changes: sanitizeFileChanges(body.fileChanges),
+          }),
+        })
+        .eq('id', messageId)
+        .eq('session_id', sessionId)
+        .select('id');
+
+    if (error) {
+      console.error('Error updating chat message:', error);
+      return NextResponse.json(
+        { error: 'Failed to update chat message' },
+        { status: 500 }
+      );
+    }
+    if (!updated?.length) {
+      return NextResponse.json(
+        { error: 'Chat message not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating chat message:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
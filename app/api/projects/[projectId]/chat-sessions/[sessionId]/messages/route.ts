@@ -0,0 +1,83 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { findChatSession, toStoredMessage } from '../../sessions';
+import { parseChatMessages } from '../../validation';
+
+// Append messages (with their proposed/accepted edits) to a session
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; sessionId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId, sessionId } = await params;
+    const parsed = parseChatMessages(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const session = await findChatSession(
+      supabase,
+      projectId,
+      sessionId,
+      user.id
+    );
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Chat session not found' },
+        { status: 404 }
+      );
+    }
+
+    // keep insertion order stable when rows share a timestamp
+    const baseTime = Date.now();
+    const rows = parsed.messages.map((message, index) => ({
+      ...(message.id && { id: message.id }),
+      session_id: sessionId,
+      role: message.role,
+      content: message.content,
+      proposed_edits: message.proposedEdits ?? [],
+      accepted_edits: message.acceptedEdits ?? [],
+      file_changes: message.fileChanges ?? [],
+      context: message.context ?? null,
+      created_at: new Date(baseTime + index).toISOString(),
+    }));
+
+    const { data: inserted, error } =
+      await // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (supabase.from('chat_messages') as any).insert(rows).select('*');
+
+    if (error) {
+      console.error('Error saving chat messages:', error);
+      return NextResponse.json(
+        { error: 'Failed to save chat messages' },
+        { status: 500 }
+      );
+    }
+
+    // bump the session so it sorts first in the history list
+    await // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (supabase.from('chat_sessions') as any)
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', sessionId);
+
+    return NextResponse.json(
+      { messages: (inserted ?? []).map(toStoredMessage) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error saving chat messages:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
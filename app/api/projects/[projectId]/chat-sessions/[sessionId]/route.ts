@@ -0,0 +1,160 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { findChatSession, toStoredMessage } from '../sessions';
+import { normalizeTitle } from '../validation';
+
+type SessionParams = {
+  params: Promise<{ projectId: string; sessionId: string }>;
+};
+
+// Resume a session: the session with all of its messages
+export async function GET(request: NextRequest, { params }: SessionParams) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId, sessionId } = await params;
+    const session = await findChatSession(
+      supabase,
+      projectId,
+      sessionId,
+      user.id
+    );
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Chat session not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: rows, error } = await supabase
+      .from('chat_messages')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading chat messages:', error);
+      return NextResponse.json(
+        { error: 'Failed to load chat messages' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      session,
+      messages: (rows ?? []).map(toStoredMessage),
+    });
+  } catch (error) {
+    console.error('Error loading chat session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename a session
+export async function PATCH(request: NextRequest, { params }: SessionParams) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId, sessionId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const title = normalizeTitle(body?.title);
+    if (!title) {
+      return NextResponse.json({ error: 'Title is required' }, { status: 400 });
+    }
+
+    const { data: session, error } =
+      await // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (supabase.from('chat_sessions') as any)
+        .update({ title })
+        .eq('id', sessionId)
+        .eq('project_id', projectId)
+        .eq('user_id', user.id)
+        .select('*')
+        .maybeSingle();
+
+    if (error) {
+      console.error('Error renaming chat session:', error);
+      return NextResponse.json(
+        { error: 'Failed to rename chat session' },
+        { status: 500 }
+      );
+    }
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Chat session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Error renaming chat session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a session and its messages
+export async function DELETE(request: NextRequest, { params }: SessionParams) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId, sessionId } = await params;
+
+    const { data: deleted, error } = await supabase
+      .from('chat_sessions')
+      .delete()
+      .eq('id', sessionId)
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting chat session:', error);
+      return NextResponse.json(
+        { error: 'Failed to delete chat session' },
+        { status: 500 }
+      );
+    }
+    if (!deleted?.length) {
+      return NextResponse.json(
+        { error: 'Chat session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting chat session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
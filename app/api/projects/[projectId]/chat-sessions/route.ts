@@ -0,0 +1,89 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeTitle } from './validation';
+
+// List the user's chat sessions for a project, most recent first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+
+    const { data: sessions, error } = await supabase
+      .from('chat_sessions')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error listing chat sessions:', error);
+      return NextResponse.json(
+        { error: 'Failed to list chat sessions' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ sessions: sessions ?? [] });
+  } catch (error) {
+    console.error('Error listing chat sessions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Start a new chat session
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const title = normalizeTitle(body?.title) ?? 'New conversation';
+
+    const { data: session, error } =
+      await // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (supabase.from('chat_sessions') as any)
+        .insert({ project_id: projectId, user_id: user.id, title })
+        .select('*')
+        .single();
+
+    if (error) {
+      console.error('Error creating chat session:', error);
+      return NextResponse.json(
+        { error: 'Failed to create chat session' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ session }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating chat session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { createClient } from '@/lib/supabase/server';
+import type { ChatSession, StoredChatMessage } from '@/types/chat';
+import type { Tables } from '@/database.types';
+import {
+  sanitizeEdits,
+  sanitizeFileChanges,
+  sanitizeMessageContext,
+} from './validation';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Load a chat session that belongs to the user and project
+ * @returns The session, or null if it does not exist or is not theirs
+ */
+export async function findChatSession(
+  supabase: ServerClient,
+  projectId: string,
+  sessionId: string,
+  userId: string
+): Promise<ChatSession | null> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading chat session:', error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Map a chat_messages row to the typed client shape
+ */
+export function toStoredMessage(
+  row: Tables<'chat_messages'>
+): StoredChatMessage {
+  return {
+    id: row.id,
+    session_id: row.session_id,
+    role: row.role === 'user' ? 'user' : 'assistant',
+    content: row.content,
+    proposed_edits: sanitizeEdits(row.proposed_edits),
+    accepted_edits: sanitizeEdits(row.accepted_edits),
+    file_changes: sanitizeFileChanges(row.file_changes),
+    context: sanitizeMessageContext(row.context) ?? null,
+    created_at: row.created_at,
+  };
+}
@@ -0,0 +1,178 @@
+import type { ChatMessageContext, ChatMessageInput } from '@/types/chat';
+import type { LineEdit } from '@/lib/lars-agent/line-edits';
+import type { FileChange } from '@/types/edit';
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_MESSAGES_PER_REQUEST = 50;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const EDIT_TYPES = new Set([
+  'insert',
+  'delete',
+  'replace',
+  'create_file',
+  'rename_file',
+  'delete_file',
+]);
+
+const FILE_OPERATIONS = new Set(['create', 'rename', 'delete']);
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+/**
+ * Normalize a session title, or null if it is missing or empty
+ */
+export function normalizeTitle(title: unknown): string | null {
+  if (typeof title !== 'string') return null;
+  const trimmed = title.trim().replace(/\s+/g, ' ');
+  return trimmed ? trimmed.slice(0, MAX_TITLE_LENGTH) : null;
+}
+
+/**
+ * Keep only well-formed edits so the jsonb columns stay readable
+ */
+export function sanitizeEdits(edits: unknown): LineEdit[] {
+  if (!Array.isArray(edits)) return [];
+
+  return edits
+    .filter(
+      (edit): edit is LineEdit =>
+        !!edit &&
+        typeof edit === 'object' &&
+        EDIT_TYPES.has((edit as LineEdit).editType)
+    )
+    .map((edit) => ({
+      editType: edit.editType,
+      ...(typeof edit.content === 'string' && { content: edit.content }),
+      ...(typeof edit.position?.line === 'number' && {
+        position: { line: edit.position.line },
+      }),
+      ...(typeof edit.originalLineCount === 'number' && {
+        originalLineCount: edit.originalLineCount,
+      }),
+      ...(typeof edit.explanation === 'string' && {
+        explanation: edit.explanation,
+      }),
+      ...(typeof edit.filePath === 'string' && { filePath: edit.filePath }),
+      ...(typeof edit.newFilePath === 'string' && {
+        newFilePath: edit.newFilePath,
+      }),
+      ...(typeof edit.originalText === 'string' && {
+        originalText: edit.originalText,
+      }),
+      ...(typeof edit.contextBefore === 'string' && {
+        contextBefore: edit.contextBefore,
+      }),
+      ...(typeof edit.contextAfter === 'string' && {
+        contextAfter: edit.contextAfter,
+      }),
+    }));
+}
+
+/**
+ * Keep only well-formed file changes of an accepted AI change
+ */
+export function sanitizeFileChanges(changes: unknown): FileChange[] {
+  if (!Array.isArray(changes)) return [];
+
+  return changes
+    .filter(
+      (change): change is FileChange =>
+        !!change &&
+        typeof change === 'object' &&
+        typeof change.filePath === 'string' &&
+        typeof change.before === 'string' &&
+        typeof change.after === 'string'
+    )
+    .map((change) => ({
+      filePath: change.filePath,
+      before: change.before,
+      after: change.after,
+      ...(change.editedInBetween === true && { editedInBetween: true }),
+      ...(FILE_OPERATIONS.has(change.operation as string) && {
+        operation: change.operation,
+      }),
+      ...(typeof change.newFilePath === 'string' && {
+        newFilePath: change.newFilePath,
+      }),
+      ...(change.contentUnknown === true && { contentUnknown: true }),
+    }));
+}
+
+/**
+ * Keep the well-formed parts of a user message's context
+ * @returns The context, or undefined when nothing usable is left
+ */
+export function sanitizeMessageContext(
+  context: unknown
+): ChatMessageContext | undefined {
+  if (!context || typeof context !== 'object') return undefined;
+  const { attachments, selection } = context as ChatMessageContext;
+
+  const sanitized: ChatMessageContext = {
+    ...(typeof attachments === 'string' &&
+      attachments.trim() && { attachments }),
+    ...(typeof selection?.text === 'string' &&
+      typeof selection.startLine === 'number' &&
+      typeof selection.endLine === 'number' && {
+        selection: {
+          text: selection.text,
+          ...(typeof selection.filePath === 'string' && {
+            filePath: selection.filePath,
+          }),
+          startLine: selection.startLine,
+          endLine: selection.endLine,
+        },
+      }),
+  };
+  return Object.keys(sanitized).length > 0 ? sanitized : undefined;
+}
+
+/**
+ * Validate the messages sent to POST .../messages
+ * @returns Parsed messages, or an error message
+ */
+export function parseChatMessages(
+  body: unknown
+): { messages: ChatMessageInput[] } | { error: string } {
+  const messages = (body as { messages?: unknown } | null)?.messages;
+
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return { error: 'messages must be a non-empty array' };
+  }
+  if (messages.length > MAX_MESSAGES_PER_REQUEST) {
+    return {
+      error: `At most ${MAX_MESSAGES_PER_REQUEST} messages per request`,
+    };
+  }
+
+  const parsed: ChatMessageInput[] = [];
+  for (const message of messages) {
+    if (
+      !message ||
+      (message.role !== 'user' && message.role !== 'assistant') ||
+      typeof message.content !== 'string'
+    ) {
+      return { error: 'Each message needs a role and string content' };
+    }
+    if (message.id !== undefined && !isUuid(message.id)) {
+      return { error: 'Message ids must be UUIDs' };
+    }
+
+    const context = sanitizeMessageContext(message.context);
+    parsed.push({
+      ...(message.id && { id: message.id }),
+      role: message.role,
+      content: message.content,
+      proposedEdits: sanitizeEdits(message.proposedEdits),
+      acceptedEdits: sanitizeEdits(message.acceptedEdits),
+      fileChanges: sanitizeFileChanges(message.fileChanges),
+      ...(context && { context }),
+    });
+  }
+
+  return { messages: parsed };
+}
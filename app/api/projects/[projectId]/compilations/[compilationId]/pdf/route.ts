@@ -0,0 +1,96 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { Tables } from '@/database.types';
+import { COMPILATIONS_BUCKET } from '@/app/api/compile-pdf/history';
+
+type StoredPdfRow = Pick<
+  Tables<'compilations'>,
+  'pdf_path' | 'pdf_sha256' | 'created_at'
+>;
+
+export const runtime = 'nodejs';
+
+// The PDF of an earlier compile. Shown inline for the preview, or as a
+// download with ?download=1
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; compilationId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId, compilationId } = await params;
+
+    const { data, error } = await supabase
+      .from('compilations')
+      .select('pdf_path, pdf_sha256, created_at')
+      .eq('id', compilationId)
+      .eq('project_id', projectId)
+      .maybeSingle();
+    const compilation = data as StoredPdfRow | null;
+
+    if (error) {
+      console.error('Error loading compilation:', error);
+      return NextResponse.json(
+        { error: 'Failed to load compilation' },
+        { status: 500 }
+      );
+    }
+    if (!compilation?.pdf_path) {
+      return NextResponse.json(
+        { error: 'No PDF stored for this compilation' },
+        { status: 404 }
+      );
+    }
+
+    // Stored PDFs are addressed by their sha256 and never change
+    const etag = `"${compilation.pdf_sha256}"`;
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (compilation.pdf_sha256 && ifNoneMatch === etag) {
+      return new Response(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    const { data: pdf, error: downloadError } = await supabase.storage
+      .from(COMPILATIONS_BUCKET)
+      .download(compilation.pdf_path);
+    if (downloadError || !pdf) {
+      console.error('Error downloading compiled PDF:', downloadError);
+      return NextResponse.json(
+        { error: 'Compiled PDF not found' },
+        { status: 404 }
+      );
+    }
+
+    const bytes = new Uint8Array(await pdf.arrayBuffer());
+    const stamp = (compilation.created_at ?? '')
+      .slice(0, 19)
+      .replace(/[:T]/g, '-');
+    const disposition =
+      request.nextUrl.searchParams.get('download') === '1'
+        ? 'attachment'
+        : 'inline';
+
+    return new Response(bytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(bytes.length),
+        'Content-Disposition': `${disposition}; filename="build-${stamp || compilationId}.pdf"`,
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        ...(compilation.pdf_sha256 ? { ETag: etag } : {}),
+      },
+    });
+  } catch (error) {
+    console.error('Error serving compiled PDF:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
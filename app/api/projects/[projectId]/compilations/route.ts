@@ -0,0 +1,56 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { toCompilationRecord } from '@/app/api/compile-pdf/history';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// List the project's compilations, most recent first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const requestedLimit = Number.parseInt(
+      request.nextUrl.searchParams.get('limit') ?? '',
+      10
+    );
+    const limit =
+      requestedLimit > 0 ? Math.min(requestedLimit, MAX_LIMIT) : DEFAULT_LIMIT;
+
+    const { data: rows, error } = await supabase
+      .from('compilations')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error listing compilations:', error);
+      return NextResponse.json(
+        { error: 'Failed to list compilations' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      compilations: (rows ?? []).map(toCompilationRecord),
+    });
+  } catch (error) {
+    console.error('Error listing compilations:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { Tables } from '@/database.types';
+import {
+  isValidRootFile,
+  parseCompileSettings,
+} from '@/lib/utils/compile-settings';
+
+// Compile settings live in documents.compile_settings on the root
+// document's row; the row's filename is the root file, so renames carry over
+type RootDocumentRow = Pick<
+  Tables<'documents'>,
+  'filename' | 'compile_settings'
+>;
+
+// Get the project's compile settings, or null if none were saved
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+
+    const { data: rows, error } =
+      await // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (supabase.from('documents') as any)
+        .select('filename, compile_settings')
+        .eq('project_id', projectId)
+        .not('compile_settings', 'is', null)
+        .order('updated_at', { ascending: false })
+        .limit(1);
+
+    if (error) {
+      console.error('Error loading compile settings:', error);
+      return NextResponse.json(
+        { error: 'Failed to load compile settings' },
+        { status: 500 }
+      );
+    }
+
+    const row = (rows as RootDocumentRow[] | null)?.[0];
+    if (!row) {
+      return NextResponse.json({ settings: null });
+    }
+
+    return NextResponse.json({
+      settings: {
+        ...parseCompileSettings(row.compile_settings),
+        rootFile: row.filename,
+      },
+    });
+  } catch (error) {
+    console.error('Error loading compile settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save the project's compile settings on the root document's row
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const body = await request.json().catch(() => null);
+
+    if (!isValidRootFile(body?.rootFile)) {
+      return NextResponse.json(
+        { error: 'rootFile must be a .tex file in the project' },
+        { status: 400 }
+      );
+    }
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const settings = parseCompileSettings(body);
+    const { rootFile, ...stored } = settings;
+    const now = new Date().toISOString();
+
+    // Only the root document carries settings
+    const { error: clearError } =
+      await // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (supabase.from('documents') as any)
+        .update({ compile_settings: null })
+        .eq('project_id', projectId)
+        .neq('filename', rootFile)
+        .not('compile_settings', 'is', null);
+
+    if (clearError) {
+      console.error('Error clearing compile settings:', clearError);
+      return NextResponse.json(
+        { error: 'Failed to save compile settings' },
+        { status: 500 }
+      );
+    }
+
+    const { data: updated, error: updateError } =
+      await // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (supabase.from('documents') as any)
+        .update({ compile_settings: stored, updated_at: now })
+        .eq('project_id', projectId)
+        .eq('filename', rootFile)
+        .select('id');
+
+    // Files uploaded straight to storage may not have a documents row yet
+    let saveError = updateError;
+    if (!updateError && (!updated || updated.length === 0)) {
+      const { error: insertError } =
+        await // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (supabase.from('documents') as any).insert({
+          owner_id: user.id,
+          project_id: projectId,
+          title: rootFile,
+          filename: rootFile,
+          document_type: 'file',
+          compile_settings: stored,
+        });
+      saveError = insertError;
+    }
+
+    if (saveError) {
+      console.error('Error saving compile settings:', saveError);
+      return NextResponse.json(
+        { error: 'Failed to save compile settings' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Error saving compile settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
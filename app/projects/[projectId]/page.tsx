@@ -7,12 +7,19 @@ import { useEditorState } from '@/hooks/use-editor-state';
 import { useDocumentSave } from '@/hooks/use-document-save';
 import { useTextFormatting } from '@/hooks/use-text-formatting';
 import { useEditorCompilation } from '@/hooks/use-editor-compilation';
+import { useDiagnosticNavigation } from '@/hooks/use-diagnostic-navigation';
+import { useSynctex } from '@/hooks/use-synctex';
+import { useCompileSettings } from '@/hooks/use-compile-settings';
 import { useEditSuggestions } from '@/hooks/use-edit-suggestions';
 import { useEditorInteractions } from '@/hooks/use-editor-interactions';
 import { useEditorKeyboardShortcuts } from '@/hooks/use-editor-keyboard-shortcuts';
 import { useReportInitialization } from '@/hooks/use-report-initialization';
 import { MonacoEditor } from '@/components/editor/monaco-editor';
 import { EditorToolbar } from '@/components/editor/toolbar';
+import { CompileSettingsDialog } from '@/components/editor/compile-settings-dialog';
+import { CompileHistoryDialog } from '@/components/editor/compile-history-dialog';
+import { PdfCompareDialog } from '@/components/editor/pdf-compare-dialog';
+import { EditReviewPanel } from '@/components/editor/edit-review-panel';
 import { SelectionButton } from '@/components/editor/selection-button';
 import { SuggestionActions } from '@/components/editor/suggestion-actions';
 import { LoadingState } from '@/components/editor/loading-state';
@@ -26,6 +33,7 @@ import {
   ResizablePanel,
   ResizableHandle,
 } from '@/components/ui/resizable';
+import { Button } from '@/components/ui/button';
 import { formatCompilationErrorForAI } from '@/lib/utils';
 import { FileActions, useProjectFiles, useSelectedFile } from '@/stores/file';
 import { getProject, getProjectFiles } from '@/lib/requests/project';
@@ -39,6 +47,9 @@ import { ImageViewer } from '@/components/image-viewer';
 import { SimplePDFViewer } from '@/components/simple-pdf-viewer';
 import { ImageUploadModal } from '@/components/editor/image-upload-modal';
 import { useImageUpload } from '@/hooks/use-image-upload';
+import { useCompileRepair } from '@/hooks/use-compile-repair';
+import { useCompileHistory } from '@/hooks/use-compile-history';
+import type { CompilationRecord } from '@/types/compilation';
 import { checkTemplateHasInitConfig } from '@/actions/check-template-init-config';
 import { getSubsectionFiles } from '@/lib/utils/latex-sections';
 import Image from 'next/image';
@@ -88,6 +99,15 @@ export default function ProjectPage() {
   const [imageUploadOpen, setImageUploadOpen] = useState(false);
   const [initializationMode, setInitializationMode] = useState(false);
   const [hasInitConfig, setHasInitConfig] = useState(false);
+  const [compileSettingsOpen, setCompileSettingsOpen] = useState(false);
+  const [compileHistoryOpen, setCompileHistoryOpen] = useState(false);
+  const [pdfCompareOpen, setPdfCompareOpen] = useState(false);
+  // Build compared against the current one, when picked from the history
+  const [compareBaseId, setCompareBaseId] = useState<string | null>(null);
+  // An earlier build shown in the preview instead of the latest PDF
+  const [viewedBuild, setViewedBuild] = useState<CompilationRecord | null>(
+    null
+  );
 
   // check for init config
   useEffect(() => {
@@ -111,6 +131,9 @@ export default function ProjectPage() {
     updateSection,
   } = useReportInitialization(projectId, projectData?.template_id);
 
+  const { compileSettings, saveCompileSettings } =
+    useCompileSettings(projectId);
+
   // cancel any pending auto-save when switching files
   useEffect(() => {
     cancelPendingSave();
@@ -118,31 +141,66 @@ export default function ProjectPage() {
 
   const {
     compiling,
-    pdfData,
+    compileProgress,
+    pdfUrl,
+    synctexUrl,
     compilationError,
+    diagnostics,
     exporting,
     handleCompile,
     handleExportPDF,
     handleExportZIP,
     setCompilationError,
+    buildCompileFiles,
   } = useEditorCompilation({
     content,
     editorRef,
+    compileSettings,
+  });
+
+  const { compilations, isLoadingHistory, historyError, refreshHistory } =
+    useCompileHistory(projectId, compiling);
+
+  // A new compile brings the preview back to the latest build
+  useEffect(() => {
+    if (compiling) setViewedBuild(null);
+  }, [compiling]);
+
+  const { goToDiagnostic, goToSource, revealPendingLine } =
+    useDiagnosticNavigation({
+      content,
+      editorRef,
+    });
+
+  const projectPaths = useMemo(
+    () => (projectFiles ?? []).map((projectFile) => projectFile.file.name),
+    [projectFiles]
+  );
+  const { syncHighlight, goToPdfPoint } = useSynctex({
+    synctexUrl,
+    editor: editorRef.current,
+    monacoInstance: monacoRef.current,
+    currentFilePath: selectedFile?.name || null,
+    projectPaths,
+    onNavigate: goToSource,
   });
 
   const {
     editSuggestions,
     totalPendingCount,
+    allPendingCount,
     handleEditSuggestion,
     handleAcceptEdit,
     handleAcceptAllEdits,
     handleRejectEdit,
     finalizeEdits,
+    review,
   } = useEditSuggestions({
     editor: editorRef.current,
     monacoInstance: monacoRef.current,
     currentFilePath: selectedFile?.name || null,
     projectFiles,
+    projectId,
     cancelPendingSave,
   });
 
@@ -179,6 +237,31 @@ export default function ProjectPage() {
     projectId,
   });
 
+  const { repairing, repairError, attempts, startRepair, cancelRepair } =
+    useCompileRepair({
+      buildCompileFiles,
+      compileSettings,
+      projectId,
+      currentFilePath: selectedFile?.name || null,
+      onSuggestion: handleEditSuggestion,
+      finalizeEdits,
+    });
+  // The attempt history only belongs to the error it was started for
+  const repairAttempts = repairError === compilationError ? attempts : [];
+
+  const handleFixWithAI = useCallback(() => {
+    if (compilationError) startRepair(compilationError);
+  }, [compilationError, startRepair]);
+
+  const handleAskInChat = useCallback(() => {
+    if (!compilationError) return;
+    const errorContext = formatCompilationErrorForAI(compilationError);
+    setTextFromEditor(errorContext);
+    setChatOpen(true);
+    setAutoSendMessage('Fix this error');
+    setCompilationError(null);
+  }, [compilationError, setTextFromEditor, setChatOpen, setCompilationError]);
+
   // wrap image upload to refresh file list after upload
   const handleImageUpload = useCallback(
     async (data: Parameters<typeof uploadImage>[0]) => {
@@ -235,6 +318,7 @@ export default function ProjectPage() {
     editorRef.current = editor;
     monacoRef.current = monaco;
     setupEditorListeners(editor);
+    revealPendingLine();
   };
 
   const handleSuggestionFromChat = useCallback(
@@ -302,11 +386,21 @@ export default function ProjectPage() {
               setChatOpen(true);
             }}
             onOpenImageUpload={() => setImageUploadOpen(true)}
+            onOpenCompileSettings={() => setCompileSettingsOpen(true)}
+            onOpenCompileHistory={() => {
+              refreshHistory();
+              setCompileHistoryOpen(true);
+            }}
+            onOpenPdfCompare={() => {
+              refreshHistory();
+              setCompareBaseId(null);
+              setPdfCompareOpen(true);
+            }}
             compiling={compiling}
             exporting={exporting}
             isSaving={isSaving}
             lastSaved={lastSaved}
-            hasPdfData={!!pdfData}
+            hasPdfData={!!pdfUrl}
             showInitializationOption={hasInitConfig}
             isInitializationOpen={initializationMode}
           />
@@ -370,45 +464,64 @@ export default function ProjectPage() {
             <ResizableHandle withHandle />
             <ResizablePanel defaultSize={50} minSize={40}>
               <div className="h-full overflow-hidden border-l border-slate-200">
-                {compilationError && !pdfData ? (
+                {compilationError && !pdfUrl && !viewedBuild ? (
                   <div className="flex h-full items-start justify-center overflow-auto p-4">
                     <CompilationError
                       error={compilationError}
                       variant="overlay"
                       onRetry={handleCompile}
                       onDismiss={() => setCompilationError(null)}
-                      onFixWithAI={() => {
-                        if (!compilationError) return;
-                        const errorContext =
-                          formatCompilationErrorForAI(compilationError);
-                        setTextFromEditor(errorContext);
-                        setChatOpen(true);
-                        setAutoSendMessage('Fix this error');
-                        setCompilationError(null);
-                      }}
+                      onDiagnosticClick={goToDiagnostic}
+                      onFixWithAI={handleFixWithAI}
+                      onAskInChat={handleAskInChat}
+                      onCancelRepair={cancelRepair}
+                      repairing={repairing}
+                      repairAttempts={repairAttempts}
                       className="w-full max-w-4xl"
                     />
                   </div>
                 ) : (
-                  <PDFViewer
-                    pdfData={pdfData}
-                    isLoading={compiling}
-                    compilationError={compilationError}
-                    onRetryCompile={handleCompile}
-                    onDismissError={() => setCompilationError(null)}
-                    onFixWithAI={
-                      compilationError
-                        ? () => {
-                            const errorContext =
-                              formatCompilationErrorForAI(compilationError);
-                            setTextFromEditor(errorContext);
-                            setChatOpen(true);
-                            setAutoSendMessage('Fix this error');
-                            setCompilationError(null);
-                          }
-                        : undefined
-                    }
-                  />
+                  <div className="flex h-full flex-col">
+                    {viewedBuild && (
+                      <div className="flex items-center justify-between gap-2 border-b border-blue-200 bg-blue-50 px-4 py-2 text-sm text-blue-800">
+                        <span className="truncate">
+                          Viewing the build from{' '}
+                          {new Date(viewedBuild.createdAt).toLocaleString()}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setViewedBuild(null)}
+                          className="h-7 shrink-0 text-xs text-blue-700 hover:bg-blue-100"
+                        >
+                          Back to latest
+                        </Button>
+                      </div>
+                    )}
+                    <div className="min-h-0 flex-1">
+                      <PDFViewer
+                        pdfUrl={viewedBuild?.pdfUrl ?? pdfUrl}
+                        isLoading={compiling}
+                        compileProgress={compileProgress}
+                        compilationError={compilationError}
+                        onRetryCompile={handleCompile}
+                        onDismissError={() => setCompilationError(null)}
+                        onFixWithAI={
+                          compilationError ? handleFixWithAI : undefined
+                        }
+                        onAskInChat={
+                          compilationError ? handleAskInChat : undefined
+                        }
+                        onCancelRepair={cancelRepair}
+                        repairing={repairing}
+                        repairAttempts={repairAttempts}
+                        diagnostics={diagnostics}
+                        onDiagnosticClick={goToDiagnostic}
+                        syncHighlight={viewedBuild ? null : syncHighlight}
+                        onSyncClick={viewedBuild ? undefined : goToPdfPoint}
+                      />
+                    </div>
+                  </div>
                 )}
               </div>
             </ResizablePanel>
@@ -429,6 +542,8 @@ export default function ProjectPage() {
             onAcceptAllEdits={handleAcceptAllEdits}
             onFinalizeEdits={finalizeEdits}
             pendingEditCount={totalPendingCount}
+            onReviewEdits={review.openReview}
+            reviewableEditCount={allPendingCount}
             fileContent={content}
             textFromEditor={textFromEditor}
             setTextFromEditor={setTextFromEditor}
@@ -470,6 +585,47 @@ export default function ProjectPage() {
         onSubmit={handleImageUpload}
         subsections={getSubsectionFiles(projectFiles || [])}
       />
+
+      <CompileSettingsDialog
+        open={compileSettingsOpen}
+        onOpenChange={setCompileSettingsOpen}
+        settings={compileSettings}
+        texFiles={projectFileContext.filter((file) =>
+          file.path.endsWith('.tex')
+        )}
+        onSave={saveCompileSettings}
+      />
+
+      <CompileHistoryDialog
+        open={compileHistoryOpen}
+        onOpenChange={setCompileHistoryOpen}
+        compilations={compilations}
+        isLoading={isLoadingHistory}
+        error={historyError}
+        viewingId={viewedBuild?.id ?? null}
+        onView={(compilation) => {
+          setViewedBuild(compilation);
+          setCompileHistoryOpen(false);
+        }}
+        onCompare={(compilation) => {
+          setCompareBaseId(compilation.id);
+          setCompileHistoryOpen(false);
+          setPdfCompareOpen(true);
+        }}
+      />
+
+      <PdfCompareDialog
+        open={pdfCompareOpen}
+        onOpenChange={setPdfCompareOpen}
+        currentPdfUrl={pdfUrl}
+        compilations={compilations}
+        initialBaseId={compareBaseId}
+      />
+
+      <EditReviewPanel
+        review={review}
+        currentFilePath={selectedFile?.name ?? null}
+      />
     </div>
   );
 }
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { History, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ChatSession } from '@/types/chat';
+
+interface ChatHistoryMenuProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  disabled?: boolean;
+  onOpen: () => void;
+  onNewConversation: () => void;
+  onResume: (sessionId: string) => void;
+  onRename: (sessionId: string, title: string) => Promise<void>;
+  onDelete: (sessionId: string) => void;
+}
+
+export function ChatHistoryMenu({
+  sessions,
+  activeSessionId,
+  disabled,
+  onOpen,
+  onNewConversation,
+  onResume,
+  onRename,
+  onDelete,
+}: ChatHistoryMenuProps) {
+  const [renaming, setRenaming] = useState<ChatSession | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (renaming) setRenameValue(renaming.title);
+  }, [renaming]);
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const nextTitle = renameValue.trim();
+    if (!nextTitle) return;
+
+    setIsSaving(true);
+    await onRename(renaming.id, nextTitle);
+    setIsSaving(false);
+    setRenaming(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu onOpenChange={(open) => open && onOpen()}>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={disabled}
+            className="h-8 w-8 rounded-lg p-0 text-blue-600 hover:bg-blue-50 hover:text-blue-800"
+            title="Conversation history"
+            aria-label="Conversation history"
+          >
+            <History size={16} />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuItem onClick={onNewConversation}>
+            <Plus className="mr-2 h-4 w-4" />
+            New conversation
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs text-slate-500">
+            Conversations
+          </DropdownMenuLabel>
+          {sessions.length === 0 ? (
+            <div className="px-2 py-1.5 text-sm text-slate-500">
+              No saved conversations
+            </div>
+          ) : (
+            <div className="max-h-72 overflow-y-auto">
+              {sessions.map((session) => (
+                <DropdownMenuItem
+                  key={session.id}
+                  onClick={() => onResume(session.id)}
+                  className={cn(
+                    'group flex items-center gap-2',
+                    session.id === activeSessionId && 'bg-blue-50'
+                  )}
+                >
+                  <span className="min-w-0 flex-1 truncate">
+                    {session.title}
+                  </span>
+                  <button
+                    type="button"
+                    className="invisible rounded p-0.5 text-slate-500 group-hover:visible hover:text-blue-700"
+                    title="Rename conversation"
+                    aria-label="Rename conversation"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setRenaming(session);
+                    }}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    className="invisible rounded p-0.5 text-slate-500 group-hover:visible hover:text-red-600"
+                    title="Delete conversation"
+                    aria-label="Delete conversation"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDelete(session.id);
+                    }}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </DropdownMenuItem>
+              ))}
+            </div>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={!!renaming}
+        onOpenChange={(open) => {
+          if (!open) setRenaming(null);
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="pr-6">Rename Conversation</DialogTitle>
+            <DialogDescription>
+              Update the title for{' '}
+              <span className="break-all font-semibold">
+                &quot;{renaming?.title}&quot;
+              </span>
+              .
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !isSaving) handleRename();
+            }}
+            placeholder="Conversation title"
+            autoFocus
+          />
+          <DialogFooter>
+            <Button
+              variant="ghost"
+              onClick={() => setRenaming(null)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRename}
+              disabled={isSaving || !renameValue.trim()}
+            >
+              {isSaving ? (
+                <>
+                  <Loader2 className="animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,7 +1,8 @@
 import { type ReactNode } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Loader2 } from 'lucide-react';
+import { Loader2, Undo2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { ChatMessageContext } from '@/types/chat';
 import LatexRenderer from '../latex-renderer';
 import {
   Accordion,
@@ -9,6 +10,7 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from '../ui/accordion';
+import { Button } from '../ui/button';
 import { ProposalIndicator } from './proposal-indicator';
 import { ProposalIndicator as ProposalIndicatorType } from './use-edit-proposals';
 
@@ -16,6 +18,7 @@ interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  context?: ChatMessageContext;
 }
 
 interface ChatMessageProps {
@@ -23,6 +26,9 @@ interface ChatMessageProps {
   isLoading?: boolean;
   proposalIndicator?: ProposalIndicatorType;
   textFromEditor?: string | null;
+  changedFiles?: string[]; // Files changed by this message's accepted edits
+  isReverting?: boolean;
+  onRevertChange?: () => void;
 }
 
 function renderMessageContent(content: string): ReactNode {
@@ -119,11 +125,63 @@ function renderMessageContent(content: string): ReactNode {
   return parts;
 }
 
+function selectionLabel(
+  selection: NonNullable<ChatMessageContext['selection']>
+): string {
+  const lines =
+    selection.endLine > selection.startLine
+      ? `lines ${selection.startLine}-${selection.endLine}`
+      : `line ${selection.startLine}`;
+  return selection.filePath
+    ? `Selection: ${lines} of ${selection.filePath}`
+    : `Selection: ${lines}`;
+}
+
+// The selection and attachment content sent along with a user message
+function MessageContextDetails({ context }: { context: ChatMessageContext }) {
+  const sections = [
+    context.selection && {
+      key: 'selection',
+      label: selectionLabel(context.selection),
+      text: context.selection.text,
+    },
+    context.attachments && {
+      key: 'attachments',
+      label: 'Attachments',
+      text: context.attachments.trim(),
+    },
+  ].filter((section) => !!section);
+
+  return (
+    <Accordion type="multiple" className="mt-2 rounded-md border bg-white/60">
+      {sections.map((section) => (
+        <AccordionItem
+          key={section.key}
+          value={section.key}
+          className="border-b last:border-none"
+        >
+          <AccordionTrigger className="px-3 py-1 text-xs font-medium text-slate-600 hover:no-underline">
+            {section.label}
+          </AccordionTrigger>
+          <AccordionContent className="px-3 pb-2">
+            <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-words text-xs text-slate-700">
+              {section.text}
+            </pre>
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
+
 export function ChatMessageComponent({
   message,
   isLoading,
   proposalIndicator,
   textFromEditor,
+  changedFiles,
+  isReverting,
+  onRevertChange,
 }: ChatMessageProps) {
   return (
     <div
@@ -157,6 +215,10 @@ export function ChatMessageComponent({
           )}
         </div>
 
+        {message.role === 'user' && message.context && (
+          <MessageContextDetails context={message.context} />
+        )}
+
         {message.role === 'assistant' &&
           !textFromEditor &&
           proposalIndicator && (
@@ -164,6 +226,29 @@ export function ChatMessageComponent({
               <ProposalIndicator indicator={proposalIndicator} />
             </div>
           )}
+
+        {message.role === 'assistant' &&
+          changedFiles &&
+          changedFiles.length > 0 &&
+          onRevertChange && (
+            <div className="mt-2 flex items-center justify-end border-t border-blue-100 pt-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onRevertChange}
+                disabled={isReverting}
+                className="h-7 gap-1.5 px-2 text-xs text-slate-600"
+                title={`Restore ${changedFiles.join(', ')}`}
+              >
+                {isReverting ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <Undo2 className="h-3 w-3" />
+                )}
+                Revert this AI change
+              </Button>
+            </div>
+          )}
       </div>
     </div>
   );
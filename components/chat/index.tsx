@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef } from 'react';
 import Image from 'next/image';
+import { v4 as uuid } from 'uuid';
 import { Button } from '@/components/ui/button';
 import {
   Loader2,
@@ -9,11 +10,16 @@ import {
   CheckCheck,
   ChevronsRight,
   ChevronRight,
+  ListChecks,
 } from 'lucide-react';
 import { EditSuggestion } from '@/types/edit';
+import type { ChatMessageContext } from '@/types/chat';
 import { useChatStream } from './use-chat-stream';
 import { useEditProposals } from './use-edit-proposals';
 import { useFileAttachments } from './use-file-attachments';
+import { useChatHistory } from './use-chat-history';
+import { useChangesetRevert } from './use-changeset-revert';
+import { ChatHistoryMenu } from './chat-history-menu';
 import { ChatMessageComponent } from './chat-message';
 import { ChatInput, ChatInputRef } from './chat-input';
 import { EmptyState } from './empty-state';
@@ -28,6 +34,8 @@ interface ChatProps {
   onAcceptAllEdits?: () => void;
   onFinalizeEdits?: () => void;
   pendingEditCount?: number;
+  onReviewEdits?: () => void;
+  reviewableEditCount?: number; // Pending edits across all files
   fileContent: string;
   textFromEditor: string | null;
   setTextFromEditor: (text: string | null) => void;
@@ -55,6 +63,7 @@ interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  context?: ChatMessageContext;
 }
 
 export function Chat({
@@ -64,6 +73,8 @@ export function Chat({
   onAcceptAllEdits,
   onFinalizeEdits,
   pendingEditCount = 0,
+  onReviewEdits,
+  reviewableEditCount = 0,
   fileContent,
   textFromEditor,
   setTextFromEditor,
@@ -161,6 +172,39 @@ export function Chat({
     canAddMore: canAddMoreAttachments,
     isProcessing: isProcessingAttachments,
   } = useFileAttachments();
+  const {
+    sessions,
+    activeSessionId,
+    refreshSessions,
+    resumeSession,
+    resumeLatestSession,
+    startNewSession,
+    trackSuggestions,
+    saveTurn,
+    renameSession,
+    deleteSession,
+    changesets,
+    clearChangeset,
+  } = useChatHistory(projectId);
+  const { revertChangeset, revertingId } = useChangesetRevert(
+    projectId,
+    clearChangeset
+  );
+
+  // resume the latest conversation for this project
+  useEffect(() => {
+    if (!projectId || initializationMode) return;
+    let cancelled = false;
+    resumeLatestSession().then((restored) => {
+      if (!cancelled && restored) setMessages(restored);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Only when the project changes: leaving initialization mode must not
+    // replace the conversation it just had
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
 
   const scrollToBottom = () => {
     if (chatContainerRef.current) {
@@ -243,7 +287,7 @@ export function Chat({
 
     // Show user message immediately (just the text, not the extracted image content)
     const userMsg: ChatMessage = {
-      id: `${Date.now()}-user`,
+      id: uuid(),
       role: 'user',
       content: userDisplayContent,
     };
@@ -272,17 +316,41 @@ export function Chat({
       ? `${trimmed}${attachmentContext}`
       : trimmed;
 
+    // Kept with the message, so a resumed conversation shows what was sent
+    const userContext: ChatMessageContext = {
+      ...(attachmentContext && { attachments: attachmentContext }),
+      ...(textFromEditor &&
+        selectionRange && {
+          selection: {
+            text: textFromEditor,
+            ...(currentFilePath && { filePath: currentFilePath }),
+            startLine: selectionRange.startLineNumber,
+            endLine: selectionRange.endLineNumber,
+          },
+        }),
+    };
+    const sentUserMsg: ChatMessage =
+      Object.keys(userContext).length > 0
+        ? { ...userMsg, context: userContext }
+        : userMsg;
+    if (sentUserMsg !== userMsg) {
+      setMessages((prev) =>
+        prev.map((m) => (m.id === userMsg.id ? sentUserMsg : m))
+      );
+    }
+
     clearProposals();
 
-    const assistantId = `${Date.now()}-assistant`;
+    const assistantId = uuid();
     currentAssistantIdRef.current = assistantId;
+    let assistantContent = '';
 
     try {
       // Create messages array with the actual content for the Agent (including image analysis)
       const messagesForAgent = [
         ...messages, // All previous messages
         { ...userMsg, content: userContentForAgent }, // User message with enhanced content
-      ];
+      ].map(({ id, role, content }) => ({ id, role, content }));
 
       const { response, controller } = await startStream(
         messagesForAgent,
@@ -296,6 +364,7 @@ export function Chat({
         },
         {
           onTextUpdate: (text) => {
+            assistantContent = text;
             setMessages((prev) =>
               prev.map((m) =>
                 m.id === assistantId ? { ...m, content: text } : m
@@ -306,11 +375,12 @@ export function Chat({
           onEdits: (edits) => {
             const suggestions = convertEditsToSuggestions(edits, assistantId);
             if (suggestions.length > 0) {
+              trackSuggestions(assistantId, suggestions);
               onEditSuggestion(suggestions);
             }
           },
           onToolCall: (name, count, violations, progressIncrement) => {
-            if (name === 'propose_edits') {
+            if (name === 'propose_edits' || name === 'propose_file_edits') {
               const violationCount = Array.isArray(violations)
                 ? violations.length
                 : undefined;
@@ -358,6 +428,7 @@ export function Chat({
         const reader = response.body.getReader();
         await parseStream(reader, {
           onTextUpdate: (text) => {
+            assistantContent = text;
             setMessages((prev) =>
               prev.map((m) =>
                 m.id === assistantId ? { ...m, content: text } : m
@@ -368,11 +439,12 @@ export function Chat({
           onEdits: (edits) => {
             const suggestions = convertEditsToSuggestions(edits, assistantId);
             if (suggestions.length > 0) {
+              trackSuggestions(assistantId, suggestions);
               onEditSuggestion(suggestions);
             }
           },
           onToolCall: (name, count, violations) => {
-            if (name === 'propose_edits') {
+            if (name === 'propose_edits' || name === 'propose_file_edits') {
               const violationCount = Array.isArray(violations)
                 ? violations.length
                 : undefined;
@@ -393,6 +465,12 @@ export function Chat({
         } else {
           console.warn('[Chat] onFinalizeEdits is not defined!');
         }
+
+        await saveTurn(sentUserMsg, {
+          id: assistantId,
+          role: 'assistant',
+          content: assistantContent,
+        });
       }
     } catch (err) {
       console.error('LARS Agent API error:', err);
@@ -456,11 +534,26 @@ export function Chat({
 
   const clearHistory = () => {
     setMessages([]);
+    startNewSession();
     setIsInQuestioningMode(false);
     setCurrentQuestionIndex(0);
     setIsGeneratingSuggestions(false);
   };
 
+  const handleResumeSession = async (sessionId: string) => {
+    if (sessionId === activeSessionId) return;
+    const restored = await resumeSession(sessionId);
+    if (restored) {
+      clearProposals();
+      setMessages(restored);
+    }
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    const wasActive = await deleteSession(sessionId);
+    if (wasActive) setMessages([]);
+  };
+
   const handleSkipQuestion = () => {
     if (!isInQuestioningMode) return;
 
@@ -617,7 +710,7 @@ export function Chat({
             }
           },
           onToolCall: (name, count, violations) => {
-            if (name === 'propose_edits') {
+            if (name === 'propose_edits' || name === 'propose_file_edits') {
               const violationCount = Array.isArray(violations)
                 ? violations.length
                 : undefined;
@@ -684,6 +777,23 @@ export function Chat({
               <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
             </div>
           )}
+          {reviewableEditCount > 0 && onReviewEdits && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onReviewEdits}
+              disabled={isLoading}
+              className="h-8 rounded-lg px-2 text-xs"
+              title={
+                isLoading
+                  ? 'Wait for all edits to finish generating'
+                  : 'Review all pending edits by file'
+              }
+            >
+              <ListChecks size={14} className="mr-1" />
+              Review ({reviewableEditCount})
+            </Button>
+          )}
           {pendingEditCount > 1 && onAcceptAllEdits && (
             <Button
               size="sm"
@@ -700,6 +810,18 @@ export function Chat({
               Accept All ({pendingEditCount})
             </Button>
           )}
+          {projectId && !initializationMode && (
+            <ChatHistoryMenu
+              sessions={sessions}
+              activeSessionId={activeSessionId}
+              disabled={isLoading}
+              onOpen={refreshSessions}
+              onNewConversation={clearHistory}
+              onResume={handleResumeSession}
+              onRename={renameSession}
+              onDelete={handleDeleteSession}
+            />
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -740,6 +862,14 @@ export function Chat({
               isLoading={isLoading}
               proposalIndicator={proposalIndicators[message.id]}
               textFromEditor={textFromEditor}
+              changedFiles={changesets[message.id]?.files
+                .filter((file) => !file.contentUnknown)
+                .map((file) => file.filePath)}
+              isReverting={revertingId === message.id}
+              onRevertChange={() => {
+                const changeset = changesets[message.id];
+                if (changeset) void revertChangeset(changeset);
+              }}
             />
           ))}
 
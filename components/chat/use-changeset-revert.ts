@@ -0,0 +1,153 @@
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+import type { AiChangeset } from '@/types/edit';
+import {
+  findRevertConflicts,
+  revertOperation,
+} from '@/lib/lars-agent/changesets';
+import { saveDocument } from '@/lib/requests/document';
+import { FileActions, useFileStore } from '@/stores/file';
+import { useProjectFilesRevalidation } from '@/hooks/use-file-editor';
+import { applyFileEdit } from '@/hooks/use-edit-suggestions/file-operations';
+
+/**
+ * Revert the edits accepted from one assistant message, restoring every file
+ * they touched: created files are deleted, renamed ones moved back and
+ * deleted ones created again. Files edited since are only overwritten after
+ * the user confirms.
+ */
+export function useChangesetRevert(
+  projectId: string | undefined,
+  onReverted: (messageId: string) => void
+) {
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const { revalidate } = useProjectFilesRevalidation(projectId ?? '');
+
+  const revertChangeset = useCallback(
+    async (changeset: AiChangeset, force = false) => {
+      if (!projectId) return;
+
+      const projectFileOf = (filePath: string) =>
+        useFileStore
+          .getState()
+          .projectFiles?.find(
+            (projectFile) =>
+              projectFile.file.name === filePath && projectFile.document
+          );
+      const exists = (filePath: string) =>
+        !!useFileStore
+          .getState()
+          .projectFiles?.some(
+            (projectFile) => projectFile.file.name === filePath
+          );
+
+      const conflicts = findRevertConflicts(
+        changeset.files,
+        (filePath) =>
+          projectFileOf(filePath)?.document?.content ??
+          (exists(filePath) ? '' : null)
+      );
+      if (conflicts.length > 0 && !force) {
+        toast.warning(
+          `${conflicts.join(', ')} changed after this AI change was accepted. Reverting also discards those edits.`,
+          {
+            duration: 10000,
+            action: {
+              label: 'Revert anyway',
+              onClick: () => void revertChangeset(changeset, true),
+            },
+          }
+        );
+        return;
+      }
+
+      setRevertingId(changeset.messageId);
+      const missing: string[] = [];
+      const unsaved: string[] = [];
+      const unrestorable: string[] = [];
+      let movedFiles = false;
+      try {
+        // Last change first, so text edits to a renamed file are undone
+        // before it is moved back
+        for (const file of [...changeset.files].reverse()) {
+          // A deleted file whose path was taken again gets its text back
+          // in place, as for an edit
+          if (
+            file.operation &&
+            !(file.operation === 'delete' && projectFileOf(file.filePath))
+          ) {
+            const operation = revertOperation(file);
+            if (!operation) {
+              unrestorable.push(file.filePath);
+              continue;
+            }
+            if (
+              operation.editType !== 'create_file' &&
+              !exists(operation.filePath ?? '')
+            ) {
+              missing.push(operation.filePath ?? file.filePath);
+              continue;
+            }
+            const applied = await applyFileEdit(
+              {
+                ...operation,
+                id: `revert-${changeset.messageId}`,
+                status: 'pending',
+              },
+              projectId,
+              useFileStore.getState().projectFiles
+            );
+            if (!applied) unsaved.push(file.filePath);
+            movedFiles = true;
+            continue;
+          }
+
+          const projectFile = projectFileOf(file.filePath);
+          if (!projectFile) {
+            missing.push(file.filePath);
+            continue;
+          }
+
+          // The editor follows the store, so an open file updates in place
+          FileActions.updateFileContent(projectFile.file.id, file.before);
+          const result = await saveDocument(
+            projectId,
+            projectFile.file.id,
+            file.before,
+            projectFile.file.name
+          );
+          if (result.success) {
+            FileActions.markFileSaved(projectFile.file.id);
+          } else {
+            unsaved.push(file.filePath);
+          }
+        }
+        if (movedFiles) await revalidate();
+      } finally {
+        setRevertingId(null);
+      }
+
+      onReverted(changeset.messageId);
+      const restored =
+        changeset.files.length - missing.length - unrestorable.length;
+      if (unsaved.length > 0) {
+        toast.error(
+          `Reverted, but ${unsaved.join(', ')} could not be saved. Save manually to keep the revert.`
+        );
+      } else if (missing.length > 0) {
+        toast.warning(
+          `Reverted ${restored} file(s). ${missing.join(', ')} no longer exist(s).`
+        );
+      } else if (unrestorable.length > 0) {
+        toast.warning(
+          `Reverted ${restored} file(s). ${unrestorable.join(', ')} could not be restored; its content was never loaded.`
+        );
+      } else {
+        toast.success(`Reverted the AI change in ${restored} file(s)`);
+      }
+    },
+    [projectId, onReverted, revalidate]
+  );
+
+  return { revertChangeset, revertingId };
+}
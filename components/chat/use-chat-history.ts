@@ -0,0 +1,322 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { AiChangeset, EditSuggestion } from '@/types/edit';
+import type { ChatMessageContext, ChatRole, ChatSession } from '@/types/chat';
+import { LineEdit } from '@/lib/lars-agent/line-edits';
+import { mergeFileChanges } from '@/lib/lars-agent/changesets';
+import {
+  appendChatMessages,
+  createChatSession,
+  deleteChatSession,
+  getChatSession,
+  listChatSessions,
+  renameChatSession,
+  titleFromMessage,
+  updateChatMessage,
+} from '@/lib/requests/chat';
+import {
+  EDITS_ACCEPTED_EVENT,
+  type EditsAcceptedDetail,
+} from '@/hooks/use-edit-suggestions/utils';
+
+export interface HistoryMessage {
+  id: string;
+  role: ChatRole;
+  content: string;
+  context?: ChatMessageContext; // Sent with a user message besides its text
+}
+
+// Strip the client-only suggestion fields before persisting
+function toLineEdit({
+  id,
+  status,
+  original,
+  ...edit
+}: EditSuggestion): LineEdit {
+  void id;
+  void status;
+  void original;
+  return edit;
+}
+
+export function useChatHistory(projectId?: string) {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  // message id -> the file changes its accepted edits made, for reverting
+  const [changesets, setChangesetsState] = useState<
+    Record<string, AiChangeset>
+  >({});
+  // Read when saving, so a turn is stored with its changeset
+  const changesetsRef = useRef<Record<string, AiChangeset>>({});
+
+  const activeSessionIdRef = useRef<string | null>(null);
+  // suggestion id -> the assistant message that proposed it
+  const suggestionMessageRef = useRef<
+    Record<string, { messageId: string; edit: LineEdit }>
+  >({});
+  const proposedEditsRef = useRef<Record<string, LineEdit[]>>({});
+  const acceptedEditsRef = useRef<Record<string, LineEdit[]>>({});
+  // message id -> session it was saved in (unsaved messages are absent)
+  const savedMessagesRef = useRef<Record<string, string>>({});
+
+  const setChangesets = useCallback(
+    (
+      update: (prev: Record<string, AiChangeset>) => Record<string, AiChangeset>
+    ) => {
+      changesetsRef.current = update(changesetsRef.current);
+      setChangesetsState(changesetsRef.current);
+    },
+    []
+  );
+
+  const selectSession = useCallback((sessionId: string | null) => {
+    activeSessionIdRef.current = sessionId;
+    setActiveSessionId(sessionId);
+  }, []);
+
+  const refreshSessions = useCallback(async () => {
+    if (!projectId) return [];
+    try {
+      const list = await listChatSessions(projectId);
+      setSessions(list);
+      return list;
+    } catch (error) {
+      console.error('[ChatHistory] Failed to load sessions:', error);
+      return [];
+    }
+  }, [projectId]);
+
+  const resumeSession = useCallback(
+    async (sessionId: string): Promise<HistoryMessage[] | null> => {
+      if (!projectId) return null;
+      setIsLoadingHistory(true);
+      try {
+        const { messages } = await getChatSession(projectId, sessionId);
+        const loaded: Record<string, AiChangeset> = {};
+        for (const message of messages) {
+          savedMessagesRef.current[message.id] = sessionId;
+          proposedEditsRef.current[message.id] = message.proposed_edits;
+          acceptedEditsRef.current[message.id] = message.accepted_edits;
+          if (message.file_changes.length > 0) {
+            loaded[message.id] = {
+              messageId: message.id,
+              files: message.file_changes,
+            };
+          }
+        }
+        setChangesets(() => loaded);
+        selectSession(sessionId);
+        return messages.map(({ id, role, content, context }) => ({
+          id,
+          role,
+          content,
+          ...(context && { context }),
+        }));
+      } catch (error) {
+        console.error('[ChatHistory] Failed to resume session:', error);
+        toast.error('Failed to load conversation');
+        return null;
+      } finally {
+        setIsLoadingHistory(false);
+      }
+    },
+    [projectId, selectSession, setChangesets]
+  );
+
+  // Resume the most recently active conversation, if any
+  const resumeLatestSession = useCallback(async () => {
+    const list = await refreshSessions();
+    if (list.length === 0) return null;
+    return resumeSession(list[0].id);
+  }, [refreshSessions, resumeSession]);
+
+  // The next saved turn creates a fresh session
+  const startNewSession = useCallback(() => {
+    selectSession(null);
+  }, [selectSession]);
+
+  const trackSuggestions = useCallback(
+    (messageId: string, suggestions: EditSuggestion[]) => {
+      const edits = suggestions.map(toLineEdit);
+      suggestions.forEach((suggestion, idx) => {
+        suggestionMessageRef.current[suggestion.id] = {
+          messageId,
+          edit: edits[idx],
+        };
+      });
+      proposedEditsRef.current[messageId] = [
+        ...(proposedEditsRef.current[messageId] ?? []),
+        ...edits,
+      ];
+    },
+    []
+  );
+
+  const saveTurn = useCallback(
+    async (userMessage: HistoryMessage, assistantMessage: HistoryMessage) => {
+      if (!projectId) return;
+      try {
+        let sessionId = activeSessionIdRef.current;
+        if (!sessionId) {
+          const session = await createChatSession(
+            projectId,
+            titleFromMessage(userMessage.content)
+          );
+          sessionId = session.id;
+          selectSession(sessionId);
+        }
+
+        await appendChatMessages(
+          projectId,
+          sessionId,
+          [userMessage, assistantMessage].map((message) => ({
+            id: message.id,
+            role: message.role,
+            content: message.content,
+            proposedEdits: proposedEditsRef.current[message.id],
+            acceptedEdits: acceptedEditsRef.current[message.id],
+            fileChanges: changesetsRef.current[message.id]?.files,
+            context: message.context,
+          }))
+        );
+        savedMessagesRef.current[userMessage.id] = sessionId;
+        savedMessagesRef.current[assistantMessage.id] = sessionId;
+        await refreshSessions();
+      } catch (error) {
+        console.error('[ChatHistory] Failed to save messages:', error);
+      }
+    },
+    [projectId, selectSession, refreshSessions]
+  );
+
+  const renameSession = useCallback(
+    async (sessionId: string, title: string) => {
+      if (!projectId) return;
+      try {
+        const updated = await renameChatSession(projectId, sessionId, title);
+        setSessions((prev) =>
+          prev.map((s) => (s.id === sessionId ? updated : s))
+        );
+      } catch (error) {
+        console.error('[ChatHistory] Failed to rename session:', error);
+        toast.error('Failed to rename conversation');
+      }
+    },
+    [projectId]
+  );
+
+  /**
+   * Delete a conversation
+   * @returns true if the deleted conversation was the active one
+   */
+  const deleteSession = useCallback(
+    async (sessionId: string): Promise<boolean> => {
+      if (!projectId) return false;
+      try {
+        await deleteChatSession(projectId, sessionId);
+        setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+        if (activeSessionIdRef.current === sessionId) {
+          selectSession(null);
+          return true;
+        }
+      } catch (error) {
+        console.error('[ChatHistory] Failed to delete session:', error);
+        toast.error('Failed to delete conversation');
+      }
+      return false;
+    },
+    [projectId, selectSession]
+  );
+
+  // Record accepted edits against the message that proposed them
+  useEffect(() => {
+    if (!projectId) return;
+
+    const handleAccepted = (event: Event) => {
+      const { suggestionIds, changes } = (
+        event as CustomEvent<EditsAcceptedDetail>
+      ).detail;
+      const touched = new Set<string>();
+
+      for (const suggestionId of suggestionIds) {
+        const tracked = suggestionMessageRef.current[suggestionId];
+        if (!tracked) continue;
+        acceptedEditsRef.current[tracked.messageId] = [
+          ...(acceptedEditsRef.current[tracked.messageId] ?? []),
+          tracked.edit,
+        ];
+        delete suggestionMessageRef.current[suggestionId];
+        touched.add(tracked.messageId);
+      }
+
+      if (touched.size > 0 && changes.length > 0) {
+        setChangesets((prev) => {
+          const next = { ...prev };
+          for (const messageId of touched) {
+            next[messageId] = {
+              messageId,
+              files: mergeFileChanges(prev[messageId]?.files ?? [], changes),
+            };
+          }
+          return next;
+        });
+      }
+
+      // Unsaved messages pick up their accepted edits when the turn is saved
+      for (const messageId of touched) {
+        const sessionId = savedMessagesRef.current[messageId];
+        if (!sessionId) continue;
+        updateChatMessage(projectId, sessionId, messageId, {
+          acceptedEdits: acceptedEditsRef.current[messageId],
+          fileChanges: changesetsRef.current[messageId]?.files,
+        }).catch((error) => {
+          console.error(
+            '[ChatHistory] Failed to record accepted edits:',
+            error
+          );
+        });
+      }
+    };
+
+    window.addEventListener(EDITS_ACCEPTED_EVENT, handleAccepted);
+    return () =>
+      window.removeEventListener(EDITS_ACCEPTED_EVENT, handleAccepted);
+  }, [projectId, setChangesets]);
+
+  // A reverted change cannot be reverted again
+  const clearChangeset = useCallback(
+    (messageId: string) => {
+      setChangesets((prev) => {
+        const next = { ...prev };
+        delete next[messageId];
+        return next;
+      });
+
+      const sessionId = savedMessagesRef.current[messageId];
+      if (!projectId || !sessionId) return;
+      updateChatMessage(projectId, sessionId, messageId, {
+        fileChanges: [],
+      }).catch((error) => {
+        console.error('[ChatHistory] Failed to clear reverted change:', error);
+      });
+    },
+    [projectId, setChangesets]
+  );
+
+  return {
+    sessions,
+    activeSessionId,
+    isLoadingHistory,
+    refreshSessions,
+    resumeSession,
+    resumeLatestSession,
+    startNewSession,
+    trackSuggestions,
+    saveTurn,
+    renameSession,
+    deleteSession,
+    changesets,
+    clearChangeset,
+  };
+}
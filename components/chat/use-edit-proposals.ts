@@ -166,6 +166,8 @@ export function useEditProposals(fileContent: string) {
           content: e.content,
           lineCount: e.originalLineCount,
           explanation: e.explanation,
+          filePath: e.filePath,
+          newFilePath: e.newFilePath,
         }))
       );
 
@@ -202,7 +204,8 @@ export function useEditProposals(fileContent: string) {
           ...edit,
           id: `${Date.now()}-${editIdCounterRef.current}-${idx}`,
           status: 'pending' as const,
-          original: originalContent,
+          // the server records the covered lines as it saw them
+          original: edit.originalText ?? originalContent,
         };
       });
 
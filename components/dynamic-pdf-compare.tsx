@@ -0,0 +1,567 @@
+'use client';
+
+import '@/lib/promise-polyfill';
+import {
+  ChevronDown,
+  ChevronUp,
+  Columns2,
+  Layers,
+  Loader2,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Page, pdfjs } from 'react-pdf';
+import type { DocumentCallback } from 'react-pdf/dist/esm/shared/types.js';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  usePdfCompare,
+  type ComparedPage,
+  type PageAlignment,
+  type PdfSource,
+} from '@/hooks/use-pdf-compare';
+import { cn } from '@/lib/utils';
+import type { DiffRegion, RasterPage } from '@/lib/utils/pdf-diff';
+
+// init the worker using CDN
+pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 2.0;
+const ZOOM_STEP = 0.1;
+
+type CompareMode = 'side-by-side' | 'overlay';
+
+interface PDFCompareProps {
+  base: PdfSource; // Shown on the left, its own content in red
+  compare: PdfSource; // Shown on the right, its own content in green
+  baseLabel: string;
+  compareLabel: string;
+}
+
+const pageLoader = (
+  <div className="flex items-center justify-center p-4">
+    <Loader2 className="mr-2 h-5 w-5 animate-spin text-blue-500" />
+  </div>
+);
+
+function pairTitle(
+  page: ComparedPage,
+  baseLabel: string,
+  compareLabel: string
+): string {
+  if (page.base === null) {
+    return `Page ${(page.compare ?? 0) + 1} only in ${compareLabel}`;
+  }
+  if (page.compare === null) {
+    return `Page ${page.base + 1} only in ${baseLabel}`;
+  }
+  const pages =
+    page.base === page.compare
+      ? `Page ${page.base + 1}`
+      : `Page ${page.base + 1} ↔ ${page.compare + 1}`;
+  if (page.status === 'pending') return `${pages} · comparing...`;
+  return page.status === 'same' ? `${pages} · no changes` : pages;
+}
+
+function RegionBoxes({
+  regions,
+  tone,
+  activeRegion,
+}: {
+  regions: DiffRegion[];
+  tone: 'removed' | 'added' | 'active';
+  activeRegion: DiffRegion | null;
+}) {
+  return regions.map((region, index) => (
+    <div
+      key={index}
+      className={cn(
+        'pointer-events-none absolute rounded-sm border',
+        tone === 'removed' && 'border-red-500/70 bg-red-400/10',
+        tone === 'added' && 'border-green-600/70 bg-green-400/10',
+        tone === 'active' && 'border-blue-500 bg-blue-400/10',
+        region === activeRegion && 'ring-2 ring-blue-500 ring-offset-1'
+      )}
+      style={{
+        left: `${region.x * 100}%`,
+        top: `${region.y * 100}%`,
+        width: `${region.width * 100}%`,
+        height: `${region.height * 100}%`,
+      }}
+    />
+  ));
+}
+
+// A rendered page of one document, or a gap where the other has a page
+function ComparePage({
+  document,
+  pageIndex,
+  width,
+  missingLabel,
+  tone,
+  page,
+  activeRegion,
+  active,
+}: {
+  document: DocumentCallback;
+  pageIndex: number | null;
+  width: number;
+  missingLabel: string;
+  tone: 'removed' | 'added';
+  page: ComparedPage;
+  activeRegion: DiffRegion | null;
+  active: boolean;
+}) {
+  if (pageIndex === null) {
+    return (
+      <div
+        className="flex aspect-[1/1.414] items-center justify-center rounded border border-dashed border-slate-300 bg-slate-50 text-xs text-slate-400"
+        style={{ width }}
+      >
+        {missingLabel}
+      </div>
+    );
+  }
+
+  const unmatched = page.base === null || page.compare === null;
+  return (
+    <div
+      data-compare-page
+      className={cn(
+        'relative',
+        unmatched &&
+          (tone === 'removed'
+            ? 'ring-2 ring-red-500/70'
+            : 'ring-2 ring-green-600/70'),
+        unmatched && active && 'ring-blue-500'
+      )}
+      style={{ width }}
+    >
+      <Page
+        pdf={document}
+        pageNumber={pageIndex + 1}
+        width={width}
+        className="border border-slate-200 shadow-sm"
+        renderTextLayer={false}
+        renderAnnotationLayer={false}
+        loading={pageLoader}
+      />
+      <RegionBoxes
+        regions={page.diff?.regions ?? []}
+        tone={tone}
+        activeRegion={activeRegion}
+      />
+    </div>
+  );
+}
+
+// Both pages drawn over each other. Rendered once it scrolls into view,
+// since every overlay renders both pages again.
+function OverlayPage({
+  pairIndex,
+  width,
+  renderOverlay,
+  children,
+}: {
+  pairIndex: number;
+  width: number;
+  renderOverlay: (pairIndex: number) => Promise<RasterPage | null>;
+  children?: React.ReactNode;
+}) {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [visible, setVisible] = useState(false);
+  const [drawn, setDrawn] = useState(false);
+
+  useEffect(() => {
+    const element = wrapperRef.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    setDrawn(false);
+
+    renderOverlay(pairIndex)
+      .then((image) => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (cancelled || !image || !canvas || !context) return;
+
+        canvas.width = image.width;
+        canvas.height = image.height;
+        const imageData = context.createImageData(image.width, image.height);
+        imageData.data.set(image.data);
+        context.putImageData(imageData, 0, 0);
+        setDrawn(true);
+      })
+      .catch((error) => {
+        if (!cancelled) console.error('Error drawing page overlay:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, pairIndex, renderOverlay]);
+
+  return (
+    <div
+      ref={wrapperRef}
+      data-compare-page
+      className="relative"
+      style={{ width }}
+    >
+      <canvas
+        ref={canvasRef}
+        className={cn(
+          'h-auto w-full border border-slate-200 shadow-sm',
+          !drawn && 'hidden'
+        )}
+      />
+      {!drawn && (
+        <div className="flex aspect-[1/1.414] items-center justify-center bg-white">
+          <Loader2 className="h-5 w-5 animate-spin text-blue-500" />
+        </div>
+      )}
+      {children}
+    </div>
+  );
+}
+
+function DynamicPDFCompare({
+  base,
+  compare,
+  baseLabel,
+  compareLabel,
+}: PDFCompareProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [alignment, setAlignment] = useState<PageAlignment>('content');
+  const [currentChange, setCurrentChange] = useState<number | null>(null);
+  const [zoom, setZoom] = useState(1.0);
+  const [containerWidth, setContainerWidth] = useState(800);
+
+  const {
+    baseDocument,
+    compareDocument,
+    pages,
+    changes,
+    progress,
+    error,
+    renderOverlay,
+  } = usePdfCompare(base, compare, alignment);
+
+  useEffect(() => {
+    const updateWidth = () => {
+      if (containerRef.current) {
+        setContainerWidth(containerRef.current.clientWidth);
+      }
+    };
+
+    updateWidth();
+    window.addEventListener('resize', updateWidth);
+    return () => window.removeEventListener('resize', updateWidth);
+  }, []);
+
+  // Realigning the pages renumbers the changes
+  useEffect(() => {
+    setCurrentChange(null);
+  }, [alignment, base, compare]);
+
+  const scrollToChange = useCallback(
+    (index: number) => {
+      const change = changes[index];
+      const container = containerRef.current;
+      const row = change && rowRefs.current.get(change.pairIndex);
+      if (!change || !container || !row) return;
+
+      const pageElement =
+        row.querySelector<HTMLElement>('[data-compare-page]') ?? row;
+      const pageTop =
+        pageElement.getBoundingClientRect().top -
+        container.getBoundingClientRect().top +
+        container.scrollTop;
+      const regionTop = (change.region?.y ?? 0) * pageElement.clientHeight;
+      container.scrollTo({
+        top: pageTop + regionTop - container.clientHeight / 3,
+        behavior: 'smooth',
+      });
+    },
+    [changes]
+  );
+
+  function goToChange(offset: number) {
+    if (changes.length === 0) return;
+    const next =
+      currentChange === null
+        ? offset > 0
+          ? 0
+          : changes.length - 1
+        : (currentChange + offset + changes.length) % changes.length;
+    setCurrentChange(next);
+    scrollToChange(next);
+  }
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key !== 'F7') return;
+      e.preventDefault();
+      goToChange(e.shiftKey ? -1 : 1);
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const activeChange =
+    currentChange !== null ? (changes[currentChange] ?? null) : null;
+  // Leave room for the padding, and the gap between the two columns
+  const pageWidth =
+    mode === 'side-by-side'
+      ? Math.max(200, (containerWidth - 48) / 2) * zoom
+      : containerWidth * 0.8 * zoom;
+
+  return (
+    <div className="flex h-full min-h-0 w-full flex-col">
+      <div className="flex flex-wrap items-center gap-2 border-b border-slate-200 pb-3">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as CompareMode)}
+        >
+          <ToggleGroupItem value="side-by-side" className="gap-1.5 px-2.5">
+            <Columns2 className="size-4" />
+            Side by side
+          </ToggleGroupItem>
+          <ToggleGroupItem value="overlay" className="gap-1.5 px-2.5">
+            <Layers className="size-4" />
+            Overlay
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        <Select
+          value={alignment}
+          onValueChange={(value) => setAlignment(value as PageAlignment)}
+        >
+          <SelectTrigger className="h-8 w-auto gap-2 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="content">Match pages by content</SelectItem>
+            <SelectItem value="number">Match pages by number</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              setZoom((prev) => Math.max(MIN_ZOOM, prev - ZOOM_STEP))
+            }
+            disabled={zoom <= MIN_ZOOM}
+            className="h-8 w-8 p-0"
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="size-4" />
+          </Button>
+          <button
+            onClick={() => setZoom(1.0)}
+            className="min-w-[3rem] rounded px-1.5 py-0.5 text-xs text-slate-600 transition-colors hover:bg-slate-100 hover:text-blue-500"
+            aria-label="Reset zoom"
+          >
+            {Math.round(zoom * 100)}%
+          </button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              setZoom((prev) => Math.min(MAX_ZOOM, prev + ZOOM_STEP))
+            }
+            disabled={zoom >= MAX_ZOOM}
+            className="h-8 w-8 p-0"
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="size-4" />
+          </Button>
+        </div>
+
+        <div className="ml-auto flex items-center gap-2 text-sm text-slate-600">
+          {progress && (
+            <span className="flex items-center gap-1.5 text-xs text-slate-500">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              Comparing page {progress.done + 1} of {progress.total}
+            </span>
+          )}
+          <span>
+            {changes.length === 0
+              ? progress || !baseDocument
+                ? 'No changes yet'
+                : 'No visual changes'
+              : currentChange === null
+                ? `${changes.length} change${changes.length === 1 ? '' : 's'}`
+                : `Change ${currentChange + 1} of ${changes.length}`}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => goToChange(-1)}
+            disabled={changes.length === 0}
+            className="h-8 w-8 p-0"
+            title="Previous change (Shift+F7)"
+            aria-label="Previous change"
+          >
+            <ChevronUp className="size-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => goToChange(1)}
+            disabled={changes.length === 0}
+            className="h-8 w-8 p-0"
+            title="Next change (F7)"
+            aria-label="Next change"
+          >
+            <ChevronDown className="size-4" />
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="pt-2 text-sm text-red-600">{error}</p>}
+
+      <div
+        ref={containerRef}
+        className="min-h-0 flex-1 overflow-auto bg-slate-100 p-4"
+      >
+        {!baseDocument || !compareDocument ? (
+          !error && (
+            <div className="flex h-full items-center justify-center text-sm text-slate-500">
+              <Loader2 className="mr-2 h-5 w-5 animate-spin text-blue-500" />
+              Loading PDFs...
+            </div>
+          )
+        ) : (
+          <div className="flex flex-col items-center gap-6">
+            {mode === 'side-by-side' ? (
+              <div
+                className="grid grid-cols-2 gap-4 text-xs font-medium text-slate-600"
+                style={{ width: pageWidth * 2 + 16 }}
+              >
+                <span className="truncate">{baseLabel}</span>
+                <span className="truncate">{compareLabel}</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-4 text-xs text-slate-600">
+                <span className="flex items-center gap-1.5">
+                  <span className="h-2.5 w-2.5 rounded-sm bg-red-600" />
+                  Only in {baseLabel}
+                </span>
+                <span className="flex items-center gap-1.5">
+                  <span className="h-2.5 w-2.5 rounded-sm bg-green-600" />
+                  Only in {compareLabel}
+                </span>
+              </div>
+            )}
+
+            {pages.map((page, pairIndex) => {
+              const activeRegion =
+                activeChange?.pairIndex === pairIndex
+                  ? activeChange.region
+                  : null;
+              const active = activeChange?.pairIndex === pairIndex;
+              return (
+                <div
+                  key={`${page.base}:${page.compare}`}
+                  ref={(el) => {
+                    if (el) {
+                      rowRefs.current.set(pairIndex, el);
+                    } else {
+                      rowRefs.current.delete(pairIndex);
+                    }
+                  }}
+                  className="flex flex-col gap-1"
+                >
+                  <p
+                    className={cn(
+                      'text-xs text-slate-500',
+                      page.status !== 'same' &&
+                        page.status !== 'pending' &&
+                        'font-medium text-slate-700'
+                    )}
+                  >
+                    {pairTitle(page, baseLabel, compareLabel)}
+                  </p>
+                  {mode === 'side-by-side' ? (
+                    <div className="flex items-start gap-4">
+                      <ComparePage
+                        document={baseDocument}
+                        pageIndex={page.base}
+                        width={pageWidth}
+                        missingLabel={`Not in ${baseLabel}`}
+                        tone="removed"
+                        page={page}
+                        activeRegion={activeRegion}
+                        active={active}
+                      />
+                      <ComparePage
+                        document={compareDocument}
+                        pageIndex={page.compare}
+                        width={pageWidth}
+                        missingLabel={`Not in ${compareLabel}`}
+                        tone="added"
+                        page={page}
+                        activeRegion={activeRegion}
+                        active={active}
+                      />
+                    </div>
+                  ) : (
+                    <OverlayPage
+                      pairIndex={pairIndex}
+                      width={pageWidth}
+                      renderOverlay={renderOverlay}
+                    >
+                      {activeRegion && (
+                        <RegionBoxes
+                          regions={[activeRegion]}
+                          tone="active"
+                          activeRegion={activeRegion}
+                        />
+                      )}
+                    </OverlayPage>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DynamicPDFCompare;
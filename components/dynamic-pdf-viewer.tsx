@@ -14,7 +14,15 @@ import { PageCallback } from 'react-pdf/dist/esm/shared/types.js';
 import 'react-pdf/dist/Page/AnnotationLayer.css';
 import 'react-pdf/dist/Page/TextLayer.css';
 import { CompilationError } from '@/components/latex/compilation-error';
-import type { CompilationError as CompilationErrorType } from '@/types/compilation';
+import { CompileProgressPanel } from '@/components/latex/compile-progress';
+import { CompileWarnings } from '@/components/latex/compile-warnings';
+import type {
+  CompilationError as CompilationErrorType,
+  CompileProgress,
+  CompileRepairAttempt,
+  LatexDiagnostic,
+  SynctexHighlight,
+} from '@/types/compilation';
 
 // init the worker using CDN
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
@@ -28,25 +36,53 @@ const MIN_ZOOM = 0.5;
 const MAX_ZOOM = 3.0;
 const ZOOM_STEP = 0.1;
 
+// How long a forward search highlight stays on the page
+const SYNC_HIGHLIGHT_MS = 3000;
+
 interface PDFViewerProps {
-  pdfData?: string | null;
+  pdfUrl?: string | null; // Artifact or data URL
   isLoading?: boolean;
+  compileProgress?: CompileProgress | null;
   compilationError?: CompilationErrorType | null;
   onRetryCompile?: () => void;
   onDismissError?: () => void;
   onFixWithAI?: () => void;
+  onAskInChat?: () => void;
+  onCancelRepair?: () => void;
+  repairing?: boolean;
+  repairAttempts?: CompileRepairAttempt[];
+  diagnostics?: LatexDiagnostic[];
+  onDiagnosticClick?: (diagnostic: LatexDiagnostic) => void;
+  syncHighlight?: SynctexHighlight | null; // Scrolled to and outlined
+  // Double-click on a page, in PDF points from its top left corner
+  onSyncClick?: (page: number, x: number, y: number) => void;
 }
 
 function DynamicPDFViewer({
-  pdfData,
+  pdfUrl,
   isLoading = false,
+  compileProgress,
   compilationError,
   onRetryCompile,
   onDismissError,
   onFixWithAI,
+  onAskInChat,
+  onCancelRepair,
+  repairing,
+  repairAttempts,
+  diagnostics,
+  onDiagnosticClick,
+  syncHighlight,
+  onSyncClick,
 }: PDFViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const pageRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  // Unscaled size of every page in PDF points, for SyncTeX coordinates
+  const pageSizes = useRef<Map<number, { width: number; height: number }>>(
+    new Map()
+  );
+  const [visibleHighlight, setVisibleHighlight] =
+    useState<SynctexHighlight | null>(null);
   const [numPages, setNumPages] = useState<number | null>(null);
   const [pageNumber, setPageNumber] = useState<number>(1);
   const [pageInput, setPageInput] = useState<string>('1');
@@ -56,6 +92,42 @@ function DynamicPDFViewer({
   } | null>(null);
   const [zoom, setZoom] = useState<number>(1.0);
   const [containerWidth, setContainerWidth] = useState<number>(800);
+  const [warningsDismissed, setWarningsDismissed] = useState(false);
+
+  // A new compile brings its warnings back
+  useEffect(() => {
+    setWarningsDismissed(false);
+  }, [diagnostics]);
+
+  // Scroll the first highlighted box into view and outline it for a moment
+  useEffect(() => {
+    if (!syncHighlight) return;
+    setVisibleHighlight(syncHighlight);
+
+    const container = containerRef.current;
+    const pageElement = pageRefs.current.get(syncHighlight.page);
+    const size = pageSizes.current.get(syncHighlight.page);
+    if (container && pageElement && size) {
+      const pageTop =
+        pageElement.getBoundingClientRect().top -
+        container.getBoundingClientRect().top +
+        container.scrollTop;
+      const scale = pageElement.getBoundingClientRect().width / size.width;
+      const boxTop = Math.min(...syncHighlight.boxes.map((box) => box.y));
+      container.scrollTo({
+        top: pageTop + boxTop * scale - container.clientHeight / 3,
+        behavior: 'smooth',
+      });
+      setPageNumber(syncHighlight.page);
+      setPageInput(syncHighlight.page.toString());
+    }
+
+    const timeout = setTimeout(
+      () => setVisibleHighlight(null),
+      SYNC_HIGHLIGHT_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [syncHighlight]);
 
   useEffect(() => {
     const updateWidth = () => {
@@ -184,8 +256,9 @@ function DynamicPDFViewer({
 
   function onPageLoadSuccess(pageNum: number) {
     return (page: PageCallback) => {
+      const { width, height } = page.getViewport({ scale: 1 });
+      pageSizes.current.set(pageNum, { width, height });
       if (pageNum === 1) {
-        const { width, height } = page.getViewport({ scale: 1 });
         setPageDimensions((prev) =>
           prev?.width === width && prev?.height === height
             ? prev
@@ -195,16 +268,15 @@ function DynamicPDFViewer({
     };
   }
 
-  if (isLoading && !pdfData) {
+  if (isLoading && !pdfUrl) {
     return (
       <div className="flex h-full items-center justify-center">
-        <Loader2 className="h-6 w-6 animate-spin text-primary" />
-        <span className="ml-2 text-slate-500">Compiling...</span>
+        <CompileProgressPanel progress={compileProgress} />
       </div>
     );
   }
 
-  if (!pdfData) {
+  if (!pdfUrl) {
     return (
       <p className="flex h-full items-center justify-center whitespace-pre text-sm text-slate-600">
         Click <span className="font-semibold">Compile</span> to see the PDF
@@ -213,9 +285,6 @@ function DynamicPDFViewer({
     );
   }
 
-  // Create a data URL from the Base64 PDF
-  const pdfUrl = `data:application/pdf;base64,${pdfData}`;
-
   const calculatePageWidth = () => {
     if (!pageDimensions) {
       return 595;
@@ -227,8 +296,47 @@ function DynamicPDFViewer({
 
   const pageWidth = calculatePageWidth();
 
+  function handlePageDoubleClick(
+    e: React.MouseEvent<HTMLDivElement>,
+    pageNum: number
+  ) {
+    const size = pageSizes.current.get(pageNum);
+    if (!onSyncClick || !size) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = rect.width / size.width;
+    onSyncClick(
+      pageNum,
+      (e.clientX - rect.left) / scale,
+      (e.clientY - rect.top) / scale
+    );
+  }
+
+  function renderSyncHighlight(pageNum: number) {
+    const size = pageSizes.current.get(pageNum);
+    if (visibleHighlight?.page !== pageNum || !size) return null;
+
+    const scale = (pageWidth * zoom) / size.width;
+    return visibleHighlight.boxes.map((box, index) => (
+      <div
+        key={index}
+        className="pointer-events-none absolute rounded-sm border border-blue-500/60 bg-blue-400/20"
+        style={{
+          left: box.x * scale,
+          top: box.y * scale,
+          width: box.width * scale,
+          height: box.height * scale,
+        }}
+      />
+    ));
+  }
+
   // Show error as bottom bar if there's both a PDF and an error
-  const showErrorBottomBar = pdfData && compilationError;
+  const showErrorBottomBar = pdfUrl && compilationError;
+  // Otherwise surface warnings from the successful compile
+  const warnings = diagnostics ?? [];
+  const showWarningsBar =
+    pdfUrl && !compilationError && !warningsDismissed && warnings.length > 0;
 
   return (
     <div className="relative flex h-full w-full flex-col">
@@ -240,23 +348,38 @@ function DynamicPDFViewer({
           onRetry={onRetryCompile}
           onDismiss={onDismissError}
           onFixWithAI={onFixWithAI}
+          onAskInChat={onAskInChat}
+          onCancelRepair={onCancelRepair}
+          repairing={repairing}
+          repairAttempts={repairAttempts}
+          onDiagnosticClick={onDiagnosticClick}
+        />
+      )}
+      {showWarningsBar && (
+        <CompileWarnings
+          diagnostics={warnings}
+          onDiagnosticClick={onDiagnosticClick}
+          onDismiss={() => setWarningsDismissed(true)}
         />
       )}
 
       {isLoading && (
-        <div className="absolute inset-0 z-20 flex items-center justify-center bg-white/50">
-          <Loader2 className="h-5 w-5 animate-spin text-blue-500" />
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-white/70">
+          <CompileProgressPanel progress={compileProgress} />
         </div>
       )}
       {/* Main PDF viewer area with scrolling */}
       <div
         ref={containerRef}
         className="flex flex-1 justify-center overflow-auto py-2"
-        style={{ paddingTop: showErrorBottomBar ? '60px' : undefined }}
+        style={{
+          paddingTop:
+            showErrorBottomBar || showWarningsBar ? '60px' : undefined,
+        }}
       >
         <div className="flex flex-col items-center gap-4">
           <Document
-            key={pdfData?.substring(0, 100)} // Force re-render when PDF data changes
+            key={pdfUrl.slice(-100)} // Force re-render when the PDF changes
             file={pdfUrl}
             options={options}
             onLoadSuccess={onDocumentLoadSuccess}
@@ -278,7 +401,8 @@ function DynamicPDFViewer({
                       }
                     }}
                     data-page-number={pageNum}
-                    className="mb-4"
+                    className="relative mb-4"
+                    onDoubleClick={(e) => handlePageDoubleClick(e, pageNum)}
                   >
                     <Page
                       pageNumber={pageNum}
@@ -294,6 +418,7 @@ function DynamicPDFViewer({
                         </div>
                       }
                     />
+                    {renderSyncHighlight(pageNum)}
                   </div>
                 );
               })}
@@ -302,7 +427,7 @@ function DynamicPDFViewer({
       </div>
 
       {/* Fixed controls at the bottom */}
-      {pdfData && (
+      {pdfUrl && (
         <div className="absolute bottom-4 left-1/2 z-20 flex -translate-x-1/2 transform gap-2">
           {/* Zoom controls */}
           <div className="flex items-center rounded-md border border-slate-100 bg-white/90 px-1.5 py-1 shadow-md backdrop-blur-sm">
@@ -0,0 +1,198 @@
+'use client';
+
+import {
+  AlertCircle,
+  CheckCircle2,
+  Download,
+  Eye,
+  GitCompareArrows,
+  Loader2,
+  Zap,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { ENGINE_LABELS } from '@/lib/utils/compile-settings';
+import { findFailureStart } from '@/lib/utils/compile-history';
+import { compilationDownloadUrl } from '@/lib/requests/compilations';
+import type { CompilationRecord } from '@/types/compilation';
+
+interface CompileHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  compilations: CompilationRecord[];
+  isLoading: boolean;
+  error: string | null;
+  viewingId: string | null; // Build shown in the preview instead of the latest
+  onView: (compilation: CompilationRecord) => void;
+  onCompare?: (compilation: CompilationRecord) => void; // Against the current build
+}
+
+function formatDuration(ms: number | null): string | null {
+  if (ms === null) return null;
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+export function CompileHistoryDialog({
+  open,
+  onOpenChange,
+  compilations,
+  isLoading,
+  error,
+  viewingId,
+  onView,
+  onCompare,
+}: CompileHistoryDialogProps) {
+  const failureStart = findFailureStart(compilations);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="pr-6">Compile History</DialogTitle>
+          <DialogDescription>
+            Earlier builds of this project. Open one in the preview, compare it
+            with the current build or download its PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-sm text-slate-500">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading builds...
+          </div>
+        ) : error ? (
+          <p className="py-4 text-sm text-red-600">{error}</p>
+        ) : compilations.length === 0 ? (
+          <p className="py-4 text-sm text-slate-500">
+            No builds yet. Compile the project to start its history.
+          </p>
+        ) : (
+          <div className="max-h-[60vh] divide-y divide-slate-100 overflow-y-auto rounded-lg border border-slate-200">
+            {compilations.map((compilation) => {
+              const duration = formatDuration(compilation.durationMs);
+              const downloadUrl = compilationDownloadUrl(compilation);
+              return (
+                <div
+                  key={compilation.id}
+                  className={cn(
+                    'flex items-center gap-3 px-3 py-2',
+                    compilation.id === viewingId && 'bg-blue-50'
+                  )}
+                >
+                  {compilation.status === 'success' ? (
+                    <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4 shrink-0 text-red-500" />
+                  )}
+
+                  <div className="min-w-0 flex-1 space-y-0.5">
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-slate-900">
+                      <span>
+                        {new Date(compilation.createdAt).toLocaleString()}
+                      </span>
+                      {compilation.id === failureStart?.id && (
+                        <Badge
+                          variant="outline"
+                          className="border-red-200 bg-red-50 text-xs text-red-700"
+                        >
+                          Started failing
+                        </Badge>
+                      )}
+                      {compilation.cached && (
+                        <Badge
+                          variant="outline"
+                          className="gap-1 border-slate-200 bg-slate-50 text-xs text-slate-600"
+                          title="Served from the compile cache"
+                        >
+                          <Zap className="h-3 w-3" />
+                          Cached
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="truncate text-xs text-slate-500">
+                      {[
+                        ENGINE_LABELS[compilation.engine] ?? compilation.engine,
+                        compilation.rootFile,
+                        duration,
+                        compilation.errorCount > 0 &&
+                          plural(compilation.errorCount, 'error'),
+                        compilation.warningCount > 0 &&
+                          plural(compilation.warningCount, 'warning'),
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </p>
+                    {compilation.errorMessage && (
+                      <p className="truncate text-xs text-red-600">
+                        {compilation.errorMessage}
+                      </p>
+                    )}
+                  </div>
+
+                  {compilation.pdfUrl ? (
+                    <div className="flex shrink-0 items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onView(compilation)}
+                        className="h-8 w-8 p-0"
+                        title="Open in preview"
+                        aria-label="Open in preview"
+                      >
+                        <Eye className="size-4" />
+                      </Button>
+                      {onCompare && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onCompare(compilation)}
+                          className="h-8 w-8 p-0"
+                          title="Compare with the current build"
+                          aria-label="Compare with the current build"
+                        >
+                          <GitCompareArrows className="size-4" />
+                        </Button>
+                      )}
+                      {downloadUrl && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          asChild
+                          className="h-8 w-8 p-0"
+                        >
+                          <a
+                            href={downloadUrl}
+                            title="Download PDF"
+                            aria-label="Download PDF"
+                          >
+                            <Download className="size-4" />
+                          </a>
+                        </Button>
+                      )}
+                    </div>
+                  ) : (
+                    <span className="shrink-0 text-xs text-slate-400">
+                      No PDF
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type {
+  BibliographyTool,
+  CompileSettings,
+  LatexEngine,
+} from '@/types/compilation';
+import {
+  BIBLIOGRAPHY_TOOLS,
+  ENGINE_LABELS,
+  LATEX_ENGINES,
+  resolveRootFile,
+} from '@/lib/utils/compile-settings';
+
+interface CompileSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: CompileSettings;
+  texFiles: Array<{ path: string; content: string }>;
+  onSave: (settings: CompileSettings) => Promise<boolean>;
+}
+
+const BIBLIOGRAPHY_LABELS: Record<BibliographyTool, string> = {
+  auto: 'Detect automatically',
+  bibtex: 'BibTeX',
+  biber: 'Biber',
+  none: 'None',
+};
+
+export function CompileSettingsDialog({
+  open,
+  onOpenChange,
+  settings,
+  texFiles,
+  onSave,
+}: CompileSettingsDialogProps) {
+  const [draft, setDraft] = useState<CompileSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved settings, showing the detected root if none is set
+  useEffect(() => {
+    if (open) {
+      setDraft({
+        ...settings,
+        rootFile: resolveRootFile(texFiles, settings.rootFile) ?? null,
+      });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, settings]);
+
+  const handleSave = async () => {
+    if (!draft.rootFile) return;
+    setIsSaving(true);
+    const saved = await onSave(draft);
+    setIsSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="pr-6">Compile Settings</DialogTitle>
+          <DialogDescription>
+            Choose the document to compile and how to build it. These settings
+            apply to the whole project.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="compile-root-file">Root document</Label>
+            <Select
+              value={draft.rootFile ?? undefined}
+              onValueChange={(rootFile) => setDraft({ ...draft, rootFile })}
+            >
+              <SelectTrigger id="compile-root-file">
+                <SelectValue placeholder="Select the main .tex file" />
+              </SelectTrigger>
+              <SelectContent>
+                {texFiles.map((file) => (
+                  <SelectItem key={file.path} value={file.path}>
+                    {file.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="compile-engine">Compiler</Label>
+            <Select
+              value={draft.engine}
+              onValueChange={(engine) =>
+                setDraft({ ...draft, engine: engine as LatexEngine })
+              }
+            >
+              <SelectTrigger id="compile-engine">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LATEX_ENGINES.map((engine) => (
+                  <SelectItem key={engine} value={engine}>
+                    {ENGINE_LABELS[engine]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="compile-bibliography">Bibliography</Label>
+            <Select
+              value={draft.bibliographyTool}
+              onValueChange={(tool) =>
+                setDraft({
+                  ...draft,
+                  bibliographyTool: tool as BibliographyTool,
+                })
+              }
+            >
+              <SelectTrigger id="compile-bibliography">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BIBLIOGRAPHY_TOOLS.map((tool) => (
+                  <SelectItem key={tool} value={tool}>
+                    {BIBLIOGRAPHY_LABELS[tool]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="compile-shell-escape"
+              checked={draft.shellEscape}
+              onCheckedChange={(checked) =>
+                setDraft({ ...draft, shellEscape: checked === true })
+              }
+            />
+            <Label htmlFor="compile-shell-escape" className="cursor-pointer">
+              Enable shell escape
+              <span className="ml-1 font-normal text-muted-foreground">
+                (needed by minted, svg)
+              </span>
+            </Label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="compile-draft-mode"
+              checked={draft.draftMode}
+              onCheckedChange={(checked) =>
+                setDraft({ ...draft, draftMode: checked === true })
+              }
+            />
+            <Label htmlFor="compile-draft-mode" className="cursor-pointer">
+              Draft mode
+              <span className="ml-1 font-normal text-muted-foreground">
+                (faster, images shown as boxes)
+              </span>
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !draft.rootFile}>
+            {isSaving ? (
+              <>
+                <Loader2 className="animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
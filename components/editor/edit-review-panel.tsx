@@ -0,0 +1,330 @@
+'use client';
+
+import { Check, Columns2, FileText, Rows2, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DiffViewer,
+  HunkDiffViewer,
+  type HunkDiffMode,
+} from '@/components/ui/diff-viewer';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { describeFileEdit } from '@/hooks/use-edit-suggestions/file-operations';
+import { reviewFilePath } from '@/hooks/use-edit-suggestions/use-edit-review';
+import type { EditReviewState } from '@/hooks/use-edit-suggestions/types';
+import { buildHunk, type EditHunk } from '@/lib/lars-agent/edit-hunks';
+import { isFileEdit } from '@/lib/lars-agent/line-edits';
+import { useProjectFiles } from '@/stores/file';
+import type { EditSuggestion } from '@/types/edit';
+
+// File operations are listed together, ahead of the files' line edits
+const FILE_OPERATIONS = 'File operations';
+
+interface EditReviewPanelProps {
+  review: EditReviewState;
+  currentFilePath?: string | null;
+}
+
+interface FileGroup {
+  filePath: string;
+  suggestions: EditSuggestion[];
+}
+
+function groupByFile(
+  suggestions: EditSuggestion[],
+  currentFilePath?: string | null
+): FileGroup[] {
+  const groups = new Map<string, EditSuggestion[]>();
+  for (const suggestion of suggestions) {
+    const key = isFileEdit(suggestion)
+      ? FILE_OPERATIONS
+      : reviewFilePath(suggestion, currentFilePath);
+    groups.set(key, [...(groups.get(key) ?? []), suggestion]);
+  }
+  return [...groups.entries()]
+    .map(([filePath, fileSuggestions]) => ({
+      filePath,
+      // Top to bottom within a file
+      suggestions: [...fileSuggestions].sort(
+        (a, b) => (a.position?.line || 1) - (b.position?.line || 1)
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        Number(b.filePath === FILE_OPERATIONS) -
+        Number(a.filePath === FILE_OPERATIONS)
+    );
+}
+
+function hunkRange(hunk: EditHunk): string {
+  if (hunk.originalLineCount === 0) {
+    return `Insert before line ${hunk.startLine}`;
+  }
+  const end = hunk.startLine + hunk.originalLineCount - 1;
+  return end > hunk.startLine
+    ? `Lines ${hunk.startLine}-${end}`
+    : `Line ${hunk.startLine}`;
+}
+
+function HunkCard({
+  suggestion,
+  hunk,
+  mode,
+  busy,
+  onAccept,
+  onReject,
+}: {
+  suggestion: EditSuggestion;
+  hunk: EditHunk | null; // null for file operations and stale edits
+  mode: HunkDiffMode;
+  busy: boolean;
+  onAccept: (rejectedLines: number[]) => void;
+  onReject: () => void;
+}) {
+  const [rejectedLines, setRejectedLines] = useState<number[]>([]);
+  const rejected = useMemo(() => new Set(rejectedLines), [rejectedLines]);
+  const fileEdit = isFileEdit(suggestion);
+  const stale = !fileEdit && (!hunk || suggestion.stale);
+  const changedLines =
+    hunk?.lines.filter((line) => line.type !== 'same').length ?? 0;
+
+  const toggleLine = (index: number) =>
+    setRejectedLines((prev) =>
+      prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index]
+    );
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border border-slate-200 bg-white p-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-blue-700">
+        {fileEdit
+          ? describeFileEdit(suggestion)
+          : hunk
+            ? hunkRange(hunk)
+            : `Line ${suggestion.position?.line || 1}`}
+        {stale && <span className="text-xs text-amber-600">(STALE)</span>}
+      </div>
+      {suggestion.explanation && (
+        <p className="text-xs text-slate-600">{suggestion.explanation}</p>
+      )}
+      {stale && (
+        <p className="text-xs text-amber-700">
+          The text this edit changes is no longer in the file.
+        </p>
+      )}
+
+      {fileEdit
+        ? suggestion.editType === 'create_file' && (
+            <DiffViewer original="" suggested={suggestion.content ?? ''} />
+          )
+        : hunk &&
+          !stale && (
+            <HunkDiffViewer
+              lines={hunk.lines}
+              mode={mode}
+              rejected={rejected}
+              onToggleLine={toggleLine}
+            />
+          )}
+
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onAccept(rejectedLines)}
+          disabled={
+            busy ||
+            stale ||
+            (changedLines > 0 && rejected.size === changedLines)
+          }
+          className="border border-green-200 text-green-700 hover:border-green-300 hover:bg-green-50"
+        >
+          <Check size={14} className="mr-1" />
+          {rejected.size > 0
+            ? `Accept ${changedLines - rejected.size} of ${changedLines} lines`
+            : 'Accept'}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onReject}
+          disabled={busy}
+          className="border border-red-200 text-red-700 hover:border-red-300 hover:bg-red-50"
+        >
+          <X size={14} className="mr-1" />
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Every pending AI edit grouped by file, each with its diff and explanation.
+ * Edits are accepted into their file without opening it in the editor.
+ */
+export function EditReviewPanel({
+  review,
+  currentFilePath,
+}: EditReviewPanelProps) {
+  const projectFiles = useProjectFiles();
+  const [mode, setMode] = useState<HunkDiffMode>('unified');
+  const { suggestions, busyIds } = review;
+
+  const groups = useMemo(
+    () => groupByFile(suggestions, currentFilePath),
+    [suggestions, currentFilePath]
+  );
+
+  // Diffed against each file as it is now, so they follow accepted edits
+  const hunks = useMemo(() => {
+    const fileLines = new Map<string, string[]>();
+    for (const projectFile of projectFiles ?? []) {
+      if (projectFile.document) {
+        fileLines.set(
+          projectFile.file.name,
+          projectFile.document.content.split(/\r\n?|\n/)
+        );
+      }
+    }
+    const result = new Map<string, EditHunk | null>();
+    for (const suggestion of suggestions) {
+      if (isFileEdit(suggestion)) continue;
+      const lines = fileLines.get(reviewFilePath(suggestion, currentFilePath));
+      result.set(suggestion.id, lines ? buildHunk(suggestion, lines) : null);
+    }
+    return result;
+  }, [suggestions, projectFiles, currentFilePath]);
+
+  const fileCount = new Set(
+    suggestions.map((s) => reviewFilePath(s, currentFilePath))
+  ).size;
+  const isBusy = busyIds.length > 0;
+  const acceptable = (group: FileGroup) =>
+    group.suggestions
+      .filter((s) => isFileEdit(s) || (hunks.get(s.id) && !s.stale))
+      .map((s) => s.id);
+  const ids = (group: FileGroup) => group.suggestions.map((s) => s.id);
+
+  return (
+    <Sheet
+      open={review.isOpen}
+      onOpenChange={(open) => !open && review.closeReview()}
+    >
+      <SheetContent side="right" className="w-full gap-0 sm:max-w-3xl">
+        <SheetHeader className="border-b">
+          <SheetTitle className="pr-6">Review AI edits</SheetTitle>
+          <SheetDescription>
+            {suggestions.length} pending edit(s) in {fileCount} file(s).
+            Accepted edits are saved to their file without switching the file
+            open in the editor.
+          </SheetDescription>
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as HunkDiffMode)}
+            >
+              <ToggleGroupItem value="unified" className="gap-1.5 px-2.5">
+                <Rows2 className="size-4" />
+                Unified
+              </ToggleGroupItem>
+              <ToggleGroupItem value="split" className="gap-1.5 px-2.5">
+                <Columns2 className="size-4" />
+                Split
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <div className="ml-auto flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isBusy || suggestions.length === 0}
+                onClick={() =>
+                  void review.acceptEdits(groups.flatMap(acceptable))
+                }
+              >
+                <Check className="size-4" />
+                Accept all
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isBusy || suggestions.length === 0}
+                onClick={() => review.rejectEdits(groups.flatMap(ids))}
+              >
+                <X className="size-4" />
+                Reject all
+              </Button>
+            </div>
+          </div>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-6 overflow-y-auto p-4">
+          {groups.length === 0 && (
+            <p className="py-8 text-center text-sm text-slate-500">
+              No pending edits.
+            </p>
+          )}
+          {groups.map((group) => (
+            <section key={group.filePath} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <FileText className="size-4 shrink-0 text-slate-500" />
+                <h3 className="truncate text-sm font-semibold text-slate-800">
+                  {group.filePath || 'Untitled'}
+                </h3>
+                {group.filePath === currentFilePath && (
+                  <Badge variant="secondary">Open</Badge>
+                )}
+                <span className="text-xs text-slate-500">
+                  {group.suggestions.length} edit(s)
+                </span>
+                <div className="ml-auto flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isBusy}
+                    onClick={() => void review.acceptEdits(acceptable(group))}
+                    className="h-7 text-green-700 hover:bg-green-50"
+                  >
+                    Accept file
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isBusy}
+                    onClick={() => review.rejectEdits(ids(group))}
+                    className="h-7 text-red-700 hover:bg-red-50"
+                  >
+                    Reject file
+                  </Button>
+                </div>
+              </div>
+              {group.suggestions.map((suggestion) => (
+                <HunkCard
+                  key={suggestion.id}
+                  suggestion={suggestion}
+                  hunk={hunks.get(suggestion.id) ?? null}
+                  mode={mode}
+                  busy={busyIds.includes(suggestion.id)}
+                  onAccept={(rejectedLines) =>
+                    void review.acceptEdit(suggestion.id, rejectedLines)
+                  }
+                  onReject={() => review.rejectEdits([suggestion.id])}
+                />
+              ))}
+            </section>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
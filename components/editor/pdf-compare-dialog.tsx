@@ -0,0 +1,231 @@
+'use client';
+
+import { ArrowLeftRight, FileUp } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import PDFCompare from '@/components/pdf-compare';
+import type { PdfSource } from '@/hooks/use-pdf-compare';
+import type { CompilationRecord } from '@/types/compilation';
+
+// Besides these, a source is the id of a build from the history
+const CURRENT_BUILD = 'current';
+const UPLOADED_PDF = 'upload';
+
+interface PdfCompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentPdfUrl: string | null;
+  compilations: CompilationRecord[];
+  initialBaseId?: string | null; // Build compared against the current one
+}
+
+interface SourceChoice {
+  value: string;
+  file: File | null; // Picked when the value is UPLOADED_PDF
+}
+
+function SourcePicker({
+  id,
+  label,
+  choice,
+  onChange,
+  hasCurrentBuild,
+  builds,
+}: {
+  id: string;
+  label: string;
+  choice: SourceChoice;
+  onChange: (choice: SourceChoice) => void;
+  hasCurrentBuild: boolean;
+  builds: CompilationRecord[];
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex min-w-0 flex-1 flex-col gap-1.5">
+      <Label htmlFor={id} className="text-xs text-slate-600">
+        {label}
+      </Label>
+      <div className="flex min-w-0 items-center gap-2">
+        <Select
+          value={choice.value}
+          onValueChange={(value) => onChange({ value, file: null })}
+        >
+          <SelectTrigger id={id} className="h-8 min-w-0 flex-1 text-sm">
+            <SelectValue placeholder="Choose a PDF" />
+          </SelectTrigger>
+          <SelectContent>
+            {hasCurrentBuild && (
+              <SelectItem value={CURRENT_BUILD}>Current build</SelectItem>
+            )}
+            {builds.map((build) => (
+              <SelectItem key={build.id} value={build.id}>
+                Build from {new Date(build.createdAt).toLocaleString()}
+              </SelectItem>
+            ))}
+            <SelectItem value={UPLOADED_PDF}>Upload a PDF...</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {choice.value === UPLOADED_PDF && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/pdf,.pdf"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onChange({ value: UPLOADED_PDF, file });
+                e.target.value = '';
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              className="h-8 max-w-[14rem] gap-1.5"
+              title={choice.file?.name}
+            >
+              <FileUp className="size-4 shrink-0" />
+              <span className="truncate">
+                {choice.file ? choice.file.name : 'Choose file'}
+              </span>
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function PdfCompareDialog({
+  open,
+  onOpenChange,
+  currentPdfUrl,
+  compilations,
+  initialBaseId,
+}: PdfCompareDialogProps) {
+  const builds = compilations.filter((compilation) => compilation.pdfUrl);
+  const [base, setBase] = useState<SourceChoice>({
+    value: UPLOADED_PDF,
+    file: null,
+  });
+  const [compare, setCompare] = useState<SourceChoice>({
+    value: UPLOADED_PDF,
+    file: null,
+  });
+
+  // Each opening starts from the chosen build against the current one. The
+  // latest stored build usually is the current one, so default to the one
+  // before it.
+  useEffect(() => {
+    if (!open) return;
+    const defaultBase = initialBaseId ?? builds[1]?.id ?? builds[0]?.id;
+    setBase({ value: defaultBase ?? UPLOADED_PDF, file: null });
+    setCompare({
+      value: currentPdfUrl ? CURRENT_BUILD : UPLOADED_PDF,
+      file: null,
+    });
+    // Only when opened, so a finished compile does not reset the choice
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, initialBaseId]);
+
+  function resolve(choice: SourceChoice): {
+    source: PdfSource | null;
+    label: string;
+  } {
+    if (choice.value === CURRENT_BUILD) {
+      return { source: currentPdfUrl, label: 'Current build' };
+    }
+    if (choice.value === UPLOADED_PDF) {
+      return { source: choice.file, label: choice.file?.name ?? 'Upload' };
+    }
+    const build = builds.find((compilation) => compilation.id === choice.value);
+    return {
+      source: build?.pdfUrl ?? null,
+      label: build
+        ? `Build from ${new Date(build.createdAt).toLocaleString()}`
+        : 'Build',
+    };
+  }
+
+  const before = resolve(base);
+  const after = resolve(compare);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[90vh] w-[95vw] max-w-[95vw] flex-col sm:max-w-[95vw]">
+        <DialogHeader>
+          <DialogTitle className="pr-6">Compare PDFs</DialogTitle>
+          <DialogDescription>
+            See what changed on the page between two builds, or against a PDF
+            from disk.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <SourcePicker
+            id="compare-base"
+            label="Before"
+            choice={base}
+            onChange={setBase}
+            hasCurrentBuild={!!currentPdfUrl}
+            builds={builds}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setBase(compare);
+              setCompare(base);
+            }}
+            className="h-8 w-8 shrink-0 p-0"
+            title="Swap"
+            aria-label="Swap"
+          >
+            <ArrowLeftRight className="size-4" />
+          </Button>
+          <SourcePicker
+            id="compare-target"
+            label="After"
+            choice={compare}
+            onChange={setCompare}
+            hasCurrentBuild={!!currentPdfUrl}
+            builds={builds}
+          />
+        </div>
+
+        <div className="min-h-0 flex-1">
+          {before.source && after.source ? (
+            <PDFCompare
+              base={before.source}
+              compare={after.source}
+              baseLabel={before.label}
+              compareLabel={after.label}
+            />
+          ) : (
+            <p className="flex h-full items-center justify-center text-sm text-slate-500">
+              Choose two PDFs to compare
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
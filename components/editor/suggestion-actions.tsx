@@ -4,6 +4,8 @@ import { Button } from '@/components/ui/button';
 import { DiffViewer } from '@/components/ui/diff-viewer';
 import { Check, X } from 'lucide-react';
 import { EditSuggestion } from '@/types/edit';
+import { isFileEdit } from '@/lib/lars-agent/line-edits';
+import { describeFileEdit } from '@/hooks/use-edit-suggestions/file-operations';
 
 interface SuggestionActionsProps {
   suggestions: EditSuggestion[];
@@ -47,28 +49,64 @@ export function SuggestionActions({
           key={suggestion.id}
           className="flex flex-col gap-2 rounded-lg border border-blue-200 bg-white p-3 shadow-xl backdrop-blur-sm"
         >
-          <div className="flex items-center justify-between">
-            <div className="text-sm font-medium text-blue-700">
-              Lines {getStartLine(suggestion)}
-              {getOriginalLineCount(suggestion) > 1 &&
-                `-${getStartLine(suggestion) + getOriginalLineCount(suggestion) - 1}`}
-              {suggestion.editType === 'delete' && (
-                <span className="ml-2 text-xs text-red-600">(DELETE)</span>
+          {isFileEdit(suggestion) ? (
+            <>
+              <div className="text-sm font-medium text-blue-700">
+                {describeFileEdit(suggestion)}
+                {suggestion.editType === 'delete_file' && (
+                  <span className="ml-2 text-xs text-red-600">
+                    (DELETE FILE)
+                  </span>
+                )}
+              </div>
+              {suggestion.explanation && (
+                <p className="text-xs text-slate-600">
+                  {suggestion.explanation}
+                </p>
+              )}
+              {suggestion.editType === 'create_file' && (
+                <DiffViewer
+                  original=""
+                  suggested={suggestion.content ?? ''}
+                  className="max-w-full"
+                />
+              )}
+            </>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium text-blue-700">
+                  Lines {getStartLine(suggestion)}
+                  {getOriginalLineCount(suggestion) > 1 &&
+                    `-${getStartLine(suggestion) + getOriginalLineCount(suggestion) - 1}`}
+                  {suggestion.editType === 'delete' && (
+                    <span className="ml-2 text-xs text-red-600">(DELETE)</span>
+                  )}
+                  {suggestion.stale && (
+                    <span className="ml-2 text-xs text-amber-600">(STALE)</span>
+                  )}
+                </div>
+              </div>
+              {suggestion.stale && (
+                <p className="text-xs text-amber-700">
+                  The text this edit changes is no longer in the file.
+                </p>
               )}
-            </div>
-          </div>
 
-          <DiffViewer
-            original={suggestion.original ?? ''}
-            suggested={getSuggestedText(suggestion)}
-            className="max-w-full"
-          />
+              <DiffViewer
+                original={suggestion.original ?? ''}
+                suggested={getSuggestedText(suggestion)}
+                className="max-w-full"
+              />
+            </>
+          )}
 
           <div className="flex items-center gap-2">
             <Button
               size="sm"
               variant="ghost"
               onClick={() => onAccept(suggestion.id)}
+              disabled={suggestion.stale}
               className="flex-1 border border-green-200 text-green-700 hover:border-green-300 hover:bg-green-50"
             >
               <Check size={14} className="mr-1" />
@@ -14,7 +14,10 @@ import {
   ChevronDown,
   FileText,
   FolderArchive,
+  GitCompareArrows,
+  History,
   ImagePlus,
+  Settings2,
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
 
@@ -25,6 +28,9 @@ interface EditorToolbarProps {
   onExportZIP: () => void;
   onOpenReportInitialization: () => void;
   onOpenImageUpload: () => void;
+  onOpenCompileSettings?: () => void;
+  onOpenCompileHistory?: () => void;
+  onOpenPdfCompare?: () => void;
   compiling: boolean;
   exporting: boolean;
   isSaving: boolean;
@@ -41,6 +47,9 @@ export function EditorToolbar({
   onExportZIP,
   onOpenReportInitialization,
   onOpenImageUpload,
+  onOpenCompileSettings,
+  onOpenCompileHistory,
+  onOpenPdfCompare,
   compiling,
   exporting,
   isSaving,
@@ -137,6 +146,45 @@ export function EditorToolbar({
             )}
           </Button>
 
+          {onOpenCompileSettings && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onOpenCompileSettings}
+              className="h-8 w-8 p-0"
+              title="Compile settings"
+              aria-label="Compile settings"
+            >
+              <Settings2 className="size-4" />
+            </Button>
+          )}
+
+          {onOpenCompileHistory && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onOpenCompileHistory}
+              className="h-8 w-8 p-0"
+              title="Compile history"
+              aria-label="Compile history"
+            >
+              <History className="size-4" />
+            </Button>
+          )}
+
+          {onOpenPdfCompare && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onOpenPdfCompare}
+              className="h-8 w-8 p-0"
+              title="Compare PDFs"
+              aria-label="Compare PDFs"
+            >
+              <GitCompareArrows className="size-4" />
+            </Button>
+          )}
+
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button
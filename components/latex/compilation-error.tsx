@@ -7,11 +7,19 @@ import {
   WandSparkles,
   ChevronDown,
   ChevronUp,
+  Loader2,
+  MessageSquare,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import type { CompilationError } from '@/types/compilation';
+import { LatexDiagnosticsList } from '@/components/latex/diagnostics-list';
+import type {
+  CompilationError,
+  CompileRepairAttempt,
+  CompileRepairOutcome,
+  LatexDiagnostic,
+} from '@/types/compilation';
 import { formatCompilationErrorForClipboard } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 
@@ -20,15 +28,97 @@ interface CompilationErrorProps {
   onRetry?: () => void;
   onDismiss?: () => void;
   onFixWithAI?: () => void;
+  onAskInChat?: () => void;
+  onCancelRepair?: () => void;
+  repairing?: boolean;
+  repairAttempts?: CompileRepairAttempt[];
+  onDiagnosticClick?: (diagnostic: LatexDiagnostic) => void;
   className?: string;
   variant?: 'overlay' | 'bottom-bar';
 }
 
+const OUTCOME_LABELS: Record<CompileRepairOutcome, string> = {
+  resolved: 'Compiles without errors',
+  improved: 'Fewer errors',
+  unchanged: 'No improvement',
+  worse: 'More errors',
+  no_edits: 'No edits proposed',
+  failed: 'Could not compile',
+};
+
+function describeAttempt(attempt: CompileRepairAttempt): string {
+  const edits =
+    attempt.editCount === 1 ? '1 edit' : `${attempt.editCount ?? 0} edits`;
+  if (attempt.stage === 'proposing') return 'Proposing edits...';
+  if (attempt.stage === 'compiling') return `Compiling ${edits}...`;
+
+  const outcome = attempt.outcome ? OUTCOME_LABELS[attempt.outcome] : 'Done';
+  if (typeof attempt.errors === 'number' && attempt.errors > 0) {
+    const left =
+      attempt.errors === 1 ? '1 error left' : `${attempt.errors} errors left`;
+    return `${outcome} (${edits}, ${left})`;
+  }
+  return attempt.editCount ? `${outcome} (${edits})` : outcome;
+}
+
+// Attempt history of the compile repair, updated as it streams in
+function RepairAttempts({
+  attempts,
+  repairing,
+}: {
+  attempts: CompileRepairAttempt[];
+  repairing: boolean;
+}) {
+  if (!repairing && attempts.length === 0) return null;
+
+  return (
+    <div className="space-y-1 rounded-lg border border-slate-200 bg-slate-50 p-3">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-900">
+        Fix Attempts
+      </h4>
+      {attempts.length === 0 && (
+        <p className="flex items-center gap-2 text-xs text-slate-600">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Preparing the project...
+        </p>
+      )}
+      {attempts.map((attempt) => (
+        <div key={attempt.attempt} className="space-y-0.5">
+          <p
+            className={cn(
+              'flex items-center gap-2 text-xs',
+              attempt.outcome === 'resolved' || attempt.outcome === 'improved'
+                ? 'text-green-700'
+                : 'text-slate-700'
+            )}
+          >
+            {attempt.stage !== 'done' && (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            )}
+            <span className="font-medium">Attempt {attempt.attempt}:</span>
+            {describeAttempt(attempt)}
+          </p>
+          {attempt.stage === 'done' && attempt.summary && (
+            <p className="line-clamp-2 pl-4 text-xs text-slate-500">
+              {attempt.summary}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function CompilationError({
   error,
   onRetry,
   onDismiss,
   onFixWithAI,
+  onAskInChat,
+  onCancelRepair,
+  repairing = false,
+  repairAttempts = [],
+  onDiagnosticClick,
   className,
   variant = 'overlay',
 }: CompilationErrorProps) {
@@ -115,12 +205,19 @@ export function CompilationError({
                     {error.details}
                   </p>
                 )}
-                {error.summary && (
-                  <div className="rounded-r border-l-2 border-red-500 bg-slate-50 p-3">
-                    <pre className="whitespace-pre-wrap font-mono text-xs leading-relaxed text-slate-700">
-                      {error.summary}
-                    </pre>
-                  </div>
+                {error.diagnostics?.length ? (
+                  <LatexDiagnosticsList
+                    diagnostics={error.diagnostics}
+                    onSelect={onDiagnosticClick}
+                  />
+                ) : (
+                  error.summary && (
+                    <div className="rounded-r border-l-2 border-red-500 bg-slate-50 p-3">
+                      <pre className="whitespace-pre-wrap font-mono text-xs leading-relaxed text-slate-700">
+                        {error.summary}
+                      </pre>
+                    </div>
+                  )
                 )}
               </div>
 
@@ -198,11 +295,39 @@ export function CompilationError({
                 </div>
               )}
 
+              <RepairAttempts attempts={repairAttempts} repairing={repairing} />
+
               <div className="flex gap-2 border-t border-slate-100 pt-3">
-                {onFixWithAI && (
-                  <Button onClick={onFixWithAI} size="sm" className="text-xs">
-                    <WandSparkles className="mr-1 h-3 w-3" />
-                    Fix with AI
+                {onFixWithAI &&
+                  (repairing && onCancelRepair ? (
+                    <Button
+                      onClick={onCancelRepair}
+                      size="sm"
+                      className="text-xs"
+                    >
+                      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      Stop Fixing
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={onFixWithAI}
+                      disabled={repairing}
+                      size="sm"
+                      className="text-xs"
+                    >
+                      <WandSparkles className="mr-1 h-3 w-3" />
+                      Fix with AI
+                    </Button>
+                  ))}
+                {onAskInChat && (
+                  <Button
+                    onClick={onAskInChat}
+                    variant="outline"
+                    size="sm"
+                    className="border-slate-200 text-xs text-slate-700 hover:bg-slate-50"
+                  >
+                    <MessageSquare className="mr-1 h-3 w-3" />
+                    Ask in Chat
                   </Button>
                 )}
                 {onRetry && (
@@ -276,12 +401,19 @@ export function CompilationError({
                 {error.details}
               </p>
             )}
-            {error.summary && (
-              <div className="rounded-r border-l-2 border-red-500 bg-slate-50 p-4">
-                <pre className="whitespace-pre-wrap font-mono text-xs leading-relaxed text-slate-700">
-                  {error.summary}
-                </pre>
-              </div>
+            {error.diagnostics?.length ? (
+              <LatexDiagnosticsList
+                diagnostics={error.diagnostics}
+                onSelect={onDiagnosticClick}
+              />
+            ) : (
+              error.summary && (
+                <div className="rounded-r border-l-2 border-red-500 bg-slate-50 p-4">
+                  <pre className="whitespace-pre-wrap font-mono text-xs leading-relaxed text-slate-700">
+                    {error.summary}
+                  </pre>
+                </div>
+              )
             )}
           </div>
 
@@ -369,11 +501,29 @@ export function CompilationError({
             </div>
           )}
 
+          <RepairAttempts attempts={repairAttempts} repairing={repairing} />
+
           <div className="flex gap-3 border-t border-slate-100 pt-4">
-            {onFixWithAI && (
-              <Button onClick={onFixWithAI}>
-                <WandSparkles className="h-4 w-4" />
-                Fix with AI
+            {onFixWithAI &&
+              (repairing && onCancelRepair ? (
+                <Button onClick={onCancelRepair}>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Stop Fixing
+                </Button>
+              ) : (
+                <Button onClick={onFixWithAI} disabled={repairing}>
+                  <WandSparkles className="h-4 w-4" />
+                  Fix with AI
+                </Button>
+              ))}
+            {onAskInChat && (
+              <Button
+                onClick={onAskInChat}
+                variant="outline"
+                className="border-slate-200 text-slate-700 hover:bg-slate-50"
+              >
+                <MessageSquare className="h-4 w-4" />
+                Ask in Chat
               </Button>
             )}
             {onRetry && (
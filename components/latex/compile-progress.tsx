@@ -0,0 +1,65 @@
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { CompilePassTool, CompileProgress } from '@/types/compilation';
+
+interface CompileProgressPanelProps {
+  progress?: CompileProgress | null;
+  className?: string;
+}
+
+const TOOL_LABELS: Record<CompilePassTool, string> = {
+  latex: 'LaTeX',
+  bibtex: 'BibTeX',
+  biber: 'Biber',
+  makeindex: 'MakeIndex',
+};
+
+// Lines of the live log shown under the stage
+const VISIBLE_LOG_LINES = 6;
+
+export function describeCompileProgress(progress?: CompileProgress | null) {
+  if (!progress) return 'Compiling...';
+
+  if (progress.stage === 'queued') {
+    return progress.queuePosition
+      ? `Waiting in queue (position ${progress.queuePosition})...`
+      : 'Waiting for the compiler...';
+  }
+
+  if (progress.pass && progress.tool) {
+    return `Pass ${progress.pass}: running ${TOOL_LABELS[progress.tool]}...`;
+  }
+
+  return 'Compiling...';
+}
+
+/**
+ * Stage and latest log output of a running compile
+ */
+export function CompileProgressPanel({
+  progress,
+  className,
+}: CompileProgressPanelProps) {
+  const lines = progress?.logLines.slice(-VISIBLE_LOG_LINES) ?? [];
+
+  return (
+    <div
+      className={cn(
+        'flex w-full max-w-md flex-col items-center gap-3 px-4',
+        className
+      )}
+    >
+      <div className="flex items-center">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        <span className="ml-2 text-sm text-slate-600">
+          {describeCompileProgress(progress)}
+        </span>
+      </div>
+      {lines.length > 0 && (
+        <pre className="w-full overflow-hidden whitespace-pre-wrap break-all rounded-md bg-slate-50 p-2 font-mono text-[11px] leading-4 text-slate-500">
+          {lines.join('\n')}
+        </pre>
+      )}
+    </div>
+  );
+}
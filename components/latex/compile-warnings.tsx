@@ -0,0 +1,88 @@
+import React from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LatexDiagnosticsList } from '@/components/latex/diagnostics-list';
+import { countDiagnostics } from '@/lib/utils/latex-log';
+import { cn } from '@/lib/utils';
+import type { LatexDiagnostic } from '@/types/compilation';
+
+interface CompileWarningsProps {
+  diagnostics: LatexDiagnostic[];
+  onDiagnosticClick?: (diagnostic: LatexDiagnostic) => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+function pluralize(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Warnings and bad boxes from a compile that still produced a PDF
+ */
+export function CompileWarnings({
+  diagnostics,
+  onDiagnosticClick,
+  onDismiss,
+  className,
+}: CompileWarningsProps) {
+  const [isCollapsed, setIsCollapsed] = React.useState(true);
+  const counts = countDiagnostics(diagnostics);
+  const title = [
+    counts.warning > 0 && pluralize(counts.warning, 'warning'),
+    counts.badbox > 0 && pluralize(counts.badbox, 'bad box'),
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <div
+      className={cn(
+        'absolute left-0 right-0 top-0 z-30 border-b bg-white',
+        className
+      )}
+    >
+      <div className="flex items-center justify-between border-b border-amber-200 bg-amber-50 px-4 py-2">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 text-amber-500" />
+          <span className="text-sm font-medium text-amber-700">
+            Compiled with {title}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsCollapsed(!isCollapsed)}
+            className="h-7 text-xs text-amber-700 hover:bg-amber-100 hover:text-amber-800"
+          >
+            {isCollapsed ? (
+              <ChevronDown className="mr-1 h-3 w-3" />
+            ) : (
+              <ChevronUp className="mr-1 h-3 w-3" />
+            )}
+            {isCollapsed ? 'Show Details' : 'Collapse'}
+          </Button>
+          {onDismiss && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDismiss}
+              className="h-7 w-7 p-0 text-amber-500 hover:bg-amber-100 hover:text-amber-700"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {!isCollapsed && (
+        <div className="max-h-[50vh] overflow-auto p-4">
+          <LatexDiagnosticsList
+            diagnostics={diagnostics}
+            onSelect={onDiagnosticClick}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { AlertCircle, AlertTriangle, Ruler } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type {
+  LatexDiagnostic,
+  LatexDiagnosticSeverity,
+} from '@/types/compilation';
+
+interface LatexDiagnosticsListProps {
+  diagnostics: LatexDiagnostic[];
+  onSelect?: (diagnostic: LatexDiagnostic) => void;
+  className?: string;
+}
+
+const SEVERITY_ORDER: Record<LatexDiagnosticSeverity, number> = {
+  error: 0,
+  warning: 1,
+  badbox: 2,
+};
+
+const SEVERITY_STYLES: Record<
+  LatexDiagnosticSeverity,
+  { icon: typeof AlertCircle; className: string; border: string }
+> = {
+  error: {
+    icon: AlertCircle,
+    className: 'text-red-500',
+    border: 'border-red-500',
+  },
+  warning: {
+    icon: AlertTriangle,
+    className: 'text-amber-500',
+    border: 'border-amber-400',
+  },
+  badbox: {
+    icon: Ruler,
+    className: 'text-slate-400',
+    border: 'border-slate-300',
+  },
+};
+
+function formatLocation(diagnostic: LatexDiagnostic): string | null {
+  if (!diagnostic.file && !diagnostic.line) return null;
+  const file = diagnostic.file?.split('/').pop() ?? 'line';
+  return diagnostic.line ? `${file}:${diagnostic.line}` : file;
+}
+
+export function LatexDiagnosticsList({
+  diagnostics,
+  onSelect,
+  className,
+}: LatexDiagnosticsListProps) {
+  const sorted = [...diagnostics].sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+  );
+
+  return (
+    <ul className={cn('space-y-1', className)}>
+      {sorted.map((diagnostic, idx) => {
+        const {
+          icon: Icon,
+          className: iconClass,
+          border,
+        } = SEVERITY_STYLES[diagnostic.severity];
+        const location = formatLocation(diagnostic);
+        const clickable = !!onSelect && !!location;
+
+        return (
+          <li key={idx}>
+            <button
+              type="button"
+              disabled={!clickable}
+              onClick={() => onSelect?.(diagnostic)}
+              title={
+                clickable
+                  ? `Go to ${diagnostic.file ?? 'line'}${diagnostic.line ? `:${diagnostic.line}` : ''}`
+                  : undefined
+              }
+              className={cn(
+                'flex w-full items-start gap-2 rounded-r border-l-2 bg-slate-50 px-3 py-2 text-left',
+                border,
+                clickable && 'hover:bg-slate-100'
+              )}
+            >
+              <Icon className={cn('mt-0.5 h-3.5 w-3.5 shrink-0', iconClass)} />
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <p className="break-words font-mono text-xs leading-relaxed text-slate-800">
+                  {diagnostic.message}
+                </p>
+                {diagnostic.help && (
+                  <p className="text-xs leading-relaxed text-slate-500">
+                    {diagnostic.help}
+                  </p>
+                )}
+              </div>
+              {location && (
+                <span
+                  className={cn(
+                    'shrink-0 font-mono text-xs text-slate-500',
+                    clickable &&
+                      'text-blue-600 underline-offset-2 hover:underline'
+                  )}
+                >
+                  {location}
+                </span>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import '@/lib/promise-polyfill';
+import { Loader2 } from 'lucide-react';
+import { pdfjs } from 'react-pdf';
+import dynamic from 'next/dynamic';
+import PDFErrorBoundary from './pdf-error-boundary';
+import type { PdfSource } from '@/hooks/use-pdf-compare';
+
+// init the worker using CDN
+pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+
+// Dynamically import the compare view with no SSR
+const DynamicPDFCompare = dynamic(
+  () => import('@/components/dynamic-pdf-compare'),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        <span className="ml-2 text-slate-500">Loading compare view...</span>
+      </div>
+    ),
+  }
+);
+
+interface PDFCompareWrapperProps {
+  base: PdfSource;
+  compare: PdfSource;
+  baseLabel: string;
+  compareLabel: string;
+}
+
+function PDFCompareWrapper({
+  base,
+  compare,
+  baseLabel,
+  compareLabel,
+}: PDFCompareWrapperProps) {
+  return (
+    <PDFErrorBoundary>
+      <DynamicPDFCompare
+        base={base}
+        compare={compare}
+        baseLabel={baseLabel}
+        compareLabel={compareLabel}
+      />
+    </PDFErrorBoundary>
+  );
+}
+
+export default PDFCompareWrapper;
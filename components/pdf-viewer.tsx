@@ -7,7 +7,13 @@ import 'react-pdf/dist/Page/AnnotationLayer.css';
 import 'react-pdf/dist/Page/TextLayer.css';
 import dynamic from 'next/dynamic';
 import PDFErrorBoundary from './pdf-error-boundary';
-import type { CompilationError } from '@/types/compilation';
+import type {
+  CompilationError,
+  CompileProgress,
+  CompileRepairAttempt,
+  LatexDiagnostic,
+  SynctexHighlight,
+} from '@/types/compilation';
 
 // init the worker using CDN
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
@@ -27,31 +33,58 @@ const DynamicPDFViewer = dynamic(
 );
 
 interface PDFViewerWrapperProps {
-  pdfData?: string | null;
+  pdfUrl?: string | null; // Artifact or data URL
   isLoading?: boolean;
+  compileProgress?: CompileProgress | null;
   compilationError?: CompilationError | null;
   onRetryCompile?: () => void;
   onDismissError?: () => void;
   onFixWithAI?: () => void;
+  onAskInChat?: () => void;
+  onCancelRepair?: () => void;
+  repairing?: boolean;
+  repairAttempts?: CompileRepairAttempt[];
+  diagnostics?: LatexDiagnostic[];
+  onDiagnosticClick?: (diagnostic: LatexDiagnostic) => void;
+  syncHighlight?: SynctexHighlight | null;
+  onSyncClick?: (page: number, x: number, y: number) => void;
 }
 
 function PDFViewerWrapper({
-  pdfData,
+  pdfUrl,
   isLoading,
+  compileProgress,
   compilationError,
   onRetryCompile,
   onDismissError,
   onFixWithAI,
+  onAskInChat,
+  onCancelRepair,
+  repairing,
+  repairAttempts,
+  diagnostics,
+  onDiagnosticClick,
+  syncHighlight,
+  onSyncClick,
 }: PDFViewerWrapperProps) {
   return (
     <PDFErrorBoundary>
       <DynamicPDFViewer
-        pdfData={pdfData}
+        pdfUrl={pdfUrl}
         isLoading={isLoading}
+        compileProgress={compileProgress}
         compilationError={compilationError}
         onRetryCompile={onRetryCompile}
         onDismissError={onDismissError}
         onFixWithAI={onFixWithAI}
+        onAskInChat={onAskInChat}
+        onCancelRepair={onCancelRepair}
+        repairing={repairing}
+        repairAttempts={repairAttempts}
+        diagnostics={diagnostics}
+        onDiagnosticClick={onDiagnosticClick}
+        syncHighlight={syncHighlight}
+        onSyncClick={onSyncClick}
       />
     </PDFErrorBoundary>
   );
@@ -1,5 +1,8 @@
 'use client';
 
+import type { HunkLine } from '@/lib/lars-agent/edit-hunks';
+import { Checkbox } from './checkbox';
+
 interface DiffViewerProps {
   original: string;
   suggested: string;
@@ -52,4 +55,112 @@ export function DiffViewer({ original, suggested, className = '' }: DiffViewerPr
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
+
+export type HunkDiffMode = 'unified' | 'split';
+
+interface HunkDiffViewerProps {
+  lines: HunkLine[];
+  mode?: HunkDiffMode;
+  // Indexes into lines of the changes left out; each changed line gets a checkbox when set
+  rejected?: ReadonlySet<number>;
+  onToggleLine?: (index: number) => void;
+  className?: string;
+}
+
+interface HunkCell {
+  line: HunkLine;
+  index: number;
+}
+
+// Side by side rows: removed lines next to the added lines that replace them
+function splitRows(lines: HunkLine[]): { left?: HunkCell; right?: HunkCell }[] {
+  const rows: { left?: HunkCell; right?: HunkCell }[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === 'same') {
+      const cell = { line: lines[index], index };
+      rows.push({ left: cell, right: cell });
+      index++;
+      continue;
+    }
+    const removed: HunkCell[] = [];
+    const added: HunkCell[] = [];
+    while (index < lines.length && lines[index].type !== 'same') {
+      (lines[index].type === 'removed' ? removed : added).push({ line: lines[index], index });
+      index++;
+    }
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row], right: added[row] });
+    }
+  }
+  return rows;
+}
+
+const lineStyles = {
+  same: { row: '', sign: 'text-gray-400', text: 'text-gray-700' },
+  removed: { row: 'bg-red-50/50 border-l-3 border-red-400', sign: 'bg-red-100 text-red-600', text: 'text-red-700' },
+  added: { row: 'bg-green-50/50 border-l-3 border-green-400', sign: 'bg-green-100 text-green-600', text: 'text-green-700' },
+};
+
+/**
+ * Diff of one proposed edit with file line numbers, shown unified or side by
+ * side. Changed lines can be left out one by one.
+ */
+export function HunkDiffViewer({ lines, mode = 'unified', rejected, onToggleLine, className = '' }: HunkDiffViewerProps) {
+  const renderCell = (cell: HunkCell | undefined, key: string) => {
+    if (!cell) {
+      return <div key={key} className="flex-1 min-w-0 bg-gray-50" />;
+    }
+    const { line, index } = cell;
+    const styles = lineStyles[line.type];
+    const isRejected = line.type !== 'same' && !!rejected?.has(index);
+    return (
+      <div key={key} className={`flex flex-1 min-w-0 ${styles.row} ${isRejected ? 'opacity-50' : ''}`}>
+        {rejected && (
+          <span className="flex items-center justify-center w-7 flex-shrink-0">
+            {line.type !== 'same' && (
+              <Checkbox
+                checked={!isRejected}
+                onCheckedChange={() => onToggleLine?.(index)}
+                aria-label={`${line.type === 'removed' ? 'Remove' : 'Add'} this line`}
+                className="h-3.5 w-3.5"
+              />
+            )}
+          </span>
+        )}
+        <span className="px-2 py-1 text-right text-gray-400 min-w-[36px] flex-shrink-0 select-none">
+          {line.oldLine ?? ''}
+        </span>
+        <span className={`px-1.5 py-1 text-center min-w-[20px] flex-shrink-0 select-none ${styles.sign}`}>
+          {line.type === 'removed' ? '−' : line.type === 'added' ? '+' : '\u00A0'}
+        </span>
+        <div className={`px-2 py-1 flex-1 min-w-0 break-all whitespace-pre-wrap ${styles.text} ${isRejected ? 'line-through' : ''}`}>
+          {line.text || '\u00A0'}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className={`rounded-lg border border-gray-200 bg-white text-xs font-mono max-w-full max-h-96 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100 ${className}`}>
+      {lines.length === 0 && (
+        <div className="px-4 py-3 text-gray-500 italic text-center bg-gray-50/50">
+          No changes to display
+        </div>
+      )}
+      {mode === 'unified'
+        ? lines.map((line, index) => (
+            <div key={index} className="flex">
+              {renderCell({ line, index }, 'line')}
+            </div>
+          ))
+        : splitRows(lines).map((row, rowIndex) => (
+            <div key={rowIndex} className="flex divide-x divide-gray-200">
+              {renderCell(row.left, 'left')}
+              {renderCell(row.right, 'right')}
+            </div>
+          ))}
+    </div>
+  );
+}
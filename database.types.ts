@@ -39,6 +39,156 @@ export type Database = {
   };
   public: {
     Tables: {
+      chat_messages: {
+        Row: {
+          accepted_edits: Json;
+          content: string;
+          context: Json | null;
+          created_at: string | null;
+          file_changes: Json;
+          id: string;
+          proposed_edits: Json;
+          role: string;
+          session_id: string;
+        };
+        Insert: {
+          accepted_edits?: Json;
+          content?: string;
+          context?: Json | null;
+          created_at?: string | null;
+          file_changes?: Json;
+          id?: string;
+          proposed_edits?: Json;
+          role: string;
+          session_id: string;
+        };
+        Update: {
+          accepted_edits?: Json;
+          content?: string;
+          context?: Json | null;
+          created_at?: string | null;
+          file_changes?: Json;
+          id?: string;
+          proposed_edits?: Json;
+          role?: string;
+          session_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'chat_messages_session_id_fkey';
+            columns: ['session_id'];
+            isOneToOne: false;
+            referencedRelation: 'chat_sessions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      chat_sessions: {
+        Row: {
+          created_at: string | null;
+          id: string;
+          project_id: string;
+          title: string;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          id?: string;
+          project_id: string;
+          title?: string;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          id?: string;
+          project_id?: string;
+          title?: string;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'chat_sessions_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      compilations: {
+        Row: {
+          cached: boolean;
+          created_at: string | null;
+          diagnostics_count: number;
+          duration_ms: number | null;
+          engine: string;
+          error_count: number;
+          error_message: string | null;
+          id: string;
+          pdf_path: string | null;
+          pdf_sha256: string | null;
+          pdf_size: number | null;
+          project_id: string;
+          queue_ms: number | null;
+          request_id: string | null;
+          root_file: string | null;
+          status: string;
+          user_id: string;
+          warning_count: number;
+        };
+        Insert: {
+          cached?: boolean;
+          created_at?: string | null;
+          diagnostics_count?: number;
+          duration_ms?: number | null;
+          engine: string;
+          error_count?: number;
+          error_message?: string | null;
+          id?: string;
+          pdf_path?: string | null;
+          pdf_sha256?: string | null;
+          pdf_size?: number | null;
+          project_id: string;
+          queue_ms?: number | null;
+          request_id?: string | null;
+          root_file?: string | null;
+          status: string;
+          user_id: string;
+          warning_count?: number;
+        };
+        Update: {
+          cached?: boolean;
+          created_at?: string | null;
+          diagnostics_count?: number;
+          duration_ms?: number | null;
+          engine?: string;
+          error_count?: number;
+          error_message?: string | null;
+          id?: string;
+          pdf_path?: string | null;
+          pdf_sha256?: string | null;
+          pdf_size?: number | null;
+          project_id?: string;
+          queue_ms?: number | null;
+          request_id?: string | null;
+          root_file?: string | null;
+          status?: string;
+          user_id?: string;
+          warning_count?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'compilations_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       document_versions: {
         Row: {
           change_summary: string | null;
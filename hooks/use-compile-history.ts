@@ -0,0 +1,48 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import useSWR from 'swr';
+import type { CompilationRecord } from '@/types/compilation';
+import { getCompilations } from '@/lib/requests/compilations';
+
+export interface CompileHistoryState {
+  compilations: CompilationRecord[];
+  isLoadingHistory: boolean;
+  historyError: string | null;
+  refreshHistory: () => void;
+}
+
+// Compilations are recorded after the response is sent
+const REFRESH_DELAY_MS = 1500;
+
+/**
+ * The project's compile history, refreshed after every compile
+ */
+export function useCompileHistory(
+  projectId: string | undefined,
+  compiling: boolean
+): CompileHistoryState {
+  const { data, error, isLoading, mutate } = useSWR<CompilationRecord[]>(
+    projectId ? ['compilations', projectId] : null,
+    () => getCompilations(projectId as string)
+  );
+
+  const wasCompiling = useRef(compiling);
+  useEffect(() => {
+    const finished = wasCompiling.current && !compiling;
+    wasCompiling.current = compiling;
+    if (!finished) return;
+
+    const timer = setTimeout(() => mutate(), REFRESH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [compiling, mutate]);
+
+  return {
+    compilations: data ?? [],
+    isLoadingHistory: isLoading,
+    historyError: error instanceof Error ? error.message : null,
+    refreshHistory: () => {
+      mutate();
+    },
+  };
+}
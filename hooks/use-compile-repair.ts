@@ -0,0 +1,176 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { v4 as uuid } from 'uuid';
+import type { EditSuggestion } from '@/types/edit';
+import type {
+  CompilationError,
+  CompileRepairAttempt,
+  CompileRepairResult,
+  CompileSettings,
+} from '@/types/compilation';
+import type { CompilationState } from '@/hooks/use-editor-compilation';
+import { readSSEStream } from '@/lib/utils/sse';
+
+export interface CompileRepairState {
+  repairing: boolean;
+  repairError: CompilationError | null; // The error the attempts belong to
+  attempts: CompileRepairAttempt[]; // Latest state of each attempt
+  startRepair: (error: CompilationError) => Promise<void>;
+  cancelRepair: () => void;
+}
+
+interface UseCompileRepairProps {
+  buildCompileFiles: CompilationState['buildCompileFiles'];
+  compileSettings?: CompileSettings;
+  projectId?: string;
+  currentFilePath?: string | null;
+  onSuggestion: (suggestion: EditSuggestion | EditSuggestion[]) => void;
+  finalizeEdits: () => void;
+}
+
+export function useCompileRepair({
+  buildCompileFiles,
+  compileSettings,
+  projectId,
+  currentFilePath,
+  onSuggestion,
+  finalizeEdits,
+}: UseCompileRepairProps): CompileRepairState {
+  const [repairing, setRepairing] = useState(false);
+  const [repairError, setRepairError] = useState<CompilationError | null>(null);
+  const [attempts, setAttempts] = useState<CompileRepairAttempt[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const cancelRepair = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setRepairing(false);
+  }, []);
+
+  const startRepair = useCallback(
+    async (error: CompilationError) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      setRepairing(true);
+      setRepairError(error);
+      setAttempts([]);
+
+      let result: CompileRepairResult | null = null;
+      let failure: string | null = null;
+
+      try {
+        const { files, lastModifiedFile } = await buildCompileFiles();
+        const response = await fetch('/api/lars-agent/repair', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'text/event-stream',
+          },
+          body: JSON.stringify({
+            files,
+            projectId,
+            lastModifiedFile,
+            settings: compileSettings,
+            currentFilePath,
+            error: {
+              message: error.message,
+              log: error.log,
+              diagnostics: error.diagnostics,
+            },
+          }),
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => null);
+          throw new Error(
+            data?.details || data?.error || 'Failed to start compile repair'
+          );
+        }
+
+        await readSSEStream(response.body, (event, data) => {
+          if (event === 'attempt') {
+            const update = data as CompileRepairAttempt;
+            setAttempts((previous) => {
+              const index = previous.findIndex(
+                (attempt) => attempt.attempt === update.attempt
+              );
+              if (index === -1) return [...previous, update];
+              const next = [...previous];
+              next[index] = { ...next[index], ...update };
+              return next;
+            });
+          } else if (event === 'result') {
+            result = data as CompileRepairResult;
+          } else if (event === 'error') {
+            failure =
+              (data as { message?: string })?.message ||
+              'Compile repair failed';
+          }
+        });
+
+        if (controller.signal.aborted) return;
+        // Assigned in the stream callback, which narrowing does not see
+        const streamFailure = failure as string | null;
+        if (streamFailure) throw new Error(streamFailure);
+
+        const outcome = result as CompileRepairResult | null;
+        if (!outcome || outcome.edits.length === 0) {
+          toast.info('No fix found', {
+            description:
+              'None of the proposed edits reduced the compile errors.',
+          });
+          return;
+        }
+
+        const suggestions: EditSuggestion[] = outcome.edits.map((edit) => ({
+          ...edit,
+          id: uuid(),
+          status: 'pending' as const,
+        }));
+        onSuggestion(suggestions);
+        finalizeEdits();
+
+        if (outcome.resolved) {
+          toast.success('Found a fix that compiles', {
+            description: 'Review the suggested edits to apply it.',
+          });
+        } else {
+          toast.info(
+            `Fixed ${outcome.baselineErrors - outcome.errors} of ${outcome.baselineErrors} errors`,
+            { description: 'Review the suggested edits to apply them.' }
+          );
+        }
+      } catch (repairFailure) {
+        if (controller.signal.aborted) return;
+        console.error('[CompileRepair] Error:', repairFailure);
+        toast.error(
+          repairFailure instanceof Error
+            ? repairFailure.message
+            : 'Compile repair failed'
+        );
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setRepairing(false);
+        }
+      }
+    },
+    [
+      buildCompileFiles,
+      compileSettings,
+      projectId,
+      currentFilePath,
+      onSuggestion,
+      finalizeEdits,
+    ]
+  );
+
+  return { repairing, repairError, attempts, startRepair, cancelRepair };
+}
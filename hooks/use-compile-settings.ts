@@ -0,0 +1,48 @@
+'use client';
+
+import { useCallback } from 'react';
+import useSWR from 'swr';
+import { toast } from 'sonner';
+import type { CompileSettings } from '@/types/compilation';
+import { DEFAULT_COMPILE_SETTINGS } from '@/lib/utils/compile-settings';
+import {
+  getCompileSettings,
+  updateCompileSettings,
+} from '@/lib/requests/compile-settings';
+
+export interface CompileSettingsState {
+  compileSettings: CompileSettings;
+  isLoadingSettings: boolean;
+  saveCompileSettings: (settings: CompileSettings) => Promise<boolean>;
+}
+
+export function useCompileSettings(projectId?: string): CompileSettingsState {
+  const { data, isLoading, mutate } = useSWR<CompileSettings>(
+    projectId ? ['compile-settings', projectId] : null,
+    () => getCompileSettings(projectId as string)
+  );
+
+  const saveCompileSettings = useCallback(
+    async (settings: CompileSettings) => {
+      if (!projectId) return false;
+      try {
+        const saved = await updateCompileSettings(projectId, settings);
+        await mutate(saved, { revalidate: false });
+        return true;
+      } catch (error) {
+        console.error('[CompileSettings] Failed to save settings:', error);
+        toast.error(
+          error instanceof Error ? error.message : 'Failed to save settings'
+        );
+        return false;
+      }
+    },
+    [projectId, mutate]
+  );
+
+  return {
+    compileSettings: data ?? DEFAULT_COMPILE_SETTINGS,
+    isLoadingSettings: isLoading,
+    saveCompileSettings,
+  };
+}
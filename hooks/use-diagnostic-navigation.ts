@@ -0,0 +1,100 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import type * as Monaco from 'monaco-editor';
+import { toast } from 'sonner';
+import { FileActions, useProjectFiles, useSelectedFile } from '@/stores/file';
+import { matchDiagnosticFile } from '@/lib/utils/latex-log';
+import type { LatexDiagnostic } from '@/types/compilation';
+
+export interface DiagnosticNavigationState {
+  goToDiagnostic: (diagnostic: LatexDiagnostic) => void;
+  // Opens a file by the path TeX recorded for it and reveals the line
+  goToSource: (file: string, line: number) => void;
+  // Call from the editor's onMount so jumps into a freshly opened file land
+  revealPendingLine: () => void;
+}
+
+interface UseDiagnosticNavigationProps {
+  content: string;
+  editorRef: React.MutableRefObject<Monaco.editor.IStandaloneCodeEditor | null>;
+}
+
+export function useDiagnosticNavigation({
+  content,
+  editorRef,
+}: UseDiagnosticNavigationProps): DiagnosticNavigationState {
+  const projectFiles = useProjectFiles();
+  const selectedFile = useSelectedFile();
+  // Line to reveal once the target file is loaded into the editor
+  const pendingRef = useRef<{ fileId: string; line: number } | null>(null);
+
+  const revealLine = useCallback(
+    (line: number): boolean => {
+      const editor = editorRef.current;
+      const model = editor?.getModel();
+      if (!editor || !model) return false;
+
+      const lineNumber = Math.min(Math.max(line, 1), model.getLineCount());
+      editor.revealLineInCenter(lineNumber);
+      editor.setPosition({ lineNumber, column: 1 });
+      editor.focus();
+      return true;
+    },
+    [editorRef]
+  );
+
+  const revealPendingLine = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending || pending.fileId !== selectedFile?.id) return;
+    if (revealLine(pending.line)) {
+      pendingRef.current = null;
+    }
+  }, [selectedFile?.id, revealLine]);
+
+  // The editor picks up the new file's content before this runs
+  useEffect(() => {
+    revealPendingLine();
+  }, [content, revealPendingLine]);
+
+  const goToSource = useCallback(
+    (file: string, line: number) => {
+      const files = projectFiles ?? [];
+      const path = matchDiagnosticFile(
+        file,
+        files.map((projectFile) => projectFile.file.name)
+      );
+      const target = files.find(
+        (projectFile) => projectFile.file.name === path
+      );
+      if (!target) {
+        toast.info(`${file} is not part of this project`);
+        return;
+      }
+
+      if (target.file.id === selectedFile?.id) {
+        revealLine(line);
+        return;
+      }
+
+      pendingRef.current = { fileId: target.file.id, line };
+      FileActions.setSelectedFile(target.file);
+    },
+    [projectFiles, selectedFile?.id, revealLine]
+  );
+
+  const goToDiagnostic = useCallback(
+    (diagnostic: LatexDiagnostic) => {
+      // Without a file the log lost track of the input stack; stay put
+      if (!diagnostic.file) {
+        if (diagnostic.line) revealLine(diagnostic.line);
+        return;
+      }
+
+      goToSource(diagnostic.file, diagnostic.line ?? 1);
+    },
+    [goToSource, revealLine]
+  );
+
+  return { goToDiagnostic, goToSource, revealPendingLine };
+}
@@ -0,0 +1,138 @@
+import { EditSuggestion, FileChange } from '@/types/edit';
+import { toast } from 'sonner';
+import {
+  createProjectFile,
+  deleteFile,
+  renameFile,
+} from '@/lib/requests/project';
+import { FileActions, useFileStore } from '@/stores/file';
+import type { ProjectFile } from '@/hooks/use-file-editor';
+
+/**
+ * File-level edit suggestions (create/rename/delete)
+ */
+
+/**
+ * Human-readable title for a file edit suggestion
+ */
+export function describeFileEdit(suggestion: EditSuggestion): string {
+  switch (suggestion.editType) {
+    case 'create_file':
+      return `Create ${suggestion.filePath}`;
+    case 'rename_file':
+      return `Rename ${suggestion.filePath} → ${suggestion.newFilePath}`;
+    case 'delete_file':
+      return `Delete ${suggestion.filePath}`;
+    default:
+      return suggestion.filePath || 'File change';
+  }
+}
+
+/**
+ * What a file edit changes, recorded before it is applied so the change can
+ * be reverted
+ */
+export function getFileOperationChange(
+  suggestion: EditSuggestion,
+  projectFiles: ProjectFile[] | null | undefined
+): FileChange | null {
+  const filePath = suggestion.filePath;
+  if (!filePath) return null;
+
+  const files = useFileStore.getState().projectFiles ?? projectFiles;
+  const text = files?.find((f) => f.file.name === filePath)?.document?.content;
+
+  switch (suggestion.editType) {
+    case 'create_file':
+      return {
+        filePath,
+        before: '',
+        after: suggestion.content ?? '',
+        operation: 'create',
+      };
+    case 'rename_file':
+      if (!suggestion.newFilePath) return null;
+      return {
+        filePath,
+        before: text ?? '',
+        after: text ?? '',
+        operation: 'rename',
+        newFilePath: suggestion.newFilePath,
+      };
+    case 'delete_file':
+      return {
+        filePath,
+        before: text ?? '',
+        after: '',
+        operation: 'delete',
+        ...(text === undefined && { contentUnknown: true }),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply an accepted file edit to project storage and the documents table
+ * @returns true if the operation succeeded
+ */
+export async function applyFileEdit(
+  suggestion: EditSuggestion,
+  projectId: string,
+  projectFiles: ProjectFile[] | null | undefined
+): Promise<boolean> {
+  const filePath = suggestion.filePath;
+  if (!filePath) return false;
+
+  const { selectedFile } = useFileStore.getState();
+
+  try {
+    switch (suggestion.editType) {
+      case 'create_file':
+        await createProjectFile(projectId, filePath, suggestion.content ?? '');
+        break;
+
+      case 'rename_file': {
+        if (!suggestion.newFilePath) return false;
+        await renameFile(projectId, filePath, suggestion.newFilePath);
+
+        // keep the editor on the renamed file
+        if (selectedFile?.name === filePath) {
+          FileActions.setSelectedFile({
+            ...selectedFile,
+            name: suggestion.newFilePath,
+          });
+        }
+        break;
+      }
+
+      case 'delete_file': {
+        const target = projectFiles?.find((f) => f.file.name === filePath);
+        await deleteFile(projectId, target?.file.id ?? '', filePath);
+
+        // fall back to main.tex when the open file is deleted
+        if (selectedFile?.name === filePath) {
+          const fallback = projectFiles?.find(
+            (f) => f.file.name === 'main.tex' && f.file.name !== filePath
+          );
+          FileActions.setSelectedFile(fallback?.file ?? null);
+        }
+        break;
+      }
+
+      default:
+        return false;
+    }
+
+    toast.success(`${describeFileEdit(suggestion)}: done`, { duration: 1500 });
+    return true;
+  } catch (error) {
+    console.error('Error applying file edit:', error);
+    toast.error(
+      error instanceof Error
+        ? error.message
+        : 'Failed to apply this file change. Please try again.'
+    );
+    return false;
+  }
+}
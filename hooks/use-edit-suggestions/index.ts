@@ -8,6 +8,7 @@
  * - Visual decorations in the editor
  * - Accept/reject operations with conflict resolution
  * - Line shift rebasing for remaining suggestions
+ * - Review panel listing every pending edit, accepted per hunk or line
  */
 
 export { useEditSuggestions } from './use-edit-suggestions';
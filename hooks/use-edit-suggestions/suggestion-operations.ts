@@ -1,7 +1,9 @@
 import { EditSuggestion } from '@/types/edit';
 import type * as Monaco from 'monaco-editor';
 import { toast } from 'sonner';
+import { locateEdit } from '@/lib/lars-agent/edit-anchors';
 import {
+  getModelLines,
   getStartLine,
   getOriginalLineCount,
   getSuggestedText,
@@ -11,6 +13,7 @@ import {
 
 /**
  * Accept a single edit suggestion and apply it to the editor
+ * @returns true if the edit was applied
  */
 export async function acceptSingleEdit(
   suggestionId: string,
@@ -18,18 +21,29 @@ export async function acceptSingleEdit(
   editor: Monaco.editor.IStandaloneCodeEditor,
   monacoInstance: typeof Monaco,
   onUpdate: (updater: (prev: EditSuggestion[]) => EditSuggestion[]) => void
-): Promise<void> {
+): Promise<boolean> {
   const suggestion = editSuggestions.find((s) => s.id === suggestionId);
-  if (!suggestion || suggestion.status !== 'pending') return;
+  if (!suggestion || suggestion.status !== 'pending') return false;
 
   const model = editor.getModel();
   if (!model) {
     console.error('Editor model not available.');
-    return;
+    return false;
   }
 
   try {
-    const startLineNumber = getStartLine(suggestion);
+    // The file may have changed since the edit was proposed
+    const linesBefore = getModelLines(model);
+    const startLineNumber = locateEdit(linesBefore, suggestion);
+    if (startLineNumber === null) {
+      onUpdate((prev) =>
+        prev.map((s) => (s.id === suggestionId ? { ...s, stale: true } : s))
+      );
+      toast.error(
+        'The text this suggestion changes is no longer in the file. Reject it or ask again.'
+      );
+      return false;
+    }
     const originalLineCount = getOriginalLineCount(suggestion);
     const suggestedText = getSuggestedText(suggestion);
     const modelLineCount = model.getLineCount();
@@ -78,7 +92,14 @@ export async function acceptSingleEdit(
       const adjusted: EditSuggestion[] = [];
 
       for (const s of remaining) {
-        const sStart = getStartLine(s);
+        // Compared where it sits now, as the accepted edit was; one whose
+        // text is gone is left for its own accept to mark stale
+        const located = locateEdit(linesBefore, s);
+        if (located === null) {
+          adjusted.push(s);
+          continue;
+        }
+        const sStart = located;
         const sOriginalLineCount = getOriginalLineCount(s);
         const sEnd =
           sOriginalLineCount > 0 ? sStart + sOriginalLineCount - 1 : sStart;
@@ -96,10 +117,7 @@ export async function acceptSingleEdit(
           ) {
             adjusted.push({
               ...s,
-              position: {
-                ...s.position,
-                line: (s.position?.line || 1) + deltaLines,
-              },
+              position: { ...s.position, line: sStart + deltaLines },
             });
           }
           // Otherwise skip conflicting suggestion
@@ -110,11 +128,10 @@ export async function acceptSingleEdit(
         if (sStart > acceptedEnd && deltaLines !== 0) {
           adjusted.push({
             ...s,
-            position: {
-              ...s.position,
-              line: (s.position?.line || 1) + deltaLines,
-            },
+            position: { ...s.position, line: sStart + deltaLines },
           });
+        } else if (sStart !== getStartLine(s)) {
+          adjusted.push({ ...s, position: { ...s.position, line: sStart } });
         } else {
           adjusted.push(s);
         }
@@ -123,44 +140,57 @@ export async function acceptSingleEdit(
     });
 
     toast.success('Edit applied', { duration: 1000 });
+    return true;
   } catch (error) {
     console.error('Error applying edit:', error);
     toast.error('Failed to apply this suggestion. Please try again.');
+    return false;
   }
 }
 
 /**
- * Accept all pending edit suggestions at once
+ * Accept all pending edit suggestions at once. Suggestions whose text is no
+ * longer in the file are left out and handed to onClearAll, marked stale.
+ * @returns true if the edits were applied
  */
 export async function acceptAllEdits(
   allPendingSuggestions: EditSuggestion[],
   editor: Monaco.editor.IStandaloneCodeEditor,
   monacoInstance: typeof Monaco,
-  onClearAll: () => void
-): Promise<void> {
+  onClearAll: (stale: EditSuggestion[]) => void
+): Promise<boolean> {
   if (allPendingSuggestions.length === 0) {
-    onClearAll();
-    return;
+    onClearAll([]);
+    return false;
   }
 
   const model = editor.getModel();
   if (!model) {
     console.error('Editor model not available.');
-    return;
+    return false;
   }
 
   try {
+    // Place every suggestion in the file as it is now
+    const lines = getModelLines(model);
+    const placed: { suggestion: EditSuggestion; line: number }[] = [];
+    const stale: EditSuggestion[] = [];
+    for (const suggestion of allPendingSuggestions) {
+      const line = locateEdit(lines, suggestion);
+      if (line === null) {
+        stale.push({ ...suggestion, stale: true });
+      } else {
+        placed.push({ suggestion, line });
+      }
+    }
+
     // Sort suggestions from bottom to top (highest line first)
     // This prevents earlier edits from affecting the positions of later edits
-    const sortedSuggestions = [...allPendingSuggestions].sort((a, b) => {
-      const lineA = getStartLine(a);
-      const lineB = getStartLine(b);
-      return lineB - lineA; // Descending order
-    });
+    const sortedSuggestions = placed.sort((a, b) => b.line - a.line);
 
     // Build all edit operations
-    const edits = sortedSuggestions.map((suggestion) => {
-      const startLineNumber = getStartLine(suggestion);
+    const edits = sortedSuggestions.map(({ suggestion, line }) => {
+      const startLineNumber = line;
       const originalLineCount = getOriginalLineCount(suggestion);
       const suggestedText = getSuggestedText(suggestion);
 
@@ -184,16 +214,26 @@ export async function acceptAllEdits(
     });
 
     // Apply all edits in a single batch operation
-    editor.executeEdits('accept-all-ai-suggestions', edits);
-
-    onClearAll();
-
-    toast.success(`Applied ${allPendingSuggestions.length} edits`, {
-      duration: 2000,
-    });
+    if (edits.length > 0) {
+      editor.executeEdits('accept-all-ai-suggestions', edits);
+    }
+
+    onClearAll(stale);
+
+    if (stale.length > 0) {
+      toast.warning(
+        `Applied ${placed.length} edits. ${stale.length} no longer match the file and were kept for review.`
+      );
+    } else {
+      toast.success(`Applied ${placed.length} edits`, {
+        duration: 2000,
+      });
+    }
+    return placed.length > 0;
   } catch (error) {
     console.error('Error applying all edits:', error);
     toast.error('Failed to apply suggestions. Please try again.');
+    return false;
   }
 }
 
@@ -9,6 +9,7 @@ import type { ProjectFile } from '@/hooks/use-file-editor';
 export interface EditSuggestionsState {
   editSuggestions: EditSuggestion[];
   totalPendingCount: number;
+  allPendingCount: number; // Including files not yet opened for review
   decorationIds: string[];
   setDecorationIds: (ids: string[]) => void;
   handleEditSuggestion: (suggestion: EditSuggestion | EditSuggestion[]) => void;
@@ -17,6 +18,20 @@ export interface EditSuggestionsState {
   handleRejectEdit: (suggestionId: string) => void;
   handleNextSuggestion: () => void;
   finalizeEdits: () => void;
+  review: EditReviewState;
+}
+
+// The review panel, which lists every pending edit at once
+export interface EditReviewState {
+  isOpen: boolean;
+  suggestions: EditSuggestion[];
+  busyIds: string[]; // Edits being applied
+  openReview: () => void;
+  closeReview: () => void;
+  // rejectedLines: indexes into the edit's hunk lines to leave out
+  acceptEdit: (suggestionId: string, rejectedLines?: number[]) => Promise<void>;
+  acceptEdits: (suggestionIds: string[]) => Promise<void>;
+  rejectEdits: (suggestionIds: string[]) => void;
 }
 
 export interface UseEditSuggestionsProps {
@@ -25,6 +40,7 @@ export interface UseEditSuggestionsProps {
   showInlinePreview?: boolean; // controls inline 'after' preview decoration
   currentFilePath?: string | null;
   projectFiles?: ProjectFile[] | null;
+  projectId?: string; // required to apply file-level suggestions (create/rename/delete)
   cancelPendingSave?: () => void; // cancel any pending debounced saves before file switch
 }
 
@@ -0,0 +1,260 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { EditSuggestion } from '@/types/edit';
+import { applyLineEdits, isFileEdit } from '@/lib/lars-agent/line-edits';
+import { buildHunk, selectHunkContent } from '@/lib/lars-agent/edit-hunks';
+import { saveDocument } from '@/lib/requests/document';
+import { FileActions, useFileStore } from '@/stores/file';
+import type { ProjectFile } from '@/hooks/use-file-editor';
+import { applyFileEdit, getFileOperationChange } from './file-operations';
+import { notifyEditsAccepted } from './utils';
+import type { EditReviewState } from './types';
+
+interface UseEditReviewProps {
+  projectId?: string;
+  projectFiles?: ProjectFile[] | null;
+  currentFilePath?: string | null;
+  canEdit: boolean;
+  cancelPendingSave?: () => void;
+  revalidate: () => Promise<void>;
+  takePendingSuggestions: () => EditSuggestion[];
+  restoreSuggestions: (suggestions: EditSuggestion[]) => void;
+}
+
+/**
+ * The file a suggestion targets; line edits without a path are for the file
+ * that was open when they were proposed
+ */
+export function reviewFilePath(
+  suggestion: EditSuggestion,
+  currentFilePath?: string | null
+): string {
+  if (suggestion.filePath && suggestion.filePath !== 'current') {
+    return suggestion.filePath;
+  }
+  return currentFilePath || '';
+}
+
+/**
+ * Review every pending suggestion at once. Opening the review takes the
+ * suggestions out of the editor queue; accepted line edits are written to
+ * their file's document directly, so the open file never changes. Closing
+ * hands what is left back to the queue.
+ */
+export function useEditReview({
+  projectId,
+  projectFiles,
+  currentFilePath,
+  canEdit,
+  cancelPendingSave,
+  revalidate,
+  takePendingSuggestions,
+  restoreSuggestions,
+}: UseEditReviewProps): EditReviewState {
+  const [isOpen, setIsOpen] = useState(false);
+  const [suggestions, setSuggestionsState] = useState<EditSuggestion[]>([]);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  // Accepting several edits in a row needs the list as the previous one left it
+  const suggestionsRef = useRef<EditSuggestion[]>([]);
+
+  const setSuggestions = useCallback(
+    (update: (prev: EditSuggestion[]) => EditSuggestion[]) => {
+      suggestionsRef.current = update(suggestionsRef.current);
+      setSuggestionsState(suggestionsRef.current);
+    },
+    []
+  );
+
+  const removeSuggestion = useCallback(
+    (suggestionId: string) => {
+      setSuggestions((prev) => prev.filter((s) => s.id !== suggestionId));
+    },
+    [setSuggestions]
+  );
+
+  const openReview = useCallback(() => {
+    const pending = takePendingSuggestions();
+    setSuggestions((prev) => [
+      ...prev,
+      ...pending.filter((s) => !prev.some((p) => p.id === s.id)),
+    ]);
+    setIsOpen(true);
+  }, [takePendingSuggestions, setSuggestions]);
+
+  const closeReview = useCallback(() => {
+    setIsOpen(false);
+    const remaining = suggestionsRef.current;
+    setSuggestions(() => []);
+    if (remaining.length > 0) {
+      restoreSuggestions(remaining);
+    }
+  }, [restoreSuggestions, setSuggestions]);
+
+  const applyLineSuggestion = useCallback(
+    async (suggestion: EditSuggestion, rejectedLines: number[]) => {
+      if (!projectId) {
+        console.error('Project ID not available for edit review.');
+        return false;
+      }
+
+      const filePath = reviewFilePath(suggestion, currentFilePath);
+      const projectFile = useFileStore
+        .getState()
+        .projectFiles?.find(
+          (file) => file.file.name === filePath && file.document
+        );
+      if (!projectFile?.document) {
+        toast.error(`${filePath || 'The file'} is no longer in the project.`);
+        return false;
+      }
+
+      const before = projectFile.document.content;
+      const hunk = buildHunk(suggestion, before.split(/\r\n?|\n/));
+      if (!hunk) {
+        setSuggestions((prev) =>
+          prev.map((s) => (s.id === suggestion.id ? { ...s, stale: true } : s))
+        );
+        toast.error(
+          'The text this edit changes is no longer in the file. Reject it or ask again.'
+        );
+        return false;
+      }
+
+      const content = selectHunkContent(
+        suggestion,
+        hunk,
+        new Set(rejectedLines)
+      );
+      // Every change was left out, which is the same as rejecting it
+      if (content === null) return true;
+
+      const after = applyLineEdits(before, [
+        {
+          ...suggestion,
+          position: { line: hunk.startLine },
+          originalLineCount: hunk.originalLineCount,
+          content,
+        },
+      ]);
+
+      // A pending autosave of the open file would write the old text back
+      if (filePath === currentFilePath) cancelPendingSave?.();
+      FileActions.updateFileContent(projectFile.file.id, after);
+      const result = await saveDocument(
+        projectId,
+        projectFile.file.id,
+        after,
+        projectFile.file.name
+      );
+      if (result.success) {
+        FileActions.markFileSaved(projectFile.file.id);
+      } else {
+        toast.error(
+          `Applied the edit, but ${filePath} could not be saved. Save manually to keep it.`
+        );
+      }
+
+      // Keep the proposed lines of later edits in this file in step
+      const shift = after.split('\n').length - before.split(/\r\n?|\n/).length;
+      const end = hunk.startLine + hunk.originalLineCount;
+      setSuggestions((prev) =>
+        prev.map((s) => {
+          const line = s.position?.line;
+          if (
+            shift === 0 ||
+            s.id === suggestion.id ||
+            isFileEdit(s) ||
+            line === undefined ||
+            line < end ||
+            reviewFilePath(s, currentFilePath) !== filePath
+          ) {
+            return s;
+          }
+          return { ...s, position: { ...s.position, line: line + shift } };
+        })
+      );
+
+      notifyEditsAccepted([suggestion], [{ filePath, before, after }]);
+      return true;
+    },
+    [projectId, currentFilePath, cancelPendingSave, setSuggestions]
+  );
+
+  const acceptEdit = useCallback(
+    async (suggestionId: string, rejectedLines: number[] = []) => {
+      // Fast check using cached status
+      if (!canEdit) {
+        toast.error('You have reached your edit limit.');
+        return;
+      }
+
+      const suggestion = suggestionsRef.current.find(
+        (s) => s.id === suggestionId
+      );
+      if (!suggestion) return;
+
+      setBusyIds((prev) => [...prev, suggestionId]);
+      try {
+        if (isFileEdit(suggestion)) {
+          if (!projectId) {
+            console.error('Project ID not available for file edit.');
+            return;
+          }
+          const change = getFileOperationChange(suggestion, projectFiles);
+          if (await applyFileEdit(suggestion, projectId, projectFiles)) {
+            removeSuggestion(suggestionId);
+            notifyEditsAccepted([suggestion], change ? [change] : []);
+            await revalidate();
+          }
+          return;
+        }
+
+        if (await applyLineSuggestion(suggestion, rejectedLines)) {
+          removeSuggestion(suggestionId);
+        }
+      } finally {
+        setBusyIds((prev) => prev.filter((id) => id !== suggestionId));
+      }
+    },
+    [
+      canEdit,
+      projectId,
+      projectFiles,
+      revalidate,
+      applyLineSuggestion,
+      removeSuggestion,
+    ]
+  );
+
+  const acceptEdits = useCallback(
+    async (suggestionIds: string[]) => {
+      // One at a time, so each edit is placed in the file the last one left
+      for (const suggestionId of suggestionIds) {
+        await acceptEdit(suggestionId);
+      }
+    },
+    [acceptEdit]
+  );
+
+  const rejectEdits = useCallback(
+    (suggestionIds: string[]) => {
+      setSuggestions((prev) =>
+        prev.filter((s) => !suggestionIds.includes(s.id))
+      );
+    },
+    [setSuggestions]
+  );
+
+  return {
+    isOpen,
+    suggestions,
+    busyIds,
+    openReview,
+    closeReview,
+    acceptEdit,
+    acceptEdits,
+    rejectEdits,
+  };
+}
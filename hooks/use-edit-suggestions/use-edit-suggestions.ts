@@ -3,13 +3,19 @@
 import { useCallback } from 'react';
 import { toast } from 'sonner';
 import { useEditLimitCache } from '../use-edit-limit-cache';
+import { useProjectFilesRevalidation } from '../use-file-editor';
+import { isFileEdit } from '@/lib/lars-agent/line-edits';
 import { useSuggestionQueue } from './use-suggestion-queue';
 import { useSuggestionDecorations } from './use-suggestion-decorations';
+import { useEditReview } from './use-edit-review';
 import {
   acceptSingleEdit,
   acceptAllEdits,
   rejectEdit,
 } from './suggestion-operations';
+import { applyFileEdit, getFileOperationChange } from './file-operations';
+import { getFileChanges, getModelText, notifyEditsAccepted } from './utils';
+import type { FileChange } from '@/types/edit';
 import type { EditSuggestionsState, UseEditSuggestionsProps } from './types';
 
 /**
@@ -21,11 +27,13 @@ export function useEditSuggestions({
   showInlinePreview = true,
   currentFilePath,
   projectFiles,
+  projectId,
   cancelPendingSave,
 }: UseEditSuggestionsProps): EditSuggestionsState {
   // Use cached edit limit to check before requesting AI suggestions
   // Note: Quota is consumed on generation (in /api/lars-agent), not on accept
   const { canEdit } = useEditLimitCache();
+  const { revalidate } = useProjectFilesRevalidation(projectId ?? '');
 
   // Manage suggestion queue with batching and multi-file support
   const {
@@ -33,10 +41,13 @@ export function useEditSuggestions({
     setEditSuggestions,
     queuedSuggestions,
     totalPendingCount,
+    allPendingCount,
     handleEditSuggestion,
     handleNextSuggestion,
     clearContinueToast,
     finalizeEdits,
+    takePendingSuggestions,
+    restoreSuggestions,
   } = useSuggestionQueue({
     editor,
     currentFilePath,
@@ -52,6 +63,18 @@ export function useEditSuggestions({
     showInlinePreview,
   });
 
+  // Review all pending edits in a panel, outside the editor
+  const review = useEditReview({
+    projectId,
+    projectFiles,
+    currentFilePath,
+    canEdit,
+    cancelPendingSave,
+    revalidate,
+    takePendingSuggestions,
+    restoreSuggestions,
+  });
+
   // Accept a single edit
   const handleAcceptEdit = useCallback(
     async (suggestionId: string) => {
@@ -61,20 +84,61 @@ export function useEditSuggestions({
         return;
       }
 
+      const suggestion = editSuggestions.find((s) => s.id === suggestionId);
+      if (suggestion && isFileEdit(suggestion)) {
+        if (suggestion.status !== 'pending') return;
+        if (!projectId) {
+          console.error('Project ID not available for file edit.');
+          return;
+        }
+
+        const change = getFileOperationChange(suggestion, projectFiles);
+        const applied = await applyFileEdit(
+          suggestion,
+          projectId,
+          projectFiles
+        );
+        if (applied) {
+          setEditSuggestions((prev) =>
+            prev.filter((s) => s.id !== suggestionId)
+          );
+          notifyEditsAccepted([suggestion], change ? [change] : []);
+          await revalidate();
+        }
+        return;
+      }
+
       if (!editor || !monacoInstance) {
         console.error('Editor or Monaco instance not available.');
         return;
       }
 
-      await acceptSingleEdit(
+      const before = getModelText(editor.getModel());
+      const applied = await acceptSingleEdit(
         suggestionId,
         editSuggestions,
         editor,
         monacoInstance,
         setEditSuggestions
       );
+      if (applied && suggestion) {
+        notifyEditsAccepted(
+          [suggestion],
+          getFileChanges(currentFilePath, before, editor.getModel())
+        );
+      }
     },
-    [canEdit, editor, monacoInstance, editSuggestions, setEditSuggestions]
+    [
+      canEdit,
+      editor,
+      currentFilePath,
+      monacoInstance,
+      editSuggestions,
+      setEditSuggestions,
+      projectId,
+      projectFiles,
+      revalidate,
+    ]
   );
 
   // Accept all pending edits
@@ -93,24 +157,73 @@ export function useEditSuggestions({
       return;
     }
 
+    // File-level operations go to storage, line edits to the editor
+    const fileEdits = allPendingSuggestions.filter(isFileEdit);
+    const lineEdits = allPendingSuggestions.filter((s) => !isFileEdit(s));
+
+    if (fileEdits.length > 0) {
+      if (!projectId) {
+        console.error('Project ID not available for file edits.');
+        return;
+      }
+
+      const appliedFileEdits: typeof fileEdits = [];
+      const fileChanges: FileChange[] = [];
+      for (const suggestion of fileEdits) {
+        const change = getFileOperationChange(suggestion, projectFiles);
+        if (await applyFileEdit(suggestion, projectId, projectFiles)) {
+          appliedFileEdits.push(suggestion);
+          if (change) fileChanges.push(change);
+        }
+      }
+      notifyEditsAccepted(appliedFileEdits, fileChanges);
+      await revalidate();
+
+      if (lineEdits.length === 0) {
+        setEditSuggestions([]);
+        clearContinueToast();
+        return;
+      }
+    }
+
     if (!editor || !monacoInstance) {
       console.error('Editor or Monaco instance not available.');
       return;
     }
 
-    await acceptAllEdits(allPendingSuggestions, editor, monacoInstance, () => {
-      // Clear all suggestions and queue
-      setEditSuggestions([]);
-      clearContinueToast();
-    });
+    let staleIds = new Set<string>();
+    const before = getModelText(editor.getModel());
+    const applied = await acceptAllEdits(
+      lineEdits,
+      editor,
+      monacoInstance,
+      (stale) => {
+        // Clear all suggestions and queue, keeping the ones that could not
+        // be placed for review
+        staleIds = new Set(stale.map((s) => s.id));
+        setEditSuggestions(stale);
+        clearContinueToast();
+      }
+    );
+    if (applied) {
+      // The open file's text around the batch, so it can be reverted
+      notifyEditsAccepted(
+        lineEdits.filter((s) => !staleIds.has(s.id)),
+        getFileChanges(currentFilePath, before, editor.getModel())
+      );
+    }
   }, [
     editSuggestions,
     queuedSuggestions,
     canEdit,
     editor,
+    currentFilePath,
     monacoInstance,
     setEditSuggestions,
     clearContinueToast,
+    projectId,
+    projectFiles,
+    revalidate,
   ]);
 
   // Reject a single edit
@@ -124,6 +237,7 @@ export function useEditSuggestions({
   return {
     editSuggestions,
     totalPendingCount,
+    allPendingCount,
     decorationIds,
     setDecorationIds,
     handleEditSuggestion,
@@ -132,5 +246,6 @@ export function useEditSuggestions({
     handleRejectEdit,
     handleNextSuggestion,
     finalizeEdits,
+    review,
   };
 }
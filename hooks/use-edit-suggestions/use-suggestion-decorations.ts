@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { EditSuggestion } from '@/types/edit';
 import type * as Monaco from 'monaco-editor';
 import { getStartLine, getOriginalLineCount, getSuggestedText } from './utils';
+import { isFileEdit } from '@/lib/lars-agent/line-edits';
 
 interface UseSuggestionDecorationsProps {
   editor: Monaco.editor.IStandaloneCodeEditor | null;
@@ -35,8 +36,10 @@ export function useSuggestionDecorations({
     const oldDecorationIds = decorationIds;
     const newDecorations: Monaco.editor.IModelDeltaDecoration[] = [];
 
+    // file-level suggestions have no line range to decorate, and stale ones
+    // no longer have one
     const pendingSuggestions = editSuggestions.filter(
-      (s) => s.status === 'pending'
+      (s) => s.status === 'pending' && !isFileEdit(s) && !s.stale
     );
 
     pendingSuggestions.forEach((suggestion) => {
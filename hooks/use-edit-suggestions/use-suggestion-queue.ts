@@ -10,6 +10,7 @@ import {
 import type * as Monaco from 'monaco-editor';
 import { FileActions } from '@/stores/file';
 import type { ProjectFile } from '@/hooks/use-file-editor';
+import { isFileEdit } from '@/lib/lars-agent/line-edits';
 
 interface UseSuggestionQueueProps {
   editor: Monaco.editor.IStandaloneCodeEditor | null;
@@ -23,6 +24,9 @@ interface FileGroup {
   suggestions: EditSuggestion[];
 }
 
+// Group key for create/rename/delete suggestions, reviewed without switching files
+const FILE_OPERATIONS_GROUP = '__file_operations__';
+
 /**
  * Manages the queue of edit suggestions with batching logic and multi-file support
  */
@@ -75,14 +79,31 @@ export function useSuggestionQueue({
     [projectFiles, cancelPendingSave]
   );
 
+  /**
+   * Whether a file group can be reviewed in the currently open file
+   */
+  const isReviewableInPlace = useCallback(
+    (filePath: string) =>
+      filePath === currentFilePath ||
+      filePath === 'current' ||
+      filePath === FILE_OPERATIONS_GROUP,
+    [currentFilePath]
+  );
+
   /**
    * Group suggestions by file path
+   * File-level operations form one group that is reviewed first.
    */
   const groupSuggestionsByFile = useCallback(
     (suggestions: EditSuggestion[]): FileGroup[] => {
       const groups = new Map<string, EditSuggestion[]>();
+      const fileOperations = suggestions.filter(isFileEdit);
+      if (fileOperations.length > 0) {
+        groups.set(FILE_OPERATIONS_GROUP, fileOperations);
+      }
 
       suggestions.forEach((suggestion) => {
+        if (isFileEdit(suggestion)) return;
         const filePath = suggestion.filePath || currentFilePath || 'current';
         const existing = groups.get(filePath) || [];
         groups.set(filePath, [...existing, suggestion]);
@@ -113,7 +134,13 @@ export function useSuggestionQueue({
           !s.filePath ||
           s.filePath === currentFilePath ||
           s.filePath === 'current';
-        if (s.original !== undefined || !model || !isCurrentFile) return s;
+        if (
+          s.original !== undefined ||
+          !model ||
+          !isCurrentFile ||
+          isFileEdit(s)
+        )
+          return s;
 
         return {
           ...s,
@@ -144,10 +171,7 @@ export function useSuggestionQueue({
       currentFileGroupRef.current = firstGroup.filePath;
 
       // Switch to first file if needed
-      if (
-        firstGroup.filePath !== currentFilePath &&
-        firstGroup.filePath !== 'current'
-      ) {
+      if (!isReviewableInPlace(firstGroup.filePath)) {
         const switched = switchToFile(firstGroup.filePath);
         if (switched) {
           toast.info(`Switched to "${firstGroup.filePath}" for review`, {
@@ -176,7 +200,12 @@ export function useSuggestionQueue({
       const totalFiles = 1 + remainingGroups.length;
       const totalEdits = normalized.length;
 
-      if (totalFiles > 1) {
+      if (firstGroup.filePath === FILE_OPERATIONS_GROUP) {
+        toast.info(
+          `Reviewing ${firstGroup.suggestions.length} file change(s) first.${remainingGroups.length > 0 ? ` Edits in ${remainingGroups.length} file(s) pending.` : ''}`,
+          { duration: 3000 }
+        );
+      } else if (totalFiles > 1) {
         toast.info(
           `Reviewing ${firstGroup.suggestions.length} edit(s) in "${firstGroup.filePath}". ${remainingGroups.length} more file(s) pending.`,
           { duration: 3000 }
@@ -192,6 +221,7 @@ export function useSuggestionQueue({
       clearContinueToast,
       groupSuggestionsByFile,
       currentFilePath,
+      isReviewableInPlace,
       switchToFile,
     ]
   );
@@ -246,6 +276,45 @@ export function useSuggestionQueue({
     isAccumulatingRef.current = false;
   }, [applyIncomingSuggestions]);
 
+  /**
+   * Hand every pending suggestion over, leaving nothing to step through in
+   * the editor. Used by the review panel, which reviews them all at once.
+   */
+  const takePendingSuggestions = useCallback((): EditSuggestion[] => {
+    const pending = [
+      ...editSuggestions.filter((s) => s.status === 'pending'),
+      ...suggestionQueueRef.current,
+      ...fileQueueRef.current.flatMap((group) => group.suggestions),
+    ];
+    setEditSuggestions([]);
+    suggestionQueueRef.current = [];
+    fileQueueRef.current = [];
+    currentFileGroupRef.current = null;
+    hasActiveBatchRef.current = false;
+    promptDisplayedRef.current = false;
+    isSwitchingFileRef.current = false;
+    clearContinueToast();
+    return pending;
+  }, [editSuggestions, clearContinueToast]);
+
+  /**
+   * Queue suggestions again for review in the editor, starting with the
+   * open file so that handing them back does not switch files
+   */
+  const restoreSuggestions = useCallback(
+    (suggestions: EditSuggestion[]) => {
+      const inOpenFile = (s: EditSuggestion) =>
+        !s.filePath ||
+        s.filePath === currentFilePath ||
+        s.filePath === 'current';
+      applyIncomingSuggestions([
+        ...suggestions.filter(inOpenFile),
+        ...suggestions.filter((s) => !inOpenFile(s)),
+      ]);
+    },
+    [applyIncomingSuggestions, currentFilePath]
+  );
+
   const handleNextSuggestion = useCallback(() => {
     // Check if there are more suggestions in current file
     if (suggestionQueueRef.current.length > 0) {
@@ -277,10 +346,7 @@ export function useSuggestionQueue({
       currentFileGroupRef.current = nextFileGroup.filePath;
 
       // Switch to next file
-      if (
-        nextFileGroup.filePath !== currentFilePath &&
-        nextFileGroup.filePath !== 'current'
-      ) {
+      if (!isReviewableInPlace(nextFileGroup.filePath)) {
         const switched = switchToFile(nextFileGroup.filePath);
         if (switched) {
           toast.info(`Switched to "${nextFileGroup.filePath}" for review`, {
@@ -315,7 +381,7 @@ export function useSuggestionQueue({
     clearContinueToast();
     hasActiveBatchRef.current = false;
     promptDisplayedRef.current = false;
-  }, [clearContinueToast, currentFilePath, switchToFile]);
+  }, [clearContinueToast, isReviewableInPlace, switchToFile]);
 
   // Show queued suggestions when currentFilePath matches the queued file
   useEffect(() => {
@@ -427,15 +493,25 @@ export function useSuggestionQueue({
   const totalPendingCount =
     editSuggestions.filter((s) => s.status === 'pending').length +
     suggestionQueueRef.current.length;
+  // Including the files still waiting for their turn
+  const allPendingCount =
+    totalPendingCount +
+    fileQueueRef.current.reduce(
+      (count, group) => count + group.suggestions.length,
+      0
+    );
 
   return {
     editSuggestions,
     setEditSuggestions,
     queuedSuggestions: suggestionQueueRef.current,
     totalPendingCount,
+    allPendingCount,
     handleEditSuggestion,
     handleNextSuggestion,
     clearContinueToast,
     finalizeEdits,
+    takePendingSuggestions,
+    restoreSuggestions,
   };
 }
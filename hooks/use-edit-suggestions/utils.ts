@@ -1,4 +1,4 @@
-import { EditSuggestion } from '@/types/edit';
+import { EditSuggestion, FileChange } from '@/types/edit';
 import type * as Monaco from 'monaco-editor';
 
 /**
@@ -86,6 +86,17 @@ export function getOriginalTextFromModel(
   return lines.join('\n');
 }
 
+/**
+ * All lines of the Monaco editor model
+ */
+export function getModelLines(model: Monaco.editor.ITextModel): string[] {
+  const lines: string[] = [];
+  for (let ln = 1; ln <= model.getLineCount(); ln++) {
+    lines.push(model.getLineContent(ln));
+  }
+  return lines;
+}
+
 /**
  * Calculate the line delta when applying a suggestion
  */
@@ -116,3 +127,48 @@ export function normalizeSuggestions(suggestions: EditSuggestion[]): EditSuggest
   }));
 }
 
+
+/**
+ * The model's text with \n line breaks
+ */
+export function getModelText(
+  model: Monaco.editor.ITextModel | null | undefined
+): string | undefined {
+  return model ? getModelLines(model).join('\n') : undefined;
+}
+
+/**
+ * How applying suggestions changed the open file, if it did
+ */
+export function getFileChanges(
+  filePath: string | null | undefined,
+  before: string | undefined,
+  model: Monaco.editor.ITextModel | null | undefined
+): FileChange[] {
+  const after = getModelText(model);
+  if (!filePath || before === undefined || after === undefined) return [];
+  return before === after ? [] : [{ filePath, before, after }];
+}
+
+/**
+ * Window event fired after suggestions are applied, so the chat history can
+ * record which proposed edits were accepted and how they changed the files
+ */
+export const EDITS_ACCEPTED_EVENT = 'edits-accepted';
+
+export interface EditsAcceptedDetail {
+  suggestionIds: string[];
+  changes: FileChange[]; // Text of the edited files around the accept
+}
+
+export function notifyEditsAccepted(
+  suggestions: EditSuggestion[],
+  changes: FileChange[] = []
+): void {
+  if (suggestions.length === 0) return;
+  window.dispatchEvent(
+    new CustomEvent<EditsAcceptedDetail>(EDITS_ACCEPTED_EVENT, {
+      detail: { suggestionIds: suggestions.map((s) => s.id), changes },
+    })
+  );
+}
@@ -1,41 +1,58 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import type * as Monaco from 'monaco-editor';
 import JSZip from 'jszip';
 import { createClient } from '@/lib/supabase/client';
 import { useProject } from '@/stores/project';
 import { useSelectedFile, useProjectFiles } from '@/stores/file';
-import type { CompilationError } from '@/types/compilation';
+import type {
+  CompilationError,
+  CompileProgress,
+  CompileSettings,
+  LatexDiagnostic,
+} from '@/types/compilation';
 import { isBinaryFile } from '@/lib/constants/file-types';
 import {
   normalizePath,
   createCompilationError,
   processFileContent,
+  getPdfUrl,
   makeCompilationRequest,
+  makeStreamingCompilationRequest,
 } from '@/lib/utils/compilation';
 
 export interface CompilationState {
   compiling: boolean;
-  pdfData: string | null;
+  compileProgress: CompileProgress | null; // Stage of the running compile
+  pdfUrl: string | null; // Artifact or data URL of the latest PDF
+  synctexUrl: string | null; // SyncTeX data for the PDF, if the service sent it
   compilationError: CompilationError | null;
+  diagnostics: LatexDiagnostic[]; // From the latest compile, warnings included
   exporting: boolean;
   handleCompile: () => Promise<boolean>;
   handleExportPDF: () => Promise<void>;
   handleExportZIP: () => Promise<void>;
   debouncedAutoCompile: (content: string) => void;
   setCompilationError: (error: CompilationError | null) => void;
-  setPdfData: (data: string | null) => void;
+  setPdfUrl: (url: string | null) => void;
+  // The project as the next compile would send it, editor buffer included
+  buildCompileFiles: () => Promise<{
+    files: Array<{ path: string; content: string; encoding?: string }>;
+    lastModifiedFile: string;
+  }>;
 }
 
 interface UseEditorCompilationProps {
   content: string;
   editorRef: React.MutableRefObject<Monaco.editor.IStandaloneCodeEditor | null>;
+  compileSettings?: CompileSettings;
 }
 
 export function useEditorCompilation({
   content,
   editorRef,
+  compileSettings,
 }: UseEditorCompilationProps): CompilationState {
   const project = useProject();
   const selectedFile = useSelectedFile();
@@ -43,14 +60,23 @@ export function useEditorCompilation({
   const projectId = project?.id;
   const fileName = selectedFile?.name;
   const [compiling, setCompiling] = useState(false);
-  const [pdfData, setPdfData] = useState<string | null>(null);
+  const [compileProgress, setCompileProgress] =
+    useState<CompileProgress | null>(null);
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [synctexUrl, setSynctexUrl] = useState<string | null>(null);
   const [compilationError, setCompilationError] =
     useState<CompilationError | null>(null);
+  const [diagnostics, setDiagnostics] = useState<LatexDiagnostic[]>([]);
   const [exporting, setExporting] = useState(false);
+  // Hashes of file contents the compile route already holds
+  const uploadedHashesRef = useRef(new Set<string>());
 
   useEffect(() => {
-    setPdfData(null);
+    setPdfUrl(null);
+    setSynctexUrl(null);
     setCompilationError(null);
+    setDiagnostics([]);
+    uploadedHashesRef.current = new Set<string>();
   }, [projectId]);
 
   const fetchProjectFiles = useCallback(async () => {
@@ -197,6 +223,7 @@ export function useEditorCompilation({
     if (compiling) return false;
 
     setCompiling(true);
+    setCompileProgress({ stage: 'queued', logLines: [] });
     setCompilationError(null);
 
     let handled = false;
@@ -211,30 +238,39 @@ export function useEditorCompilation({
       // Debug: Log files being sent for compilation
       console.log('[Compile] Files being sent:', filesPayload.map(f => ({ path: f.path, encoding: f.encoding, size: f.content.length })));
 
-      const { response, data } = await makeCompilationRequest(
+      const { ok, status, data } = await makeStreamingCompilationRequest(
         filesPayload,
         normalizedFileName,
-        projectId
+        projectId,
+        compileSettings,
+        setCompileProgress,
+        uploadedHashesRef.current
       );
 
-      if (!response.ok) {
+      if (!ok) {
         const errorMessage =
-          data?.error || `Compilation failed with status ${response.status}`;
+          data?.error || `Compilation failed with status ${status}`;
         const structuredError = createCompilationError(data, errorMessage);
         setCompilationError(structuredError);
+        setDiagnostics(structuredError.diagnostics ?? []);
 
         // If a partial PDF is available despite the error, display it
-        if (data?.pdf) {
-          setPdfData(data.pdf);
+        const partialPdfUrl = getPdfUrl(data);
+        if (partialPdfUrl) {
+          setPdfUrl(partialPdfUrl);
+          setSynctexUrl(null);
         }
 
         handled = true;
         throw new Error(errorMessage);
       }
 
-      if (data.pdf) {
-        setPdfData(data.pdf);
+      const compiledPdfUrl = getPdfUrl(data);
+      if (compiledPdfUrl) {
+        setPdfUrl(compiledPdfUrl);
+        setSynctexUrl(data.synctexUrl ?? null);
         setCompilationError(null);
+        setDiagnostics(data.diagnostics ?? []);
         return true;
       }
 
@@ -252,17 +288,26 @@ export function useEditorCompilation({
       return false;
     } finally {
       setCompiling(false);
+      setCompileProgress(null);
     }
-  }, [compiling, content, editorRef, projectId, fileName, buildFilesPayload]);
+  }, [
+    compiling,
+    content,
+    editorRef,
+    projectId,
+    fileName,
+    buildFilesPayload,
+    compileSettings,
+  ]);
 
   const handleExportPDF = useCallback(async () => {
     setExporting(true);
 
     try {
       // Use the already-compiled PDF if available, otherwise compile first
-      let pdfBase64 = pdfData;
+      let url = pdfUrl;
 
-      if (!pdfBase64) {
+      if (!url) {
         const currentContent = editorRef.current?.getValue() || content;
         const normalizedFileName = normalizePath(fileName || 'document');
 
@@ -273,7 +318,8 @@ export function useEditorCompilation({
         const { response, data } = await makeCompilationRequest(
           filesPayload,
           normalizedFileName,
-          projectId
+          projectId,
+          compileSettings
         );
 
         if (!response.ok) {
@@ -281,37 +327,43 @@ export function useEditorCompilation({
           throw new Error(errorMessage);
         }
 
-        if (!data.pdf) {
+        url = getPdfUrl(data);
+        if (!url) {
           throw new Error('No PDF data received from server');
         }
-
-        pdfBase64 = data.pdf;
       }
 
-      // Download the PDF (pdfBase64 is guaranteed to be non-null at this point)
-      const binaryString = atob(pdfBase64 as string);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
+      // Works for both artifact and data URLs
+      const pdfResponse = await fetch(url);
+      if (!pdfResponse.ok) {
+        throw new Error('Compiled PDF is no longer available');
       }
-
-      const blob = new Blob([bytes], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
+      const blob = await pdfResponse.blob();
+      const downloadUrl = URL.createObjectURL(blob);
 
       const a = document.createElement('a');
-      a.href = url;
+      a.href = downloadUrl;
       a.download = `${project?.title || 'document'}.pdf`;
       document.body.appendChild(a);
       a.click();
 
-      URL.revokeObjectURL(url);
+      URL.revokeObjectURL(downloadUrl);
       document.body.removeChild(a);
     } catch (error) {
       console.error('PDF export error:', error);
     } finally {
       setExporting(false);
     }
-  }, [pdfData, content, editorRef, fileName, projectId, buildFilesPayload, project?.title]);
+  }, [
+    pdfUrl,
+    content,
+    editorRef,
+    fileName,
+    projectId,
+    buildFilesPayload,
+    project?.title,
+    compileSettings,
+  ]);
 
   const handleExportZIP = useCallback(async () => {
     setExporting(true);
@@ -356,19 +408,32 @@ export function useEditorCompilation({
     }
   }, [content, editorRef, fileName, projectId, buildFilesPayload, project?.title]);
 
+  const buildCompileFiles = useCallback(async () => {
+    const currentContent = editorRef.current?.getValue() || content;
+    const normalizedFileName = normalizePath(fileName || 'document');
+    const files = projectId
+      ? await buildFilesPayload(normalizedFileName, currentContent)
+      : [{ path: normalizedFileName, content: currentContent }];
+    return { files, lastModifiedFile: normalizedFileName };
+  }, [content, editorRef, fileName, projectId, buildFilesPayload]);
+
   // Auto-compile on content changes (debounced)
   const debouncedAutoCompile = useCallback(() => {}, []);
 
   return {
     compiling,
-    pdfData,
+    compileProgress,
+    pdfUrl,
+    synctexUrl,
     compilationError,
+    diagnostics,
     exporting,
     handleCompile,
     handleExportPDF,
     handleExportZIP,
     debouncedAutoCompile,
     setCompilationError,
-    setPdfData,
+    setPdfUrl,
+    buildCompileFiles,
   };
 }
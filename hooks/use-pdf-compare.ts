@@ -0,0 +1,294 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { pdfjs } from 'react-pdf';
+import type { DocumentCallback } from 'react-pdf/dist/esm/shared/types.js';
+import {
+  alignPages,
+  diffPages,
+  pageSignature,
+  pairPagesByNumber,
+  renderDiffImage,
+  type DiffRegion,
+  type PageDiff,
+  type PagePair,
+  type RasterPage,
+} from '@/lib/utils/pdf-diff';
+
+// A compiled PDF's URL, or a PDF picked from disk
+export type PdfSource = string | File;
+
+// 'content' matches pages by what is on them, 'number' by page number
+export type PageAlignment = 'content' | 'number';
+
+export type ComparedPageStatus =
+  | 'pending'
+  | 'same'
+  | 'changed'
+  | 'added'
+  | 'removed';
+
+export interface ComparedPage extends PagePair {
+  status: ComparedPageStatus;
+  diff: PageDiff | null;
+}
+
+// One stop of the next/previous change navigation. A page without a
+// counterpart is a single change with no region.
+export interface PdfChange {
+  pairIndex: number;
+  region: DiffRegion | null;
+}
+
+export interface PdfCompareState {
+  baseDocument: DocumentCallback | null;
+  compareDocument: DocumentCallback | null;
+  pages: ComparedPage[];
+  changes: PdfChange[];
+  progress: { done: number; total: number } | null; // While pages are diffed
+  error: string | null;
+  renderOverlay: (pairIndex: number) => Promise<RasterPage | null>;
+}
+
+const DOCUMENT_OPTIONS = {
+  cMapUrl: '/cmaps/',
+  standardFontDataUrl: '/standard_fonts/',
+};
+
+// Small renders are enough to tell pages apart
+const SIGNATURE_WIDTH = 96;
+// Pages are diffed and overlaid at this width
+const DIFF_WIDTH = 720;
+
+async function loadDocument(source: PdfSource): Promise<DocumentCallback> {
+  const params =
+    typeof source === 'string'
+      ? { url: source }
+      : { data: new Uint8Array(await source.arrayBuffer()) };
+  return pdfjs.getDocument({ ...params, ...DOCUMENT_OPTIONS }).promise;
+}
+
+async function rasterize(
+  pdf: DocumentCallback,
+  pageIndex: number,
+  width: number
+): Promise<RasterPage> {
+  const page = await pdf.getPage(pageIndex + 1);
+  try {
+    const scale = width / page.getViewport({ scale: 1 }).width;
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas is not available');
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport }).promise;
+
+    const image = context.getImageData(0, 0, canvas.width, canvas.height);
+    return { width: image.width, height: image.height, data: image.data };
+  } finally {
+    page.cleanup();
+  }
+}
+
+function pairStatus(pair: PagePair, diff: PageDiff | null): ComparedPageStatus {
+  if (pair.base === null) return 'added';
+  if (pair.compare === null) return 'removed';
+  if (!diff) return 'pending';
+  return diff.regions.length > 0 ? 'changed' : 'same';
+}
+
+const pairKey = (pair: PagePair) => `${pair.base}:${pair.compare}`;
+
+/**
+ * Loads two PDFs, pairs up their pages and diffs each pair in the
+ * background. Pages are rendered one at a time and only the diff is kept,
+ * so long documents do not pile up canvases.
+ */
+export function usePdfCompare(
+  base: PdfSource | null,
+  compare: PdfSource | null,
+  alignment: PageAlignment
+): PdfCompareState {
+  const [documents, setDocuments] = useState<{
+    base: DocumentCallback;
+    compare: DocumentCallback;
+    signatures: { base: Float32Array[]; compare: Float32Array[] };
+  } | null>(null);
+  const [pairs, setPairs] = useState<PagePair[]>([]);
+  const [diffs, setDiffs] = useState<Map<string, PageDiff>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  // Diffs survive switching the alignment back and forth
+  const diffCache = useRef<Map<string, PageDiff>>(new Map());
+
+  useEffect(() => {
+    setDocuments(null);
+    setPairs([]);
+    setDiffs(new Map());
+    setError(null);
+    diffCache.current = new Map();
+    if (!base || !compare) return;
+
+    let cancelled = false;
+    const loaded: DocumentCallback[] = [];
+
+    (async () => {
+      try {
+        const [baseDocument, compareDocument] = await Promise.all([
+          loadDocument(base),
+          loadDocument(compare),
+        ]);
+        loaded.push(baseDocument, compareDocument);
+        if (cancelled) {
+          loaded.forEach((pdf) => pdf.destroy());
+          return;
+        }
+
+        const signaturesOf = async (pdf: DocumentCallback) => {
+          const signatures: Float32Array[] = [];
+          for (let index = 0; index < pdf.numPages; index++) {
+            if (cancelled) break;
+            signatures.push(
+              pageSignature(await rasterize(pdf, index, SIGNATURE_WIDTH))
+            );
+          }
+          return signatures;
+        };
+        const signatures = {
+          base: await signaturesOf(baseDocument),
+          compare: await signaturesOf(compareDocument),
+        };
+        if (cancelled) return;
+
+        setDocuments({
+          base: baseDocument,
+          compare: compareDocument,
+          signatures,
+        });
+      } catch (loadError) {
+        if (cancelled) return;
+        console.error('Error loading PDFs to compare:', loadError);
+        setError(
+          loadError instanceof Error ? loadError.message : 'Could not load PDF'
+        );
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      loaded.forEach((pdf) => pdf.destroy());
+    };
+  }, [base, compare]);
+
+  // Pair the pages, then diff the pairs top to bottom
+  useEffect(() => {
+    if (!documents) return;
+
+    const nextPairs =
+      alignment === 'content'
+        ? alignPages(documents.signatures.base, documents.signatures.compare)
+        : pairPagesByNumber(
+            documents.base.numPages,
+            documents.compare.numPages
+          );
+    setPairs(nextPairs);
+    setDiffs(new Map(diffCache.current));
+
+    let cancelled = false;
+    (async () => {
+      for (const pair of nextPairs) {
+        if (cancelled) return;
+        if (pair.base === null || pair.compare === null) continue;
+        const key = pairKey(pair);
+        if (diffCache.current.has(key)) continue;
+
+        try {
+          const diff = diffPages(
+            await rasterize(documents.base, pair.base, DIFF_WIDTH),
+            await rasterize(documents.compare, pair.compare, DIFF_WIDTH)
+          );
+          diffCache.current.set(key, diff);
+          if (!cancelled) setDiffs(new Map(diffCache.current));
+        } catch (diffError) {
+          // The document was closed while its page rendered
+          if (cancelled) return;
+          console.error('Error comparing pages:', diffError);
+          setError('Could not compare every page');
+          return;
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documents, alignment]);
+
+  const pages = useMemo(
+    () =>
+      pairs.map((pair) => {
+        const diff = diffs.get(pairKey(pair)) ?? null;
+        return { ...pair, diff, status: pairStatus(pair, diff) };
+      }),
+    [pairs, diffs]
+  );
+
+  const changes = useMemo(
+    () =>
+      pages.flatMap((page, pairIndex): PdfChange[] => {
+        if (page.status === 'added' || page.status === 'removed') {
+          return [{ pairIndex, region: null }];
+        }
+        return (page.diff?.regions ?? []).map((region) => ({
+          pairIndex,
+          region,
+        }));
+      }),
+    [pages]
+  );
+
+  const comparable = pages.filter(
+    (page) => page.base !== null && page.compare !== null
+  );
+  const done = comparable.filter((page) => page.status !== 'pending').length;
+
+  const renderOverlay = useCallback(
+    async (pairIndex: number): Promise<RasterPage | null> => {
+      const pair = pairs[pairIndex];
+      if (!documents || !pair) return null;
+
+      const blank: RasterPage = {
+        width: 0,
+        height: 0,
+        data: new Uint8ClampedArray(),
+      };
+      // A page without a counterpart shows entirely as added or removed
+      const before =
+        pair.base === null
+          ? blank
+          : await rasterize(documents.base, pair.base, DIFF_WIDTH);
+      const after =
+        pair.compare === null
+          ? blank
+          : await rasterize(documents.compare, pair.compare, DIFF_WIDTH);
+      return renderDiffImage(before, after);
+    },
+    [documents, pairs]
+  );
+
+  return {
+    baseDocument: documents?.base ?? null,
+    compareDocument: documents?.compare ?? null,
+    pages,
+    changes,
+    progress:
+      documents && done < comparable.length
+        ? { done, total: comparable.length }
+        : null,
+    error,
+    renderOverlay,
+  };
+}
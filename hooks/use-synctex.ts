@@ -0,0 +1,135 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type * as Monaco from 'monaco-editor';
+import { toast } from 'sonner';
+import {
+  forwardSearch,
+  inverseSearch,
+  parseSynctex,
+  type SynctexData,
+} from '@/lib/utils/synctex';
+import type { SynctexHighlight } from '@/types/compilation';
+
+export interface SynctexState {
+  // Boxes to highlight in the PDF after a jump from the editor
+  syncHighlight: SynctexHighlight | null;
+  // Editor to PDF, from the cursor
+  showInPdf: () => void;
+  // PDF to editor, from a point on a page in PDF points
+  goToPdfPoint: (page: number, x: number, y: number) => void;
+}
+
+interface UseSynctexProps {
+  synctexUrl: string | null;
+  editor: Monaco.editor.IStandaloneCodeEditor | null;
+  monacoInstance: typeof Monaco | null;
+  currentFilePath: string | null;
+  projectPaths: string[];
+  onNavigate: (file: string, line: number) => void;
+}
+
+export function useSynctex({
+  synctexUrl,
+  editor,
+  monacoInstance,
+  currentFilePath,
+  projectPaths,
+  onNavigate,
+}: UseSynctexProps): SynctexState {
+  const [syncHighlight, setSyncHighlight] = useState<SynctexHighlight | null>(
+    null
+  );
+  // Parsed lazily on the first jump, then kept until the next compile
+  const dataRef = useRef<{
+    url: string;
+    data: Promise<SynctexData | null>;
+  } | null>(null);
+
+  useEffect(() => {
+    setSyncHighlight(null);
+  }, [synctexUrl]);
+
+  const loadSynctex = useCallback(async (): Promise<SynctexData | null> => {
+    if (!synctexUrl) {
+      toast.info('Compile the document to link it with the PDF');
+      return null;
+    }
+
+    if (dataRef.current?.url !== synctexUrl) {
+      const data = fetch(synctexUrl)
+        .then(async (response) =>
+          response.ok ? parseSynctex(await response.text()) : null
+        )
+        .catch((error) => {
+          console.error('[SyncTeX] Failed to load', error);
+          return null;
+        });
+      dataRef.current = { url: synctexUrl, data };
+    }
+
+    const data = await dataRef.current.data;
+    if (!data) {
+      // Evicted or never stored; let the next attempt try again
+      dataRef.current = null;
+      toast.info('Recompile to link the editor with the PDF');
+    }
+    return data;
+  }, [synctexUrl]);
+
+  const showInPdf = useCallback(async () => {
+    const line = editor?.getPosition()?.lineNumber;
+    if (!line || !currentFilePath) return;
+
+    const data = await loadSynctex();
+    if (!data) return;
+
+    const highlight = forwardSearch(data, currentFilePath, line, projectPaths);
+    if (!highlight) {
+      toast.info('This line does not appear in the PDF');
+      return;
+    }
+    setSyncHighlight(highlight);
+  }, [editor, currentFilePath, projectPaths, loadSynctex]);
+
+  const goToPdfPoint = useCallback(
+    async (page: number, x: number, y: number) => {
+      const data = await loadSynctex();
+      if (!data) return;
+
+      const source = inverseSearch(data, page, x, y);
+      if (source) {
+        onNavigate(source.file, source.line);
+      }
+    },
+    [loadSynctex, onNavigate]
+  );
+
+  // The action is registered once per editor; it calls the latest callback
+  const showInPdfRef = useRef(showInPdf);
+  useEffect(() => {
+    showInPdfRef.current = showInPdf;
+  }, [showInPdf]);
+
+  useEffect(() => {
+    if (!editor || !monacoInstance) return;
+
+    const action = editor.addAction({
+      id: 'synctex-show-in-pdf',
+      label: 'Show in PDF',
+      keybindings: [
+        monacoInstance.KeyMod.CtrlCmd |
+          monacoInstance.KeyMod.Alt |
+          monacoInstance.KeyCode.KeyJ,
+      ],
+      contextMenuGroupId: 'navigation',
+      run: () => {
+        showInPdfRef.current();
+      },
+    });
+
+    return () => action.dispose();
+  }, [editor, monacoInstance]);
+
+  return { syncHighlight, showInPdf, goToPdfPoint };
+}
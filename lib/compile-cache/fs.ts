@@ -0,0 +1,211 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  CompileCacheBackend,
+  CompileCacheBackendStats,
+  CompileCacheLimits,
+} from './types';
+
+const ENTRY_SUFFIX = '.entry';
+const SAFE_KEY = /^[A-Za-z0-9_-]+$/;
+// How often the index is rebuilt to pick up other replicas' writes
+const RESCAN_MS = 60_000;
+// Mtimes are finer or coarser than Date.now(), so only a later second counts
+const MTIME_SLACK_MS = 1_000;
+
+interface FileEntry {
+  file: string;
+  bytes: number;
+  lastAccess: number;
+}
+
+/**
+ * Cache stored as one file per entry in a shared directory, so it
+ * survives restarts and can be mounted by several replicas. The file's
+ * mtime records the last access and drives both TTL and LRU eviction.
+ * Sizes and access order are kept in an in-memory index, rebuilt from
+ * the directory now and then, so a write does not list the directory.
+ */
+export class FsCompileCache implements CompileCacheBackend {
+  readonly name = 'fs' as const;
+  private ready: Promise<unknown> | null = null;
+  // Least recently used first, like the memory backend
+  private index = new Map<string, FileEntry>();
+  private totalBytes = 0;
+  private scannedAt = 0;
+  private scanning: Promise<void> | null = null;
+
+  constructor(
+    private readonly dir: string,
+    readonly limits: CompileCacheLimits
+  ) {}
+
+  async get(key: string): Promise<Buffer | null> {
+    const file = this.entryPath(key);
+
+    let lastAccess: number;
+    try {
+      lastAccess = (await fs.stat(file)).mtimeMs;
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+
+    if (Date.now() - lastAccess > this.limits.ttlMs) {
+      await fs.rm(file, { force: true });
+      this.untrack(file);
+      return null;
+    }
+
+    let value: Buffer;
+    try {
+      value = await fs.readFile(file);
+    } catch (error) {
+      // Evicted by another instance between stat and read
+      if (isMissing(error)) {
+        this.untrack(file);
+        return null;
+      }
+      throw error;
+    }
+
+    const now = new Date();
+    await fs.utimes(file, now, now).catch(() => undefined);
+    this.track({ file, bytes: value.length, lastAccess: now.getTime() });
+    return value;
+  }
+
+  async set(key: string, value: Buffer): Promise<number> {
+    await this.ensureDir();
+
+    // Write then rename so readers never see a partial entry
+    const file = this.entryPath(key);
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, value);
+    await fs.rename(tmp, file);
+
+    await this.refreshIndex();
+    this.track({ file, bytes: value.length, lastAccess: Date.now() });
+    return this.evict();
+  }
+
+  async stats(): Promise<CompileCacheBackendStats> {
+    await this.refreshIndex();
+    return {
+      backend: this.name,
+      size: this.index.size,
+      bytes: this.totalBytes,
+    };
+  }
+
+  private async evict(): Promise<number> {
+    const now = Date.now();
+    let evicted = 0;
+
+    // Oldest first; stops at the first entry that may stay
+    for (const entry of this.index.values()) {
+      const expired = now - entry.lastAccess > this.limits.ttlMs;
+      const overLimit =
+        this.index.size > 1 &&
+        (this.index.size > this.limits.maxEntries ||
+          this.totalBytes > this.limits.maxBytes);
+      if (!expired && !overLimit) break;
+
+      // Another replica may have read it since the index was built
+      const lastAccess = await fs
+        .stat(entry.file)
+        .then((stat) => stat.mtimeMs)
+        .catch(() => null);
+      if (lastAccess === null) {
+        this.untrack(entry.file);
+        continue;
+      }
+      if (lastAccess - entry.lastAccess > MTIME_SLACK_MS) {
+        this.track({ ...entry, lastAccess });
+        continue;
+      }
+
+      await fs.rm(entry.file, { force: true });
+      this.untrack(entry.file);
+      evicted++;
+    }
+    return evicted;
+  }
+
+  // Moves an entry to the most recently used end of the index
+  private track(entry: FileEntry) {
+    this.untrack(entry.file);
+    this.index.set(entry.file, entry);
+    this.totalBytes += entry.bytes;
+  }
+
+  private untrack(file: string) {
+    const entry = this.index.get(file);
+    if (!entry) return;
+    this.index.delete(file);
+    this.totalBytes -= entry.bytes;
+  }
+
+  private refreshIndex(): Promise<void> {
+    if (Date.now() - this.scannedAt < RESCAN_MS) return Promise.resolve();
+    if (!this.scanning) {
+      this.scanning = this.listEntries()
+        .then((entries) => {
+          entries.sort((a, b) => a.lastAccess - b.lastAccess);
+          this.index = new Map(entries.map((entry) => [entry.file, entry]));
+          this.totalBytes = entries.reduce((sum, e) => sum + e.bytes, 0);
+          this.scannedAt = Date.now();
+        })
+        .finally(() => {
+          this.scanning = null;
+        });
+    }
+    return this.scanning;
+  }
+
+  private async listEntries(): Promise<FileEntry[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+
+    const entries = await Promise.all(
+      names
+        .filter((name) => name.endsWith(ENTRY_SUFFIX))
+        .map(async (name): Promise<FileEntry | null> => {
+          const file = path.join(this.dir, name);
+          try {
+            const stat = await fs.stat(file);
+            return { file, bytes: stat.size, lastAccess: stat.mtimeMs };
+          } catch {
+            return null;
+          }
+        })
+    );
+    return entries.filter((entry): entry is FileEntry => entry !== null);
+  }
+
+  private entryPath(key: string): string {
+    if (!SAFE_KEY.test(key)) {
+      throw new Error(`Invalid compile cache key: ${key}`);
+    }
+    return path.join(this.dir, `${key}${ENTRY_SUFFIX}`);
+  }
+
+  private ensureDir() {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.dir, { recursive: true }).catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
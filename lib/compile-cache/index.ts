@@ -0,0 +1,152 @@
+import path from 'path';
+import { FsCompileCache } from './fs';
+import { MemoryCompileCache } from './memory';
+import { RedisCompileCache } from './redis';
+import { RespClient } from './resp';
+import type { CompileCacheBackend, CompileCacheLimits } from './types';
+
+export type {
+  CompileCacheBackend,
+  CompileCacheBackendName,
+  CompileCacheBackendStats,
+  CompileCacheLimits,
+} from './types';
+export { FsCompileCache, MemoryCompileCache, RedisCompileCache, RespClient };
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MB = 1024 * 1024;
+
+type CacheEnv = Record<string, string | undefined>;
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function readBackendName(env: CacheEnv) {
+  const backend = (env.COMPILE_CACHE_BACKEND || 'memory').toLowerCase();
+  return { backend, persistent: backend === 'fs' || backend === 'redis' };
+}
+
+function createBackend(
+  env: CacheEnv,
+  backend: string,
+  limits: CompileCacheLimits,
+  namespace?: string
+): CompileCacheBackend {
+  switch (backend) {
+    case 'memory':
+      return new MemoryCompileCache(limits);
+    case 'fs': {
+      const dir =
+        env.COMPILE_CACHE_DIR ||
+        path.join(process.cwd(), '.cache', 'compile-pdf');
+      return new FsCompileCache(
+        namespace ? path.join(dir, namespace) : dir,
+        limits
+      );
+    }
+    case 'redis': {
+      const url = env.COMPILE_CACHE_REDIS_URL;
+      if (!url) {
+        throw new Error(
+          'COMPILE_CACHE_REDIS_URL is required when COMPILE_CACHE_BACKEND=redis'
+        );
+      }
+      const prefix = env.COMPILE_CACHE_REDIS_PREFIX || 'lars:compile';
+      return new RedisCompileCache(
+        new RespClient(url),
+        limits,
+        namespace ? `${prefix}:${namespace}` : prefix
+      );
+    }
+    default:
+      throw new Error(`Unknown COMPILE_CACHE_BACKEND: ${backend}`);
+  }
+}
+
+/**
+ * Creates the backend selected by COMPILE_CACHE_BACKEND. The in-memory
+ * cache stays the default for local development; persistent backends
+ * default to a longer TTL since their entries outlive deploys.
+ */
+export function createCompileCacheBackend(
+  env: CacheEnv = process.env
+): CompileCacheBackend {
+  const { backend, persistent } = readBackendName(env);
+
+  return createBackend(env, backend, {
+    ttlMs: readNumber(
+      env.COMPILE_CACHE_TTL_MS,
+      persistent ? 7 * DAY_MS : MINUTE_MS
+    ),
+    maxEntries: readNumber(
+      env.COMPILE_CACHE_MAX_ENTRIES,
+      persistent ? 1000 : 32
+    ),
+    maxBytes: readNumber(
+      env.COMPILE_CACHE_MAX_BYTES,
+      persistent ? 1024 * MB : 256 * MB
+    ),
+  });
+}
+
+/**
+ * Creates the store for uploaded project files, keyed by content hash.
+ * It lives next to the compile cache on the same backend but has its own
+ * limits, since a project holds many more files than compile results.
+ */
+export function createCompileBlobStore(
+  env: CacheEnv = process.env
+): CompileCacheBackend {
+  const { backend, persistent } = readBackendName(env);
+
+  return createBackend(
+    env,
+    backend,
+    {
+      ttlMs: readNumber(
+        env.COMPILE_BLOB_TTL_MS,
+        persistent ? 7 * DAY_MS : 60 * MINUTE_MS
+      ),
+      maxEntries: readNumber(env.COMPILE_BLOB_MAX_ENTRIES, 10_000),
+      maxBytes: readNumber(
+        env.COMPILE_BLOB_MAX_BYTES,
+        persistent ? 2048 * MB : 512 * MB
+      ),
+    },
+    'blobs'
+  );
+}
+
+/**
+ * Creates the store for compiled PDFs served from the artifacts route.
+ * Artifacts must outlive the compile results that point at them, and the
+ * preview keeps fetching byte ranges of the current one while it is open.
+ */
+export function createCompileArtifactStore(
+  env: CacheEnv = process.env
+): CompileCacheBackend {
+  const { backend, persistent } = readBackendName(env);
+
+  return createBackend(
+    env,
+    backend,
+    {
+      ttlMs: readNumber(
+        env.COMPILE_ARTIFACT_TTL_MS,
+        persistent ? 7 * DAY_MS : 60 * MINUTE_MS
+      ),
+      maxEntries: readNumber(
+        env.COMPILE_ARTIFACT_MAX_ENTRIES,
+        persistent ? 1000 : 200
+      ),
+      maxBytes: readNumber(
+        env.COMPILE_ARTIFACT_MAX_BYTES,
+        persistent ? 2048 * MB : 512 * MB
+      ),
+    },
+    'artifacts'
+  );
+}
@@ -0,0 +1,77 @@
+import type {
+  CompileCacheBackend,
+  CompileCacheBackendStats,
+  CompileCacheLimits,
+} from './types';
+
+interface MemoryEntry {
+  value: Buffer;
+  bytes: number;
+  lastAccess: number;
+}
+
+/**
+ * In-process LRU cache. A Map iterates in insertion order, so moving an
+ * entry to the end on every read keeps the least recently used first.
+ */
+export class MemoryCompileCache implements CompileCacheBackend {
+  readonly name = 'memory' as const;
+  private entries = new Map<string, MemoryEntry>();
+  private totalBytes = 0;
+
+  constructor(readonly limits: CompileCacheLimits) {}
+
+  async get(key: string): Promise<Buffer | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (now - entry.lastAccess > this.limits.ttlMs) {
+      this.remove(key);
+      return null;
+    }
+
+    entry.lastAccess = now;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: Buffer): Promise<number> {
+    this.remove(key);
+
+    const bytes = value.length;
+    this.entries.set(key, { value, bytes, lastAccess: Date.now() });
+    this.totalBytes += bytes;
+
+    let evicted = 0;
+    while (
+      this.entries.size > 1 &&
+      (this.entries.size > this.limits.maxEntries ||
+        this.totalBytes > this.limits.maxBytes)
+    ) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.remove(oldestKey);
+      evicted++;
+    }
+    return evicted;
+  }
+
+  async stats(): Promise<CompileCacheBackendStats> {
+    return {
+      backend: this.name,
+      size: this.entries.size,
+      bytes: this.totalBytes,
+    };
+  }
+
+  private remove(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.totalBytes -= entry.bytes;
+      this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { RespClient, type RespValue } from './resp';
+import type {
+  CompileCacheBackend,
+  CompileCacheBackendStats,
+  CompileCacheLimits,
+} from './types';
+
+/**
+ * Cache in a Redis-compatible store shared by every replica. Entries are
+ * plain keys with a sliding TTL; a sorted set scored by last access keeps
+ * the LRU order and a hash tracks entry sizes for the byte limit, with a
+ * running total next to it so a write does not sum the whole hash.
+ * Eviction is best effort: concurrent writers may briefly overshoot.
+ */
+export class RedisCompileCache implements CompileCacheBackend {
+  readonly name = 'redis' as const;
+  private readonly lruKey: string;
+  private readonly sizesKey: string;
+  private readonly bytesKey: string;
+
+  constructor(
+    private readonly client: RespClient,
+    readonly limits: CompileCacheLimits,
+    private readonly prefix = 'lars:compile'
+  ) {
+    this.lruKey = `${prefix}:lru`;
+    this.sizesKey = `${prefix}:sizes`;
+    this.bytesKey = `${prefix}:bytes`;
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const value = await this.client.command(['GET', this.entryKey(key)]);
+
+    if (!Buffer.isBuffer(value)) {
+      // Expired or evicted elsewhere; drop it from the index
+      await this.remove(key);
+      return null;
+    }
+
+    await Promise.all([
+      this.client.command(['PEXPIRE', this.entryKey(key), this.limits.ttlMs]),
+      this.client.command(['ZADD', this.lruKey, Date.now(), key]),
+    ]);
+    return value;
+  }
+
+  async set(key: string, value: Buffer): Promise<number> {
+    const previous = await this.client.command(['HGET', this.sizesKey, key]);
+    await Promise.all([
+      this.client.command([
+        'SET',
+        this.entryKey(key),
+        value,
+        'PX',
+        this.limits.ttlMs,
+      ]),
+      this.client.command(['ZADD', this.lruKey, Date.now(), key]),
+      this.client.command(['HSET', this.sizesKey, key, value.length]),
+      this.client.command([
+        'INCRBY',
+        this.bytesKey,
+        value.length - (Number(String(previous)) || 0),
+      ]),
+    ]);
+
+    return this.evict();
+  }
+
+  async stats(): Promise<CompileCacheBackendStats> {
+    const { size, bytes } = await this.usage();
+    return { backend: this.name, size, bytes };
+  }
+
+  private async evict(): Promise<number> {
+    let evicted = 0;
+
+    // Entries whose keys already expired only linger in the index
+    const expired = await this.client.command([
+      'ZRANGEBYSCORE',
+      this.lruKey,
+      '-inf',
+      Date.now() - this.limits.ttlMs,
+    ]);
+    for (const key of toStrings(expired)) {
+      await this.remove(key);
+      evicted++;
+    }
+
+    let { size, bytes } = await this.usage();
+    while (
+      size > 1 &&
+      (size > this.limits.maxEntries || bytes > this.limits.maxBytes)
+    ) {
+      const [oldest] = toStrings(
+        await this.client.command(['ZRANGE', this.lruKey, 0, 0])
+      );
+      if (!oldest) break;
+
+      bytes -= await this.remove(oldest);
+      size--;
+      evicted++;
+    }
+    return evicted;
+  }
+
+  // Removes an entry and returns its recorded size
+  private async remove(key: string): Promise<number> {
+    const [recorded] = await Promise.all([
+      this.client.command(['HGET', this.sizesKey, key]),
+      this.client.command(['DEL', this.entryKey(key)]),
+      this.client.command(['ZREM', this.lruKey, key]),
+    ]);
+    const bytes = Number(String(recorded)) || 0;
+    // Only the instance whose HDEL removed the size takes it off the total
+    if (await this.client.command(['HDEL', this.sizesKey, key])) {
+      await this.client.command(['DECRBY', this.bytesKey, bytes]);
+    }
+    return bytes;
+  }
+
+  private async usage() {
+    const [size, total] = await Promise.all([
+      this.client.command(['ZCARD', this.lruKey]),
+      this.client.command(['GET', this.bytesKey]),
+    ]);
+    return {
+      size: Number(size) || 0,
+      bytes: Math.max(0, Number(String(total)) || 0),
+    };
+  }
+
+  private entryKey(key: string) {
+    return `${this.prefix}:entry:${key}`;
+  }
+}
+
+function toStrings(value: RespValue): string[] {
+  return Array.isArray(value)
+    ? value
+        .filter((item) => Buffer.isBuffer(item) || typeof item === 'string')
+        .map(String)
+    : [];
+}
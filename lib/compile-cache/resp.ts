@@ -0,0 +1,235 @@
+import net from 'net';
+import tls from 'tls';
+
+// Bulk strings stay raw bytes so binary values survive the round trip
+export type RespValue = Buffer | string | number | null | RespValue[];
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+interface ParsedReply {
+  value: RespValue | RespError;
+  offset: number;
+}
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  setup?: string; // AUTH or SELECT sent on connect; failing it fails the connection
+}
+
+const CRLF = '\r\n';
+
+/**
+ * Encodes a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: Array<Buffer | string | number>): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}${CRLF}`)];
+  for (const arg of args) {
+    const value = Buffer.isBuffer(arg) ? arg : Buffer.from(String(arg));
+    parts.push(
+      Buffer.from(`$${value.length}${CRLF}`),
+      value,
+      Buffer.from(CRLF)
+    );
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Parses one RESP2 reply starting at offset. Returns null when the
+ * buffer does not hold a complete reply yet.
+ */
+export function parseReply(buffer: Buffer, offset = 0): ParsedReply | null {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RespError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return {
+        value: Buffer.from(buffer.subarray(next, next + length)),
+        offset: next + length + 2,
+      };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, offset: next };
+      }
+      const items: RespValue[] = [];
+      let error: RespError | null = null;
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) {
+          return null;
+        }
+        // Consume the whole array so the next reply starts at its end
+        if (item.value instanceof RespError) {
+          error ??= item.value;
+        } else {
+          items.push(item.value);
+        }
+        cursor = item.offset;
+      }
+      return { value: error ?? items, offset: cursor };
+    }
+    default:
+      throw new RespError(`Unexpected reply type "${type}"`);
+  }
+}
+
+/**
+ * Minimal client for Redis-compatible stores (Redis, Valkey, KeyDB,
+ * Dragonfly). Commands are pipelined over one lazily opened connection
+ * and replies are matched to them in order.
+ */
+export class RespClient {
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+  private readonly url: URL;
+
+  constructor(
+    url: string,
+    private readonly timeoutMs = 5_000
+  ) {
+    this.url = new URL(url);
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported cache URL protocol: ${this.url.protocol}`);
+    }
+  }
+
+  command(args: Array<Buffer | string | number>): Promise<RespValue> {
+    const socket = this.socket ?? this.connect();
+    return this.send(socket, args);
+  }
+
+  close() {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  private send(
+    socket: net.Socket,
+    args: Array<Buffer | string | number>,
+    setup?: string
+  ): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject, setup });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): net.Socket {
+    const port = Number(this.url.port || 6379);
+    const host = this.url.hostname || '127.0.0.1';
+    const socket =
+      this.url.protocol === 'rediss:'
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    socket.setNoDelay(true);
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', (chunk: Buffer) => this.onData(socket, chunk));
+    socket.on('timeout', () => {
+      // Idle connections are fine; only waiting commands time out
+      if (this.pending.length > 0) {
+        socket.destroy(new Error('Cache server did not respond in time'));
+      }
+    });
+    socket.on('error', (error) => this.reset(socket, error));
+    socket.on('close', () =>
+      this.reset(socket, new Error('Cache connection closed'))
+    );
+
+    // Queued ahead of the caller's command, so they run first. Their
+    // errors fail the connection in onData, which rejects the caller.
+    const username = decodeURIComponent(this.url.username);
+    const password = decodeURIComponent(this.url.password);
+    if (password) {
+      const auth = username ? ['AUTH', username, password] : ['AUTH', password];
+      this.send(socket, auth, 'AUTH').catch(() => undefined);
+    }
+    const db = this.url.pathname.replace(/^\//, '');
+    if (db) {
+      this.send(socket, ['SELECT', db], 'SELECT').catch(() => undefined);
+    }
+
+    return socket;
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer) {
+    if (this.socket !== socket) return;
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    try {
+      let parsed: ParsedReply | null;
+      while ((parsed = parseReply(this.buffer)) !== null) {
+        this.buffer = this.buffer.subarray(parsed.offset);
+        const command = this.pending.shift();
+        if (!command) continue;
+        if (parsed.value instanceof RespError) {
+          if (command.setup) {
+            // A wrong password or database would fail every later command
+            throw new RespError(
+              `Cache ${command.setup} failed: ${parsed.value.message}`
+            );
+          }
+          command.reject(parsed.value);
+        } else {
+          command.resolve(parsed.value);
+        }
+      }
+    } catch (error) {
+      // The stream cannot be matched to commands any more; this runs in a
+      // socket handler, so the error must not escape
+      this.fail(
+        socket,
+        error instanceof Error ? error : new RespError(String(error))
+      );
+    }
+  }
+
+  // Rejects every waiting command and drops the connection
+  private fail(socket: net.Socket, error: Error) {
+    this.reset(socket, error);
+    socket.destroy();
+  }
+
+  private reset(socket: net.Socket, error: Error) {
+    if (this.socket !== socket) return;
+    this.socket = null;
+    const pending = this.pending;
+    this.pending = [];
+    for (const command of pending) {
+      command.reject(error);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+export type CompileCacheBackendName = 'memory' | 'fs' | 'redis';
+
+export interface CompileCacheLimits {
+  ttlMs: number; // Idle time before an entry expires
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface CompileCacheBackendStats {
+  backend: CompileCacheBackendName;
+  size: number;
+  bytes: number;
+}
+
+/**
+ * Storage for compile results, PDFs and project files as raw bytes,
+ * keyed by content hash.
+ * Backends keep entries in least-recently-used order and evict the
+ * oldest ones once either limit is exceeded.
+ */
+export interface CompileCacheBackend {
+  readonly name: CompileCacheBackendName;
+  readonly limits: CompileCacheLimits;
+  get(key: string): Promise<Buffer | null>;
+  // Resolves to the number of entries evicted to make room
+  set(key: string, value: Buffer): Promise<number>;
+  stats(): Promise<CompileCacheBackendStats>;
+}
@@ -0,0 +1,116 @@
+import type { FileChange } from '@/types/edit';
+import type { LineEdit } from './line-edits';
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r\n?/g, '\n');
+}
+
+// What a file went through overall when a later accept changed it again
+function mergedOperation(
+  previous: FileChange,
+  change: FileChange
+): FileChange['operation'] {
+  if (change.operation === 'delete') return 'delete';
+  // Deleted, then created again: only the text changed
+  if (previous.operation === 'delete') return undefined;
+  return previous.operation;
+}
+
+/**
+ * Add the changes of another accept to a message's changeset. A file keeps
+ * the text it had before the first accept and takes the text after the
+ * latest one; if it changed in between, reverting would also undo the
+ * user's typing, so that is flagged. A file created and then deleted again
+ * drops out. Renames are kept as they are, after the changes before them.
+ */
+export function mergeFileChanges(
+  existing: FileChange[],
+  changes: FileChange[]
+): FileChange[] {
+  const merged = [...existing];
+  for (const change of changes) {
+    const index =
+      change.operation === 'rename'
+        ? -1
+        : merged.findIndex(
+            (file) =>
+              file.filePath === change.filePath && file.operation !== 'rename'
+          );
+    if (index === -1) {
+      merged.push(change);
+      continue;
+    }
+    const previous = merged[index];
+    if (previous.operation === 'create' && change.operation === 'delete') {
+      merged.splice(index, 1);
+      continue;
+    }
+    const operation = mergedOperation(previous, change);
+    merged[index] = {
+      filePath: previous.filePath,
+      before: previous.before,
+      after: change.after,
+      editedInBetween:
+        previous.editedInBetween ||
+        normalizeNewlines(previous.after) !== normalizeNewlines(change.before),
+      ...(operation && { operation }),
+      ...(previous.contentUnknown && { contentUnknown: true }),
+    };
+  }
+  return merged;
+}
+
+/**
+ * Files of a changeset that were edited after its edits were accepted,
+ * whose later edits a revert would discard. For a deleted or renamed file
+ * that is a new file at its old path.
+ * @param currentText - A file's text now, or null when it no longer exists
+ */
+export function findRevertConflicts(
+  files: FileChange[],
+  currentText: (filePath: string) => string | null
+): string[] {
+  return files
+    .filter((file) => {
+      const text = currentText(file.filePath);
+      if (file.operation === 'delete' || file.operation === 'rename') {
+        return text !== null;
+      }
+      if (text === null) return false;
+      return (
+        !!file.editedInBetween ||
+        normalizeNewlines(text) !== normalizeNewlines(file.after)
+      );
+    })
+    .map((file) => file.filePath);
+}
+
+/**
+ * The file operation that undoes a created, renamed or deleted file
+ * @returns The operation, or null for edits to the text and for deleted
+ * files whose text is unknown
+ */
+export function revertOperation(file: FileChange): LineEdit | null {
+  switch (file.operation) {
+    case 'create':
+      return { editType: 'delete_file', filePath: file.filePath };
+    case 'rename':
+      return file.newFilePath
+        ? {
+            editType: 'rename_file',
+            filePath: file.newFilePath,
+            newFilePath: file.filePath,
+          }
+        : null;
+    case 'delete':
+      return file.contentUnknown
+        ? null
+        : {
+            editType: 'create_file',
+            filePath: file.filePath,
+            content: file.before,
+          };
+    default:
+      return null;
+  }
+}
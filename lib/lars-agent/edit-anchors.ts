@@ -0,0 +1,153 @@
+import type { LineEdit } from './line-edits';
+
+// Similarity an edit must exceed to be placed where its text was changed
+const MIN_SIMILARITY = 0.8;
+// How far from its proposed line an edit is looked for when it no longer
+// matches exactly
+const FUZZY_SEARCH_LINES = 200;
+
+function splitLines(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Similarity of two lines from 0 to 1, by the character pairs they share.
+ * Indentation and runs of whitespace are ignored.
+ */
+export function lineSimilarity(a: string, b: string): number {
+  const left = normalizeLine(a);
+  const right = normalizeLine(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const pair = left.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const pair = right.slice(i, i + 2);
+    const count = pairs.get(pair) ?? 0;
+    if (count > 0) {
+      shared++;
+      pairs.set(pair, count - 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length - 2);
+}
+
+interface Anchors {
+  covered: string[]; // Lines the edit changes; none for an insert
+  before: string[];
+  after: string[];
+}
+
+function anchorsOf(edit: LineEdit): Anchors | null {
+  if (
+    edit.originalText === undefined &&
+    edit.contextBefore === undefined &&
+    edit.contextAfter === undefined
+  ) {
+    return null;
+  }
+  return {
+    covered: edit.originalText ? splitLines(edit.originalText) : [],
+    before:
+      edit.contextBefore !== undefined ? splitLines(edit.contextBefore) : [],
+    after: edit.contextAfter !== undefined ? splitLines(edit.contextAfter) : [],
+  };
+}
+
+// How well the anchors fit with the edit starting at `start` (1-indexed).
+// The covered lines must match on their own, so that context alone never
+// places an edit over lines the user has rewritten.
+function scoreAt(
+  lines: string[],
+  anchors: Anchors,
+  start: number,
+  similarity: (a: string, b: string) => number
+): number {
+  const { covered, before, after } = anchors;
+  if (start - 1 + covered.length > lines.length) return 0;
+
+  let coveredScore = 0;
+  covered.forEach((text, offset) => {
+    coveredScore += similarity(text, lines[start - 1 + offset]);
+  });
+  if (covered.length > 0 && coveredScore / covered.length < MIN_SIMILARITY) {
+    return 0;
+  }
+
+  let contextScore = 0;
+  before.forEach((text, offset) => {
+    const line = lines[start - 1 - before.length + offset];
+    contextScore += line === undefined ? 0 : similarity(text, line);
+  });
+  after.forEach((text, offset) => {
+    const line = lines[start - 1 + covered.length + offset];
+    contextScore += line === undefined ? 0 : similarity(text, line);
+  });
+
+  // Covered lines weigh twice as much as the context around them
+  const weight = 2 * covered.length + before.length + after.length;
+  return weight === 0 ? 0 : (2 * coveredScore + contextScore) / weight;
+}
+
+const exactly = (a: string, b: string) =>
+  normalizeLine(a) === normalizeLine(b) ? 1 : 0;
+
+/**
+ * Find the line an edit applies to in the file as it is now. Edits carry
+ * the lines they change and the lines around them; when those are no longer
+ * at the proposed line, the best match is used, the nearest one on a tie.
+ * @param lines - The file's current lines
+ * @returns The 1-indexed start line, or null when the edit's text is gone.
+ * Edits without anchors keep their proposed line.
+ */
+export function locateEdit(lines: string[], edit: LineEdit): number | null {
+  const proposed = Math.max(edit.position?.line || 1, 1);
+  const anchors = anchorsOf(edit);
+  if (!anchors) return proposed;
+
+  const lastStart = lines.length + 1;
+  const distance = (start: number) => Math.abs(start - proposed);
+  if (
+    proposed <= lastStart &&
+    scoreAt(lines, anchors, proposed, exactly) === 1
+  ) {
+    return proposed;
+  }
+
+  // Typing elsewhere shifts lines without changing them
+  let best: number | null = null;
+  for (let start = 1; start <= lastStart; start++) {
+    if (
+      scoreAt(lines, anchors, start, exactly) === 1 &&
+      (best === null || distance(start) < distance(best))
+    ) {
+      best = start;
+    }
+  }
+  if (best !== null) return best;
+
+  // Otherwise the lines themselves were touched up
+  let bestScore = MIN_SIMILARITY;
+  const from = Math.max(1, proposed - FUZZY_SEARCH_LINES);
+  const to = Math.min(lastStart, proposed + FUZZY_SEARCH_LINES);
+  for (let start = from; start <= to; start++) {
+    const score = scoreAt(lines, anchors, start, lineSimilarity);
+    if (
+      score > bestScore ||
+      (score === bestScore && best !== null && distance(start) < distance(best))
+    ) {
+      bestScore = score;
+      best = start;
+    }
+  }
+  return best;
+}
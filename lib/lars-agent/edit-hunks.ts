@@ -0,0 +1,153 @@
+import { locateEdit } from './edit-anchors';
+import type { LineEdit } from './line-edits';
+
+export type HunkLineType = 'same' | 'removed' | 'added';
+
+export interface HunkLine {
+  type: HunkLineType;
+  text: string;
+  oldLine: number | null; // Line in the file now; null for added lines
+}
+
+// One proposed edit as it would change the file now
+export interface EditHunk {
+  startLine: number; // Where the edit applies in the file now
+  originalLineCount: number;
+  lines: HunkLine[];
+}
+
+// Hunks larger than this are shown as all removed, then all added
+const MAX_DIFF_CELLS = 250_000;
+
+function coveredLineCount(edit: LineEdit): number {
+  if (edit.originalLineCount !== undefined) return edit.originalLineCount;
+  if (edit.editType === 'insert') return 0;
+  return (edit.content || '').split('\n').length;
+}
+
+// The lines an edit writes; an insert's closing line break only separates
+// it from the line it goes in front of
+function suggestedLinesOf(edit: LineEdit): string[] {
+  const content = edit.content || '';
+  if (!content) return [];
+  return (edit.editType === 'insert' ? content.replace(/\n$/, '') : content)
+    .replace(/\r\n?/g, '\n')
+    .split('\n');
+}
+
+/**
+ * Line diff of two texts by longest common subsequence. Removed lines come
+ * before the added lines that replace them.
+ */
+export function diffLines(
+  original: string[],
+  suggested: string[],
+  firstLine = 1
+): HunkLine[] {
+  const removed = (text: string, index: number): HunkLine => ({
+    type: 'removed',
+    text,
+    oldLine: firstLine + index,
+  });
+  const added = (text: string): HunkLine => ({
+    type: 'added',
+    text,
+    oldLine: null,
+  });
+
+  if (original.length * suggested.length > MAX_DIFF_CELLS) {
+    return [...original.map(removed), ...suggested.map(added)];
+  }
+
+  // common[i][j]: longest common run of original[i..] and suggested[j..]
+  const common = Array.from({ length: original.length + 1 }, () =>
+    new Array<number>(suggested.length + 1).fill(0)
+  );
+  for (let i = original.length - 1; i >= 0; i--) {
+    for (let j = suggested.length - 1; j >= 0; j--) {
+      common[i][j] =
+        original[i] === suggested[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: HunkLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < original.length || j < suggested.length) {
+    if (
+      i < original.length &&
+      j < suggested.length &&
+      original[i] === suggested[j]
+    ) {
+      lines.push({ type: 'same', text: original[i], oldLine: firstLine + i });
+      i++;
+      j++;
+    } else if (
+      i < original.length &&
+      (j === suggested.length || common[i + 1][j] >= common[i][j + 1])
+    ) {
+      lines.push(removed(original[i], i));
+      i++;
+    } else {
+      lines.push(added(suggested[j]));
+      j++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Diff an edit against the file as it is now
+ * @param fileLines - The file's current lines
+ * @returns The hunk, or null when the edit's text is no longer in the file
+ */
+export function buildHunk(
+  edit: LineEdit,
+  fileLines: string[]
+): EditHunk | null {
+  const startLine = locateEdit(fileLines, edit);
+  if (startLine === null) return null;
+
+  const originalLineCount = coveredLineCount(edit);
+  const original = fileLines.slice(
+    startLine - 1,
+    startLine - 1 + originalLineCount
+  );
+  return {
+    startLine,
+    originalLineCount,
+    lines: diffLines(original, suggestedLinesOf(edit), startLine),
+  };
+}
+
+/**
+ * The edit's content with some of its changed lines left out: a rejected
+ * removal keeps the original line, a rejected addition is dropped
+ * @param rejected - Indexes into hunk.lines of the changes to leave out
+ * @returns The content to write, or null when nothing would change
+ */
+export function selectHunkContent(
+  edit: LineEdit,
+  hunk: EditHunk,
+  rejected: ReadonlySet<number>
+): string | null {
+  const kept = hunk.lines.filter((line, index) =>
+    line.type === 'same'
+      ? true
+      : line.type === 'removed'
+        ? rejected.has(index)
+        : !rejected.has(index)
+  );
+  const changes = hunk.lines.filter(
+    (line, index) => line.type !== 'same' && !rejected.has(index)
+  );
+  if (changes.length === 0) return null;
+
+  const text = kept.map((line) => line.text).join('\n');
+  // An insert keeps the line break that separates it from the next line
+  const insertBreak =
+    edit.editType === 'insert' && /\n$/.test(edit.content || '') && text;
+  return insertBreak ? `${text}\n` : text;
+}
@@ -1,7 +1,10 @@
 export type LineEditType = 'insert' | 'delete' | 'replace';
 
+// File-level operations, reviewed like line edits
+export type FileEditType = 'create_file' | 'rename_file' | 'delete_file';
+
 export interface LineEdit {
-  editType: LineEditType;
+  editType: LineEditType | FileEditType;
   content?: string;
   position?: {
     line?: number;
@@ -9,4 +12,60 @@ export interface LineEdit {
   originalLineCount?: number;
   explanation?: string;
   filePath?: string; // target file path
+  newFilePath?: string; // target path for rename_file
+  // anchors recorded by the agent server, for finding the edit again
+  originalText?: string; // the lines the edit covers
+  contextBefore?: string; // lines just above the edit
+  contextAfter?: string; // lines just below the edit
+}
+
+export function isFileEdit(edit: Pick<LineEdit, 'editType'>): boolean {
+  return (
+    edit.editType === 'create_file' ||
+    edit.editType === 'rename_file' ||
+    edit.editType === 'delete_file'
+  );
+}
+
+/**
+ * Apply line edits to a file's text the way accepting them in the editor
+ * does: every edit addresses the original line numbers, so they are
+ * applied from the bottom up. File-level edits are ignored.
+ */
+export function applyLineEdits(content: string, edits: LineEdit[]): string {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const lineEdits = edits
+    .filter((edit) => !isFileEdit(edit))
+    .sort((a, b) => (b.position?.line || 1) - (a.position?.line || 1));
+
+  for (const edit of lineEdits) {
+    const line = Math.max(edit.position?.line || 1, 1);
+    const count =
+      edit.originalLineCount ??
+      (edit.editType === 'insert'
+        ? 0
+        : (edit.content || '').split('\n').length);
+
+    // Past the end, an insert is appended to the last line
+    if (count === 0 && line > lines.length) {
+      const last = lines.pop() ?? '';
+      lines.push(...(last + (edit.content || '')).split('\n'));
+      continue;
+    }
+
+    const start = Math.min(line, lines.length);
+    const end = Math.min(start + Math.max(count, 1) - 1, lines.length);
+
+    // The text replaces the covered lines' characters, not their line
+    // breaks; an insert goes in front of the line
+    const following = count > 0 ? '' : lines[start - 1];
+    const replaced = (edit.content || '') + following;
+    lines.splice(
+      start - 1,
+      count > 0 ? end - start + 1 : 1,
+      ...replaced.split('\n')
+    );
+  }
+
+  return lines.join('\n');
 }
@@ -0,0 +1,119 @@
+import type {
+  ChatMessageInput,
+  ChatSession,
+  StoredChatMessage,
+} from '@/types/chat';
+import { LineEdit } from '@/lib/lars-agent/line-edits';
+import type { FileChange } from '@/types/edit';
+
+const CHAT_TITLE_MAX_LENGTH = 80;
+
+/**
+ * Derive a conversation title from the first user message
+ */
+export function titleFromMessage(content: string): string {
+  const firstLine = content.trim().split('\n')[0].replace(/\s+/g, ' ');
+  if (!firstLine) return 'New conversation';
+  return firstLine.length > CHAT_TITLE_MAX_LENGTH
+    ? `${firstLine.slice(0, CHAT_TITLE_MAX_LENGTH - 1)}…`
+    : firstLine;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+
+  if (!response.ok) {
+    let message = `Request failed with ${response.status}`;
+    try {
+      const data = await response.json();
+      message = data.error || message;
+    } catch {
+      // Use default
+    }
+    throw new Error(message);
+  }
+
+  return response.json();
+}
+
+const sessionsUrl = (projectId: string) =>
+  `/api/projects/${projectId}/chat-sessions`;
+
+export const listChatSessions = async (
+  projectId: string
+): Promise<ChatSession[]> => {
+  const data = await request<{ sessions: ChatSession[] }>(
+    sessionsUrl(projectId)
+  );
+  return data.sessions;
+};
+
+export const createChatSession = async (
+  projectId: string,
+  title?: string
+): Promise<ChatSession> => {
+  const data = await request<{ session: ChatSession }>(sessionsUrl(projectId), {
+    method: 'POST',
+    body: JSON.stringify({ title }),
+  });
+  return data.session;
+};
+
+export const getChatSession = async (
+  projectId: string,
+  sessionId: string
+): Promise<{ session: ChatSession; messages: StoredChatMessage[] }> => {
+  return request(`${sessionsUrl(projectId)}/${sessionId}`);
+};
+
+export const renameChatSession = async (
+  projectId: string,
+  sessionId: string,
+  title: string
+): Promise<ChatSession> => {
+  const data = await request<{ session: ChatSession }>(
+    `${sessionsUrl(projectId)}/${sessionId}`,
+    { method: 'PATCH', body: JSON.stringify({ title }) }
+  );
+  return data.session;
+};
+
+export const deleteChatSession = async (
+  projectId: string,
+  sessionId: string
+): Promise<void> => {
+  await request(`${sessionsUrl(projectId)}/${sessionId}`, {
+    method: 'DELETE',
+  });
+};
+
+export const appendChatMessages = async (
+  projectId: string,
+  sessionId: string,
+  messages: ChatMessageInput[]
+): Promise<StoredChatMessage[]> => {
+  const data = await request<{ messages: StoredChatMessage[] }>(
+    `${sessionsUrl(projectId)}/${sessionId}/messages`,
+    { method: 'POST', body: JSON.stringify({ messages }) }
+  );
+  return data.messages;
+};
+
+// Update the edits accepted from a message and what reverting them restores
+export const updateChatMessage = async (
+  projectId: string,
+  sessionId: string,
+  messageId: string,
+  update: { acceptedEdits?: LineEdit[]; fileChanges?: FileChange[] }
+): Promise<void> => {
+  await request(
+    `${sessionsUrl(projectId)}/${sessionId}/messages/${messageId}`,
+    {
+      method: 'PATCH',
+      body: JSON.stringify(update),
+    }
+  );
+};
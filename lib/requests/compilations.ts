@@ -0,0 +1,28 @@
+import type { CompilationRecord } from '@/types/compilation';
+
+const compilationsUrl = (projectId: string) =>
+  `/api/projects/${projectId}/compilations`;
+
+async function readError(response: Response): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || `Request failed with ${response.status}`;
+  } catch {
+    return `Request failed with ${response.status}`;
+  }
+}
+
+export const getCompilations = async (
+  projectId: string
+): Promise<CompilationRecord[]> => {
+  const response = await fetch(compilationsUrl(projectId));
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+
+  const data = await response.json();
+  return Array.isArray(data.compilations) ? data.compilations : [];
+};
+
+export const compilationDownloadUrl = (compilation: CompilationRecord) =>
+  compilation.pdfUrl ? `${compilation.pdfUrl}?download=1` : null;
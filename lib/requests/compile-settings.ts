@@ -0,0 +1,48 @@
+import type { CompileSettings } from '@/types/compilation';
+import {
+  DEFAULT_COMPILE_SETTINGS,
+  parseCompileSettings,
+} from '@/lib/utils/compile-settings';
+
+const settingsUrl = (projectId: string) =>
+  `/api/projects/${projectId}/compile-settings`;
+
+async function readError(response: Response): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || `Request failed with ${response.status}`;
+  } catch {
+    return `Request failed with ${response.status}`;
+  }
+}
+
+export const getCompileSettings = async (
+  projectId: string
+): Promise<CompileSettings> => {
+  const response = await fetch(settingsUrl(projectId));
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+
+  const data = await response.json();
+  return data.settings
+    ? parseCompileSettings(data.settings)
+    : DEFAULT_COMPILE_SETTINGS;
+};
+
+export const updateCompileSettings = async (
+  projectId: string,
+  settings: CompileSettings
+): Promise<CompileSettings> => {
+  const response = await fetch(settingsUrl(projectId), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(settings),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+
+  const data = await response.json();
+  return parseCompileSettings(data.settings);
+};
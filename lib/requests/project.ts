@@ -1,6 +1,9 @@
 import { createClient } from '@/lib/supabase/client';
 import type { ProjectFile } from '@/hooks/use-file-editor';
-import { isBinaryFile } from '@/lib/constants/file-types';
+import {
+  isBinaryFile,
+  getContentTypeByFilename,
+} from '@/lib/constants/file-types';
 
 export const getProject = async (projectId: string) => {
   const supabase = createClient();
@@ -222,6 +225,20 @@ export const renameFile = async (
   if (moveError) {
     throw new Error('Failed to rename file');
   }
+
+  // keep the documents row (if any) pointing at the new path
+  const { error: documentError } = await (supabase.from('documents') as any)
+    .update({
+      filename: newName,
+      title: newName,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('project_id', projectId)
+    .eq('filename', currentName);
+
+  if (documentError) {
+    console.warn('Failed to update document row after rename:', documentError);
+  }
 };
 
 export const deleteFile = async (
@@ -246,6 +263,68 @@ export const deleteFile = async (
   if (deleteError) {
     throw new Error('Failed to delete file');
   }
+
+  const { error: documentError } = await (supabase.from('documents') as any)
+    .delete()
+    .eq('project_id', projectId)
+    .eq('filename', fileName);
+
+  if (documentError) {
+    console.warn('Failed to delete document row:', documentError);
+  }
+};
+
+/**
+ * Create a text file in project storage together with its documents row
+ */
+export const createProjectFile = async (
+  projectId: string,
+  filePath: string,
+  content: string
+): Promise<void> => {
+  const supabase = createClient();
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session?.user) {
+    throw new Error('User not authenticated');
+  }
+
+  const mimeType = getContentTypeByFilename(filePath);
+  const blob = new Blob([content], { type: mimeType });
+
+  const { error: uploadError } = await supabase.storage
+    .from('lars')
+    .upload(`projects/${projectId}/${filePath}`, blob, {
+      cacheControl: '3600',
+      upsert: false,
+      contentType: mimeType,
+    });
+
+  if (uploadError) {
+    throw new Error(`Failed to create file: ${uploadError.message}`);
+  }
+
+  const { error: documentError } = await (
+    supabase.from('documents') as any
+  ).insert({
+    owner_id: session.user.id,
+    project_id: projectId,
+    title: filePath,
+    filename: filePath,
+    content,
+    document_type: 'file',
+  });
+
+  if (documentError) {
+    // roll back the upload so storage and documents stay consistent
+    await supabase.storage
+      .from('lars')
+      .remove([`projects/${projectId}/${filePath}`]);
+    throw new Error(`Failed to create document: ${documentError.message}`);
+  }
 };
 
 export const createFolder = async (
@@ -1,6 +1,7 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import type { CompilationError } from '@/types/compilation';
+import { formatDiagnostic } from '@/lib/utils/latex-log';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -12,6 +13,8 @@ export function formatCompilationErrorForAI(error: CompilationError): string {
     `${error.message}`,
     error.details && `\nDetails: ${error.details}`,
     error.summary && `\nError Summary:\n${error.summary}`,
+    error.diagnostics?.length &&
+      `\nDiagnostics:\n${error.diagnostics.map(formatDiagnostic).join('\n')}`,
     error.log &&
       `\nLog (last lines):\n${error.log.split('\n').slice(-20).join('\n')}`,
   ]
@@ -31,6 +34,8 @@ export function formatCompilationErrorForClipboard(
     typeof error.queueMs === 'number' && `Queue: ${error.queueMs}ms`,
     typeof error.durationMs === 'number' && `Duration: ${error.durationMs}ms`,
     error.summary && `Summary:\n${error.summary}`,
+    error.diagnostics?.length &&
+      `Diagnostics:\n${error.diagnostics.map(formatDiagnostic).join('\n')}`,
     error.log && `Log:\n${error.log}`,
     error.stdout && `Output:\n${error.stdout}`,
     error.stderr && `Errors:\n${error.stderr}`,
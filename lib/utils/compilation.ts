@@ -1,5 +1,15 @@
-import type { CompilationError } from '@/types/compilation';
+import type {
+  CompilationError,
+  CompileProgress,
+  CompileSettings,
+} from '@/types/compilation';
 import { isBinaryFile } from '@/lib/constants/file-types';
+import { parseLatexLog } from '@/lib/utils/latex-log';
+import { readSSEStream } from '@/lib/utils/sse';
+import { buildFileManifest } from '@/lib/utils/file-manifest';
+
+// Log lines kept in memory while a streamed compile runs
+const MAX_PROGRESS_LOG_LINES = 200;
 
 export function normalizePath(name: string): string {
   if (!name) return 'document.tex';
@@ -28,10 +38,23 @@ export function createCompilationError(
     queueMs: data?.queueMs,
     durationMs: data?.durationMs,
     summary: summarizeLog(data?.log || data?.stderr || data?.stdout),
+    diagnostics: parseLatexLog(data?.log || data?.stdout),
     pdf: data?.pdf, // Include partial PDF if available despite error
   };
 }
 
+/**
+ * URL the PDF viewer can load for a compile response: the artifact URL
+ * when the server stored the PDF, otherwise a data URL of the base64 PDF
+ */
+export function getPdfUrl(data: any): string | null {
+  if (typeof data?.pdfUrl === 'string') return data.pdfUrl;
+  if (typeof data?.pdf === 'string' && data.pdf) {
+    return `data:application/pdf;base64,${data.pdf}`;
+  }
+  return null;
+}
+
 export async function processFileContent(
   fileBlob: Blob,
   fileName: string
@@ -86,12 +109,14 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
 export async function makeCompilationRequest(
   filesPayload: Array<{ path: string; content: string; encoding?: string }>,
   normalizedFileName: string,
-  projectId?: string
+  projectId?: string,
+  settings?: CompileSettings
 ): Promise<{ response: Response; data: any }> {
   const requestBody = {
     files: filesPayload,
     projectId,
     lastModifiedFile: normalizedFileName,
+    settings,
   };
 
   const response = await fetch('/api/compile-pdf', {
@@ -99,6 +124,12 @@ export async function makeCompilationRequest(
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(requestBody),
   });
+  const data = await readCompilationResponse(response);
+
+  return { response, data };
+}
+
+async function readCompilationResponse(response: Response): Promise<any> {
   const contentType = response.headers.get('content-type')?.toLowerCase() || '';
   let data: any;
 
@@ -120,5 +151,129 @@ export async function makeCompilationRequest(
     data = { error: 'Failed to read compilation response', details: String(parseError) };
   }
 
-  return { response, data };
+  return data;
+}
+
+/**
+ * Folds one event from the compile stream into the progress state
+ */
+export function applyCompileProgress(
+  progress: CompileProgress,
+  event: string,
+  data: any
+): CompileProgress {
+  switch (event) {
+    case 'status':
+      return { ...progress, stage: data?.stage === 'running' ? 'running' : 'queued' };
+    case 'queue':
+      return {
+        ...progress,
+        stage: 'queued',
+        queuePosition: typeof data?.position === 'number' ? data.position : null,
+      };
+    case 'pass':
+      return { ...progress, stage: 'running', pass: data?.pass, tool: data?.tool };
+    case 'log': {
+      const lines: string[] = Array.isArray(data?.lines) ? data.lines : [];
+      return {
+        ...progress,
+        stage: 'running',
+        logLines: [...progress.logLines, ...lines].slice(-MAX_PROGRESS_LOG_LINES),
+      };
+    }
+    default:
+      return progress;
+  }
+}
+
+/**
+ * Compiles through the streaming route, reporting progress as it arrives.
+ * The HTTP status is always 200 once streaming starts, so success is
+ * reported separately from the response.
+ *
+ * With uploadedHashes, files are listed by hash and only contents the
+ * server has not received yet are sent; if the server lost any it
+ * answers 409 with their hashes and just those are sent again.
+ */
+export async function makeStreamingCompilationRequest(
+  filesPayload: Array<{ path: string; content: string; encoding?: string }>,
+  normalizedFileName: string,
+  projectId?: string,
+  settings?: CompileSettings,
+  onProgress?: (progress: CompileProgress) => void,
+  uploadedHashes?: Set<string>
+): Promise<{ ok: boolean; status: number; data: any }> {
+  const manifest = uploadedHashes ? await buildFileManifest(filesPayload) : null;
+
+  const send = (files: typeof filesPayload) =>
+    fetch('/api/compile-pdf/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify({
+        files,
+        manifest: manifest ?? undefined,
+        projectId,
+        lastModifiedFile: normalizedFileName,
+        settings,
+        // Fetch the PDF from its artifact URL instead of decoding base64
+        delivery: 'artifact',
+      }),
+    });
+
+  let response = await send(
+    manifest && uploadedHashes
+      ? filesPayload.filter((_, index) => !uploadedHashes.has(manifest[index].hash))
+      : filesPayload
+  );
+
+  if (manifest && uploadedHashes && response.status === 409) {
+    const data = await readCompilationResponse(response);
+    const missing = new Set<string>(Array.isArray(data?.missing) ? data.missing : []);
+    missing.forEach((hash) => uploadedHashes.delete(hash));
+    response = await send(
+      filesPayload.filter((_, index) => missing.has(manifest[index].hash))
+    );
+  }
+
+  // The server stores uploads before it starts compiling
+  if (manifest && uploadedHashes && response.ok) {
+    manifest.forEach((entry) => uploadedHashes.add(entry.hash));
+  }
+
+  const contentType = response.headers.get('content-type')?.toLowerCase() || '';
+  if (!contentType.includes('text/event-stream') || !response.body) {
+    const data = await readCompilationResponse(response);
+    return { ok: response.ok, status: response.status, data };
+  }
+
+  let progress: CompileProgress = { stage: 'queued', logLines: [] };
+  let outcome: { ok: boolean; data: any } | null = null;
+
+  await readSSEStream(response.body, (event, data) => {
+    if (event === 'result') {
+      outcome = { ok: true, data };
+    } else if (event === 'error') {
+      outcome = { ok: false, data };
+    } else {
+      const next = applyCompileProgress(progress, event, data);
+      if (next !== progress) {
+        progress = next;
+        onProgress?.(progress);
+      }
+    }
+  });
+
+  const final = outcome as { ok: boolean; data: any } | null;
+  if (!final) {
+    return {
+      ok: false,
+      status: response.status,
+      data: { error: 'Compilation stream ended unexpectedly' },
+    };
+  }
+
+  return { ok: final.ok, status: final.ok ? 200 : 500, data: final.data };
 }
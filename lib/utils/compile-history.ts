@@ -0,0 +1,17 @@
+import type { CompilationRecord } from '@/types/compilation';
+
+/**
+ * The compile that started the current run of failures, given the history
+ * newest first. Null while the latest compile succeeds, or if the project
+ * has never compiled cleanly in the listed history.
+ */
+export function findFailureStart(
+  compilations: CompilationRecord[]
+): CompilationRecord | null {
+  if (compilations[0]?.status !== 'error') return null;
+
+  const lastSuccess = compilations.findIndex(
+    (compilation) => compilation.status === 'success'
+  );
+  return lastSuccess === -1 ? null : compilations[lastSuccess - 1];
+}
@@ -0,0 +1,85 @@
+import type {
+  BibliographyTool,
+  CompileSettings,
+  LatexEngine,
+} from '@/types/compilation';
+
+export const LATEX_ENGINES: LatexEngine[] = ['pdflatex', 'xelatex', 'lualatex'];
+
+export const ENGINE_LABELS: Record<LatexEngine, string> = {
+  pdflatex: 'pdfLaTeX',
+  xelatex: 'XeLaTeX',
+  lualatex: 'LuaLaTeX',
+};
+
+export const BIBLIOGRAPHY_TOOLS: BibliographyTool[] = [
+  'auto',
+  'bibtex',
+  'biber',
+  'none',
+];
+
+export const DEFAULT_COMPILE_SETTINGS: CompileSettings = {
+  rootFile: null,
+  engine: 'pdflatex',
+  bibliographyTool: 'auto',
+  shellEscape: false,
+  draftMode: false,
+};
+
+// Project-relative .tex path without parent-directory segments
+export function isValidRootFile(path: unknown): path is string {
+  return (
+    typeof path === 'string' &&
+    path.endsWith('.tex') &&
+    !path.startsWith('/') &&
+    !path.split('/').includes('..')
+  );
+}
+
+/**
+ * Read settings from untrusted input, falling back to the default for any
+ * missing or unknown field
+ */
+export function parseCompileSettings(value: unknown): CompileSettings {
+  const raw =
+    value && typeof value === 'object'
+      ? (value as Record<string, unknown>)
+      : {};
+
+  return {
+    rootFile: isValidRootFile(raw.rootFile) ? raw.rootFile : null,
+    engine: LATEX_ENGINES.includes(raw.engine as LatexEngine)
+      ? (raw.engine as LatexEngine)
+      : DEFAULT_COMPILE_SETTINGS.engine,
+    bibliographyTool: BIBLIOGRAPHY_TOOLS.includes(
+      raw.bibliographyTool as BibliographyTool
+    )
+      ? (raw.bibliographyTool as BibliographyTool)
+      : DEFAULT_COMPILE_SETTINGS.bibliographyTool,
+    shellEscape: raw.shellEscape === true,
+    draftMode: raw.draftMode === true,
+  };
+}
+
+/**
+ * Pick the document to compile: the configured root if it is in the
+ * project, otherwise main.tex, otherwise the first file with a
+ * \documentclass
+ */
+export function resolveRootFile(
+  files: Array<{ path: string; content: string; encoding?: string }>,
+  rootFile: string | null
+): string | undefined {
+  if (rootFile && files.some((file) => file.path === rootFile)) {
+    return rootFile;
+  }
+
+  const texFiles = files.filter(
+    (file) => file.path.endsWith('.tex') && file.encoding !== 'base64'
+  );
+  return (
+    texFiles.find((file) => file.path === 'main.tex')?.path ??
+    texFiles.find((file) => /^\s*\\documentclass/m.test(file.content))?.path
+  );
+}
@@ -0,0 +1,56 @@
+export interface ManifestEntry {
+  path: string;
+  hash: string; // sha256 of the content string, hex encoded
+  size: number; // Length of the content string
+  encoding?: string;
+}
+
+// Last hash per path, so unchanged files are not hashed again
+const hashMemo = new Map<string, { content: string; hash: string }>();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Whether file hashes can be computed here. Web Crypto is only exposed
+ * in secure contexts, so plain-http deployments fall back to full uploads.
+ */
+export function canHashFiles(): boolean {
+  return typeof globalThis.crypto?.subtle?.digest === 'function';
+}
+
+export async function hashContent(content: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(content)
+  );
+  return toHex(digest);
+}
+
+/**
+ * Lists every file with its content hash. Returns null when hashing is
+ * unavailable.
+ */
+export async function buildFileManifest(
+  files: Array<{ path: string; content: string; encoding?: string }>
+): Promise<ManifestEntry[] | null> {
+  if (!canHashFiles()) return null;
+
+  return Promise.all(
+    files.map(async ({ path, content, encoding }) => {
+      const memo = hashMemo.get(path);
+      const hash =
+        memo && memo.content === content
+          ? memo.hash
+          : await hashContent(content);
+      hashMemo.set(path, { content, hash });
+
+      const entry: ManifestEntry = { path, hash, size: content.length };
+      if (encoding) entry.encoding = encoding;
+      return entry;
+    })
+  );
+}
@@ -0,0 +1,323 @@
+import type { LatexDiagnostic } from '@/types/compilation';
+
+// TeX hard-wraps log lines at this many characters (max_print_line)
+const LOG_WRAP_LIMIT = 79;
+
+// How far past an error to look for its "l.<line>" context
+const ERROR_CONTEXT_LOOKAHEAD = 12;
+
+const TEX_ERROR = /^! (.*)$/;
+const FILE_LINE_ERROR = /^(\.{0,2}\/?[^\s:()]+\.\w+):(\d+): (.*)$/;
+const ERROR_LINE = /^l\.(\d+)/;
+const WARNING = /^(?:(?:Package|Class) (\S+)|LaTeX(?: (\S+))?) Warning: (.*)$/;
+const INPUT_LINE = /on input line (\d+)/;
+const BAD_BOX = /^(?:Over|Under)full \\[hv]box/;
+const BAD_BOX_LINES = /lines? (\d+)/;
+const BIBTEX_WARNING = /^Warning--(.*)$/;
+const BIBTEX_LOCATION = /^-+line (\d+) of file (.+)$/;
+const BIBTEX_ERROR = /^(.*)---line (\d+) of file (.+)$/;
+const BIBER_MESSAGE = /^(?:\[\d+\] [\w.:]+> )?(WARN|ERROR) - (.*)$/;
+// "(./main.tex", "(/usr/share/texlive/.../article.cls" and the like
+const FILE_PATH = /^(?:\.{0,2}\/)?[A-Za-z_][^\s]*\.[A-Za-z]\w*$/;
+const BIBER_LOCATION = /([^\s'",]+\.bib)(?:_\d+\.utf8)?'?, line (\d+)/;
+
+/**
+ * Strip the ./ prefix TeX prints for files relative to the compile directory
+ */
+export function normalizeLogPath(path: string): string {
+  return path.trim().replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Rejoin lines TeX wrapped at LOG_WRAP_LIMIT characters
+ */
+function unwrapLogLines(log: string): string[] {
+  const lines: string[] = [];
+  let pending = '';
+
+  for (const raw of log.replace(/\r\n?/g, '\n').split('\n')) {
+    pending += raw;
+    if (raw.length === LOG_WRAP_LIMIT) continue;
+    lines.push(pending);
+    pending = '';
+  }
+  if (pending) lines.push(pending);
+
+  return lines;
+}
+
+/**
+ * Tracks which file TeX is reading from the "(file" / ")" markers.
+ * Parentheses that don't open a file still push a placeholder so that
+ * the closing ")" pops the right entry.
+ */
+class FileStack {
+  private stack: Array<string | null> = [];
+
+  get current(): string | undefined {
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const entry = this.stack[i];
+      if (entry) return entry;
+    }
+    return undefined;
+  }
+
+  consume(line: string) {
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === ')') {
+        this.stack.pop();
+      } else if (char === '(') {
+        const match = /^[^\s()"]+/.exec(line.slice(i + 1));
+        const candidate = match?.[0];
+        if (candidate && FILE_PATH.test(candidate)) {
+          this.stack.push(normalizeLogPath(candidate));
+          i += candidate.length;
+        } else {
+          this.stack.push(null);
+        }
+      }
+    }
+  }
+}
+
+function readErrorContext(
+  lines: string[],
+  start: number
+): { line?: number; help?: string; end: number } {
+  const limit = Math.min(lines.length, start + ERROR_CONTEXT_LOOKAHEAD);
+
+  for (let i = start; i < limit; i++) {
+    if (TEX_ERROR.test(lines[i]) || FILE_LINE_ERROR.test(lines[i])) break;
+
+    const match = ERROR_LINE.exec(lines[i]);
+    if (!match) continue;
+
+    // The line after "l.N ..." holds the rest of the source line, then
+    // TeX's help text runs until the next blank line
+    const help: string[] = [];
+    let j = i + 2;
+    while (j < lines.length && lines[j].trim() !== '') {
+      help.push(lines[j].trim());
+      j++;
+    }
+
+    return {
+      line: Number(match[1]),
+      help: help.length > 0 ? help.join(' ') : undefined,
+      end: j,
+    };
+  }
+
+  return { end: start };
+}
+
+function readWarningContinuation(
+  lines: string[],
+  start: number,
+  name: string | undefined
+): { text: string; end: number } {
+  if (!name) return { text: '', end: start };
+
+  const prefix = `(${name})`;
+  const parts: string[] = [];
+  let i = start;
+  while (i < lines.length && lines[i].startsWith(prefix)) {
+    parts.push(lines[i].slice(prefix.length).trim());
+    i++;
+  }
+
+  return { text: parts.join(' '), end: i };
+}
+
+/**
+ * Parse a pdfLaTeX/XeLaTeX log, optionally followed by BibTeX (.blg) or
+ * Biber output, into typed diagnostics in log order.
+ */
+export function parseLatexLog(log?: string): LatexDiagnostic[] {
+  if (!log) return [];
+
+  const lines = unwrapLogLines(log);
+  const files = new FileStack();
+  const diagnostics: LatexDiagnostic[] = [];
+  const seen = new Set<string>();
+
+  const add = (diagnostic: LatexDiagnostic) => {
+    const key = [
+      diagnostic.severity,
+      diagnostic.file,
+      diagnostic.line,
+      diagnostic.message,
+    ].join('|');
+    if (seen.has(key)) return;
+    seen.add(key);
+    diagnostics.push(diagnostic);
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fileLineError = FILE_LINE_ERROR.exec(line);
+    if (fileLineError) {
+      const context = readErrorContext(lines, i + 1);
+      add({
+        severity: 'error',
+        source: 'latex',
+        message: fileLineError[3].trim(),
+        file: normalizeLogPath(fileLineError[1]),
+        line: Number(fileLineError[2]),
+        help: context.help,
+      });
+      i = Math.max(context.end, i + 1);
+      continue;
+    }
+
+    const texError = TEX_ERROR.exec(line);
+    if (texError) {
+      const context = readErrorContext(lines, i + 1);
+      add({
+        severity: 'error',
+        source: 'latex',
+        message: texError[1].trim(),
+        file: files.current,
+        line: context.line,
+        help: context.help,
+      });
+      i = Math.max(context.end, i + 1);
+      continue;
+    }
+
+    const warning = WARNING.exec(line);
+    if (warning) {
+      const name = warning[1] ?? warning[2];
+      const continuation = readWarningContinuation(lines, i + 1, name);
+      const message = [warning[3].trim(), continuation.text]
+        .filter(Boolean)
+        .join(' ');
+      const inputLine = INPUT_LINE.exec(message);
+      add({
+        severity: 'warning',
+        source: 'latex',
+        message: name && warning[1] ? `${name}: ${message}` : message,
+        file: files.current,
+        line: inputLine ? Number(inputLine[1]) : undefined,
+      });
+      i = continuation.end;
+      continue;
+    }
+
+    if (BAD_BOX.test(line)) {
+      const lineMatch = BAD_BOX_LINES.exec(line);
+      add({
+        severity: 'badbox',
+        source: 'latex',
+        message: line.trim(),
+        file: files.current,
+        line: lineMatch ? Number(lineMatch[1]) : undefined,
+      });
+      i++;
+      continue;
+    }
+
+    const bibtexError = BIBTEX_ERROR.exec(line);
+    if (bibtexError) {
+      add({
+        severity: 'error',
+        source: 'bibtex',
+        message: bibtexError[1].trim(),
+        file: normalizeLogPath(bibtexError[3]),
+        line: Number(bibtexError[2]),
+      });
+      i++;
+      continue;
+    }
+
+    const bibtexWarning = BIBTEX_WARNING.exec(line);
+    if (bibtexWarning) {
+      const location = BIBTEX_LOCATION.exec(lines[i + 1] ?? '');
+      add({
+        severity: 'warning',
+        source: 'bibtex',
+        message: bibtexWarning[1].trim(),
+        file: location ? normalizeLogPath(location[2]) : undefined,
+        line: location ? Number(location[1]) : undefined,
+      });
+      i += location ? 2 : 1;
+      continue;
+    }
+
+    const biberMessage = BIBER_MESSAGE.exec(line);
+    if (biberMessage) {
+      const message = biberMessage[2].trim();
+      const location = BIBER_LOCATION.exec(message);
+      add({
+        severity: biberMessage[1] === 'ERROR' ? 'error' : 'warning',
+        source: 'biber',
+        message,
+        file: location ? normalizeLogPath(location[1]) : undefined,
+        line: location ? Number(location[2]) : undefined,
+      });
+      i++;
+      continue;
+    }
+
+    files.consume(line);
+    i++;
+  }
+
+  return diagnostics;
+}
+
+/**
+ * One-line "file:line: severity: message" form for copying or prompts
+ */
+export function formatDiagnostic(diagnostic: LatexDiagnostic): string {
+  const location = [diagnostic.file, diagnostic.line]
+    .filter((part) => part !== undefined)
+    .join(':');
+  const text = `${diagnostic.severity}: ${diagnostic.message}`;
+  return location ? `${location}: ${text}` : text;
+}
+
+/**
+ * Count diagnostics by severity, e.g. for badges
+ */
+export function countDiagnostics(diagnostics: LatexDiagnostic[]) {
+  return diagnostics.reduce(
+    (counts, diagnostic) => {
+      counts[diagnostic.severity]++;
+      return counts;
+    },
+    { error: 0, warning: 0, badbox: 0 }
+  );
+}
+
+/**
+ * Find the project file a diagnostic points at. Logs print paths relative
+ * to the compile directory (or absolute for TeX Live files), so compare by
+ * suffix and ignore anything outside the project.
+ */
+export function matchDiagnosticFile<T extends string>(
+  diagnosticFile: string | undefined,
+  projectPaths: T[]
+): T | undefined {
+  if (!diagnosticFile) return undefined;
+  // SyncTeX records absolute paths like /tmp/job/./chapters/intro.tex
+  const target = normalizeLogPath(diagnosticFile).replace(/\/(\.\/)+/g, '/');
+
+  const exact = projectPaths.find((path) => normalizeLogPath(path) === target);
+  if (exact) return exact;
+
+  // TeX may omit the .tex extension for \input{chapter}
+  const withExtension = /\.\w+$/.test(target) ? target : `${target}.tex`;
+  // The longest suffix wins, so chapters/main.tex beats main.tex
+  return projectPaths
+    .filter((path) => {
+      const normalized = normalizeLogPath(path);
+      return (
+        normalized === withExtension || withExtension.endsWith(`/${normalized}`)
+      );
+    })
+    .sort((a, b) => b.length - a.length)[0];
+}
@@ -0,0 +1,334 @@
+/**
+ * Pixel comparison of rendered PDF pages, for the visual diff between two
+ * builds. Works on RGBA rasters so it runs the same in the browser and in
+ * tests.
+ */
+
+export interface RasterPage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, row by row
+}
+
+// A changed area, in fractions of the page size
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PageDiff {
+  changedRatio: number; // Share of pixels that differ
+  regions: DiffRegion[]; // Top to bottom
+}
+
+// Two pages shown next to each other; null when a page has no counterpart
+export interface PagePair {
+  base: number | null; // 0-based page index
+  compare: number | null;
+}
+
+export interface PageDiffOptions {
+  threshold?: number; // Luminance difference (0-255) that counts as a change
+  cellSize?: number; // Changes are grouped on a grid of this many pixels
+}
+
+const DEFAULT_THRESHOLD = 48;
+const DEFAULT_CELL_SIZE = 8;
+// Anti-aliasing alone flips a pixel or two per cell
+const MIN_CHANGED_PIXELS_PER_CELL = 3;
+
+const SIGNATURE_COLUMNS = 16;
+const SIGNATURE_ROWS = 24;
+// Matching pages that differ by more than this costs more than a gap
+const GAP_COST = 0.5;
+
+function luminance(data: Uint8ClampedArray, offset: number): number {
+  // Transparent pixels are the white page
+  const alpha = data[offset + 3] / 255;
+  const gray =
+    0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  return gray * alpha + 255 * (1 - alpha);
+}
+
+function luminanceAt(page: RasterPage, x: number, y: number): number {
+  if (x >= page.width || y >= page.height) return 255;
+  return luminance(page.data, (y * page.width + x) * 4);
+}
+
+/**
+ * Ink density on a coarse grid, used to tell which pages correspond
+ */
+export function pageSignature(page: RasterPage): Float32Array {
+  const signature = new Float32Array(SIGNATURE_COLUMNS * SIGNATURE_ROWS);
+  const counts = new Uint32Array(signature.length);
+
+  for (let y = 0; y < page.height; y++) {
+    const row = Math.min(
+      SIGNATURE_ROWS - 1,
+      Math.floor((y / page.height) * SIGNATURE_ROWS)
+    );
+    for (let x = 0; x < page.width; x++) {
+      const column = Math.min(
+        SIGNATURE_COLUMNS - 1,
+        Math.floor((x / page.width) * SIGNATURE_COLUMNS)
+      );
+      const cell = row * SIGNATURE_COLUMNS + column;
+      signature[cell] += 1 - luminanceAt(page, x, y) / 255;
+      counts[cell]++;
+    }
+  }
+
+  for (let cell = 0; cell < signature.length; cell++) {
+    if (counts[cell] > 0) signature[cell] /= counts[cell];
+  }
+  return signature;
+}
+
+/**
+ * How different two signatures are: 0 for the same page, about 1 or more
+ * for unrelated pages
+ */
+export function signatureDistance(a: Float32Array, b: Float32Array): number {
+  let difference = 0;
+  let ink = 0;
+  for (let cell = 0; cell < a.length; cell++) {
+    difference += Math.abs(a[cell] - b[cell]);
+    ink += a[cell] + b[cell];
+  }
+  if (ink === 0) return 0; // Two blank pages
+  return (2 * difference) / ink;
+}
+
+/**
+ * Pairs up the pages of two documents so that inserted or removed pages
+ * do not shift every later comparison. Pages are matched in order, by
+ * minimum total distance (an edit distance where a gap is one page
+ * without a counterpart).
+ */
+export function alignPages(
+  base: Float32Array[],
+  compare: Float32Array[]
+): PagePair[] {
+  const rows = base.length + 1;
+  const columns = compare.length + 1;
+  const cost = new Float64Array(rows * columns);
+  const at = (i: number, j: number) => i * columns + j;
+
+  for (let i = 0; i < rows; i++) cost[at(i, 0)] = i * GAP_COST;
+  for (let j = 0; j < columns; j++) cost[at(0, j)] = j * GAP_COST;
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < columns; j++) {
+      const match =
+        cost[at(i - 1, j - 1)] +
+        Math.min(signatureDistance(base[i - 1], compare[j - 1]), 1);
+      cost[at(i, j)] = Math.min(
+        match,
+        cost[at(i - 1, j)] + GAP_COST,
+        cost[at(i, j - 1)] + GAP_COST
+      );
+    }
+  }
+
+  const pairs: PagePair[] = [];
+  let i = base.length;
+  let j = compare.length;
+  while (i > 0 || j > 0) {
+    if (
+      i > 0 &&
+      j > 0 &&
+      cost[at(i, j)] ===
+        cost[at(i - 1, j - 1)] +
+          Math.min(signatureDistance(base[i - 1], compare[j - 1]), 1)
+    ) {
+      pairs.push({ base: i - 1, compare: j - 1 });
+      i--;
+      j--;
+    } else if (i > 0 && cost[at(i, j)] === cost[at(i - 1, j)] + GAP_COST) {
+      pairs.push({ base: i - 1, compare: null });
+      i--;
+    } else {
+      pairs.push({ base: null, compare: j - 1 });
+      j--;
+    }
+  }
+  return pairs.reverse();
+}
+
+/**
+ * Pairs pages by number, for documents whose pages line up already
+ */
+export function pairPagesByNumber(
+  baseCount: number,
+  compareCount: number
+): PagePair[] {
+  return Array.from(
+    { length: Math.max(baseCount, compareCount) },
+    (_, index) => ({
+      base: index < baseCount ? index : null,
+      compare: index < compareCount ? index : null,
+    })
+  );
+}
+
+/**
+ * Compares two pages rendered at the same width. Changed pixels are
+ * grouped on a grid, and neighbouring changed cells merged into regions.
+ */
+export function diffPages(
+  base: RasterPage,
+  compare: RasterPage,
+  options: PageDiffOptions = {}
+): PageDiff {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const cellSize = options.cellSize ?? DEFAULT_CELL_SIZE;
+  const width = Math.max(base.width, compare.width);
+  const height = Math.max(base.height, compare.height);
+  const gridColumns = Math.ceil(width / cellSize);
+  const gridRows = Math.ceil(height / cellSize);
+  const cellCounts = new Uint16Array(gridColumns * gridRows);
+
+  let changedPixels = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const difference = Math.abs(
+        luminanceAt(base, x, y) - luminanceAt(compare, x, y)
+      );
+      if (difference > threshold) {
+        changedPixels++;
+        cellCounts[
+          Math.floor(y / cellSize) * gridColumns + Math.floor(x / cellSize)
+        ]++;
+      }
+    }
+  }
+
+  const changed = cellCounts.map((count) =>
+    count >= MIN_CHANGED_PIXELS_PER_CELL ? 1 : 0
+  );
+  const regions = groupCells(changed, gridColumns, gridRows).map((box) => ({
+    x: (box.column * cellSize) / width,
+    y: (box.row * cellSize) / height,
+    width: Math.min(
+      (box.columns * cellSize) / width,
+      1 - (box.column * cellSize) / width
+    ),
+    height: Math.min(
+      (box.rows * cellSize) / height,
+      1 - (box.row * cellSize) / height
+    ),
+  }));
+
+  return {
+    changedRatio: width * height > 0 ? changedPixels / (width * height) : 0,
+    regions,
+  };
+}
+
+interface CellBox {
+  column: number;
+  row: number;
+  columns: number;
+  rows: number;
+}
+
+// Bounding boxes of changed cells, treating cells up to one cell apart as
+// touching so that a changed word becomes one region, not one per letter
+function groupCells(
+  changed: ArrayLike<number>,
+  gridColumns: number,
+  gridRows: number
+): CellBox[] {
+  const seen = new Uint8Array(changed.length);
+  const boxes: CellBox[] = [];
+
+  for (let start = 0; start < changed.length; start++) {
+    if (!changed[start] || seen[start]) continue;
+
+    let minColumn = gridColumns;
+    let minRow = gridRows;
+    let maxColumn = 0;
+    let maxRow = 0;
+    const stack = [start];
+    seen[start] = 1;
+
+    while (stack.length > 0) {
+      const cell = stack.pop() as number;
+      const column = cell % gridColumns;
+      const row = Math.floor(cell / gridColumns);
+      minColumn = Math.min(minColumn, column);
+      minRow = Math.min(minRow, row);
+      maxColumn = Math.max(maxColumn, column);
+      maxRow = Math.max(maxRow, row);
+
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const nextColumn = column + dx;
+          const nextRow = row + dy;
+          if (
+            nextColumn < 0 ||
+            nextRow < 0 ||
+            nextColumn >= gridColumns ||
+            nextRow >= gridRows
+          ) {
+            continue;
+          }
+          const next = nextRow * gridColumns + nextColumn;
+          if (changed[next] && !seen[next]) {
+            seen[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    boxes.push({
+      column: minColumn,
+      row: minRow,
+      columns: maxColumn - minColumn + 1,
+      rows: maxRow - minRow + 1,
+    });
+  }
+
+  return boxes.sort((a, b) => a.row - b.row || a.column - b.column);
+}
+
+/**
+ * Overlay of two pages: unchanged content faded, content only in the base
+ * in red and content only in the compared page in green
+ */
+export function renderDiffImage(
+  base: RasterPage,
+  compare: RasterPage,
+  options: Pick<PageDiffOptions, 'threshold'> = {}
+): RasterPage {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const width = Math.max(base.width, compare.width);
+  const height = Math.max(base.height, compare.height);
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const before = luminanceAt(base, x, y);
+      const after = luminanceAt(compare, x, y);
+      const offset = (y * width + x) * 4;
+
+      if (Math.abs(before - after) > threshold) {
+        // Darker before means ink was removed
+        const removed = before < after;
+        data[offset] = removed ? 220 : 22;
+        data[offset + 1] = removed ? 38 : 163;
+        data[offset + 2] = removed ? 38 : 74;
+      } else {
+        const faded = 255 - (255 - Math.min(before, after)) * 0.35;
+        data[offset] = faded;
+        data[offset + 1] = faded;
+        data[offset + 2] = faded;
+      }
+      data[offset + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
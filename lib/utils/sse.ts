@@ -0,0 +1,52 @@
+/**
+ * Reads a Server-Sent Events body and calls onEvent for every complete
+ * event. JSON data is parsed; anything else is passed through as text.
+ */
+export async function readSSEStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (rawEvent: string) => {
+    let eventName = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of rawEvent.split('\n')) {
+      if (line.startsWith('event:')) {
+        eventName = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+    if (dataLines.length === 0) return;
+
+    const dataText = dataLines.join('\n');
+    let payload: unknown = dataText;
+    try {
+      payload = JSON.parse(dataText);
+    } catch {}
+    onEvent(eventName, payload);
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let sepIndex;
+      while ((sepIndex = buffer.indexOf('\n\n')) !== -1) {
+        dispatch(buffer.slice(0, sepIndex));
+        buffer = buffer.slice(sepIndex + 2);
+      }
+    }
+    if (buffer.trim()) {
+      dispatch(buffer);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,299 @@
+import type {
+  SynctexBox,
+  SynctexHighlight,
+  SynctexSource,
+} from '@/types/compilation';
+import { matchDiagnosticFile } from '@/lib/utils/latex-log';
+
+// Scaled points per PDF point (65536 sp per TeX pt, 72.27 pt per inch)
+const SP_PER_BP = 65781.76;
+
+// How far from the requested line a forward search may land
+const MAX_LINE_DISTANCE = 20;
+
+// Height of the box drawn for records that carry only a position
+const POINT_HEIGHT_BP = 10;
+
+// "(1,12:x,y:W,H,D", "g1,12:x,y", "k1,12:x,y:W"; some TeX versions add a
+// column after the line
+const RECORD =
+  /^([[(vhxkg$])(\d+),(-?\d+)(?:,-?\d+)?:(-?\d+),(-?\d+)(?::(-?\d+)(?:,(-?\d+),(-?\d+))?)?/;
+const INPUT = /^Input:(\d+):(.*)$/;
+const PREAMBLE_NUMBER = /^(Unit|Magnification|X Offset|Y Offset):(-?[\d.]+)$/;
+
+type SynctexRecordKind = 'vbox' | 'hbox' | 'point';
+
+export interface SynctexRecord {
+  kind: SynctexRecordKind;
+  tag: number; // Input the record came from
+  line: number;
+  page: number;
+  // Reference point in PDF points: left edge and baseline
+  x: number;
+  y: number;
+  width: number;
+  height: number; // Above the baseline
+  depth: number; // Below the baseline
+  parent: number; // Index of the enclosing box, -1 at page level
+}
+
+export interface SynctexData {
+  inputs: Map<number, string>;
+  records: SynctexRecord[];
+}
+
+const KINDS: Record<string, SynctexRecordKind> = {
+  '[': 'vbox',
+  v: 'vbox',
+  '(': 'hbox',
+  h: 'hbox',
+};
+
+/**
+ * Parses the text of a .synctex file. Forms and records this viewer does
+ * not use are skipped.
+ */
+export function parseSynctex(text: string): SynctexData {
+  const inputs = new Map<number, string>();
+  const records: SynctexRecord[] = [];
+  const settings = {
+    Unit: 1,
+    Magnification: 1000,
+    'X Offset': 0,
+    'Y Offset': 0,
+  };
+
+  let inContent = false;
+  let page = 0;
+  const openBoxes: number[] = [];
+
+  const toBp = (value: number) =>
+    (value * settings.Unit * settings.Magnification) / 1000 / SP_PER_BP;
+
+  for (const line of text.split(/\r?\n/)) {
+    const input = line.match(INPUT);
+    if (input) {
+      inputs.set(Number(input[1]), input[2].replace(/\/(\.\/)+/g, '/'));
+      continue;
+    }
+
+    if (!inContent) {
+      const setting = line.match(PREAMBLE_NUMBER);
+      if (setting) {
+        settings[setting[1] as keyof typeof settings] = Number(setting[2]);
+      } else if (line === 'Content:') {
+        inContent = true;
+      }
+      continue;
+    }
+
+    if (line.startsWith('Postamble:')) break;
+
+    switch (line[0]) {
+      case '{':
+        page = Number(line.slice(1));
+        openBoxes.length = 0;
+        continue;
+      case '}':
+        openBoxes.length = 0;
+        continue;
+      case ')':
+      case ']':
+        openBoxes.pop();
+        continue;
+    }
+
+    const match = line.match(RECORD);
+    if (!match || page === 0) continue;
+
+    const [, type, tag, lineNumber, x, y, width, height, depth] = match;
+    const record: SynctexRecord = {
+      kind: KINDS[type] ?? 'point',
+      tag: Number(tag),
+      line: Number(lineNumber),
+      page,
+      x: toBp(Number(x)) + settings['X Offset'] / SP_PER_BP,
+      y: toBp(Number(y)) + settings['Y Offset'] / SP_PER_BP,
+      width: toBp(Number(width ?? 0)),
+      height: toBp(Number(height ?? 0)),
+      depth: toBp(Number(depth ?? 0)),
+      parent: openBoxes.length > 0 ? openBoxes[openBoxes.length - 1] : -1,
+    };
+    records.push(record);
+
+    // "[" and "(" open a box that ")" or "]" closes; "v" and "h" are void
+    if (type === '[' || type === '(') {
+      openBoxes.push(records.length - 1);
+    }
+  }
+
+  return { inputs, records };
+}
+
+function toBox(record: SynctexRecord): SynctexBox {
+  if (record.kind === 'point') {
+    return {
+      page: record.page,
+      x: record.x,
+      y: record.y - POINT_HEIGHT_BP,
+      width: Math.max(record.width, 1),
+      height: POINT_HEIGHT_BP,
+    };
+  }
+  return {
+    page: record.page,
+    x: record.x,
+    y: record.y - record.height,
+    width: record.width,
+    height: record.height + record.depth,
+  };
+}
+
+/**
+ * Editor to PDF: the boxes typeset from a source line, on the first page
+ * it appears on. Lines that produced no output (comments, blank lines)
+ * fall back to the nearest line that did. Pass all project paths so that
+ * main.tex is not confused with chapters/main.tex.
+ */
+export function forwardSearch(
+  data: SynctexData,
+  file: string,
+  line: number,
+  projectPaths: string[] = [file]
+): SynctexHighlight | null {
+  const tags = new Set<number>();
+  data.inputs.forEach((path, tag) => {
+    if (matchDiagnosticFile(path, projectPaths) === file) tags.add(tag);
+  });
+  if (tags.size === 0) return null;
+
+  const fromFile: number[] = [];
+  data.records.forEach((record, index) => {
+    if (tags.has(record.tag)) fromFile.push(index);
+  });
+
+  for (let distance = 0; distance <= MAX_LINE_DISTANCE; distance++) {
+    // Prefer the following line: it is usually the rest of the paragraph
+    for (const candidate of [line + distance, line - distance]) {
+      const matches = fromFile.filter(
+        (index) => data.records[index].line === candidate
+      );
+      if (matches.length === 0) continue;
+
+      const highlight = highlightRecords(data.records, matches);
+      if (highlight) return highlight;
+    }
+  }
+
+  return null;
+}
+
+function highlightRecords(
+  records: SynctexRecord[],
+  matches: number[]
+): SynctexHighlight | null {
+  const page = Math.min(...matches.map((index) => records[index].page));
+  // Whole pages and paragraphs are vboxes too; they make a useless
+  // highlight when anything more precise matched
+  const onlyVboxes = matches.every((index) => records[index].kind === 'vbox');
+
+  const boxes = new Map<number, SynctexBox>();
+  for (const index of matches) {
+    const record = records[index];
+    if (record.page !== page) continue;
+    if (record.kind === 'vbox' && !onlyVboxes) continue;
+
+    // Glue and kerns sit inside a typeset line; highlight that line
+    const target =
+      record.kind === 'point' &&
+      record.parent >= 0 &&
+      records[record.parent].kind === 'hbox'
+        ? record.parent
+        : index;
+    boxes.set(target, toBox(records[target]));
+  }
+
+  return boxes.size > 0 ? { page, boxes: [...boxes.values()] } : null;
+}
+
+function contains(record: SynctexRecord, x: number, y: number): boolean {
+  return (
+    x >= record.x &&
+    x <= record.x + record.width &&
+    y >= record.y - record.height &&
+    y <= record.y + record.depth
+  );
+}
+
+function distanceTo(record: SynctexRecord, x: number, y: number): number {
+  const box = toBox(record);
+  const dx = Math.max(box.x - x, 0, x - (box.x + box.width));
+  const dy = Math.max(box.y - y, 0, y - (box.y + box.height));
+  return Math.hypot(dx, dy);
+}
+
+function area(record: SynctexRecord): number {
+  return record.width * (record.height + record.depth);
+}
+
+function closestRecord(
+  records: SynctexRecord[],
+  candidates: number[],
+  distance: (record: SynctexRecord) => number
+): SynctexRecord {
+  return records[
+    candidates.reduce((best, index) =>
+      distance(records[index]) < distance(records[best]) ? index : best
+    )
+  ];
+}
+
+/**
+ * PDF to editor: the source line of the text at a point on a page, given
+ * in PDF points from the page's top left corner
+ */
+export function inverseSearch(
+  data: SynctexData,
+  page: number,
+  x: number,
+  y: number
+): SynctexSource | null {
+  const onPage: number[] = [];
+  data.records.forEach((record, index) => {
+    if (record.page === page) onPage.push(index);
+  });
+  if (onPage.length === 0) return null;
+
+  // The innermost typeset line under the pointer
+  let box = -1;
+  for (const index of onPage) {
+    const record = data.records[index];
+    if (record.kind !== 'hbox' || !contains(record, x, y)) continue;
+    if (box < 0 || area(record) < area(data.records[box])) {
+      box = index;
+    }
+  }
+
+  let best: SynctexRecord;
+  if (box >= 0) {
+    // Glue and kerns inside the line know the exact source line
+    const children = onPage.filter(
+      (index) =>
+        data.records[index].parent === box &&
+        data.records[index].kind === 'point'
+    );
+    best =
+      children.length > 0
+        ? closestRecord(data.records, children, (record) =>
+            Math.abs(record.x - x)
+          )
+        : data.records[box];
+  } else {
+    best = closestRecord(data.records, onPage, (record) =>
+      distanceTo(record, x, y)
+    );
+  }
+
+  const file = data.inputs.get(best.tag);
+  return file ? { file, line: best.line } : null;
+}
@@ -0,0 +1,116 @@
+-- Persistent chat history for the report assistant
+-- One project has many chat sessions; each session stores its messages
+-- together with the edits the assistant proposed and the user accepted
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Chat sessions table
+create table if not exists chat_sessions (
+  id uuid primary key default uuid_generate_v4(),
+  project_id uuid not null references projects(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title text not null default 'New conversation',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Chat messages table
+create table if not exists chat_messages (
+  id uuid primary key default uuid_generate_v4(),
+  session_id uuid not null references chat_sessions(id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null default '',
+  proposed_edits jsonb not null default '[]'::jsonb,
+  accepted_edits jsonb not null default '[]'::jsonb,
+  created_at timestamptz default now()
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+create index if not exists chat_sessions_project_id_idx on chat_sessions(project_id, updated_at desc);
+create index if not exists chat_sessions_user_id_idx on chat_sessions(user_id);
+create index if not exists chat_messages_session_id_idx on chat_messages(session_id, created_at);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================
+
+alter table chat_sessions enable row level security;
+alter table chat_messages enable row level security;
+
+-- Chat sessions policies
+create policy "Users can view their own chat sessions"
+  on chat_sessions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create chat sessions in their projects"
+  on chat_sessions for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from projects
+      where projects.id = chat_sessions.project_id
+      and projects.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can update their own chat sessions"
+  on chat_sessions for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own chat sessions"
+  on chat_sessions for delete
+  using (auth.uid() = user_id);
+
+-- Chat messages policies
+create policy "Users can view messages in their chat sessions"
+  on chat_messages for select
+  using (
+    exists (
+      select 1 from chat_sessions
+      where chat_sessions.id = chat_messages.session_id
+      and chat_sessions.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can create messages in their chat sessions"
+  on chat_messages for insert
+  with check (
+    exists (
+      select 1 from chat_sessions
+      where chat_sessions.id = chat_messages.session_id
+      and chat_sessions.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can update messages in their chat sessions"
+  on chat_messages for update
+  using (
+    exists (
+      select 1 from chat_sessions
+      where chat_sessions.id = chat_messages.session_id
+      and chat_sessions.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete messages in their chat sessions"
+  on chat_messages for delete
+  using (
+    exists (
+      select 1 from chat_sessions
+      where chat_sessions.id = chat_messages.session_id
+      and chat_sessions.user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+create trigger update_chat_sessions_updated_at
+  before update on chat_sessions
+  for each row execute function update_updated_at_column();
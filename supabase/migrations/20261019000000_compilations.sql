@@ -0,0 +1,119 @@
+-- Compile history for the project preview
+-- Every compile request is recorded with its settings, outcome and timings;
+-- the PDF it produced is kept in the compilations bucket, one object per
+-- distinct PDF in a project
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Compilations table
+create table if not exists compilations (
+  id uuid primary key default uuid_generate_v4(),
+  project_id uuid not null references projects(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  status text not null check (status in ('success', 'error')),
+  engine text not null,
+  root_file text,
+  cached boolean not null default false,
+  duration_ms integer,
+  queue_ms integer,
+  error_count integer not null default 0,
+  warning_count integer not null default 0,
+  diagnostics_count integer not null default 0,
+  error_message text,
+  request_id text,
+  pdf_sha256 text,
+  pdf_path text,
+  pdf_size integer,
+  created_at timestamptz default now()
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+create index if not exists compilations_project_id_idx on compilations(project_id, created_at desc);
+create index if not exists compilations_user_id_idx on compilations(user_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================
+
+alter table compilations enable row level security;
+
+-- Compilations policies
+create policy "Users can view compilations of their projects"
+  on compilations for select
+  using (
+    exists (
+      select 1 from projects
+      where projects.id = compilations.project_id
+      and projects.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can record compilations in their projects"
+  on compilations for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from projects
+      where projects.id = compilations.project_id
+      and projects.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete compilations of their projects"
+  on compilations for delete
+  using (
+    exists (
+      select 1 from projects
+      where projects.id = compilations.project_id
+      and projects.user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- STORAGE BUCKETS
+-- ============================================
+
+-- Private bucket for compiled PDFs, served through the compilations API
+-- Path format: {project_id}/{pdf_sha256}.pdf
+insert into storage.buckets (id, name, public)
+values ('compilations', 'compilations', false)
+on conflict (id) do nothing;
+
+-- Storage policies for compilations bucket
+create policy "Users can view PDFs of their projects"
+  on storage.objects for select
+  using (
+    bucket_id = 'compilations'
+    and exists (
+      select 1 from projects
+      where projects.id::text = (storage.foldername(name))[1]
+      and projects.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can store PDFs of their projects"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'compilations'
+    and exists (
+      select 1 from projects
+      where projects.id::text = (storage.foldername(name))[1]
+      and projects.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete PDFs of their projects"
+  on storage.objects for delete
+  using (
+    bucket_id = 'compilations'
+    and exists (
+      select 1 from projects
+      where projects.id::text = (storage.foldername(name))[1]
+      and projects.user_id = auth.uid()
+    )
+  );
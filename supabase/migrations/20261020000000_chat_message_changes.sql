@@ -0,0 +1,7 @@
+-- Reverting AI changes across reloads
+-- An assistant message keeps the text of each file before and after the
+-- edits accepted from it, so the change can still be reverted when the
+-- conversation is resumed
+
+alter table chat_messages
+  add column if not exists file_changes jsonb not null default '[]'::jsonb;
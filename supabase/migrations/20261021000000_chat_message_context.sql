@@ -0,0 +1,6 @@
+-- What the agent saw with a user message
+-- Attachment content and the editor selection are sent along with the
+-- typed text; keeping them lets a resumed conversation show them too
+
+alter table chat_messages
+  add column if not exists context jsonb;
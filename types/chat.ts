@@ -0,0 +1,41 @@
+import { Tables } from '@/database.types';
+import { LineEdit } from '@/lib/lars-agent/line-edits';
+import type { FileChange } from '@/types/edit';
+
+export type ChatSession = Tables<'chat_sessions'>;
+
+export type ChatRole = 'user' | 'assistant';
+
+// What was sent to the agent with a user message besides its text
+export interface ChatMessageContext {
+  attachments?: string; // Attachment text, with image content extracted
+  selection?: {
+    text: string;
+    filePath?: string;
+    startLine: number;
+    endLine: number;
+  };
+}
+
+// Chat message as stored in chat_messages, with typed edit columns
+export interface StoredChatMessage {
+  id: string;
+  session_id: string;
+  role: ChatRole;
+  content: string;
+  proposed_edits: LineEdit[];
+  accepted_edits: LineEdit[];
+  file_changes: FileChange[]; // What reverting the accepted edits restores
+  context: ChatMessageContext | null;
+  created_at: string | null;
+}
+
+export interface ChatMessageInput {
+  id?: string;
+  role: ChatRole;
+  content: string;
+  proposedEdits?: LineEdit[];
+  acceptedEdits?: LineEdit[];
+  fileChanges?: FileChange[];
+  context?: ChatMessageContext;
+}
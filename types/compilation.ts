@@ -1,3 +1,18 @@
+import type { LineEdit } from '@/lib/lars-agent/line-edits';
+
+export type LatexDiagnosticSeverity = 'error' | 'warning' | 'badbox';
+
+export type LatexDiagnosticSource = 'latex' | 'bibtex' | 'biber';
+
+export interface LatexDiagnostic {
+  severity: LatexDiagnosticSeverity;
+  source: LatexDiagnosticSource;
+  message: string;
+  file?: string; // Path as written in the log, without a leading ./
+  line?: number;
+  help?: string; // TeX's help text for the error, if any
+}
+
 export interface CompilationError {
   message: string;
   details?: string;
@@ -9,6 +24,105 @@ export interface CompilationError {
   queueMs?: number | null;
   durationMs?: number | null;
   summary?: string;
+  diagnostics?: LatexDiagnostic[];
   pdf?: string; // Base64-encoded partial PDF if available despite error
 }
 
+export type LatexEngine = 'pdflatex' | 'xelatex' | 'lualatex';
+
+export type BibliographyTool = 'auto' | 'bibtex' | 'biber' | 'none';
+
+export interface CompileSettings {
+  rootFile: string | null; // null detects the root document
+  engine: LatexEngine;
+  bibliographyTool: BibliographyTool;
+  shellEscape: boolean;
+  draftMode: boolean;
+}
+
+export type CompilationStatus = 'success' | 'error';
+
+// One compile of a project, newest first in the compile history
+export interface CompilationRecord {
+  id: string;
+  status: CompilationStatus;
+  engine: LatexEngine;
+  rootFile: string | null;
+  userId: string; // Who compiled
+  cached: boolean; // Served from the compile cache
+  durationMs: number | null;
+  queueMs: number | null;
+  errorCount: number;
+  warningCount: number;
+  diagnosticsCount: number;
+  errorMessage: string | null;
+  pdfSha256: string | null;
+  pdfSize: number | null;
+  pdfUrl: string | null; // Stored PDF, partial for a failed compile
+  createdAt: string;
+}
+
+export type CompilePassTool = 'latex' | 'bibtex' | 'biber' | 'makeindex';
+
+export type CompileStage = 'queued' | 'running';
+
+// Live state of a streamed compile, shown while the PDF is built
+export interface CompileProgress {
+  stage: CompileStage;
+  queuePosition?: number | null; // 1 is next in line
+  pass?: number; // 1-based, counting every tool run
+  tool?: CompilePassTool;
+  logLines: string[]; // Most recent log output
+}
+
+// A rectangle on a PDF page in PDF points, from the page's top left corner
+export interface SynctexBox {
+  page: number; // 1-based
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where a source line was typeset, for highlighting it in the PDF
+export interface SynctexHighlight {
+  page: number;
+  boxes: SynctexBox[];
+}
+
+// Where a point in the PDF came from
+export interface SynctexSource {
+  file: string; // Input path as recorded by TeX
+  line: number;
+}
+
+export type CompileRepairStage = 'proposing' | 'compiling' | 'done';
+
+export type CompileRepairOutcome =
+  | 'resolved' // Compiles without errors
+  | 'improved' // Fewer errors than before
+  | 'unchanged'
+  | 'worse'
+  | 'no_edits' // The agent proposed nothing
+  | 'failed'; // The candidate could not be compiled
+
+// One try of the compile repair loop, streamed as it progresses
+export interface CompileRepairAttempt {
+  attempt: number; // 1-based
+  stage: CompileRepairStage;
+  editCount?: number;
+  errors?: number; // Errors left after compiling the proposal
+  outcome?: CompileRepairOutcome;
+  diagnostics?: LatexDiagnostic[]; // The first errors left
+  summary?: string; // What the agent said about its proposal
+}
+
+// Final event of a repair: the edits of the best attempt, if it had fewer
+// errors than the original compile
+export interface CompileRepairResult {
+  resolved: boolean;
+  baselineErrors: number;
+  errors: number;
+  attempt: number | null;
+  edits: LineEdit[];
+}
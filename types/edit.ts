@@ -5,4 +5,22 @@ export interface EditSuggestion extends LineEdit {
   id: string;
   status: 'pending' | 'accepted' | 'rejected';
   original?: string; // Original content for delete operations
+  stale?: boolean; // Its text is no longer in the file, so it cannot be placed
+}
+
+// A file's text before and after accepted AI edits
+export interface FileChange {
+  filePath: string;
+  before: string; // '' for a created file
+  after: string; // '' for a deleted file
+  editedInBetween?: boolean; // The user typed between two accepts
+  operation?: 'create' | 'rename' | 'delete'; // Unset for edits to the text
+  newFilePath?: string; // Where a rename moved the file
+  contentUnknown?: boolean; // A deleted file whose text was never loaded
+}
+
+// The edits accepted from one assistant message, reverted as a unit
+export interface AiChangeset {
+  messageId: string;
+  files: FileChange[];
 }
@@ -1,4 +1,4 @@
-import { defineConfig } from 'vitest/config';
+import { configDefaults, defineConfig } from 'vitest/config';
 import { resolve } from 'path';
 
 export default defineConfig({
@@ -7,6 +7,7 @@ export default defineConfig({
     globals: true,
     setupFiles: ['./@__tests__/setup.ts'],
     css: false, // Disable CSS processing for tests
+    exclude: [...configDefaults.exclude, 'agent_server/**'], // Has its own vitest setup
   },
   resolve: {
     alias: {